@@ -1,11 +1,45 @@
 import { useMemo, useState, useCallback, useRef, useEffect } from 'react';
 import './App.css';
-import { usePlotState } from './hooks/usePlotState';
-import { FunctionInput, PlotSettings, ModeSelector, ContourInput } from './components/Controls';
-import { DomainColoring, ContourPlot, IntegralVisualization } from './components/Plot2D';
-import { Surface3D } from './components/Plot3D';
-import { mathEngine } from './math';
-import type { ContourIntegralData } from './types';
+import { usePlotState, ESCAPE_WINDOWS } from './hooks/usePlotState';
+import { useAsyncPlotData } from './hooks/useAsyncPlotData';
+import { useArgumentCount } from './hooks/useArgumentCount';
+import { useSweepFrames } from './hooks/useSweepFrames';
+import {
+  FunctionInput,
+  PlotSettings,
+  ModeSelector,
+  ContourInput,
+  ParameterPanel,
+  SweepControls,
+  EscapeTimeControls,
+  ConformalGridControls,
+  VectorFieldControls,
+  SeriesControls,
+  RiemannSphereControls,
+  MobiusEditor,
+  PhasePortraitControls,
+  TextureMapControls,
+  ZeroPoleList,
+} from './components/Controls';
+import {
+  DomainColoring,
+  ContourPlot,
+  IntegralVisualization,
+  ArgumentPrincipleView,
+  ConformalGridPlot,
+  VectorFieldPlot,
+} from './components/Plot2D';
+import { Surface3D, RiemannSurface, RiemannSphere } from './components/Plot3D';
+import { mathEngine, sweepValue, contourRange, formatPoint, differentiateMap, basinColorScale, analyzeMobius, portraitPresets } from './math';
+import type {
+  ArgumentPrincipleData,
+  AsyncEvaluationOptions,
+  ComplexPoint,
+  ContourIntegralData,
+  MobiusConfig,
+  ParameterSweep,
+  ParameterValues,
+} from './types';
 
 function App() {
   const {
@@ -19,14 +53,37 @@ function App() {
     setResolution,
     setColorBy,
     setHeightBy,
+    setRiemannSurface,
+    setEscapeTime,
+    setEscapePlane,
+    setNewton,
+    setConformalGrid,
+    setVectorField,
+    setSeries,
+    setRiemannSphere,
+    setDomainColoring,
+    setMobius,
+    setTextureMap,
     resetToDefaults,
     currentConfig,
     // Contour-specific
     addContour,
     removeContour,
     updateContour,
+    // Parameters
+    addParameter,
+    removeParameter,
+    updateParameter,
+    setSweep,
   } = usePlotState();
 
+  // Parameter values by name, in scope in every expression
+  const parameterValues: ParameterValues = useMemo(
+    () => Object.fromEntries(state.parameters.map((p) => [p.name, p.value])),
+    [state.parameters]
+  );
+  const parameterNames = useMemo(() => state.parameters.map((p) => p.name), [state.parameters]);
+
   // Animation state for contour mode
   const [isAnimatingAll, setIsAnimatingAll] = useState(false);
   const [animatingContourIds, setAnimatingContourIds] = useState<Set<string>>(new Set());
@@ -36,6 +93,14 @@ function App() {
   const [animationProgress, setAnimationProgress] = useState(0);
   const animationFrameRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
+
+  // Argument principle view state (shares the split view with the integral)
+  const [showingArgumentId, setShowingArgumentId] = useState<string | null>(null);
+
+  // Parameter sweep playback: position along the sweep, 0 to 1
+  const [isSweepPlaying, setIsSweepPlaying] = useState(false);
+  const [sweepPosition, setSweepPosition] = useState(0);
+  const sweepFrameRef = useRef<number | null>(null);
   
   const toggleAnimationAll = useCallback(() => {
     setIsAnimatingAll(prev => !prev);
@@ -71,6 +136,12 @@ function App() {
       setIsAnimatingAll(false);
       return id;
     });
+    setShowingArgumentId(null);
+  }, []);
+
+  const toggleShowArgument = useCallback((id: string) => {
+    setShowingArgumentId(prev => (prev === id ? null : id));
+    setShowingIntegralId(null);
   }, []);
 
   // Stop animation when switching modes
@@ -78,9 +149,38 @@ function App() {
     setIsAnimatingAll(false);
     setAnimatingContourIds(new Set());
     setShowingIntegralId(null);
+    setShowingArgumentId(null);
+    setIsSweepPlaying(false);
     setMode(mode);
   }, [setMode]);
   
+  // The Möbius editor serves the modes whose f(z) it can drive
+  const showMobius = state.mode === 'contour' || state.mode === 'domainColoring';
+  const mobiusAnalysis = useMemo(
+    () => (showMobius ? analyzeMobius(state.mobius) : null),
+    [showMobius, state.mobius]
+  );
+
+  // Linking writes the map into each contour's f(z) and the domain coloring's; later edits
+  // of the map only follow into those still holding it, so a transform typed since is kept
+  const linkedExpressionRef = useRef<string | null>(null);
+  const handleMobiusChange = useCallback((update: Partial<MobiusConfig>) => {
+    setMobius(update);
+    const next = { ...state.mobius, ...update };
+    const analysis = next.linked ? analyzeMobius(next) : null;
+    if (!analysis) return;
+
+    const previous = linkedExpressionRef.current;
+    const isLinked = (expression: string) => !state.mobius.linked || expression === previous;
+    linkedExpressionRef.current = analysis.expression;
+    if (isLinked(state.domainColoring.expression)) {
+      setDomainColoring({ expression: analysis.expression });
+    }
+    state.contour.contours
+      .filter((contour) => isLinked(contour.transformFunction))
+      .forEach((contour) => updateContour(contour.id, { transformFunction: analysis.expression }));
+  }, [state.mobius, state.domainColoring.expression, state.contour.contours, setMobius, setDomainColoring, updateContour]);
+
   // Get the contour entry for integral visualization
   const integralContour = useMemo(() => {
     if (!showingIntegralId) return null;
@@ -90,8 +190,28 @@ function App() {
   // Compute integral data
   const integralData: ContourIntegralData | null = useMemo(() => {
     if (!integralContour) return null;
-    return mathEngine.evaluateContourIntegral(integralContour);
-  }, [integralContour]);
+    return mathEngine.evaluateContourIntegral(integralContour, parameterValues);
+  }, [integralContour, parameterValues]);
+  
+  // Compute argument principle data: the winding at once, and the zeros and
+  // poles inside γ that cross-check it from a grid search on the worker pool
+  const argumentWinding: ArgumentPrincipleData | null = useMemo(() => {
+    if (!showingArgumentId) return null;
+    const contour = state.contour.contours.find(c => c.id === showingArgumentId);
+    return contour ? mathEngine.evaluateArgumentPrinciple(contour, parameterValues) : null;
+  }, [showingArgumentId, state.contour.contours, parameterValues]);
+
+  const argumentCountRequest = useMemo(() => {
+    if (!argumentWinding) return null;
+    return (options: AsyncEvaluationOptions) =>
+      mathEngine.countArgumentPrincipleAsync(argumentWinding, parameterValues, options);
+  }, [argumentWinding, parameterValues]);
+  const argumentCount = useArgumentCount(argumentCountRequest);
+
+  const argumentData: ArgumentPrincipleData | null = useMemo(
+    () => (argumentWinding && argumentCount.count ? { ...argumentWinding, ...argumentCount.count } : argumentWinding),
+    [argumentWinding, argumentCount.count]
+  );
   
   // Animation loop for integral visualization
   const isIntegralAnimating = showingIntegralId !== null && 
@@ -107,7 +227,8 @@ function App() {
     }
     
     const speed = integralContour.animationSpeed ?? 5;
-    const tRange = integralContour.tMax - integralContour.tMin;
+    const { tMin, tMax } = contourRange(integralContour);
+    const tRange = tMax - tMin;
     
     const animate = (timestamp: number) => {
       if (!lastTimeRef.current) {
@@ -151,25 +272,215 @@ function App() {
   const yMax = 'yMax' in currentConfig ? currentConfig.yMax : 2;
   const resolution = 'resolution' in currentConfig ? currentConfig.resolution : 256;
   const colorBy = 'colorBy' in currentConfig ? currentConfig.colorBy : 'argument';
-  const heightBy = state.surface3d.heightBy;
+  const heightBy = state.mode === 'riemannSurface' ? state.riemannSurface.heightBy : state.surface3d.heightBy;
   const zMin = state.surface3d.zMin;
   const zMax = state.surface3d.zMax;
 
-  // Generate plot data based on current mode
+  // Generate plot data based on current mode (the sphere can draw the contours too)
+  const showSphereContours = state.mode === 'riemannSphere' && state.riemannSphere.showContours;
   const contourData = useMemo(() => {
-    if (state.mode !== 'contour') return [];
-    return mathEngine.evaluateContour(state.contour);
-  }, [state.mode, state.contour]);
+    if (state.mode !== 'contour' && !showSphereContours) return [];
+    return mathEngine.evaluateContour({ ...state.contour, parameters: parameterValues });
+  }, [state.mode, showSphereContours, state.contour, parameterValues]);
+
+  // Riemann surfaces are small meshes, built synchronously
+  const riemannSurfaceData = useMemo(() => {
+    if (state.mode !== 'riemannSurface') return null;
+    return mathEngine.evaluateRiemannSurface({ ...state.riemannSurface, parameters: parameterValues });
+  }, [state.mode, state.riemannSurface, parameterValues]);
+
+  // Conformal grids are a few dozen sampled curves, built synchronously
+  const conformalGridData = useMemo(() => {
+    if (state.mode !== 'conformalGrid') return null;
+    return mathEngine.evaluateConformalGrid({ ...state.conformalGrid, parameters: parameterValues });
+  }, [state.mode, state.conformalGrid, parameterValues]);
+
+  // Pólya fields sample f on one grid and trace a handful of streamlines, built synchronously
+  const vectorFieldData = useMemo(() => {
+    if (state.mode !== 'vectorField') return null;
+    return mathEngine.evaluateVectorField({ ...state.vectorField, parameters: parameterValues });
+  }, [state.mode, state.vectorField, parameterValues]);
+
+  // Series coefficients for the sidebar list and the plotted circles (the workers expand f again)
+  const seriesData = useMemo(() => {
+    if (state.mode !== 'series') return null;
+    return mathEngine.evaluateSeries({ ...state.series, parameters: parameterValues });
+  }, [state.mode, state.series, parameterValues]);
+
+  // The sphere grid is a few thousand points, built synchronously like the Riemann surfaces
+  const riemannSphereData = useMemo(() => {
+    if (state.mode !== 'riemannSphere') return null;
+    return mathEngine.evaluateRiemannSphere({ ...state.riemannSphere, parameters: parameterValues });
+  }, [state.mode, state.riemannSphere, parameterValues]);
+
+  // Grid line hovered in either conformal grid pane
+  const [highlightedLineId, setHighlightedLineId] = useState<string | null>(null);
+
+  // Grid modes are evaluated on the worker pool so the UI stays responsive
+  const domainColoringRequest = useMemo(() => {
+    if (state.mode !== 'domainColoring') return null;
+    const config = { ...state.domainColoring, parameters: parameterValues };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateDomainColoringAsync(config, options);
+  }, [state.mode, state.domainColoring, parameterValues]);
+
+  const surface3DRequest = useMemo(() => {
+    if (state.mode !== 'surface3d') return null;
+    const config = { ...state.surface3d, parameters: parameterValues };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateSurface3DAsync(config, options);
+  }, [state.mode, state.surface3d, parameterValues]);
+
+  const escapeTimeRequest = useMemo(() => {
+    if (state.mode !== 'escapeTime') return null;
+    const config = { ...state.escapeTime, parameters: parameterValues };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateEscapeTimeAsync(config, options);
+  }, [state.mode, state.escapeTime, parameterValues]);
+
+  // Julia set of the c picked in the parameter plane, shown beside it
+  const linkedJuliaRequest = useMemo(() => {
+    if (state.mode !== 'escapeTime' || state.escapeTime.plane !== 'parameter') return null;
+    const config = {
+      ...state.escapeTime,
+      ...ESCAPE_WINDOWS.dynamic,
+      plane: 'dynamic' as const,
+      parameters: parameterValues,
+    };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateEscapeTimeAsync(config, options);
+  }, [state.mode, state.escapeTime, parameterValues]);
+
+  const newtonRequest = useMemo(() => {
+    if (state.mode !== 'newton') return null;
+    const config = { ...state.newton, parameters: parameterValues };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateNewtonAsync(config, options);
+  }, [state.mode, state.newton, parameterValues]);
+
+  const seriesRequest = useMemo(() => {
+    if (state.mode !== 'series') return null;
+    const config = { ...state.series, parameters: parameterValues };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateSeriesAsync(config, options);
+  }, [state.mode, state.series, parameterValues]);
+
+  const textureMapRequest = useMemo(() => {
+    if (state.mode !== 'textureMap') return null;
+    const config = { ...state.textureMap, parameters: parameterValues };
+    return (options: AsyncEvaluationOptions) => mathEngine.evaluateTextureMapAsync(config, options);
+  }, [state.mode, state.textureMap, parameterValues]);
+
+  // f′ as shown in the Newton title (the workers differentiate it the same way)
+  const newtonDerivative = useMemo(() => {
+    if (state.mode !== 'newton') return null;
+    return differentiateMap(state.newton.expression, parameterValues);
+  }, [state.mode, state.newton.expression, parameterValues]);
+
+  const handleEscapePick = useCallback((c: ComplexPoint) => {
+    setEscapeTime({ c });
+  }, [setEscapeTime]);
+
+  // Sweep frames are precomputed for the grid modes (the swept parameter's own value is ignored)
+  const sweepParameter = state.parameters.find((p) => p.id === state.sweep?.parameterId) ?? null;
+  const sweepRequest = useMemo(() => {
+    const sweep = state.sweep;
+    if (!sweep || !sweepParameter) return null;
+    const name = sweepParameter.name;
+    if (state.mode === 'domainColoring') {
+      const config = { ...state.domainColoring, parameters: parameterValues };
+      return (options: AsyncEvaluationOptions) =>
+        mathEngine.evaluateDomainColoringSweepAsync(config, name, sweep, options);
+    }
+    if (state.mode === 'surface3d') {
+      const config = { ...state.surface3d, parameters: parameterValues };
+      return (options: AsyncEvaluationOptions) =>
+        mathEngine.evaluateSurface3DSweepAsync(config, name, sweep, options);
+    }
+    return null;
+  }, [state.mode, state.domainColoring, state.surface3d, state.sweep, sweepParameter, parameterValues]);
+
+  const sweepJob = useSweepFrames(sweepRequest);
+  const sweepFrames = sweepJob.frames;
+  const sweepFrame = sweepFrames && sweepFrames.length > 0
+    ? sweepFrames[Math.round(sweepPosition * (sweepFrames.length - 1))]
+    : null;
+
+  // Playback loop: one pass of the sweep every `duration` seconds, then wrap
+  const sweepDuration = state.sweep?.duration ?? 1;
+  const isSweepAnimating = isSweepPlaying && sweepFrames !== null;
+  useEffect(() => {
+    if (!isSweepAnimating) return;
+
+    let last: number | null = null;
+    const step = (timestamp: number) => {
+      if (last !== null) {
+        const delta = (timestamp - last) / (1000 * sweepDuration);
+        setSweepPosition((prev) => (prev + delta) % 1);
+      }
+      last = timestamp;
+      sweepFrameRef.current = requestAnimationFrame(step);
+    };
+    sweepFrameRef.current = requestAnimationFrame(step);
+
+    return () => {
+      if (sweepFrameRef.current) {
+        cancelAnimationFrame(sweepFrameRef.current);
+        sweepFrameRef.current = null;
+      }
+    };
+  }, [isSweepAnimating, sweepDuration]);
+
+  const handleSweepScrub = useCallback((position: number) => {
+    setIsSweepPlaying(false);
+    setSweepPosition(position);
+  }, []);
+
+  const handleSweepChange = useCallback((sweep: ParameterSweep | null) => {
+    if (!sweep) setIsSweepPlaying(false);
+    setSweep(sweep);
+  }, [setSweep]);
+
+  // Title suffix naming the swept parameter's value in the frame on screen
+  const sweepLabel = sweepFrame && sweepParameter && state.sweep
+    ? (() => {
+        const v = sweepValue(state.sweep, sweepPosition);
+        const im = v.im === 0 ? '' : ` ${v.im < 0 ? '-' : '+'} ${Math.abs(v.im).toFixed(3)}i`;
+        return ` · ${sweepParameter.name} = ${v.re.toFixed(3)}${im}`;
+      })()
+    : '';
 
-  const domainColoringData = useMemo(() => {
-    if (state.mode !== 'domainColoring') return { z: [], colors: [] };
-    return mathEngine.evaluateDomainColoring(state.domainColoring);
-  }, [state.mode, state.domainColoring]);
+  const domainColoringJob = useAsyncPlotData(domainColoringRequest, { x: [], y: [], z: [], colors: [] });
+  const surface3DJob = useAsyncPlotData(surface3DRequest, { x: [], y: [], z: [], colors: [] });
+  const escapeTimeJob = useAsyncPlotData(escapeTimeRequest, { x: [], y: [], z: [], colors: [] });
+  const linkedJuliaJob = useAsyncPlotData(linkedJuliaRequest, { x: [], y: [], z: [], colors: [] });
+  const newtonJob = useAsyncPlotData(newtonRequest, { x: [], y: [], z: [], colors: [] });
+  const newtonRoots = newtonJob.data.zerosAndPoles ?? [];
+  const seriesJob = useAsyncPlotData(seriesRequest, { x: [], y: [], z: [], colors: [] });
+  const textureMapJob = useAsyncPlotData(textureMapRequest, { x: [], y: [], z: [], colors: [] });
 
-  const surface3DData = useMemo(() => {
-    if (state.mode !== 'surface3d') return { x: [], y: [], z: [], colors: [] };
-    return mathEngine.evaluateSurface3D(state.surface3d);
-  }, [state.mode, state.surface3d]);
+  // "Z2 · 7.4 steps" for each sample of the basins
+  const newtonHoverText = useMemo(() => {
+    const { z, colors } = newtonJob.data;
+    const roots = newtonJob.data.zerosAndPoles ?? [];
+    return colors.map((row, j) => row.map((value, i) => {
+      const root = roots[Math.floor(value)];
+      return root ? `${root.label} · ${z[j][i].toFixed(1)} steps` : 'No root reached';
+    }));
+  }, [newtonJob.data]);
+  const domainColoringData = sweepFrame ?? domainColoringJob.data;
+  const surface3DData = sweepFrame ?? surface3DJob.data;
+
+  // Busy state of the job behind the current plot
+  const activeJob = state.mode === 'domainColoring'
+    ? domainColoringJob
+    : state.mode === 'surface3d'
+      ? surface3DJob
+      : state.mode === 'escapeTime'
+        ? escapeTimeJob
+        : state.mode === 'newton'
+          ? newtonJob
+          : state.mode === 'series'
+            ? seriesJob
+            : state.mode === 'textureMap'
+              ? textureMapJob
+              : null;
+  // Zeros and poles of the sweep frame on show, or else of the current plot
+  const shownZerosAndPoles = (sweepFrame ?? activeJob?.data)?.zerosAndPoles;
 
   // Render the appropriate plot based on mode
   const renderPlot = () => {
@@ -182,30 +493,60 @@ function App() {
             yRange={[-4, 4]}
             isAnimatingAll={isAnimatingAll}
             animatingContourIds={animatingContourIds}
+            poles={integralData?.residues?.poles}
           />
         );
 
       case 'domainColoring':
         if (domainColoringData.colors.length === 0) {
+          if (domainColoringJob.busy) return null;
           return (
             <div className="plot-placeholder">
               <p>Enter a valid expression like <code>z^2</code></p>
             </div>
           );
         }
+        // The residual replaces the coloring once the full-resolution grid is in
+        if (state.domainColoring.overlay === 'cauchyRiemann' && domainColoringData.holomorphy) {
+          const { residual, threshold } = domainColoringData.holomorphy;
+          return (
+            <DomainColoring
+              x={domainColoringData.x}
+              y={domainColoringData.y}
+              z={domainColoringData.z}
+              colors={residual}
+              xRange={[state.domainColoring.xMin, state.domainColoring.xMax]}
+              yRange={[state.domainColoring.yMin, state.domainColoring.yMax]}
+              colorBy={state.domainColoring.colorBy}
+              colorScale="Hot"
+              colorBarTitle="log₁₀ |∂f/∂z̄| / (|∂f/∂z| + |∂f/∂z̄|)"
+              colorRange={[-12, 0]}
+              title={`Cauchy–Riemann residual of f(z) = ${state.domainColoring.expression}`}
+              zerosAndPoles={domainColoringData.zerosAndPoles}
+              branchCuts={domainColoringData.branchCuts}
+              outline={{ values: residual, level: threshold, label: 'Not holomorphic', color: '#00d4ff' }}
+            />
+          );
+        }
         return (
           <DomainColoring
+            x={domainColoringData.x}
+            y={domainColoringData.y}
             z={domainColoringData.z}
             colors={domainColoringData.colors}
             xRange={[state.domainColoring.xMin, state.domainColoring.xMax]}
             yRange={[state.domainColoring.yMin, state.domainColoring.yMax]}
             colorBy={state.domainColoring.colorBy}
-            title={`f(z) = ${state.domainColoring.expression}`}
+            title={`f(z) = ${state.domainColoring.expression}${sweepLabel}`}
+            zerosAndPoles={domainColoringData.zerosAndPoles}
+            branchCuts={domainColoringData.branchCuts}
+            image={domainColoringData.image}
           />
         );
 
       case 'surface3d':
         if (surface3DData.z.length === 0) {
+          if (surface3DJob.busy) return null;
           return (
             <div className="plot-placeholder">
               <p>Enter a valid expression like <code>z^2</code></p>
@@ -219,6 +560,223 @@ function App() {
           />
         );
 
+      case 'riemannSurface':
+        if (!riemannSurfaceData || riemannSurfaceData.i.length === 0) {
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a multivalued expression like <code>sqrt(z)</code> or <code>log(z)</code></p>
+            </div>
+          );
+        }
+        return (
+          <RiemannSurface
+            data={riemannSurfaceData}
+            config={state.riemannSurface}
+          />
+        );
+
+      case 'escapeTime': {
+        const isParameter = state.escapeTime.plane === 'parameter';
+        if (escapeTimeJob.data.colors.length === 0) {
+          if (escapeTimeJob.busy) return null;
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a map like <code>z^2 + c</code></p>
+            </div>
+          );
+        }
+        return (
+          <DomainColoring
+            x={escapeTimeJob.data.x}
+            y={escapeTimeJob.data.y}
+            z={escapeTimeJob.data.z}
+            colors={escapeTimeJob.data.colors}
+            xRange={[state.escapeTime.xMin, state.escapeTime.xMax]}
+            yRange={[state.escapeTime.yMin, state.escapeTime.yMax]}
+            colorBy="modulus"
+            colorScale="Electric"
+            colorBarTitle="log(1 + n)"
+            variable={isParameter ? 'c' : 'z'}
+            title={isParameter
+              ? `z ↦ ${state.escapeTime.expression} · z₀ = ${formatPoint(state.escapeTime.critical)}`
+              : `z ↦ ${state.escapeTime.expression} · c = ${formatPoint(state.escapeTime.c)}`}
+            onPick={isParameter ? handleEscapePick : undefined}
+            marker={isParameter ? { location: state.escapeTime.c, label: 'c' } : undefined}
+          />
+        );
+      }
+
+      case 'newton':
+        if (newtonJob.data.colors.length === 0) {
+          if (newtonJob.busy) return null;
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a function like <code>z^3 - 1</code></p>
+            </div>
+          );
+        }
+        return (
+          <DomainColoring
+            x={newtonJob.data.x}
+            y={newtonJob.data.y}
+            z={newtonJob.data.z}
+            colors={newtonJob.data.colors}
+            xRange={[state.newton.xMin, state.newton.xMax]}
+            yRange={[state.newton.yMin, state.newton.yMax]}
+            colorBy="argument"
+            colorScale={basinColorScale(newtonRoots.length)}
+            colorRange={[0, Math.max(newtonRoots.length, 1)]}
+            colorBarTitle="Root"
+            colorBarTicks={{
+              values: newtonRoots.map((_, k) => k + 0.5),
+              labels: newtonRoots.map((root) => root.label),
+            }}
+            hoverText={newtonHoverText}
+            title={`f(z) = ${state.newton.expression} · ${
+              newtonDerivative?.expression ? `f′(z) = ${newtonDerivative.expression}` : 'f′ by finite differences'
+            }`}
+            zerosAndPoles={newtonRoots}
+          />
+        );
+
+      case 'conformalGrid':
+        if (!conformalGridData || conformalGridData.lines.length === 0) {
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a map like <code>exp(z)</code> or <code>z^2</code></p>
+            </div>
+          );
+        }
+        return (
+          <ConformalGridPlot
+            lines={conformalGridData.lines}
+            side="preimage"
+            range={conformalGridData.preimageRange}
+            title="z-plane"
+            highlightedId={highlightedLineId}
+            onHighlight={setHighlightedLineId}
+          />
+        );
+
+      case 'vectorField':
+        if (!vectorFieldData || vectorFieldData.speed.z.length === 0) {
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a function like <code>1/z</code> or <code>i/z</code></p>
+            </div>
+          );
+        }
+        return (
+          <VectorFieldPlot
+            data={vectorFieldData}
+            xRange={[state.vectorField.xMin, state.vectorField.xMax]}
+            yRange={[state.vectorField.yMin, state.vectorField.yMax]}
+            levels={state.vectorField.levels}
+            seeds={state.vectorField.seeds}
+            title={`Pólya field of f(z) = ${state.vectorField.expression}`}
+            onSeed={(seed) => setVectorField({ seeds: [...state.vectorField.seeds, seed] })}
+          />
+        );
+
+      case 'series': {
+        if (seriesJob.data.colors.length === 0) {
+          if (seriesJob.busy) return null;
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a function like <code>1/(1 - z)</code> that is defined on the circle about z₀</p>
+            </div>
+          );
+        }
+        const { view, center, order } = state.series;
+        const sumLabel = `S_${order}`;
+        const circles = seriesData
+          ? [
+              {
+                center,
+                radius: seriesData.circleRadius,
+                label: `Cauchy circle |z − z₀| = ${seriesData.circleRadius.toPrecision(4)}`,
+                color: '#ffffff',
+                dash: 'dot' as const,
+              },
+              {
+                center,
+                radius: seriesData.convergence.outer,
+                label: `Estimated radius of convergence ${seriesData.convergence.outer.toPrecision(4)}`,
+                color: '#50fa7b',
+                dash: 'dash' as const,
+              },
+              {
+                center,
+                radius: seriesData.convergence.inner,
+                label: `Estimated inner radius ${seriesData.convergence.inner.toPrecision(4)}`,
+                color: '#50fa7b',
+                dash: 'dash' as const,
+              },
+            ]
+          : [];
+        return (
+          <DomainColoring
+            x={seriesJob.data.x}
+            y={seriesJob.data.y}
+            z={seriesJob.data.z}
+            colors={seriesJob.data.colors}
+            xRange={[state.series.xMin, state.series.xMax]}
+            yRange={[state.series.yMin, state.series.yMax]}
+            colorBy={view === 'difference' ? 'modulus' : 'argument'}
+            colorBarTitle={
+              view === 'difference' ? `log₁₀|f − ${sumLabel}|` : view === 'partialSum' ? `arg ${sumLabel}(z)` : undefined
+            }
+            title={`${view === 'function' ? 'f' : view === 'partialSum' ? sumLabel : `f − ${sumLabel}`} · ` +
+              `${state.series.kind === 'taylor' ? 'Taylor' : 'Laurent'} series of ${state.series.expression} ` +
+              `about ${formatPoint(center)}`}
+            zerosAndPoles={seriesJob.data.zerosAndPoles}
+            circles={circles}
+            onPick={(point) => setSeries({ center: point })}
+            marker={{ location: center, label: 'z₀' }}
+          />
+        );
+      }
+
+      case 'riemannSphere':
+        if (!riemannSphereData || riemannSphereData.colors.length === 0) {
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a valid expression like <code>(z - 1)/(z + 1)</code></p>
+            </div>
+          );
+        }
+        return (
+          <RiemannSphere
+            data={riemannSphereData}
+            config={state.riemannSphere}
+            contours={contourData}
+          />
+        );
+
+      case 'textureMap':
+        if (textureMapJob.data.colors.length === 0) {
+          if (textureMapJob.busy) return null;
+          return (
+            <div className="plot-placeholder">
+              <p>Enter a valid expression like <code>z^2</code></p>
+            </div>
+          );
+        }
+        return (
+          <DomainColoring
+            x={textureMapJob.data.x}
+            y={textureMapJob.data.y}
+            z={textureMapJob.data.z}
+            colors={textureMapJob.data.colors}
+            xRange={[state.textureMap.xMin, state.textureMap.xMax]}
+            yRange={[state.textureMap.yMin, state.textureMap.yMax]}
+            colorBy="argument"
+            title={`Texture pulled back by f(z) = ${state.textureMap.expression}`}
+            zerosAndPoles={textureMapJob.data.zerosAndPoles}
+            image={textureMapJob.data.image}
+          />
+        );
+
       default:
         return null;
     }
@@ -239,6 +797,10 @@ function App() {
           onToggleContourAnimation={toggleContourAnimation}
           showingIntegralId={showingIntegralId}
           onToggleShowIntegral={toggleShowIntegral}
+          showingArgumentId={showingArgumentId}
+          onToggleShowArgument={toggleShowArgument}
+          parameterNames={parameterNames}
+          parameterValues={parameterValues}
         />
       );
     }
@@ -250,12 +812,18 @@ function App() {
         expression={expression}
         mode={state.mode}
         onChange={setExpression}
+        parameterNames={parameterNames}
+        holomorphy={sweepFrame ? undefined : activeJob?.data.holomorphy}
       />
     );
   };
   
-  // Whether to show split view for integral visualization
-  const showIntegralSplit = state.mode === 'contour' && integralData !== null;
+  // Split view: the integral or argument principle beside a contour, the
+  // linked Julia set beside the parameter plane, or a grid beside its image
+  const showJulia = linkedJuliaRequest !== null;
+  const showGridImage = conformalGridData !== null && conformalGridData.lines.length > 0;
+  const showContourSplit = state.mode === 'contour' && (integralData !== null || argumentData !== null);
+  const showSplit = showContourSplit || showJulia || showGridImage;
 
   return (
     <div className="app">
@@ -289,7 +857,70 @@ function App() {
             {renderInputSection()}
           </div>
 
-          {state.mode !== 'contour' && (
+          <div className="sidebar-section">
+            <ParameterPanel
+              parameters={state.parameters}
+              onAdd={addParameter}
+              onRemove={removeParameter}
+              onUpdate={updateParameter}
+            />
+          </div>
+
+          {showMobius && (
+            <div className="sidebar-section">
+              <MobiusEditor config={state.mobius} analysis={mobiusAnalysis} onChange={handleMobiusChange} />
+            </div>
+          )}
+
+          {state.mode === 'conformalGrid' && (
+            <div className="sidebar-section">
+              <ConformalGridControls config={state.conformalGrid} onChange={setConformalGrid} />
+            </div>
+          )}
+
+          {state.mode === 'series' && (
+            <div className="sidebar-section">
+              <SeriesControls config={state.series} series={seriesData} onChange={setSeries} />
+            </div>
+          )}
+
+          {state.mode === 'domainColoring' && state.domainColoring.rendering === 'portrait' && (
+            <div className="sidebar-section">
+              <PhasePortraitControls
+                options={state.domainColoring.portrait ?? portraitPresets.modulus}
+                onChange={(portrait) => setDomainColoring({ portrait })}
+              />
+            </div>
+          )}
+
+          {state.mode === 'riemannSphere' && (
+            <div className="sidebar-section">
+              <RiemannSphereControls
+                config={state.riemannSphere}
+                infinity={riemannSphereData?.infinity ?? null}
+                hasContours={contourData.length > 0}
+                onChange={setRiemannSphere}
+              />
+            </div>
+          )}
+
+          {state.mode === 'textureMap' && (
+            <div className="sidebar-section">
+              <TextureMapControls config={state.textureMap} onChange={setTextureMap} />
+            </div>
+          )}
+
+          {state.mode === 'vectorField' && (
+            <div className="sidebar-section">
+              <VectorFieldControls
+                config={state.vectorField}
+                potentialMatches={vectorFieldData?.potentialMatches ?? null}
+                onChange={setVectorField}
+              />
+            </div>
+          )}
+
+          {state.mode !== 'contour' && state.mode !== 'conformalGrid' && (
             <div className="sidebar-section">
               <PlotSettings
                 mode={state.mode}
@@ -312,17 +943,85 @@ function App() {
                 onResolutionChange={setResolution}
                 onColorByChange={setColorBy}
                 onHeightByChange={setHeightBy}
+                sheets={state.riemannSurface.sheets}
+                onSheetsChange={(sheets) => setRiemannSurface({ sheets })}
+                damping={state.newton.damping}
+                maxIterations={state.newton.maxIterations}
+                onDampingChange={(damping) => setNewton({ damping })}
+                onMaxIterationsChange={(maxIterations) => setNewton({ maxIterations })}
+                overlay={state.domainColoring.overlay}
+                onOverlayChange={(overlay) => setDomainColoring({ overlay })}
+                rendering={state.domainColoring.rendering}
+                onRenderingChange={(rendering) => setDomainColoring({ rendering })}
+              />
+            </div>
+          )}
+
+          {state.mode === 'escapeTime' && (
+            <div className="sidebar-section">
+              <EscapeTimeControls
+                config={state.escapeTime}
+                onChange={setEscapeTime}
+                onPlaneChange={setEscapePlane}
+              />
+            </div>
+          )}
+
+          {(state.mode === 'domainColoring' || state.mode === 'surface3d') && (
+            <div className="sidebar-section">
+              <SweepControls
+                parameters={state.parameters}
+                sweep={state.sweep}
+                onChange={handleSweepChange}
+                playing={isSweepPlaying}
+                onTogglePlay={() => setIsSweepPlaying((prev) => !prev)}
+                position={sweepPosition}
+                onScrub={handleSweepScrub}
+                busy={sweepJob.busy}
+                progress={sweepJob.progress}
+                error={sweepJob.error}
               />
             </div>
           )}
+
+          {shownZerosAndPoles && (
+            <div className="sidebar-section">
+              <ZeroPoleList zerosAndPoles={shownZerosAndPoles} />
+            </div>
+          )}
+
+          {riemannSphereData && (
+            <div className="sidebar-section">
+              <ZeroPoleList zerosAndPoles={riemannSphereData.zerosAndPoles} />
+            </div>
+          )}
         </aside>
 
         {/* Main Plot Area */}
-        <main className={`app-main ${showIntegralSplit ? 'split' : ''}`}>
-          <div className={`plot-container ${showIntegralSplit ? 'split-left' : ''}`}>
+        <main className={`app-main ${showSplit ? 'split' : ''}`}>
+          <div className={`plot-container ${showSplit ? 'split-left' : ''}`}>
             {renderPlot()}
+            {activeJob?.busy && (
+              <div className="plot-busy" role="status">
+                <div className="plot-busy__spinner" />
+                <span className="plot-busy__label">
+                  Computing… {Math.round(activeJob.progress * 100)}%
+                </span>
+                <div className="plot-busy__bar">
+                  <div
+                    className="plot-busy__bar-fill"
+                    style={{ width: `${activeJob.progress * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {activeJob?.error && (
+              <div className="plot-busy plot-busy--error" role="alert">
+                Evaluation failed: {activeJob.error}
+              </div>
+            )}
           </div>
-          {showIntegralSplit && integralData && (
+          {showContourSplit && integralData && (
             <div className="plot-container split-right">
               <IntegralVisualization
                 integralData={integralData}
@@ -331,6 +1030,55 @@ function App() {
               />
             </div>
           )}
+          {showJulia && (
+            <div className="plot-container split-right">
+              {linkedJuliaJob.data.colors.length > 0 && (
+                <DomainColoring
+                  x={linkedJuliaJob.data.x}
+                  y={linkedJuliaJob.data.y}
+                  z={linkedJuliaJob.data.z}
+                  colors={linkedJuliaJob.data.colors}
+                  xRange={[ESCAPE_WINDOWS.dynamic.xMin, ESCAPE_WINDOWS.dynamic.xMax]}
+                  yRange={[ESCAPE_WINDOWS.dynamic.yMin, ESCAPE_WINDOWS.dynamic.yMax]}
+                  colorBy="modulus"
+                  colorScale="Electric"
+                  colorBarTitle="log(1 + n)"
+                  title={`Julia set · c = ${formatPoint(state.escapeTime.c)}`}
+                />
+              )}
+              {linkedJuliaJob.busy && (
+                <div className="plot-busy" role="status">
+                  <div className="plot-busy__spinner" />
+                  <span className="plot-busy__label">
+                    Computing… {Math.round(linkedJuliaJob.progress * 100)}%
+                  </span>
+                  <div className="plot-busy__bar">
+                    <div
+                      className="plot-busy__bar-fill"
+                      style={{ width: `${linkedJuliaJob.progress * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {showGridImage && (
+            <div className="plot-container split-right">
+              <ConformalGridPlot
+                lines={conformalGridData.lines}
+                side="image"
+                range={conformalGridData.imageRange}
+                title={`w = ${state.conformalGrid.expression}`}
+                highlightedId={highlightedLineId}
+                onHighlight={setHighlightedLineId}
+              />
+            </div>
+          )}
+          {showContourSplit && argumentData && (
+            <div className="plot-container split-right">
+              <ArgumentPrincipleView data={argumentData} counting={argumentCount.busy} />
+            </div>
+          )}
         </main>
       </div>
     </div>
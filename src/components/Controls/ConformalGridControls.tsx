@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { evaluate } from 'mathjs';
+import type { ConformalGridConfig, ConformalGridKind } from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { formatPoint } from '../../math/contourPath';
+import './ConformalGridControls.css';
+
+export interface ConformalGridControlsProps {
+  config: ConformalGridConfig;
+  onChange: (config: Partial<ConformalGridConfig>) => void;
+}
+
+const kindLabels: Record<ConformalGridKind, string> = {
+  cartesian: 'Cartesian',
+  polar: 'Polar',
+};
+
+// Odd counts put a line through the middle of a symmetric window
+const lineCountOptions = [5, 9, 13, 17, 25];
+const stepOptions = [200, 400, 800, 1600];
+
+/**
+ * Evaluate a real constant such as "2" or "pi/2" (null if it is not one)
+ */
+function parseRealInput(text: string): number | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Math.abs(value.im) < 1e-10 ? value.re : null;
+  } catch {
+    return null;
+  }
+}
+
+interface BoundInputProps {
+  label: string;
+  value: number;
+  /** Whether a parsed value may be committed */
+  accept: (value: number) => boolean;
+  onChange: (value: number) => void;
+}
+
+const BoundInput: React.FC<BoundInputProps> = ({ label, value, accept, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseRealInput(draft);
+    const valid = parsed !== null && accept(parsed);
+    setError(!valid);
+    if (valid) {
+      setDraft(null);
+      if (parsed !== value) {
+        onChange(parsed);
+      }
+    }
+  };
+
+  return (
+    <label className="grid-controls__field">
+      <span className="grid-controls__label">{label}</span>
+      <input
+        type="text"
+        className={`grid-controls__input ${error ? 'error' : ''}`}
+        value={draft ?? formatPoint({ re: value, im: 0 })}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+};
+
+/**
+ * Grid kind, window and line settings of the conformal grid mode
+ */
+export const ConformalGridControls: React.FC<ConformalGridControlsProps> = ({ config, onChange }) => {
+  const isPolar = config.kind === 'polar';
+
+  return (
+    <div className="grid-controls">
+      <div className="grid-controls__header">
+        <span className="grid-controls__title">Grid</span>
+        <div className="grid-controls__kinds">
+          {(Object.keys(kindLabels) as ConformalGridKind[]).map((kind) => (
+            <button
+              key={kind}
+              className={`grid-controls__kind ${config.kind === kind ? 'active' : ''}`}
+              onClick={() => onChange({ kind })}
+            >
+              {kindLabels[kind]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isPolar ? (
+        <div className="grid-controls__row">
+          <BoundInput label="|z| from" value={config.rMin}
+            accept={(r) => r >= 0 && r < config.rMax} onChange={(rMin) => onChange({ rMin })} />
+          <BoundInput label="|z| to" value={config.rMax}
+            accept={(r) => r > config.rMin} onChange={(rMax) => onChange({ rMax })} />
+        </div>
+      ) : (
+        <>
+          <div className="grid-controls__row">
+            <BoundInput label="Re from" value={config.xMin}
+              accept={(x) => x < config.xMax} onChange={(xMin) => onChange({ xMin })} />
+            <BoundInput label="Re to" value={config.xMax}
+              accept={(x) => x > config.xMin} onChange={(xMax) => onChange({ xMax })} />
+          </div>
+          <div className="grid-controls__row">
+            <BoundInput label="Im from" value={config.yMin}
+              accept={(y) => y < config.yMax} onChange={(yMin) => onChange({ yMin })} />
+            <BoundInput label="Im to" value={config.yMax}
+              accept={(y) => y > config.yMin} onChange={(yMax) => onChange({ yMax })} />
+          </div>
+        </>
+      )}
+
+      <div className="grid-controls__row">
+        <label className="grid-controls__field">
+          <span className="grid-controls__label">{isPolar ? 'Circles / rays' : 'Lines per axis'}</span>
+          <select
+            className="grid-controls__select"
+            value={config.lineCount}
+            onChange={(e) => onChange({ lineCount: parseInt(e.target.value) })}
+          >
+            {lineCountOptions.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="grid-controls__field">
+          <span className="grid-controls__label">Samples per line</span>
+          <select
+            className="grid-controls__select"
+            value={config.tSteps}
+            onChange={(e) => onChange({ tSteps: parseInt(e.target.value) })}
+          >
+            {stepOptions.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="grid-controls__hint">Hover a line in either pane to pick it out in both.</p>
+    </div>
+  );
+};
+
+export default ConformalGridControls;
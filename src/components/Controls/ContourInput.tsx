@@ -1,7 +1,10 @@
-import React, { useState, useCallback } from 'react';
-import type { ContourEntry } from '../../types/index';
-import { isValidExpression } from '../../math/parser';
+import React, { useState, useCallback, useMemo } from 'react';
+import type { ContourEntry, ContourSampling, ParameterValues, QuadratureRule } from '../../types/index';
+import { isValidExpression, findUndefinedSymbols } from '../../math/parser';
+import { DEFAULT_ADAPTIVE_TOLERANCE, DEFAULT_ADAPTIVE_MAX_POINTS } from '../../math/generators';
+import { contourPreset, isComposite } from '../../math/contourPath';
 import { compile } from 'mathjs';
+import { ContourPiecesEditor } from './ContourPiecesEditor';
 import './ContourInput.css';
 
 export interface ContourInputProps {
@@ -17,6 +20,14 @@ export interface ContourInputProps {
   showingIntegralId: string | null;
   /** Toggle integral visualization for a specific contour */
   onToggleShowIntegral: (id: string) => void;
+  /** ID of contour currently showing the argument-principle view (only one at a time) */
+  showingArgumentId: string | null;
+  /** Toggle the argument-principle view for a specific contour */
+  onToggleShowArgument: (id: string) => void;
+  /** Names of the user parameters in scope */
+  parameterNames?: string[];
+  /** Values of the user parameters (for checking the joins of composite contours) */
+  parameterValues?: ParameterValues;
 }
 
 // Color palette for contours
@@ -41,6 +52,10 @@ interface ContourRowProps {
   onToggleAnimation: () => void;
   isShowingIntegral: boolean;
   onToggleShowIntegral: () => void;
+  isShowingArgument: boolean;
+  onToggleShowArgument: () => void;
+  parameterNames: string[];
+  parameterValues: ParameterValues;
 }
 
 const ContourRow: React.FC<ContourRowProps> = ({
@@ -53,7 +68,12 @@ const ContourRow: React.FC<ContourRowProps> = ({
   onToggleAnimation,
   isShowingIntegral,
   onToggleShowIntegral,
+  isShowingArgument,
+  onToggleShowArgument,
+  parameterNames,
+  parameterValues,
 }) => {
+  const composite = isComposite(contour);
   const [localExpr, setLocalExpr] = useState(contour.expression);
   const [localTransform, setLocalTransform] = useState(contour.transformFunction || '');
   const [localTMin, setLocalTMin] = useState(String(contour.tMin));
@@ -64,6 +84,26 @@ const ContourRow: React.FC<ContourRowProps> = ({
   const [isTransformFocused, setIsTransformFocused] = useState(false);
   const [expanded, setExpanded] = useState(false);
 
+  // f(z) can also be set from outside the row (by the Möbius editor)
+  const [syncedTransform, setSyncedTransform] = useState(contour.transformFunction);
+  if (contour.transformFunction !== syncedTransform) {
+    setSyncedTransform(contour.transformFunction);
+    setLocalTransform(contour.transformFunction || '');
+    setTransformError(null);
+  }
+
+  // Identifiers that are neither t (in γ) / z (in f), a parameter nor built in
+  const undefinedNames = useMemo(() => {
+    const gammas = composite
+      ? (contour.pieces ?? []).flatMap((piece) => (piece.kind === 'custom' ? [piece.expression] : []))
+      : [localExpr];
+    const names = new Set([
+      ...gammas.flatMap((gamma) => findUndefinedSymbols(gamma, ['t', ...parameterNames])),
+      ...findUndefinedSymbols(localTransform, ['z', ...parameterNames]),
+    ]);
+    return [...names];
+  }, [composite, contour.pieces, localExpr, localTransform, parameterNames]);
+
   const validate = useCallback((expr: string) => {
     if (!expr.trim()) {
       setError('Empty');
@@ -147,6 +187,22 @@ const ContourRow: React.FC<ContourRowProps> = ({
     onUpdate(contour.id, { tSteps: parseInt(e.target.value) });
   };
 
+  const handleSamplingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onUpdate(contour.id, { sampling: e.target.value as ContourSampling });
+  };
+
+  const handleToleranceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onUpdate(contour.id, { tolerance: parseFloat(e.target.value) });
+  };
+
+  const handleMaxPointsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onUpdate(contour.id, { maxPoints: parseInt(e.target.value) });
+  };
+
+  const handleQuadratureChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onUpdate(contour.id, { quadrature: e.target.value as QuadratureRule });
+  };
+
   const handleAnimationSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onUpdate(contour.id, { animationSpeed: parseInt(e.target.value) });
   };
@@ -203,6 +259,9 @@ const ContourRow: React.FC<ContourRowProps> = ({
       <div className="contour-row__main">
         <div className="contour-row__index">
           <span className="contour-row__label">z<sub>{index + 1}</sub>(t) =</span>
+          {undefinedNames.length > 0 && (
+            <span className="contour-row__undefined" title={`Undefined: ${undefinedNames.join(', ')}`}>⚠</span>
+          )}
         </div>
         
         <input
@@ -253,23 +312,47 @@ const ContourRow: React.FC<ContourRowProps> = ({
 
       {expanded && (
         <div className="contour-row__params">
-          <div className="contour-row__expression">
-            <label className="contour-row__param-label">z(t) =</label>
-            <div className={`contour-row__input-wrapper ${isFocused ? 'focused' : ''} ${error ? 'error' : ''}`}>
-              <input
-                type="text"
-                className="contour-row__input"
-                value={localExpr}
-                onChange={handleChange}
-                onBlur={handleBlur}
-                onFocus={() => setIsFocused(true)}
-                onKeyDown={handleKeyDown}
-                placeholder="exp(i * t)"
-                spellCheck={false}
-                autoComplete="off"
-              />
-            </div>
+          <div className="contour-row__mode">
+            <button
+              className={`contour-row__mode-option ${composite ? '' : 'active'}`}
+              onClick={() => composite && onUpdate(contour.id, { pieces: undefined })}
+              title="A single formula z(t) over [t_min, t_max]"
+            >
+              Formula
+            </button>
+            <button
+              className={`contour-row__mode-option ${composite ? 'active' : ''}`}
+              onClick={() => !composite && onUpdate(contour.id, { pieces: contourPreset('rectangle') })}
+              title="Segments, arcs and γ(t) pieces joined into one path"
+            >
+              Pieces
+            </button>
           </div>
+          {composite ? (
+            <ContourPiecesEditor
+              contour={contour}
+              parameters={parameterValues}
+              onChange={(pieces) => onUpdate(contour.id, { pieces })}
+            />
+          ) : (
+            <div className="contour-row__expression">
+              <label className="contour-row__param-label">z(t) =</label>
+              <div className={`contour-row__input-wrapper ${isFocused ? 'focused' : ''} ${error ? 'error' : ''}`}>
+                <input
+                  type="text"
+                  className="contour-row__input"
+                  value={localExpr}
+                  onChange={handleChange}
+                  onBlur={handleBlur}
+                  onFocus={() => setIsFocused(true)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="exp(i * t)"
+                  spellCheck={false}
+                  autoComplete="off"
+                />
+              </div>
+            </div>
+          )}
           <div className="contour-row__transform-group">
             <label className="contour-row__param-label">f(γ(t)) =</label>
             <div className={`contour-row__input-wrapper transform ${isTransformFocused ? 'focused' : ''} ${transformError ? 'error' : ''}`}>
@@ -287,37 +370,44 @@ const ContourRow: React.FC<ContourRowProps> = ({
               />
             </div>
           </div>
-          <div className="contour-row__param-row">
-            <div className="contour-row__param-group">
-              <label className="contour-row__param-label">t ∈</label>
-              <span className="contour-row__param-bracket">[</span>
-              <input
-                type="text"
-                className="contour-row__param-input"
-                value={localTMin}
-                onChange={handleTMinChange}
-                spellCheck={false}
-                inputMode="decimal"
-                placeholder="0"
-              />
-              <span className="contour-row__param-comma">,</span>
-              <input
-                type="text"
-                className="contour-row__param-input"
-                value={localTMax}
-                onChange={handleTMaxChange}
-                spellCheck={false}
-                inputMode="decimal"
-                placeholder="2*pi"
-              />
-              <span className="contour-row__param-bracket">]</span>
+          {undefinedNames.length > 0 && (
+            <div className="contour-row__param-error">
+              Undefined: {undefinedNames.join(', ')} – add {undefinedNames.length === 1 ? 'it' : 'them'} as parameters
             </div>
-            {parsedTMin !== null && parsedTMax !== null && (
+          )}
+          <div className="contour-row__param-row">
+            {!composite && (
+              <div className="contour-row__param-group">
+                <label className="contour-row__param-label">t ∈</label>
+                <span className="contour-row__param-bracket">[</span>
+                <input
+                  type="text"
+                  className="contour-row__param-input"
+                  value={localTMin}
+                  onChange={handleTMinChange}
+                  spellCheck={false}
+                  inputMode="decimal"
+                  placeholder="0"
+                />
+                <span className="contour-row__param-comma">,</span>
+                <input
+                  type="text"
+                  className="contour-row__param-input"
+                  value={localTMax}
+                  onChange={handleTMaxChange}
+                  spellCheck={false}
+                  inputMode="decimal"
+                  placeholder="2*pi"
+                />
+                <span className="contour-row__param-bracket">]</span>
+              </div>
+            )}
+            {!composite && parsedTMin !== null && parsedTMax !== null && (
               <div className="contour-row__param-evaluated">
                 t = [{parsedTMin.toFixed(3)}, {parsedTMax.toFixed(3)}]
               </div>
             )}
-            {hasTRangeError && (
+            {!composite && hasTRangeError && (
               <div className="contour-row__param-error">t_min must be less than t_max</div>
             )}
             <div className="contour-row__param-group">
@@ -352,6 +442,50 @@ const ContourRow: React.FC<ContourRowProps> = ({
               {isAnimating ? 'Stop' : 'Animate'}
             </button>
           </div>
+          <div className="contour-row__param-row">
+            <div className="contour-row__param-group">
+              <label className="contour-row__param-label">Sampling</label>
+              <select
+                className="contour-row__param-select"
+                value={contour.sampling ?? 'uniform'}
+                onChange={handleSamplingChange}
+                title="Adaptive sampling refines where the curve bends sharply and breaks the line at singularities"
+              >
+                <option value="uniform">Uniform</option>
+                <option value="adaptive">Adaptive</option>
+              </select>
+            </div>
+            {contour.sampling === 'adaptive' && (
+              <>
+                <div className="contour-row__param-group">
+                  <label className="contour-row__param-label">Tolerance</label>
+                  <select
+                    className="contour-row__param-select"
+                    value={contour.tolerance ?? DEFAULT_ADAPTIVE_TOLERANCE}
+                    onChange={handleToleranceChange}
+                    title="Max turning angle (radians) between neighbouring segments"
+                  >
+                    <option value={0.2}>Coarse</option>
+                    <option value={0.05}>Normal</option>
+                    <option value={0.01}>Fine</option>
+                  </select>
+                </div>
+                <div className="contour-row__param-group">
+                  <label className="contour-row__param-label">Max points</label>
+                  <select
+                    className="contour-row__param-select"
+                    value={contour.maxPoints ?? DEFAULT_ADAPTIVE_MAX_POINTS}
+                    onChange={handleMaxPointsChange}
+                  >
+                    <option value={500}>500</option>
+                    <option value={1000}>1000</option>
+                    <option value={2000}>2000</option>
+                    <option value={5000}>5000</option>
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
           <div className="contour-row__speed-row">
             <label className="contour-row__param-label">Speed</label>
             <input
@@ -375,11 +509,34 @@ const ContourRow: React.FC<ContourRowProps> = ({
               </svg>
               {isShowingIntegral ? 'Hide ∮' : 'Show ∮'}
             </button>
+            <button
+              className={`contour-row__argument ${isShowingArgument ? 'active' : ''}`}
+              onClick={onToggleShowArgument}
+              title={isShowingArgument
+                ? 'Hide argument principle'
+                : 'Count zeros minus poles inside γ from the winding of f(γ(t)) around 0'}
+            >
+              {isShowingArgument ? 'Hide Z − P' : 'Z − P'}
+            </button>
             {isShowingIntegral && (
               <span className="contour-row__integral-hint">
                 Visualizing ∮f(z)dz
               </span>
             )}
+            <div className="contour-row__param-group">
+              <label className="contour-row__param-label">Rule</label>
+              <select
+                className="contour-row__param-select"
+                value={contour.quadrature ?? 'trapezoid'}
+                onChange={handleQuadratureChange}
+                title="Quadrature rule for ∮f(z)dz"
+              >
+                <option value="trapezoid">Trapezoid</option>
+                <option value="simpson">Simpson</option>
+                <option value="gaussLegendre">Gauss–Legendre</option>
+                <option value="gaussKronrod">Gauss–Kronrod (adaptive)</option>
+              </select>
+            </div>
           </div>
         </div>
       )}
@@ -398,6 +555,10 @@ export const ContourInput: React.FC<ContourInputProps> = ({
   onToggleContourAnimation,
   showingIntegralId,
   onToggleShowIntegral,
+  showingArgumentId,
+  onToggleShowArgument,
+  parameterNames = [],
+  parameterValues = {},
 }) => {
   return (
     <div className="contour-input">
@@ -444,6 +605,10 @@ export const ContourInput: React.FC<ContourInputProps> = ({
             onToggleAnimation={() => onToggleContourAnimation(contour.id)}
             isShowingIntegral={showingIntegralId === contour.id}
             onToggleShowIntegral={() => onToggleShowIntegral(contour.id)}
+            isShowingArgument={showingArgumentId === contour.id}
+            onToggleShowArgument={() => onToggleShowArgument(contour.id)}
+            parameterNames={parameterNames}
+            parameterValues={parameterValues}
           />
         ))}
       </div>
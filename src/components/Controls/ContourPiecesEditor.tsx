@@ -0,0 +1,294 @@
+import React, { useState, useMemo } from 'react';
+import { evaluate } from 'mathjs';
+import type { ComplexPoint, ContourEntry, ContourPiece, ParameterValues } from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { isValidExpression, findUndefinedSymbols } from '../../math/parser';
+import {
+  buildContourPath,
+  contourPreset,
+  createContourPiece,
+  formatAngle,
+  formatPoint,
+  pieceEnd,
+} from '../../math/contourPath';
+import type { ContourPreset } from '../../math/contourPath';
+import './ContourPiecesEditor.css';
+
+export interface ContourPiecesEditorProps {
+  contour: ContourEntry;
+  onChange: (pieces: ContourPiece[]) => void;
+  /** Parameter values in scope in custom pieces */
+  parameters: ParameterValues;
+}
+
+const presetLabels: Record<ContourPreset, string> = {
+  rectangle: 'Rectangle',
+  semicircle: 'Semicircle + diameter',
+  keyhole: 'Keyhole',
+};
+
+const kindLabels: Record<ContourPiece['kind'], string> = {
+  segment: 'Segment',
+  arc: 'Arc',
+  custom: 'γ(t)',
+};
+
+/**
+ * Evaluate a constant expression such as "-1 + 0.5i" or "pi/2" (null if it is not one)
+ */
+function parseComplexInput(text: string): ComplexPoint | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Number.isFinite(value.im) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseRealInput(text: string): number | null {
+  const value = parseComplexInput(text);
+  return value && Math.abs(value.im) < 1e-10 ? value.re : null;
+}
+
+function formatReal(value: number): string {
+  return formatPoint({ re: value, im: 0 });
+}
+
+interface ValueInputProps<T> {
+  label: string;
+  value: T;
+  format: (value: T) => string;
+  parse: (text: string) => T | null;
+  onChange: (value: T) => void;
+  title?: string;
+}
+
+/**
+ * Text field committing a parsed value on blur or Enter; shows the value
+ * itself except while a draft is being edited (or failed to parse)
+ */
+function ValueInput<T>({ label, value, format, parse, onChange, title }: ValueInputProps<T>) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parse(draft);
+    setError(parsed === null);
+    if (parsed !== null) {
+      setDraft(null);
+      if (format(parsed) !== format(value)) {
+        onChange(parsed);
+      }
+    }
+  };
+
+  return (
+    <label className="contour-piece__field" title={title}>
+      <span className="contour-piece__field-label">{label}</span>
+      <input
+        type="text"
+        className={`contour-piece__input ${error ? 'error' : ''}`}
+        value={draft ?? format(value)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+}
+
+interface CustomExpressionInputProps {
+  value: string;
+  parameterNames: string[];
+  onChange: (expression: string) => void;
+}
+
+const CustomExpressionInput: React.FC<CustomExpressionInputProps> = ({ value, parameterNames, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const text = draft ?? value;
+
+  const valid = text.trim() !== '' && isValidExpression(text);
+  const undefinedNames = useMemo(() => findUndefinedSymbols(text, ['t', ...parameterNames]), [text, parameterNames]);
+
+  const commit = () => {
+    if (draft === null || !valid) return;
+    setDraft(null);
+    if (draft !== value) {
+      onChange(draft);
+    }
+  };
+
+  return (
+    <label
+      className="contour-piece__field contour-piece__field--wide"
+      title={undefinedNames.length > 0 ? `Undefined: ${undefinedNames.join(', ')}` : undefined}
+    >
+      <span className="contour-piece__field-label">γ(t) =</span>
+      <input
+        type="text"
+        className={`contour-piece__input ${valid ? '' : 'error'} ${undefinedNames.length > 0 ? 'warning' : ''}`}
+        value={text}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+};
+
+interface PieceRowProps {
+  piece: ContourPiece;
+  index: number;
+  count: number;
+  parameterNames: string[];
+  onChange: (piece: ContourPiece) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const PieceRow: React.FC<PieceRowProps> = ({ piece, index, count, parameterNames, onChange, onMove, onRemove }) => {
+  let fields: React.ReactNode;
+  switch (piece.kind) {
+    case 'segment':
+      fields = (
+        <>
+          <ValueInput label="From" value={piece.from} format={formatPoint} parse={parseComplexInput}
+            onChange={(from) => onChange({ ...piece, from })} />
+          <ValueInput label="To" value={piece.to} format={formatPoint} parse={parseComplexInput}
+            onChange={(to) => onChange({ ...piece, to })} />
+        </>
+      );
+      break;
+    case 'arc':
+      fields = (
+        <>
+          <ValueInput label="Center" value={piece.center} format={formatPoint} parse={parseComplexInput}
+            onChange={(center) => onChange({ ...piece, center })} />
+          <ValueInput label="Radius" value={piece.radius} format={formatReal}
+            parse={(text) => { const r = parseRealInput(text); return r !== null && r > 0 ? r : null; }}
+            onChange={(radius) => onChange({ ...piece, radius })} />
+          <ValueInput label="θ from" value={piece.startAngle} format={formatAngle} parse={parseRealInput}
+            onChange={(startAngle) => onChange({ ...piece, startAngle })} />
+          <ValueInput label="θ to" value={piece.endAngle} format={formatAngle} parse={parseRealInput}
+            onChange={(endAngle) => onChange({ ...piece, endAngle })}
+            title="Below θ from, the arc runs clockwise" />
+        </>
+      );
+      break;
+    case 'custom':
+      fields = (
+        <>
+          <CustomExpressionInput value={piece.expression} parameterNames={parameterNames}
+            onChange={(expression) => onChange({ ...piece, expression })} />
+          <ValueInput label="t from" value={piece.tMin} format={formatReal} parse={parseRealInput}
+            onChange={(tMin) => onChange({ ...piece, tMin })} />
+          <ValueInput label="t to" value={piece.tMax} format={formatReal} parse={parseRealInput}
+            onChange={(tMax) => onChange({ ...piece, tMax })} />
+        </>
+      );
+      break;
+  }
+
+  return (
+    <div className="contour-piece">
+      <div className="contour-piece__header">
+        <span className="contour-piece__kind">{index + 1}. {kindLabels[piece.kind]}</span>
+        <div className="contour-piece__buttons">
+          <button className="contour-piece__button" onClick={() => onMove(-1)} disabled={index === 0} title="Move up">↑</button>
+          <button className="contour-piece__button" onClick={() => onMove(1)} disabled={index === count - 1} title="Move down">↓</button>
+          <button className="contour-piece__button contour-piece__button--remove" onClick={onRemove} title="Remove piece">×</button>
+        </div>
+      </div>
+      <div className="contour-piece__fields">{fields}</div>
+    </div>
+  );
+};
+
+/**
+ * Editor for a composite contour: segments, arcs and γ(t) pieces joined in order
+ */
+export const ContourPiecesEditor: React.FC<ContourPiecesEditorProps> = ({ contour, onChange, parameters }) => {
+  const pieces = useMemo(() => contour.pieces ?? [], [contour.pieces]);
+  const parameterNames = useMemo(() => Object.keys(parameters), [parameters]);
+  const path = useMemo(() => buildContourPath(contour, parameters), [contour, parameters]);
+
+  // A new piece starts where the last one ends (or, after a γ(t) piece, where the path does)
+  const handleAdd = (kind: ContourPiece['kind']) => {
+    const last = pieces[pieces.length - 1];
+    const lastPath = path?.pieces[path.pieces.length - 1];
+    const start = (last && pieceEnd(last)) ?? lastPath?.evaluate(lastPath.tEnd);
+    onChange([...pieces, createContourPiece(kind, start)]);
+  };
+
+  const handlePreset = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value) {
+      onChange(contourPreset(e.target.value as ContourPreset));
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...pieces];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  let status: React.ReactNode;
+  if (pieces.length === 0) {
+    status = <span className="contour-pieces__status">Add pieces or pick a preset</span>;
+  } else if (!path) {
+    status = <span className="contour-pieces__status error">A γ(t) piece does not compile</span>;
+  } else if (path.gaps.length > 0) {
+    status = (
+      <span className="contour-pieces__status error">
+        {path.gaps.map((gap) => `Gap of ${gap.distance.toPrecision(3)} after piece ${gap.after + 1}`).join('; ')}
+      </span>
+    );
+  } else {
+    status = (
+      <span className={`contour-pieces__status ${path.closed ? 'closed' : ''}`}>
+        {path.closed ? 'Closed path' : 'Open path'} · t ∈ [0, {path.tMax.toFixed(3)}]
+      </span>
+    );
+  }
+
+  return (
+    <div className="contour-pieces">
+      <div className="contour-pieces__toolbar">
+        {(['segment', 'arc', 'custom'] as const).map((kind) => (
+          <button key={kind} className="contour-pieces__add" onClick={() => handleAdd(kind)} title={`Append a ${kindLabels[kind]} piece`}>
+            + {kindLabels[kind]}
+          </button>
+        ))}
+        <select className="contour-pieces__preset" value="" onChange={handlePreset} title="Replace the pieces with a standard contour">
+          <option value="">Preset…</option>
+          {(Object.keys(presetLabels) as ContourPreset[]).map((preset) => (
+            <option key={preset} value={preset}>{presetLabels[preset]}</option>
+          ))}
+        </select>
+      </div>
+
+      {pieces.map((piece, index) => (
+        <PieceRow
+          key={piece.id}
+          piece={piece}
+          index={index}
+          count={pieces.length}
+          parameterNames={parameterNames}
+          onChange={(updated) => onChange(pieces.map((p) => (p.id === piece.id ? updated : p)))}
+          onMove={(offset) => handleMove(index, offset)}
+          onRemove={() => onChange(pieces.filter((p) => p.id !== piece.id))}
+        />
+      ))}
+
+      {status}
+    </div>
+  );
+};
+
+export default ContourPiecesEditor;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { evaluate } from 'mathjs';
+import type { ComplexPoint, EscapePlane, EscapeTimeConfig } from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { formatPoint } from '../../math/contourPath';
+import './EscapeTimeControls.css';
+
+export interface EscapeTimeControlsProps {
+  config: EscapeTimeConfig;
+  onChange: (config: Partial<EscapeTimeConfig>) => void;
+  onPlaneChange: (plane: EscapePlane) => void;
+}
+
+const planeLabels: Record<EscapePlane, string> = {
+  parameter: 'Parameter (c)',
+  dynamic: 'Dynamic (z)',
+};
+
+const iterationOptions = [50, 100, 200, 500, 1000];
+const radiusOptions = [2, 4, 10, 100, 1000];
+
+/**
+ * Parse a complex constant such as "-0.8 + 0.156i" (null if it is not one)
+ */
+function parseComplexInput(text: string): ComplexPoint | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Number.isFinite(value.im) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PointInputProps {
+  label: string;
+  value: ComplexPoint;
+  onChange: (value: ComplexPoint) => void;
+  title?: string;
+}
+
+const PointInput: React.FC<PointInputProps> = ({ label, value, onChange, title }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseComplexInput(draft);
+    setError(parsed === null);
+    if (parsed) {
+      setDraft(null);
+      if (parsed.re !== value.re || parsed.im !== value.im) {
+        onChange(parsed);
+      }
+    }
+  };
+
+  return (
+    <label className="escape-controls__field" title={title}>
+      <span className="escape-controls__label">{label}</span>
+      <input
+        type="text"
+        className={`escape-controls__input ${error ? 'error' : ''}`}
+        value={draft ?? formatPoint(value)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+};
+
+/**
+ * Plane, c, z₀ and iteration settings of the escape-time mode
+ */
+export const EscapeTimeControls: React.FC<EscapeTimeControlsProps> = ({ config, onChange, onPlaneChange }) => {
+  const isParameter = config.plane === 'parameter';
+
+  return (
+    <div className="escape-controls">
+      <div className="escape-controls__header">
+        <span className="escape-controls__title">Iteration</span>
+        <div className="escape-controls__planes">
+          {(Object.keys(planeLabels) as EscapePlane[]).map((plane) => (
+            <button
+              key={plane}
+              className={`escape-controls__plane ${config.plane === plane ? 'active' : ''}`}
+              onClick={() => plane !== config.plane && onPlaneChange(plane)}
+            >
+              {planeLabels[plane]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="escape-controls__row">
+        <PointInput
+          label="c"
+          value={config.c}
+          onChange={(c) => onChange({ c })}
+          title={isParameter ? 'Parameter of the linked Julia set' : 'Parameter of the map'}
+        />
+        <PointInput
+          label="z₀"
+          value={config.critical}
+          onChange={(critical) => onChange({ critical })}
+          title="Starting point of every orbit in the parameter plane (a critical point of f)"
+        />
+      </div>
+
+      <div className="escape-controls__row">
+        <label className="escape-controls__field">
+          <span className="escape-controls__label">Max iterations</span>
+          <select
+            className="escape-controls__select"
+            value={config.maxIterations}
+            onChange={(e) => onChange({ maxIterations: parseInt(e.target.value) })}
+          >
+            {iterationOptions.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="escape-controls__field">
+          <span className="escape-controls__label">Escape radius</span>
+          <select
+            className="escape-controls__select"
+            value={config.escapeRadius}
+            onChange={(e) => onChange({ escapeRadius: parseFloat(e.target.value) })}
+          >
+            {radiusOptions.map((r) => (
+              <option key={r} value={r}>{r}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="escape-controls__hint">
+        {isParameter
+          ? 'Click the parameter plane to pick c for the linked Julia set.'
+          : 'Each point is a starting z; the orbits use the c above.'}
+      </p>
+    </div>
+  );
+};
+
+export default EscapeTimeControls;
@@ -1,36 +1,86 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { PlotMode } from '../../types/index';
-import { isValidExpression } from '../../math/parser';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { HolomorphyData, HolomorphyVerdict, PlotMode } from '../../types/index';
+import { isValidExpression, findUndefinedSymbols } from '../../math/parser';
 import './FunctionInput.css';
 
 export interface FunctionInputProps {
   expression: string;
   mode: PlotMode;
   onChange: (expression: string) => void;
+  /** Names of the user parameters in scope */
+  parameterNames?: string[];
+  /** Cauchy–Riemann check of f over the current view, shown as a badge */
+  holomorphy?: HolomorphyData;
 }
 
 const placeholders: Record<PlotMode, string> = {
   contour: 'z(t) = exp(i * t)',
   domainColoring: 'f(z) = z^2 + 1',
   surface3d: 'f(z) = z^2 + 1',
+  riemannSurface: 'f(z) = sqrt(z)',
+  escapeTime: 'f(z, c) = z^2 + c',
+  newton: 'f(z) = z^3 - 1',
+  conformalGrid: 'f(z) = exp(z)',
+  vectorField: 'f(z) = 1 - 1/z^2',
+  series: 'f(z) = 1/(1 + z^2)',
+  riemannSphere: 'f(z) = z^2 / (z - 1)',
+  textureMap: 'f(z) = z^2',
 };
 
 const labels: Record<PlotMode, string> = {
   contour: 'z(t) =',
   domainColoring: 'f(z) =',
   surface3d: 'f(z) =',
+  riemannSurface: 'f(z) =',
+  escapeTime: 'f(z, c) =',
+  newton: 'f(z) =',
+  conformalGrid: 'w = f(z) =',
+  vectorField: 'f(z) =',
+  series: 'f(z) =',
+  riemannSphere: 'f(z) =',
+  textureMap: 'w = f(z) =',
 };
 
 const helpText: Record<PlotMode, string> = {
   contour: 'Parametric curve. Use t as parameter, i for imaginary unit.',
   domainColoring: 'Complex function. Use z as variable, i for imaginary unit.',
   surface3d: 'Complex function. Use z as variable, i for imaginary unit.',
+  riemannSurface: 'Multivalued function built from log, sqrt and fractional powers, e.g. z^(1/3).',
+  escapeTime: 'Map iterated from z, with c the parameter, e.g. z^3 + c or c * sin(z).',
+  newton: "Function whose roots Newton's method finds from every point, e.g. z^5 - 1.",
+  conformalGrid: 'Map applied to every grid line, e.g. exp(z), z^2 or (z - 1)/(z + 1).',
+  vectorField: 'Function drawn as its Pólya field conj(f), e.g. 1/z for a source or i/z for a vortex.',
+  series: 'Function to expand about z₀, e.g. 1/(1 - z), log(z) or exp(1/z).',
+  riemannSphere: 'Function painted on the whole sphere, ∞ included, e.g. (z - 1)/(z + 1) or 1/z^3.',
+  textureMap: 'Map whose value at z picks the color from the texture, e.g. exp(z), 1/z or (z - i)/(z + i).',
+};
+
+const holomorphyTitles: Record<HolomorphyVerdict, string> = {
+  analytic: 'f satisfies the Cauchy–Riemann equations across the view (away from poles and branch cuts)',
+  partial: 'f fails the Cauchy–Riemann equations on part of the view; show the residual to see where',
+  nonAnalytic: 'f depends on z̄ (e.g. through conj, abs, re or im), so it is not complex differentiable',
+};
+
+const modeVariables: Record<PlotMode, string[]> = {
+  contour: ['t'],
+  domainColoring: ['z'],
+  surface3d: ['z'],
+  riemannSurface: ['z'],
+  escapeTime: ['z', 'c'],
+  newton: ['z'],
+  conformalGrid: ['z'],
+  vectorField: ['z'],
+  series: ['z'],
+  riemannSphere: ['z'],
+  textureMap: ['z'],
 };
 
 export const FunctionInput: React.FC<FunctionInputProps> = ({
   expression,
   mode,
   onChange,
+  parameterNames = [],
+  holomorphy,
 }) => {
   const [localValue, setLocalValue] = useState(expression);
   const [parseError, setParseError] = useState<string | null>(null);
@@ -40,6 +90,12 @@ export const FunctionInput: React.FC<FunctionInputProps> = ({
     setLocalValue(expression);
   }, [expression]);
 
+  // Identifiers that are neither a variable, a parameter nor built in
+  const undefinedNames = useMemo(
+    () => findUndefinedSymbols(localValue, [...modeVariables[mode], ...parameterNames]),
+    [localValue, mode, parameterNames]
+  );
+
   const validateExpression = useCallback((expr: string) => {
     if (!expr.trim()) {
       setParseError('Expression cannot be empty');
@@ -83,8 +139,17 @@ export const FunctionInput: React.FC<FunctionInputProps> = ({
 
   return (
     <div className="function-input">
-      <label className="function-input__label">{labels[mode]}</label>
-      <div className={`function-input__wrapper ${isFocused ? 'focused' : ''} ${parseError ? 'error' : ''}`}>
+      <div className="function-input__header">
+        <label className="function-input__label">{labels[mode]}</label>
+        {holomorphy && (
+          <span className={`function-input__badge ${holomorphy.verdict}`} title={holomorphyTitles[holomorphy.verdict]}>
+            {holomorphy.verdict === 'analytic' && 'Analytic'}
+            {holomorphy.verdict === 'partial' && `Not analytic on ${Math.max(1, Math.round(100 * holomorphy.failing))}%`}
+            {holomorphy.verdict === 'nonAnalytic' && 'Not analytic'}
+          </span>
+        )}
+      </div>
+      <div className={`function-input__wrapper ${isFocused ? 'focused' : ''} ${parseError ? 'error' : ''} ${!parseError && undefinedNames.length > 0 ? 'warning' : ''}`}>
         <input
           type="text"
           className="function-input__field"
@@ -110,6 +175,16 @@ export const FunctionInput: React.FC<FunctionInputProps> = ({
           <span>{parseError}</span>
         </div>
       )}
+      {!parseError && undefinedNames.length > 0 && (
+        <div className="function-input__warning">
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z" />
+            <line x1="12" y1="9" x2="12" y2="13" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Undefined: {undefinedNames.join(', ')} – add {undefinedNames.length === 1 ? 'it' : 'them'} as parameters</span>
+        </div>
+      )}
       <div className="function-input__help">{helpText[mode]}</div>
     </div>
   );
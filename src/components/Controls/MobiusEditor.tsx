@@ -0,0 +1,310 @@
+import React, { useRef, useState } from 'react';
+import { evaluate } from 'mathjs';
+import type {
+  ComplexPoint,
+  MobiusAnalysis,
+  MobiusClass,
+  MobiusConfig,
+  MobiusInput,
+  PointTriple,
+} from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { formatPoint } from '../../math/contourPath';
+import { applyMobius, mobiusFromPoints } from '../../math/mobius';
+import './MobiusEditor.css';
+
+export interface MobiusEditorProps {
+  config: MobiusConfig;
+  /** Normalized matrix, fixed points and class (null if ad − bc = 0) */
+  analysis: MobiusAnalysis | null;
+  onChange: (config: Partial<MobiusConfig>) => void;
+}
+
+const inputLabels: Record<MobiusInput, string> = {
+  coefficients: 'a, b, c, d',
+  points: '3 points',
+};
+
+const classDescriptions: Record<MobiusClass, string> = {
+  identity: 'every point is fixed',
+  elliptic: 'rotates about its fixed points',
+  parabolic: 'one fixed point; conjugate to a translation',
+  hyperbolic: 'pushes from one fixed point to the other',
+  loxodromic: 'spirals from one fixed point to the other',
+};
+
+// Half-width of the square of the plane shown on the point pad
+const PAD_EXTENT = 3;
+
+// Dragged points snap to this grid
+const PAD_SNAP = 0.05;
+
+const PAD_SIZE = 240;
+
+/**
+ * Parse a complex constant such as "1 + i" or "pi/2" (null if it is not one)
+ */
+function parseComplexInput(text: string): ComplexPoint | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Number.isFinite(value.im) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatExtended(p: ComplexPoint): string {
+  return isFinite(p.re) && isFinite(p.im) ? formatPoint(p) : '∞';
+}
+
+function formatDegrees(angle: number): string {
+  return `${Number(((angle * 180) / Math.PI).toFixed(1))}°`;
+}
+
+interface ConstantInputProps {
+  label: string;
+  value: ComplexPoint;
+  onChange: (value: ComplexPoint) => void;
+}
+
+const ConstantInput: React.FC<ConstantInputProps> = ({ label, value, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseComplexInput(draft);
+    setError(parsed === null);
+    if (parsed) {
+      setDraft(null);
+      if (parsed.re !== value.re || parsed.im !== value.im) {
+        onChange(parsed);
+      }
+    }
+  };
+
+  return (
+    <label className="mobius-editor__field">
+      <span className="mobius-editor__label">{label}</span>
+      <input
+        type="text"
+        className={`mobius-editor__input ${error ? 'error' : ''}`}
+        value={draft ?? formatPoint(value)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+};
+
+type PadHandle = { triple: 'source' | 'target'; index: number };
+
+interface PointPadProps {
+  source: PointTriple;
+  target: PointTriple;
+  onMove: (handle: PadHandle, point: ComplexPoint) => void;
+}
+
+/**
+ * The plane around 0 with z₁, z₂, z₃ (filled) and w₁, w₂, w₃ (rings) to drag
+ */
+const PointPad: React.FC<PointPadProps> = ({ source, target, onMove }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<PadHandle | null>(null);
+
+  const toPad = (p: ComplexPoint) => ({
+    x: ((p.re + PAD_EXTENT) / (2 * PAD_EXTENT)) * PAD_SIZE,
+    y: ((PAD_EXTENT - p.im) / (2 * PAD_EXTENT)) * PAD_SIZE,
+  });
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const snap = (v: number) =>
+      Math.max(-PAD_EXTENT, Math.min(PAD_EXTENT, Math.round(v / PAD_SNAP) * PAD_SNAP));
+    onMove(dragging, {
+      re: snap(PAD_EXTENT * ((2 * (e.clientX - rect.left)) / rect.width - 1)),
+      im: snap(PAD_EXTENT * (1 - (2 * (e.clientY - rect.top)) / rect.height)),
+    });
+  };
+
+  const startDrag = (handle: PadHandle) => (e: React.PointerEvent) => {
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const origin = toPad({ re: 0, im: 0 });
+  const unit = PAD_SIZE / (2 * PAD_EXTENT);
+
+  return (
+    <svg
+      ref={svgRef}
+      className="mobius-editor__pad"
+      viewBox={`0 0 ${PAD_SIZE} ${PAD_SIZE}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(null)}
+      onPointerCancel={() => setDragging(null)}
+    >
+      <line className="mobius-editor__axis" x1={0} y1={origin.y} x2={PAD_SIZE} y2={origin.y} />
+      <line className="mobius-editor__axis" x1={origin.x} y1={0} x2={origin.x} y2={PAD_SIZE} />
+      <circle className="mobius-editor__axis" cx={origin.x} cy={origin.y} r={unit} fill="none" />
+      {source.map((z, k) => {
+        const from = toPad(z);
+        const to = toPad(target[k]);
+        return (
+          <g key={k}>
+            <line className="mobius-editor__link" x1={from.x} y1={from.y} x2={to.x} y2={to.y} />
+            <circle
+              className="mobius-editor__handle source"
+              cx={from.x}
+              cy={from.y}
+              r={6}
+              onPointerDown={startDrag({ triple: 'source', index: k })}
+            />
+            <circle
+              className="mobius-editor__handle target"
+              cx={to.x}
+              cy={to.y}
+              r={6}
+              onPointerDown={startDrag({ triple: 'target', index: k })}
+            />
+            <text className="mobius-editor__handle-label" x={from.x + 8} y={from.y - 8}>z{k + 1}</text>
+            <text className="mobius-editor__handle-label" x={to.x + 8} y={to.y - 8}>w{k + 1}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Möbius map f(z) = (az + b)/(cz + d), by coefficients or by three points and
+ * their images, with its normalized matrix, fixed points and class
+ */
+export const MobiusEditor: React.FC<MobiusEditorProps> = ({ config, analysis, onChange }) => {
+  const handleInputChange = (input: MobiusInput) => {
+    if (input === config.input) return;
+    if (input === 'coefficients') {
+      onChange({ input });
+      return;
+    }
+    // Start from the current map's images of z₁, z₂, z₃ when they fit on the pad,
+    // otherwise from the last targets (which refits the map)
+    const images = config.source.map((z) => applyMobius(config, z)) as PointTriple;
+    const onPad = images.every((w) => Math.abs(w.re) <= PAD_EXTENT && Math.abs(w.im) <= PAD_EXTENT);
+    if (analysis && onPad) {
+      onChange({ input, target: images });
+      return;
+    }
+    onChange({ input, ...(mobiusFromPoints(config.source, config.target) ?? {}) });
+  };
+
+  const handleMove = ({ triple, index }: PadHandle, point: ComplexPoint) => {
+    const moved = [...config[triple]] as PointTriple;
+    moved[index] = point;
+    const source = triple === 'source' ? moved : config.source;
+    const target = triple === 'target' ? moved : config.target;
+    // Skip positions where two points of a triple coincide
+    const coefficients = mobiusFromPoints(source, target);
+    if (coefficients) {
+      onChange({ [triple]: moved, ...coefficients });
+    }
+  };
+
+  const setCoefficient = (name: 'a' | 'b' | 'c' | 'd') => (value: ComplexPoint) => onChange({ [name]: value });
+
+  let action = '';
+  if (analysis?.multiplier) {
+    const { multiplier: k } = analysis;
+    const scale = Math.hypot(k.re, k.im);
+    const angle = Math.atan2(k.im, k.re);
+    if (analysis.classification === 'elliptic') action = `rotation by ${formatDegrees(angle)}`;
+    else if (analysis.classification === 'hyperbolic') action = `scaling by ${Number(scale.toPrecision(4))}`;
+    else action = `scaling by ${Number(scale.toPrecision(4))}, rotation by ${formatDegrees(angle)}`;
+  }
+
+  return (
+    <div className="mobius-editor">
+      <div className="mobius-editor__header">
+        <span className="mobius-editor__title">Möbius map</span>
+        <div className="mobius-editor__options">
+          {(Object.keys(inputLabels) as MobiusInput[]).map((input) => (
+            <button
+              key={input}
+              className={`mobius-editor__option ${config.input === input ? 'active' : ''}`}
+              onClick={() => handleInputChange(input)}
+            >
+              {inputLabels[input]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="mobius-editor__expression">f(z) = {analysis ? analysis.expression : '—'}</p>
+
+      {config.input === 'coefficients' ? (
+        <div className="mobius-editor__row">
+          <ConstantInput label="a" value={config.a} onChange={setCoefficient('a')} />
+          <ConstantInput label="b" value={config.b} onChange={setCoefficient('b')} />
+          <ConstantInput label="c" value={config.c} onChange={setCoefficient('c')} />
+          <ConstantInput label="d" value={config.d} onChange={setCoefficient('d')} />
+        </div>
+      ) : (
+        <>
+          <PointPad source={config.source} target={config.target} onMove={handleMove} />
+          <ul className="mobius-editor__pairs">
+            {config.source.map((z, k) => (
+              <li key={k}>
+                z{k + 1} = {formatPoint(z)} ↦ w{k + 1} = {formatPoint(config.target[k])}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {analysis ? (
+        <div className="mobius-editor__analysis">
+          <div className="mobius-editor__matrix" title="Scaled to determinant 1 (up to sign)">
+            {analysis.matrix.flat().map((entry, k) => (
+              <span key={k}>{formatPoint(entry)}</span>
+            ))}
+          </div>
+          <dl className="mobius-editor__facts">
+            <dt>tr</dt>
+            <dd>{formatPoint(analysis.trace)}</dd>
+            <dt>Fixed</dt>
+            <dd>{analysis.fixedPoints.length > 0 ? analysis.fixedPoints.map(formatExtended).join(', ') : 'all'}</dd>
+            {analysis.multiplier && (
+              <>
+                <dt>k</dt>
+                <dd>{formatPoint(analysis.multiplier)} ({action})</dd>
+              </>
+            )}
+          </dl>
+          <p className="mobius-editor__class">
+            <span className={`mobius-editor__badge ${analysis.classification}`}>{analysis.classification}</span>
+            {classDescriptions[analysis.classification]}
+          </p>
+        </div>
+      ) : (
+        <p className="mobius-editor__error">ad − bc = 0, so f is constant rather than a Möbius map.</p>
+      )}
+
+      <label className="mobius-editor__toggle">
+        <input
+          type="checkbox"
+          className="mobius-editor__checkbox"
+          checked={config.linked}
+          onChange={(e) => onChange({ linked: e.target.checked })}
+        />
+        Use as f(z) of every contour and of the domain coloring
+      </label>
+    </div>
+  );
+};
+
+export default MobiusEditor;
@@ -14,6 +14,9 @@ interface ModeOption {
   description: string;
 }
 
+// Tabs per row (keep in step with the grid columns in ModeSelector.css)
+const COLUMNS = 4;
+
 const modeOptions: ModeOption[] = [
   {
     value: 'contour',
@@ -51,9 +54,115 @@ const modeOptions: ModeOption[] = [
       </svg>
     ),
   },
+  {
+    value: 'riemannSurface',
+    label: 'Riemann',
+    description: 'Sheets of a multivalued f(z), stitched together',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M3 8c3-3 6 3 9 0s6-3 9 0" />
+        <path d="M3 13c3-3 6 3 9 0s6-3 9 0" />
+        <path d="M3 18c3-3 6 3 9 0s6-3 9 0" />
+      </svg>
+    ),
+  },
+  {
+    value: 'escapeTime',
+    label: 'Escape',
+    description: 'Julia and Mandelbrot sets of z ↦ f(z, c)',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="14" cy="12" r="6" />
+        <circle cx="6" cy="12" r="2.5" />
+        <path d="M14 6V3" />
+        <path d="M20 12h2" />
+      </svg>
+    ),
+  },
+  {
+    value: 'newton',
+    label: 'Newton',
+    description: "Basins of Newton's method for the roots of f(z)",
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M12 12V3" />
+        <path d="M12 12l7.8 4.5" />
+        <path d="M12 12l-7.8 4.5" />
+        <circle cx="12" cy="3" r="1.5" />
+        <circle cx="19.8" cy="16.5" r="1.5" />
+        <circle cx="4.2" cy="16.5" r="1.5" />
+      </svg>
+    ),
+  },
+  {
+    value: 'conformalGrid',
+    label: 'Grid',
+    description: 'A Cartesian or polar grid and its image under f(z)',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M4 4c3 2 3 14 0 16" />
+        <path d="M12 3c2 3 2 15 0 18" />
+        <path d="M20 4c-3 2-3 14 0 16" />
+        <path d="M3 8c6-3 12-3 18 0" />
+        <path d="M3 16c6 3 12 3 18 0" />
+      </svg>
+    ),
+  },
+  {
+    value: 'vectorField',
+    label: 'Flow',
+    description: 'Pólya vector field of f(z) with streamlines',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M2 8c4 0 6-3 10-3s6 3 10 3" />
+        <path d="M2 16c4 0 6 3 10 3s6-3 10-3" />
+        <path d="M4 12h14" />
+        <path d="M15 9l3 3-3 3" />
+      </svg>
+    ),
+  },
+  {
+    value: 'series',
+    label: 'Series',
+    description: 'Taylor and Laurent series of f(z) about a point',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="12" cy="12" r="9" strokeDasharray="3 3" />
+        <circle cx="12" cy="12" r="4" />
+        <circle cx="12" cy="12" r="1" />
+      </svg>
+    ),
+  },
+  {
+    value: 'riemannSphere',
+    label: 'Sphere',
+    description: 'f(z) on the Riemann sphere, with the point at ∞',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="12" cy="12" r="9" />
+        <ellipse cx="12" cy="12" rx="9" ry="3" />
+        <path d="M12 3c-3 3-3 15 0 18" />
+        <circle cx="12" cy="3" r="1" />
+      </svg>
+    ),
+  },
+  {
+    value: 'textureMap',
+    label: 'Texture',
+    description: 'A checkerboard, polar target or image pulled back through f(z)',
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M3 4c6 2 12 2 18 0v16c-6 2-12 2-18 0z" />
+        <path d="M9 5v15M15 5v15" />
+        <path d="M3 10c6 2 12 2 18 0M3 15c6 2 12 2 18 0" />
+      </svg>
+    ),
+  },
 ];
 
 export const ModeSelector: React.FC<ModeSelectorProps> = ({ mode, onChange }) => {
+  const activeIndex = modeOptions.findIndex((o) => o.value === mode);
+
   return (
     <div className="mode-selector">
       <div className="mode-selector__tabs">
@@ -71,8 +180,10 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({ mode, onChange }) =>
         <div
           className="mode-selector__indicator"
           style={{
-            transform: `translateX(${modeOptions.findIndex((o) => o.value === mode) * 100}%)`,
-          }}
+            '--column': activeIndex % COLUMNS,
+            '--row': Math.floor(activeIndex / COLUMNS),
+            '--rows': Math.ceil(modeOptions.length / COLUMNS),
+          } as React.CSSProperties}
         />
       </div>
       <p className="mode-selector__description">
@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ComplexPoint, Parameter, ParameterKind } from '../../types/index';
+import { isBuiltinSymbol } from '../../math/parser';
+import './ParameterPanel.css';
+
+export interface ParameterPanelProps {
+  parameters: Parameter[];
+  onAdd: (kind: ParameterKind) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, updates: Partial<Parameter>) => void;
+}
+
+// Names the expressions already use as variables
+const VARIABLE_NAMES = ['z', 't'];
+
+// Slider positions across the range of a real parameter
+const SLIDER_STEPS = 200;
+
+// Side of the complex-plane picker, in SVG units
+const PICKER_SIZE = 120;
+
+/**
+ * Format a value, avoiding "-0.000" for values that round to zero
+ */
+function formatNumber(value: number): string {
+  const text = value.toFixed(3);
+  return Number(text) === 0 ? '0.000' : text;
+}
+
+function formatComplex(value: ComplexPoint): string {
+  const sign = value.im < 0 ? '−' : '+';
+  return `${formatNumber(value.re)} ${sign} ${formatNumber(Math.abs(value.im))}i`;
+}
+
+/**
+ * Why a parameter name cannot be used, or null if it can
+ */
+function nameError(name: string, otherNames: string[]): string | null {
+  if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) return 'Not an identifier';
+  if (VARIABLE_NAMES.includes(name)) return `${name} is a variable`;
+  if (otherNames.includes(name)) return 'Already used';
+  if (isBuiltinSymbol(name)) return 'Built-in name';
+  return null;
+}
+
+interface ComplexPickerProps {
+  value: ComplexPoint;
+  min: number;
+  max: number;
+  onChange: (value: ComplexPoint) => void;
+}
+
+/**
+ * Square patch of the complex plane, [min, max]² – drag the point to set the value
+ */
+const ComplexPicker: React.FC<ComplexPickerProps> = ({ value, min, max, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const span = max - min || 1;
+  const toSvg = (v: number) => ((v - min) / span) * PICKER_SIZE;
+  const clamp = (v: number) => Math.min(PICKER_SIZE, Math.max(0, v));
+
+  const pick = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return;
+    const u = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const v = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    onChange({ re: min + u * span, im: max - v * span });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pick(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      pick(e);
+    }
+  };
+
+  // Axes through 0, when 0 is inside the range
+  const zero = toSvg(0);
+  const showAxes = zero > 0 && zero < PICKER_SIZE;
+
+  return (
+    <svg
+      ref={svgRef}
+      className="parameter-picker"
+      viewBox={`0 0 ${PICKER_SIZE} ${PICKER_SIZE}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+    >
+      {[0.25, 0.5, 0.75].map((f) => (
+        <g key={f} className="parameter-picker__grid">
+          <line x1={f * PICKER_SIZE} y1={0} x2={f * PICKER_SIZE} y2={PICKER_SIZE} />
+          <line x1={0} y1={f * PICKER_SIZE} x2={PICKER_SIZE} y2={f * PICKER_SIZE} />
+        </g>
+      ))}
+      {showAxes && (
+        <g className="parameter-picker__axes">
+          <line x1={zero} y1={0} x2={zero} y2={PICKER_SIZE} />
+          <line x1={0} y1={PICKER_SIZE - zero} x2={PICKER_SIZE} y2={PICKER_SIZE - zero} />
+        </g>
+      )}
+      <circle
+        className="parameter-picker__point"
+        cx={clamp(toSvg(value.re))}
+        cy={clamp(PICKER_SIZE - toSvg(value.im))}
+        r={5}
+      />
+    </svg>
+  );
+};
+
+interface ParameterRowProps {
+  parameter: Parameter;
+  otherNames: string[];
+  onRemove: () => void;
+  onUpdate: (updates: Partial<Parameter>) => void;
+}
+
+const ParameterRow: React.FC<ParameterRowProps> = ({ parameter, otherNames, onRemove, onUpdate }) => {
+  const { name, kind, value, min, max } = parameter;
+  const [localName, setLocalName] = useState(name);
+  const [localMin, setLocalMin] = useState(String(min));
+  const [localMax, setLocalMax] = useState(String(max));
+
+  useEffect(() => {
+    setLocalName(name);
+  }, [name]);
+
+  const error = nameError(localName, otherNames);
+
+  const commitName = () => {
+    if (error) {
+      setLocalName(name);
+    } else if (localName !== name) {
+      onUpdate({ name: localName });
+    }
+  };
+
+  const handleNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      (e.target as HTMLInputElement).blur();
+    }
+  };
+
+  // Commit a range bound once it is a number on the right side of the other one
+  const handleBoundChange = (bound: 'min' | 'max', text: string) => {
+    (bound === 'min' ? setLocalMin : setLocalMax)(text);
+    const parsed = parseFloat(text);
+    if (!Number.isFinite(parsed)) return;
+    if (bound === 'min' ? parsed < max : parsed > min) {
+      onUpdate({ [bound]: parsed });
+    }
+  };
+
+  return (
+    <div className="parameter-row">
+      <div className="parameter-row__header">
+        <div className={`parameter-row__name-wrapper ${error ? 'error' : ''}`}>
+          <input
+            type="text"
+            className="parameter-row__name"
+            value={localName}
+            onChange={(e) => setLocalName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={handleNameKeyDown}
+            spellCheck={false}
+            autoComplete="off"
+            title={error ?? 'Parameter name'}
+          />
+        </div>
+        <span className="parameter-row__value">
+          = {kind === 'real' ? formatNumber(value.re) : formatComplex(value)}
+        </span>
+        <span className="parameter-row__kind">{kind === 'real' ? 'ℝ' : 'ℂ'}</span>
+        <button className="parameter-row__remove" onClick={onRemove} title="Remove parameter">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+          </svg>
+        </button>
+      </div>
+
+      {error && localName !== name && <div className="parameter-row__error">{error}</div>}
+
+      {kind === 'real' ? (
+        <input
+          type="range"
+          className="range-slider__slider parameter-row__slider"
+          min={min}
+          max={max}
+          step={(max - min) / SLIDER_STEPS}
+          value={value.re}
+          onChange={(e) => onUpdate({ value: { re: parseFloat(e.target.value), im: 0 } })}
+        />
+      ) : (
+        <ComplexPicker value={value} min={min} max={max} onChange={(v) => onUpdate({ value: v })} />
+      )}
+
+      <div className="parameter-row__range">
+        <span className="parameter-row__range-label">{kind === 'real' ? 'Range' : 'Re, Im ∈'}</span>
+        <input
+          type="text"
+          className="parameter-row__bound"
+          value={localMin}
+          onChange={(e) => handleBoundChange('min', e.target.value)}
+          onBlur={() => setLocalMin(String(min))}
+          inputMode="decimal"
+          spellCheck={false}
+        />
+        <span className="parameter-row__range-label">to</span>
+        <input
+          type="text"
+          className="parameter-row__bound"
+          value={localMax}
+          onChange={(e) => handleBoundChange('max', e.target.value)}
+          onBlur={() => setLocalMax(String(max))}
+          inputMode="decimal"
+          spellCheck={false}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const ParameterPanel: React.FC<ParameterPanelProps> = ({
+  parameters,
+  onAdd,
+  onRemove,
+  onUpdate,
+}) => {
+  return (
+    <div className="parameter-panel">
+      <div className="parameter-panel__header">
+        <span className="parameter-panel__title">Parameters</span>
+        <div className="parameter-panel__actions">
+          <button className="parameter-panel__add" onClick={() => onAdd('real')} title="Add a real parameter (slider)">
+            + Real
+          </button>
+          <button className="parameter-panel__add" onClick={() => onAdd('complex')} title="Add a complex parameter (point picker)">
+            + Complex
+          </button>
+        </div>
+      </div>
+
+      {parameters.length === 0 ? (
+        <p className="parameter-panel__empty">
+          Add a parameter to use its name in any expression, e.g. <code>z^2 + c</code>
+        </p>
+      ) : (
+        parameters.map((parameter) => (
+          <ParameterRow
+            key={parameter.id}
+            parameter={parameter}
+            otherNames={parameters.filter((p) => p.id !== parameter.id).map((p) => p.name)}
+            onRemove={() => onRemove(parameter.id)}
+            onUpdate={(updates) => onUpdate(parameter.id, updates)}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ParameterPanel;
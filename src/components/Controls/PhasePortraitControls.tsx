@@ -0,0 +1,93 @@
+import React from 'react';
+import type { PortraitLightness, PortraitOptions, PortraitPreset } from '../../types/index';
+import { matchPortraitPreset, portraitPresets } from '../../math/phasePortrait';
+import './PhasePortraitControls.css';
+
+export interface PhasePortraitControlsProps {
+  options: PortraitOptions;
+  onChange: (options: PortraitOptions) => void;
+}
+
+const presetLabels: Record<PortraitPreset, string> = {
+  phase: 'Phase',
+  modulus: 'Modulus',
+  polar: 'Polar grid',
+  cartesian: 'Cartesian',
+  classic: 'Classic',
+};
+
+const lightnessLabels: Record<PortraitLightness, string> = {
+  flat: 'Flat',
+  sawtooth: 'log |f| sawtooth',
+  smooth: 'Smooth',
+};
+
+const lightnessHints: Record<PortraitLightness, string> = {
+  flat: 'Brightness is constant, so only the phase shows.',
+  sawtooth: 'Brightness ramps up each time |f| grows by a factor of e^(π/6) ≈ 1.69.',
+  smooth: 'Black at zeros, full color where |f| = 1, white at poles.',
+};
+
+/**
+ * Scheme of the phase portrait rendering: a preset, or its lightness and overlays
+ */
+export const PhasePortraitControls: React.FC<PhasePortraitControlsProps> = ({ options, onChange }) => {
+  const preset = matchPortraitPreset(options);
+
+  const toggle = (key: 'isochromatic' | 'isoModulus' | 'checker', label: string) => (
+    <label className="portrait-controls__toggle">
+      <input
+        type="checkbox"
+        className="portrait-controls__checkbox"
+        checked={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="portrait-controls">
+      <div className="portrait-controls__header">
+        <span className="portrait-controls__title">Phase portrait</span>
+        {!preset && <span className="portrait-controls__custom">custom</span>}
+      </div>
+
+      <div className="portrait-controls__presets">
+        {(Object.keys(presetLabels) as PortraitPreset[]).map((name) => (
+          <button
+            key={name}
+            className={`portrait-controls__preset ${preset === name ? 'active' : ''}`}
+            onClick={() => onChange(portraitPresets[name])}
+          >
+            {presetLabels[name]}
+          </button>
+        ))}
+      </div>
+
+      <div className="portrait-controls__options" title="Brightness from |f|">
+        {(Object.keys(lightnessLabels) as PortraitLightness[]).map((lightness) => (
+          <button
+            key={lightness}
+            className={`portrait-controls__option ${options.lightness === lightness ? 'active' : ''}`}
+            onClick={() => onChange({ ...options, lightness })}
+          >
+            {lightnessLabels[lightness]}
+          </button>
+        ))}
+      </div>
+      <p className="portrait-controls__hint">{lightnessHints[options.lightness]}</p>
+
+      {toggle('isochromatic', 'Isochromatic lines (arg f every 30°)')}
+      {toggle('isoModulus', 'Iso-modulus lines (log |f| every π/6)')}
+      {toggle('checker', 'Checkerboard of Re f and Im f (squares of side ½)')}
+
+      <p className="portrait-controls__hint">
+        Hue is arg f: red at 0, green at 2π/3, blue at 4π/3. Colors run counterclockwise
+        around a zero and clockwise around a pole.
+      </p>
+    </div>
+  );
+};
+
+export default PhasePortraitControls;
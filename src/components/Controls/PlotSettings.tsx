@@ -1,5 +1,6 @@
 import React from 'react';
-import type { PlotMode, ColorMapping } from '../../types/index';
+import type { PlotMode, ColorMapping, DerivedMapping, DomainOverlay, DomainRendering } from '../../types/index';
+import { isDerivedMapping } from '../../math/derivedViews';
 import './PlotSettings.css';
 
 export interface PlotSettingsProps {
@@ -20,6 +21,15 @@ export interface PlotSettingsProps {
   // Color settings
   colorBy: ColorMapping;
   heightBy: ColorMapping;
+  // Riemann surface branch count
+  sheets?: number;
+  // Newton relaxation factor and iteration cap
+  damping?: number;
+  maxIterations?: number;
+  // Layer drawn in place of the domain coloring
+  overlay?: DomainOverlay;
+  // Heatmap of colorBy, or a phase portrait of f
+  rendering?: DomainRendering;
   // Callbacks
   onXRangeChange: (xMin: number, xMax: number) => void;
   onYRangeChange: (yMin: number, yMax: number) => void;
@@ -28,6 +38,11 @@ export interface PlotSettingsProps {
   onResolutionChange: (resolution: number) => void;
   onColorByChange: (colorBy: ColorMapping) => void;
   onHeightByChange: (heightBy: ColorMapping) => void;
+  onSheetsChange?: (sheets: number) => void;
+  onDampingChange?: (damping: number) => void;
+  onMaxIterationsChange?: (maxIterations: number) => void;
+  onOverlayChange?: (overlay: DomainOverlay) => void;
+  onRenderingChange?: (rendering: DomainRendering) => void;
 }
 
 const resolutionOptions = [
@@ -38,6 +53,39 @@ const resolutionOptions = [
   { value: 1024, label: '1024 (High Quality)' },
 ];
 
+// Riemann surfaces are meshes with a vertex per sheet and grid point, so stay coarser
+const riemannResolutionOptions = [
+  { value: 32, label: '32 (Fast)' },
+  { value: 48, label: '48' },
+  { value: 64, label: '64 (Balanced)' },
+  { value: 96, label: '96' },
+  { value: 128, label: '128 (High Quality)' },
+];
+
+// The sphere grid has twice as many columns (longitudes) as rows (latitudes)
+const sphereResolutionOptions = [
+  { value: 48, label: '48 (Fast)' },
+  { value: 64, label: '64' },
+  { value: 96, label: '96 (Balanced)' },
+  { value: 128, label: '128' },
+  { value: 192, label: '192 (High Quality)' },
+];
+
+const sheetOptions = [1, 2, 3, 4, 5, 6].map((n) => ({ value: n, label: String(n) }));
+
+// Relaxed Newton z − a·f/f′: a < 1 smooths the basin boundaries, a = m restores
+// quadratic convergence at roots of multiplicity m
+const dampingOptions = [
+  { value: 0.25, label: '0.25' },
+  { value: 0.5, label: '0.5' },
+  { value: 0.75, label: '0.75' },
+  { value: 1, label: '1 (Newton)' },
+  { value: 1.5, label: '1.5' },
+  { value: 2, label: '2' },
+];
+
+const newtonIterationOptions = [20, 50, 100, 200].map((n) => ({ value: n, label: String(n) }));
+
 const tStepOptions = [
   { value: 100, label: '100' },
   { value: 200, label: '200' },
@@ -50,8 +98,34 @@ const colorMappingOptions: { value: ColorMapping; label: string }[] = [
   { value: 'modulus', label: 'Modulus (|z|)' },
   { value: 'real', label: 'Real Part' },
   { value: 'imaginary', label: 'Imaginary Part' },
+  { value: 'derivative', label: "Derivative (arg f')" },
+  { value: 'areaScaling', label: "Area Scaling (|f'|²)" },
+  { value: 'angleDistortion', label: 'Angle Distortion' },
+];
+
+const derivedHints: Record<DerivedMapping, string> = {
+  derivative: "Phase of f'(z); its zeros are the critical points of f",
+  areaScaling: "How much f stretches areas near z: |f'(z)|²",
+  angleDistortion: 'Angle by which f bends segments 1/50 of the view long; 0 where f is conformal',
+};
+
+// The sphere is colored by f itself
+const sphereColorOptions = colorMappingOptions.filter((opt) => !isDerivedMapping(opt.value));
+
+const renderingOptions: { value: DomainRendering; label: string }[] = [
+  { value: 'heatmap', label: 'Heatmap' },
+  { value: 'portrait', label: 'Phase portrait' },
+];
+
+const overlayOptions: { value: DomainOverlay; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'cauchyRiemann', label: 'Cauchy–Riemann residual' },
 ];
 
+const sheetHeightOptions = colorMappingOptions.filter(
+  (opt) => opt.value === 'real' || opt.value === 'imaginary'
+);
+
 interface RangeSliderProps {
   label: string;
   min: number;
@@ -163,6 +237,11 @@ export const PlotSettings: React.FC<PlotSettingsProps> = ({
   tSteps,
   colorBy,
   heightBy,
+  sheets,
+  damping,
+  maxIterations,
+  overlay,
+  rendering,
   onXRangeChange,
   onYRangeChange,
   onTRangeChange,
@@ -170,50 +249,70 @@ export const PlotSettings: React.FC<PlotSettingsProps> = ({
   onResolutionChange,
   onColorByChange,
   onHeightByChange,
+  onSheetsChange,
+  onDampingChange,
+  onMaxIterationsChange,
+  onOverlayChange,
+  onRenderingChange,
 }) => {
   const isContour = mode === 'contour';
+  const isDomain = mode === 'domainColoring';
   const is3D = mode === 'surface3d';
+  const isRiemann = mode === 'riemannSurface';
+  // Escape-time plots are always colored by iteration count
+  const isEscape = mode === 'escapeTime';
+  const isNewton = mode === 'newton';
+  // Flow plots set their own layers in VectorFieldControls
+  const isField = mode === 'vectorField';
+  const isSeries = mode === 'series';
+  // The sphere covers the whole plane, so there is no window to set
+  const isSphere = mode === 'riemannSphere';
+  // Texture maps are colored by their texture, set in TextureMapControls
+  const isTexture = mode === 'textureMap';
+  const isPortrait = isDomain && rendering === 'portrait';
 
   return (
     <div className="plot-settings">
-      <div className="plot-settings__section">
-        <h3 className="plot-settings__section-title">
-          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <rect x="3" y="3" width="18" height="18" rx="2" />
-            <path d="M3 9h18M9 21V9" />
-          </svg>
-          Domain
-        </h3>
-        
-        {isContour ? (
-          <RangeSlider
-            label="t (parameter)"
-            min={tMin}
-            max={tMax}
-            onMinChange={(val) => onTRangeChange(val, tMax)}
-            onMaxChange={(val) => onTRangeChange(tMin, val)}
-            step={0.1}
-            bounds={[-10, 20]}
-          />
-        ) : (
-          <>
-            <RangeSlider
-              label="x (Real axis)"
-              min={xMin}
-              max={xMax}
-              onMinChange={(val) => onXRangeChange(val, xMax)}
-              onMaxChange={(val) => onXRangeChange(xMin, val)}
-            />
+      {!isSphere && (
+        <div className="plot-settings__section">
+          <h3 className="plot-settings__section-title">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <rect x="3" y="3" width="18" height="18" rx="2" />
+              <path d="M3 9h18M9 21V9" />
+            </svg>
+            Domain
+          </h3>
+          
+          {isContour ? (
             <RangeSlider
-              label="y (Imaginary axis)"
-              min={yMin}
-              max={yMax}
-              onMinChange={(val) => onYRangeChange(val, yMax)}
-              onMaxChange={(val) => onYRangeChange(yMin, val)}
+              label="t (parameter)"
+              min={tMin}
+              max={tMax}
+              onMinChange={(val) => onTRangeChange(val, tMax)}
+              onMaxChange={(val) => onTRangeChange(tMin, val)}
+              step={0.1}
+              bounds={[-10, 20]}
             />
-          </>
-        )}
-      </div>
+          ) : (
+            <>
+              <RangeSlider
+                label="x (Real axis)"
+                min={xMin}
+                max={xMax}
+                onMinChange={(val) => onXRangeChange(val, xMax)}
+                onMaxChange={(val) => onXRangeChange(xMin, val)}
+              />
+              <RangeSlider
+                label="y (Imaginary axis)"
+                min={yMin}
+                max={yMax}
+                onMinChange={(val) => onYRangeChange(val, yMax)}
+                onMaxChange={(val) => onYRangeChange(yMin, val)}
+              />
+            </>
+          )}
+        </div>
+      )}
 
       {is3D && (
         <div className="plot-settings__section">
@@ -297,13 +396,13 @@ export const PlotSettings: React.FC<PlotSettingsProps> = ({
           <Select
             label="Resolution"
             value={resolution}
-            options={resolutionOptions}
+            options={isRiemann ? riemannResolutionOptions : isSphere ? sphereResolutionOptions : resolutionOptions}
             onChange={(v) => onResolutionChange(parseInt(v))}
           />
         )}
       </div>
 
-      {!isContour && (
+      {!isContour && !isEscape && !isField && !isSeries && !isTexture && (
         <div className="plot-settings__section">
           <h3 className="plot-settings__section-title">
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -314,12 +413,48 @@ export const PlotSettings: React.FC<PlotSettingsProps> = ({
             Visualization
           </h3>
           
-          <Select
-            label="Color by"
-            value={colorBy}
-            options={colorMappingOptions}
-            onChange={(v) => onColorByChange(v as ColorMapping)}
-          />
+          {isNewton ? (
+            <>
+              <Select
+                label="Damping a"
+                value={damping ?? 1}
+                options={dampingOptions}
+                onChange={(v) => onDampingChange?.(parseFloat(v))}
+              />
+              <Select
+                label="Max iterations"
+                value={maxIterations ?? 50}
+                options={newtonIterationOptions}
+                onChange={(v) => onMaxIterationsChange?.(parseInt(v))}
+              />
+              <p className="plot-settings__hint">Colored by root reached, darker for more steps</p>
+            </>
+          ) : isRiemann ? (
+            <>
+              <Select
+                label="Sheets"
+                value={sheets ?? 2}
+                options={sheetOptions}
+                onChange={(v) => onSheetsChange?.(parseInt(v))}
+              />
+              <Select
+                label="Height by"
+                value={heightBy}
+                options={sheetHeightOptions}
+                onChange={(v) => onHeightByChange(v as ColorMapping)}
+              />
+              <p className="plot-settings__hint">Colored by arg f(z)</p>
+            </>
+          ) : isPortrait ? (
+            <p className="plot-settings__hint">Colored by the phase portrait scheme below</p>
+          ) : (
+            <Select
+              label="Color by"
+              value={colorBy}
+              options={isSphere ? sphereColorOptions : colorMappingOptions}
+              onChange={(v) => onColorByChange(v as ColorMapping)}
+            />
+          )}
           
           {is3D && (
             <Select
@@ -329,6 +464,32 @@ export const PlotSettings: React.FC<PlotSettingsProps> = ({
               onChange={(v) => onHeightByChange(v as ColorMapping)}
             />
           )}
+
+          {(isDomain || is3D) && !isPortrait && isDerivedMapping(colorBy) && (
+            <p className="plot-settings__hint">{derivedHints[colorBy]}</p>
+          )}
+
+          {isDomain && (
+            <>
+              <Select
+                label="Rendering"
+                value={rendering ?? 'heatmap'}
+                options={renderingOptions}
+                onChange={(v) => onRenderingChange?.(v as DomainRendering)}
+              />
+              <Select
+                label="Overlay"
+                value={overlay ?? 'none'}
+                options={overlayOptions}
+                onChange={(v) => onOverlayChange?.(v as DomainOverlay)}
+              />
+              {overlay === 'cauchyRiemann' && (
+                <p className="plot-settings__hint">
+                  Brighter where ∂f/∂z̄ ≠ 0; the outlined regions fail the Cauchy–Riemann equations
+                </p>
+              )}
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,95 @@
+import React from 'react';
+import type { PointAtInfinity, RiemannSphereConfig, SphereFacing } from '../../types/index';
+import { formatPoint } from '../../math/contourPath';
+import './RiemannSphereControls.css';
+
+export interface RiemannSphereControlsProps {
+  config: RiemannSphereConfig;
+  /** Behaviour of f at ∞ (null if there is no sphere to show) */
+  infinity: PointAtInfinity | null;
+  /** Whether the contour mode has any curves to draw */
+  hasContours: boolean;
+  onChange: (config: Partial<RiemannSphereConfig>) => void;
+}
+
+const facingLabels: Record<SphereFacing, string> = {
+  zero: '0',
+  one: '1',
+  i: 'i',
+  infinity: '∞',
+};
+
+/**
+ * One line on what f does at ∞
+ */
+function describeInfinity(infinity: PointAtInfinity): string {
+  switch (infinity.kind) {
+    case 'zero':
+      return `zero of order ${infinity.multiplicity} at ∞`;
+    case 'pole':
+      return `pole of order ${infinity.multiplicity} at ∞`;
+    case 'regular':
+      return `f(∞) = ${infinity.value ? formatPoint(infinity.value) : '?'}`;
+    case 'singular':
+      return 'no limit at ∞ (essential singularity or branch point)';
+  }
+}
+
+/**
+ * View and overlay options of the Riemann sphere mode
+ */
+export const RiemannSphereControls: React.FC<RiemannSphereControlsProps> = ({
+  config,
+  infinity,
+  hasContours,
+  onChange,
+}) => (
+  <div className="sphere-controls">
+    <div className="sphere-controls__header">
+      <span className="sphere-controls__title">Sphere</span>
+      <div className="sphere-controls__options" title="Turn this point toward you">
+        {(Object.keys(facingLabels) as SphereFacing[]).map((facing) => (
+          <button
+            key={facing}
+            className={`sphere-controls__option ${config.facing === facing ? 'active' : ''}`}
+            onClick={() => onChange({ facing })}
+          >
+            {facingLabels[facing]}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <label className="sphere-controls__toggle">
+      <input
+        type="checkbox"
+        className="sphere-controls__checkbox"
+        checked={config.graticule}
+        onChange={(e) => onChange({ graticule: e.target.checked })}
+      />
+      Graticule (|z| = ¼, ½, 1, 2, 4 and arg z every 30°)
+    </label>
+    <label className="sphere-controls__toggle">
+      <input
+        type="checkbox"
+        className="sphere-controls__checkbox"
+        checked={config.showContours}
+        onChange={(e) => onChange({ showContours: e.target.checked })}
+      />
+      Contours from the Contour mode
+    </label>
+    {config.showContours && !hasContours && (
+      <p className="sphere-controls__hint">No contours yet; add some in the Contour mode.</p>
+    )}
+
+    {infinity && (
+      <p className={`sphere-controls__infinity ${infinity.kind}`}>{describeInfinity(infinity)}</p>
+    )}
+
+    <p className="sphere-controls__hint">
+      0 is at the south pole and ∞ at the north pole; the equator is |z| = 1.
+    </p>
+  </div>
+);
+
+export default RiemannSphereControls;
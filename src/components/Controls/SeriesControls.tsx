@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { evaluate } from 'mathjs';
+import type { ComplexPoint, SeriesConfig, SeriesData, SeriesKind, SeriesView } from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { formatPoint } from '../../math/contourPath';
+import './SeriesControls.css';
+
+export interface SeriesControlsProps {
+  config: SeriesConfig;
+  /** Coefficients and estimated convergence (null if f could not be expanded) */
+  series: SeriesData | null;
+  onChange: (config: Partial<SeriesConfig>) => void;
+}
+
+const kindLabels: Record<SeriesKind, string> = {
+  taylor: 'Taylor',
+  laurent: 'Laurent',
+};
+
+const viewLabels: Record<SeriesView, string> = {
+  difference: 'f − S_N',
+  partialSum: 'S_N',
+  function: 'f',
+};
+
+const orderOptions = [4, 8, 12, 16, 24, 32];
+
+/**
+ * Parse a complex constant such as "1 + i" or "pi/2" (null if it is not one)
+ */
+function parseComplexInput(text: string): ComplexPoint | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Number.isFinite(value.im) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format a coefficient to 4 significant digits, dropping a part that is roundoff next to the other
+ */
+function formatCoefficient(p: ComplexPoint): string {
+  const size = Math.hypot(p.re, p.im);
+  if (size === 0) return '0';
+  const part = (v: number) => (Math.abs(v) < 1e-12 * size ? 0 : Number(v.toPrecision(4)));
+  const re = part(p.re);
+  const im = part(p.im);
+  if (im === 0) return String(re);
+  const imPart = `${Math.abs(im)}i`;
+  if (re === 0) return im < 0 ? `-${imPart}` : imPart;
+  return `${re} ${im < 0 ? '-' : '+'} ${imPart}`;
+}
+
+function formatRadius(r: number): string {
+  return isFinite(r) ? r.toPrecision(4) : '∞';
+}
+
+interface ConstantInputProps {
+  label: string;
+  value: ComplexPoint;
+  /** Whether a parsed value may be committed */
+  accept: (value: ComplexPoint) => boolean;
+  onChange: (value: ComplexPoint) => void;
+}
+
+const ConstantInput: React.FC<ConstantInputProps> = ({ label, value, accept, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseComplexInput(draft);
+    const valid = parsed !== null && accept(parsed);
+    setError(!valid);
+    if (valid) {
+      setDraft(null);
+      if (parsed.re !== value.re || parsed.im !== value.im) {
+        onChange(parsed);
+      }
+    }
+  };
+
+  return (
+    <label className="series-controls__field">
+      <span className="series-controls__label">{label}</span>
+      <input
+        type="text"
+        className={`series-controls__input ${error ? 'error' : ''}`}
+        value={draft ?? formatPoint(value)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+};
+
+const isReal = (p: ComplexPoint) => Math.abs(p.im) < 1e-10;
+
+/**
+ * Center, circle or annulus, order and coefficient list of the series mode
+ */
+export const SeriesControls: React.FC<SeriesControlsProps> = ({ config, series, onChange }) => {
+  const isTaylor = config.kind === 'taylor';
+  const [inner, outer] = config.annulus;
+
+  let convergence = '';
+  if (series) {
+    const { inner: r, outer: R } = series.convergence;
+    convergence = isTaylor || r === 0
+      ? `|z − z₀| < ${formatRadius(R)}`
+      : `${formatRadius(r)} < |z − z₀| < ${formatRadius(R)}`;
+  }
+
+  return (
+    <div className="series-controls">
+      <div className="series-controls__header">
+        <span className="series-controls__title">Series</span>
+        <div className="series-controls__options">
+          {(Object.keys(kindLabels) as SeriesKind[]).map((kind) => (
+            <button
+              key={kind}
+              className={`series-controls__option ${config.kind === kind ? 'active' : ''}`}
+              onClick={() => onChange({ kind })}
+            >
+              {kindLabels[kind]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="series-controls__row">
+        <ConstantInput label="Center z₀" value={config.center} accept={() => true}
+          onChange={(center) => onChange({ center })} />
+        {isTaylor && (
+          <ConstantInput label="Circle radius" value={{ re: config.radius, im: 0 }}
+            accept={(p) => isReal(p) && p.re > 0} onChange={(p) => onChange({ radius: p.re })} />
+        )}
+      </div>
+      {!isTaylor && (
+        <div className="series-controls__row">
+          <ConstantInput label="Inner radius" value={{ re: inner, im: 0 }}
+            accept={(p) => isReal(p) && p.re >= 0 && p.re < outer}
+            onChange={(p) => onChange({ annulus: [p.re, outer] })} />
+          <ConstantInput label="Outer radius" value={{ re: outer, im: 0 }}
+            accept={(p) => isReal(p) && p.re > inner}
+            onChange={(p) => onChange({ annulus: [inner, p.re] })} />
+        </div>
+      )}
+
+      <div className="series-controls__row">
+        <label className="series-controls__field">
+          <span className="series-controls__label">Order N</span>
+          <select
+            className="series-controls__select"
+            value={config.order}
+            onChange={(e) => onChange({ order: parseInt(e.target.value) })}
+          >
+            {orderOptions.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <div className="series-controls__field">
+          <span className="series-controls__label">Show</span>
+          <div className="series-controls__options">
+            {(Object.keys(viewLabels) as SeriesView[]).map((view) => (
+              <button
+                key={view}
+                className={`series-controls__option ${config.view === view ? 'active' : ''}`}
+                onClick={() => onChange({ view })}
+              >
+                {viewLabels[view]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {series ? (
+        <>
+          <p className="series-controls__convergence">
+            Converges for {convergence} <span className="series-controls__estimate">(estimated)</span>
+          </p>
+          <div className="series-controls__coefficients">
+            <table className="series-controls__table">
+              <thead>
+                <tr>
+                  <th>n</th>
+                  <th>c_n</th>
+                  <th>|c_n|</th>
+                </tr>
+              </thead>
+              <tbody>
+                {series.coefficients.map((c) => (
+                  <tr key={c.n}>
+                    <td>{c.n}</td>
+                    <td>{formatCoefficient(c.value)}</td>
+                    <td>{Math.hypot(c.value.re, c.value.im).toExponential(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="series-controls__hint">Could not expand f on this circle; move z₀ or change the radius.</p>
+      )}
+
+      <p className="series-controls__hint">
+        Coefficients come from the Cauchy integral on |z − z₀| = {series ? formatRadius(series.circleRadius) : '…'}.
+        Click the plot to move z₀.
+      </p>
+    </div>
+  );
+};
+
+export default SeriesControls;
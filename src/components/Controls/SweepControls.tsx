@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { evaluate } from 'mathjs';
+import type { ComplexPoint, Parameter, ParameterSweep } from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { sweepValue } from '../../math/asyncGenerators';
+import './SweepControls.css';
+
+export interface SweepControlsProps {
+  parameters: Parameter[];
+  sweep: ParameterSweep | null;
+  onChange: (sweep: ParameterSweep | null) => void;
+  /** Whether the frames are playing */
+  playing: boolean;
+  onTogglePlay: () => void;
+  /** Playback position along the sweep, 0 to 1 */
+  position: number;
+  onScrub: (position: number) => void;
+  /** Whether frames are still being computed, and how far along */
+  busy: boolean;
+  progress: number;
+  /** Why the frames could not be computed (null unless they failed) */
+  error?: string | null;
+}
+
+const durationOptions = [1, 2, 3, 5, 10];
+const frameOptions = [12, 24, 48, 96];
+
+/**
+ * Format a value to at most 3 decimals (without "-0")
+ */
+function formatNumber(value: number): string {
+  const text = value.toFixed(3);
+  return Number(text) === 0 ? '0' : String(Number(text));
+}
+
+function formatComplex(value: ComplexPoint): string {
+  if (value.im === 0) return formatNumber(value.re);
+  const sign = value.im < 0 ? '-' : '+';
+  return `${formatNumber(value.re)} ${sign} ${formatNumber(Math.abs(value.im))}i`;
+}
+
+/**
+ * Parse a complex constant such as "-1 + 0.5i" (null if it is not one)
+ */
+function parseComplexInput(text: string): ComplexPoint | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Number.isFinite(value.im) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sweep a parameter across its slider range (real), or horizontally through
+ * its current value (complex)
+ */
+function defaultSweep(parameter: Parameter): ParameterSweep {
+  const im = parameter.kind === 'real' ? 0 : parameter.value.im;
+  return {
+    parameterId: parameter.id,
+    start: { re: parameter.min, im },
+    end: { re: parameter.max, im },
+    duration: 3,
+    frames: 24,
+  };
+}
+
+interface EndpointInputProps {
+  label: string;
+  value: ComplexPoint;
+  onChange: (value: ComplexPoint) => void;
+}
+
+const EndpointInput: React.FC<EndpointInputProps> = ({ label, value, onChange }) => {
+  const [text, setText] = useState(formatComplex(value));
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setText(formatComplex(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseComplexInput(text);
+    setError(parsed === null);
+    if (parsed && (parsed.re !== value.re || parsed.im !== value.im)) {
+      onChange(parsed);
+    }
+  };
+
+  return (
+    <label className="sweep-controls__endpoint">
+      <span className="sweep-controls__label">{label}</span>
+      <input
+        type="text"
+        className={`sweep-controls__input ${error ? 'error' : ''}`}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        spellCheck={false}
+        autoComplete="off"
+      />
+    </label>
+  );
+};
+
+export const SweepControls: React.FC<SweepControlsProps> = ({
+  parameters,
+  sweep,
+  onChange,
+  playing,
+  onTogglePlay,
+  position,
+  onScrub,
+  busy,
+  progress,
+  error = null,
+}) => {
+  const parameter = parameters.find((p) => p.id === sweep?.parameterId);
+
+  const handleParameterChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const chosen = parameters.find((p) => p.id === e.target.value);
+    onChange(chosen ? defaultSweep(chosen) : null);
+  };
+
+  return (
+    <div className="sweep-controls">
+      <div className="sweep-controls__header">
+        <span className="sweep-controls__title">Sweep</span>
+        <select
+          className="sweep-controls__select"
+          value={parameter?.id ?? ''}
+          onChange={handleParameterChange}
+          title="Parameter to animate"
+        >
+          <option value="">None</option>
+          {parameters.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {parameters.length === 0 && (
+        <p className="sweep-controls__hint">Add a parameter to animate the function family it spans.</p>
+      )}
+
+      {sweep && parameter && (
+        <>
+          <div className="sweep-controls__row">
+            <EndpointInput label="From" value={sweep.start} onChange={(start) => onChange({ ...sweep, start })} />
+            <EndpointInput label="To" value={sweep.end} onChange={(end) => onChange({ ...sweep, end })} />
+          </div>
+
+          <div className="sweep-controls__row">
+            <label className="sweep-controls__endpoint">
+              <span className="sweep-controls__label">Duration</span>
+              <select
+                className="sweep-controls__select"
+                value={sweep.duration}
+                onChange={(e) => onChange({ ...sweep, duration: parseFloat(e.target.value) })}
+              >
+                {durationOptions.map((d) => (
+                  <option key={d} value={d}>{d} s</option>
+                ))}
+              </select>
+            </label>
+            <label className="sweep-controls__endpoint">
+              <span className="sweep-controls__label">Frames</span>
+              <select
+                className="sweep-controls__select"
+                value={sweep.frames}
+                onChange={(e) => onChange({ ...sweep, frames: parseInt(e.target.value) })}
+              >
+                {frameOptions.map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="sweep-controls__player">
+            <button
+              className={`sweep-controls__play ${playing ? 'active' : ''}`}
+              onClick={onTogglePlay}
+              disabled={busy}
+              title={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? (
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+                  <rect x="6" y="4" width="4" height="16" />
+                  <rect x="14" y="4" width="4" height="16" />
+                </svg>
+              ) : (
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+                  <polygon points="5,3 19,12 5,21" />
+                </svg>
+              )}
+            </button>
+            <input
+              type="range"
+              className="range-slider__slider sweep-controls__scrub"
+              min={0}
+              max={1}
+              step={0.001}
+              value={position}
+              onChange={(e) => onScrub(parseFloat(e.target.value))}
+              disabled={busy}
+            />
+          </div>
+
+          <div className={`sweep-controls__status ${error ? 'error' : ''}`}>
+            {error
+              ? `Frames failed: ${error}`
+              : busy
+                ? `Computing frames… ${Math.round(progress * 100)}%`
+                : `${parameter.name} = ${formatComplex(sweepValue(sweep, position))}`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SweepControls;
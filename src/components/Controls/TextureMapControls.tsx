@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { evaluate } from 'mathjs';
+import type { TextureImage, TextureMapConfig, TextureMapping, TextureSource, TextureWrap } from '../../types/index';
+import { toComplexPoint } from '../../math/evaluator';
+import { formatPoint } from '../../math/contourPath';
+import './TextureMapControls.css';
+
+export interface TextureMapControlsProps {
+  config: TextureMapConfig;
+  onChange: (config: Partial<TextureMapConfig>) => void;
+}
+
+const sourceLabels: Record<TextureSource, string> = {
+  checkerboard: 'Checkerboard',
+  polarTarget: 'Polar target',
+  image: 'Image',
+};
+
+const mappingLabels: Record<TextureMapping, string> = {
+  cartesian: 'Cartesian',
+  polar: 'Polar',
+  logPolar: 'Log-polar',
+};
+
+const mappingHints: Record<TextureMapping, string> = {
+  cartesian: 'Each tile spans a square of side "scale" in the w-plane, the first one centered at w = 0.',
+  polar: 'One tile per turn of arg w, and one per ring of width "scale" in |w|.',
+  logPolar: 'One tile per turn of arg w, and one each time |w| grows by e^(2π); conformal maps keep these tiles square.',
+};
+
+const wrapLabels: Record<TextureWrap, string> = {
+  repeat: 'Repeat',
+  mirror: 'Mirror',
+  clamp: 'Clamp',
+  none: 'None',
+};
+
+const cellOptions = [4, 6, 8, 12, 16];
+
+// Longest side of a loaded image; larger ones are scaled down before sampling
+const TEXTURE_MAX_SIZE = 512;
+
+/**
+ * Evaluate a real constant such as "2" or "pi/2" (null if it is not one)
+ */
+function parseRealInput(text: string): number | null {
+  if (!text.trim()) return null;
+  try {
+    const value = toComplexPoint(evaluate(text));
+    return Number.isFinite(value.re) && Math.abs(value.im) < 1e-10 ? value.re : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode an image file into RGBA pixels, scaled down to TEXTURE_MAX_SIZE
+ */
+async function loadTextureImage(file: File): Promise<TextureImage> {
+  const bitmap = await createImageBitmap(file);
+  const factor = Math.min(1, TEXTURE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * factor));
+  const height = Math.max(1, Math.round(bitmap.height * factor));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('No 2D canvas context');
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { name: file.name, width, height, pixels: context.getImageData(0, 0, width, height).data };
+}
+
+/**
+ * Texture, tiling and wrap settings of the texture mapping mode
+ */
+export const TextureMapControls: React.FC<TextureMapControlsProps> = ({ config, onChange }) => {
+  const [scaleDraft, setScaleDraft] = useState<string | null>(null);
+  const [scaleError, setScaleError] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const commitScale = () => {
+    if (scaleDraft === null) return;
+    const parsed = parseRealInput(scaleDraft);
+    const valid = parsed !== null && parsed > 0;
+    setScaleError(!valid);
+    if (valid) {
+      setScaleDraft(null);
+      if (parsed !== config.scale) {
+        onChange({ scale: parsed });
+      }
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after it is replaced
+    e.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    setLoadError(null);
+    try {
+      onChange({ texture: 'image', image: await loadTextureImage(file) });
+    } catch {
+      setLoadError(`Could not read ${file.name} as an image.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="texture-controls">
+      <div className="texture-controls__header">
+        <span className="texture-controls__title">Texture</span>
+      </div>
+
+      <div className="texture-controls__sources">
+        {(Object.keys(sourceLabels) as TextureSource[]).map((texture) => (
+          <button
+            key={texture}
+            className={`texture-controls__source ${config.texture === texture ? 'active' : ''}`}
+            onClick={() => onChange({ texture })}
+          >
+            {sourceLabels[texture]}
+          </button>
+        ))}
+      </div>
+
+      {config.texture === 'image' && (
+        <div className="texture-controls__upload">
+          <label className="texture-controls__file">
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              className="texture-controls__file-input"
+              onChange={handleFile}
+            />
+            {loading ? 'Loading…' : config.image ? 'Replace image' : 'Load PNG or JPEG'}
+          </label>
+          {config.image && (
+            <span className="texture-controls__image-name" title={config.image.name}>
+              {config.image.name} ({config.image.width}×{config.image.height})
+            </span>
+          )}
+        </div>
+      )}
+      {config.texture === 'image' && loadError && (
+        <p className="texture-controls__error">{loadError}</p>
+      )}
+
+      <div className="texture-controls__field">
+        <span className="texture-controls__label">Mapping</span>
+        <div className="texture-controls__options">
+          {(Object.keys(mappingLabels) as TextureMapping[]).map((mapping) => (
+            <button
+              key={mapping}
+              className={`texture-controls__option ${config.mapping === mapping ? 'active' : ''}`}
+              onClick={() => onChange({ mapping })}
+            >
+              {mappingLabels[mapping]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="texture-controls__hint">{mappingHints[config.mapping]}</p>
+
+      <div className="texture-controls__field">
+        <span className="texture-controls__label">Outside the first tile</span>
+        <div className="texture-controls__options">
+          {(Object.keys(wrapLabels) as TextureWrap[]).map((wrap) => (
+            <button
+              key={wrap}
+              className={`texture-controls__option ${config.wrap === wrap ? 'active' : ''}`}
+              onClick={() => onChange({ wrap })}
+            >
+              {wrapLabels[wrap]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="texture-controls__row">
+        <label className="texture-controls__field">
+          <span className="texture-controls__label">Scale</span>
+          <input
+            type="text"
+            className={`texture-controls__input ${scaleError ? 'error' : ''}`}
+            value={scaleDraft ?? formatPoint({ re: config.scale, im: 0 })}
+            onChange={(e) => setScaleDraft(e.target.value)}
+            onBlur={commitScale}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            spellCheck={false}
+            autoComplete="off"
+          />
+        </label>
+        {config.texture !== 'image' && (
+          <label className="texture-controls__field">
+            <span className="texture-controls__label">Cells per tile</span>
+            <select
+              className="texture-controls__select"
+              value={config.cells}
+              onChange={(e) => onChange({ cells: parseInt(e.target.value) })}
+            >
+              {cellOptions.map((cells) => (
+                <option key={cells} value={cells}>{cells}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <p className="texture-controls__hint">
+        Each z takes the color of the texture at w = f(z). Where f is conformal the tiles
+        come back as small curvilinear squares; transparent pixels are where f is undefined
+        or the texture is left blank.
+      </p>
+    </div>
+  );
+};
+
+export default TextureMapControls;
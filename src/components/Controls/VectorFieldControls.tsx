@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { VectorFieldConfig } from '../../types/index';
+import { isValidExpression } from '../../math/parser';
+import './VectorFieldControls.css';
+
+export interface VectorFieldControlsProps {
+  config: VectorFieldConfig;
+  /** Whether Φ′ = f (null when Φ is empty or could not be differentiated) */
+  potentialMatches: boolean | null;
+  onChange: (config: Partial<VectorFieldConfig>) => void;
+}
+
+const arrowOptions = [12, 16, 20, 24, 32];
+const levelOptions = [0, 6, 12, 20, 30];
+
+/**
+ * Arrow density, streamline seeds and the complex potential of the flow mode
+ */
+export const VectorFieldControls: React.FC<VectorFieldControlsProps> = ({ config, potentialMatches, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const text = draft ?? config.potential;
+  const valid = text.trim() === '' || isValidExpression(text);
+
+  const commit = () => {
+    if (draft === null || !valid) return;
+    setDraft(null);
+    if (draft.trim() !== config.potential) {
+      onChange({ potential: draft.trim() });
+    }
+  };
+
+  let status: { text: string; className: string } | null = null;
+  if (config.potential.trim() !== '') {
+    if (potentialMatches === true) {
+      status = { text: 'Φ′ = f ✓', className: 'match' };
+    } else if (potentialMatches === false) {
+      status = { text: 'Φ′ ≠ f, level curves are not the flow’s', className: 'mismatch' };
+    } else {
+      status = { text: 'Φ′ could not be checked', className: '' };
+    }
+  }
+
+  return (
+    <div className="field-controls">
+      <div className="field-controls__header">
+        <span className="field-controls__title">Flow</span>
+        <span className="field-controls__seeds">
+          {config.seeds.length} seed{config.seeds.length === 1 ? '' : 's'}
+          <button
+            className="field-controls__clear"
+            onClick={() => onChange({ seeds: [] })}
+            disabled={config.seeds.length === 0}
+          >
+            Clear
+          </button>
+        </span>
+      </div>
+
+      <label className="field-controls__field">
+        <span className="field-controls__label">Potential Φ(z)</span>
+        <input
+          type="text"
+          className={`field-controls__input ${valid ? '' : 'error'}`}
+          value={text}
+          placeholder="e.g. z + 1/z (optional)"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          spellCheck={false}
+          autoComplete="off"
+        />
+      </label>
+      {status && <span className={`field-controls__status ${status.className}`}>{status.text}</span>}
+
+      <div className="field-controls__row">
+        <label className="field-controls__field">
+          <span className="field-controls__label">Arrows per axis</span>
+          <select
+            className="field-controls__select"
+            value={config.arrows}
+            onChange={(e) => onChange({ arrows: parseInt(e.target.value) })}
+          >
+            {arrowOptions.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="field-controls__field">
+          <span className="field-controls__label">Level curves</span>
+          <select
+            className="field-controls__select"
+            value={config.levels}
+            onChange={(e) => onChange({ levels: parseInt(e.target.value) })}
+          >
+            {levelOptions.map((n) => (
+              <option key={n} value={n}>{n === 0 ? 'Off' : n}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="field-controls__hint">
+        Click the plot to start a streamline. Dotted curves are Re Φ = const, solid ones Im Φ = const.
+      </p>
+    </div>
+  );
+};
+
+export default VectorFieldControls;
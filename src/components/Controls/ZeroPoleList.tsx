@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import type { ZeroPole } from '../../types/index';
+import './ZeroPoleList.css';
+
+export interface ZeroPoleListProps {
+  zerosAndPoles: ZeroPole[];
+}
+
+type SortKey = 'label' | 'type' | 're' | 'im' | 'modulus' | 'multiplicity';
+
+interface Column {
+  key: SortKey;
+  label: string;
+  value: (p: ZeroPole) => number | string;
+}
+
+const columns: Column[] = [
+  { key: 'label', label: 'Label', value: (p) => p.label },
+  { key: 'type', label: 'Type', value: (p) => p.type },
+  { key: 're', label: 'Re', value: (p) => p.location.re },
+  { key: 'im', label: 'Im', value: (p) => p.location.im },
+  { key: 'modulus', label: '|z|', value: (p) => Math.hypot(p.location.re, p.location.im) },
+  { key: 'multiplicity', label: 'Mult.', value: (p) => p.multiplicity },
+];
+
+/**
+ * Format a coordinate, avoiding "-0.0000" for values that round to zero
+ */
+function formatNumber(value: number): string {
+  const text = value.toFixed(4);
+  return Number(text) === 0 ? '0.0000' : text;
+}
+
+/**
+ * Compare labels like Z2 and Z10 by their number
+ */
+function compareLabels(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+export const ZeroPoleList: React.FC<ZeroPoleListProps> = ({ zerosAndPoles }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('label');
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = useMemo(() => {
+    const column = columns.find((c) => c.key === sortKey) ?? columns[0];
+    const direction = ascending ? 1 : -1;
+    return [...zerosAndPoles].sort((a, b) => {
+      const va = column.value(a);
+      const vb = column.value(b);
+      const order = typeof va === 'number' && typeof vb === 'number'
+        ? va - vb
+        : compareLabels(String(va), String(vb));
+      return direction * (order || compareLabels(a.label, b.label));
+    });
+  }, [zerosAndPoles, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending((prev) => !prev);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const zeroCount = zerosAndPoles.filter((p) => p.type === 'zero').length;
+  const poleCount = zerosAndPoles.length - zeroCount;
+
+  return (
+    <div className="zero-pole-list">
+      <h3 className="zero-pole-list__title">
+        Zeros &amp; Poles
+        <span className="zero-pole-list__count">
+          {zeroCount} zero{zeroCount === 1 ? '' : 's'}, {poleCount} pole{poleCount === 1 ? '' : 's'}
+        </span>
+      </h3>
+
+      {zerosAndPoles.length === 0 ? (
+        <p className="zero-pole-list__empty">None found in the viewport</p>
+      ) : (
+        <table className="zero-pole-list__table">
+          <thead>
+            <tr>
+              {columns.map((column) => (
+                <th
+                  key={column.key}
+                  className={sortKey === column.key ? 'sorted' : ''}
+                  onClick={() => handleSort(column.key)}
+                  aria-sort={sortKey === column.key ? (ascending ? 'ascending' : 'descending') : 'none'}
+                >
+                  {column.label}
+                  {sortKey === column.key && (ascending ? ' ▲' : ' ▼')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((p) => (
+              <tr key={p.label} className={`zero-pole-list__row--${p.type}`}>
+                <td className="zero-pole-list__label">{p.label}</td>
+                <td>{p.type}</td>
+                <td>{formatNumber(p.location.re)}</td>
+                <td>{formatNumber(p.location.im)}</td>
+                <td>{formatNumber(Math.hypot(p.location.re, p.location.im))}</td>
+                <td>{p.multiplicity}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ZeroPoleList;
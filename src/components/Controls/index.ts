@@ -10,3 +10,38 @@ export type { ModeSelectorProps } from './ModeSelector';
 export { ContourInput, CONTOUR_COLORS } from './ContourInput';
 export type { ContourInputProps } from './ContourInput';
 
+export { ContourPiecesEditor } from './ContourPiecesEditor';
+export type { ContourPiecesEditorProps } from './ContourPiecesEditor';
+
+export { ParameterPanel } from './ParameterPanel';
+export type { ParameterPanelProps } from './ParameterPanel';
+
+export { SweepControls } from './SweepControls';
+export type { SweepControlsProps } from './SweepControls';
+
+export { ZeroPoleList } from './ZeroPoleList';
+export type { ZeroPoleListProps } from './ZeroPoleList';
+
+export { EscapeTimeControls } from './EscapeTimeControls';
+export type { EscapeTimeControlsProps } from './EscapeTimeControls';
+
+export { ConformalGridControls } from './ConformalGridControls';
+export type { ConformalGridControlsProps } from './ConformalGridControls';
+
+export { VectorFieldControls } from './VectorFieldControls';
+export type { VectorFieldControlsProps } from './VectorFieldControls';
+
+export { SeriesControls } from './SeriesControls';
+export type { SeriesControlsProps } from './SeriesControls';
+
+export { RiemannSphereControls } from './RiemannSphereControls';
+export type { RiemannSphereControlsProps } from './RiemannSphereControls';
+
+export { MobiusEditor } from './MobiusEditor';
+export type { MobiusEditorProps } from './MobiusEditor';
+
+export { PhasePortraitControls } from './PhasePortraitControls';
+export type { PhasePortraitControlsProps } from './PhasePortraitControls';
+
+export { TextureMapControls } from './TextureMapControls';
+export type { TextureMapControlsProps } from './TextureMapControls';
@@ -0,0 +1,250 @@
+import React, { useMemo } from 'react';
+import Plot from 'react-plotly.js';
+import type { ArgumentPrincipleData, ComplexPoint, ZeroPole } from '../../types';
+import './ArgumentPrincipleView.css';
+
+export interface ArgumentPrincipleViewProps {
+  /** γ, f(γ(t)) and the winding count for one contour */
+  data: ArgumentPrincipleData;
+  /** Whether the zeros and poles inside γ are still being searched for */
+  counting?: boolean;
+}
+
+/**
+ * Format a complex number for display
+ */
+function formatComplex(z: ComplexPoint, precision = 3): string {
+  const re = z.re.toFixed(precision);
+  const im = Math.abs(z.im).toFixed(precision);
+  const sign = z.im >= 0 ? '+' : '-';
+  return `${re} ${sign} ${im}i`;
+}
+
+/**
+ * Plotly coordinates, with null gaps where a point is undefined
+ */
+function toXY(points: ComplexPoint[]): { x: (number | null)[]; y: (number | null)[] } {
+  const defined = (p: ComplexPoint) => isFinite(p.re) && isFinite(p.im);
+  return {
+    x: points.map((p) => (defined(p) ? p.re : null)),
+    y: points.map((p) => (defined(p) ? p.im : null)),
+  };
+}
+
+/**
+ * Axis ranges with equal padding that always include the origin
+ */
+function boundsOf(points: ComplexPoint[]): { x: [number, number]; y: [number, number] } {
+  let minRe = 0, maxRe = 0, minIm = 0, maxIm = 0;
+  for (const p of points) {
+    if (!isFinite(p.re) || !isFinite(p.im)) continue;
+    minRe = Math.min(minRe, p.re);
+    maxRe = Math.max(maxRe, p.re);
+    minIm = Math.min(minIm, p.im);
+    maxIm = Math.max(maxIm, p.im);
+  }
+  const padding = Math.max(maxRe - minRe, maxIm - minIm, 1) * 0.1;
+  return {
+    x: [minRe - padding, maxRe + padding],
+    y: [minIm - padding, maxIm + padding],
+  };
+}
+
+const axisStyle = {
+  gridcolor: 'rgba(128, 128, 128, 0.2)',
+  zerolinecolor: 'rgba(100, 180, 255, 0.4)',
+  zerolinewidth: 1,
+  tickfont: { color: '#8b949e', size: 10 },
+  color: '#8b949e',
+};
+
+const plotConfig = {
+  responsive: true,
+  displayModeBar: false,
+  staticPlot: false,
+};
+
+export const ArgumentPrincipleView: React.FC<ArgumentPrincipleViewProps> = ({ data, counting = false }) => {
+  const { color, expression, transformFunction, contourPoints, imagePoints, winding, region, enclosed, enclosedCount } = data;
+
+  // z-plane: γ with its interior shaded, and the zeros and poles found inside
+  const contourTraces: Plotly.Data[] = useMemo(() => {
+    const markers = (points: ZeroPole[], marker: Partial<Plotly.PlotMarker>): Plotly.Data => ({
+      type: 'scatter',
+      mode: 'text+markers',
+      x: points.map((p) => p.location.re),
+      y: points.map((p) => p.location.im),
+      text: points.map((p) => (p.multiplicity > 1 ? `${p.label} ×${p.multiplicity}` : p.label)),
+      textposition: 'top right',
+      textfont: { color: '#e6edf3', size: 10 },
+      marker,
+      hovertemplate: '%{text}: %{x:.4f} + %{y:.4f}i<extra></extra>',
+      showlegend: false,
+    });
+
+    return [
+      {
+        type: 'scatter',
+        mode: 'lines',
+        ...toXY(contourPoints),
+        fill: 'toself',
+        fillcolor: `${color}26`,
+        line: { color, width: 2 },
+        hoverinfo: 'skip',
+        name: 'γ',
+      },
+      markers(enclosed.filter((p) => p.type === 'zero'), {
+        symbol: 'circle-open',
+        size: 10,
+        color: '#ffffff',
+        line: { width: 2, color: '#ffffff' },
+      }),
+      markers(enclosed.filter((p) => p.type === 'pole'), {
+        symbol: 'x-thin',
+        size: 10,
+        color: '#ff5555',
+        line: { width: 2.5, color: '#ff5555' },
+      }),
+    ];
+  }, [contourPoints, enclosed, color]);
+
+  // w-plane: f(γ(t)) winding around the origin
+  const imageTraces: Plotly.Data[] = useMemo(() => {
+    const start = imagePoints.find((p) => isFinite(p.re) && isFinite(p.im));
+    return [
+      {
+        type: 'scatter',
+        mode: 'lines',
+        ...toXY(imagePoints),
+        connectgaps: false,
+        line: { color, width: 2 },
+        hoverinfo: 'skip',
+        name: 'f(γ(t))',
+      },
+      {
+        type: 'scatter',
+        mode: 'markers',
+        x: start ? [start.re] : [],
+        y: start ? [start.im] : [],
+        marker: { size: 9, color, symbol: 'circle', line: { color: '#fff', width: 1 } },
+        hovertemplate: start ? `f(γ(t₀)) = ${formatComplex(start)}<extra></extra>` : '',
+        showlegend: false,
+      },
+      {
+        type: 'scatter',
+        mode: 'markers',
+        x: [0],
+        y: [0],
+        marker: { size: 10, color: '#ffb86c', symbol: 'x' },
+        hovertemplate: 'Origin<extra></extra>',
+        showlegend: false,
+      },
+    ];
+  }, [imagePoints, color]);
+
+  const contourLayout = useMemo(() => {
+    const bounds = boundsOf(contourPoints);
+    return {
+      xaxis: { ...axisStyle, range: bounds.x, scaleanchor: 'y' as const, scaleratio: 1 },
+      yaxis: { ...axisStyle, range: bounds.y },
+      autosize: true,
+      margin: { l: 40, r: 10, t: 30, b: 35 },
+      paper_bgcolor: 'transparent',
+      plot_bgcolor: 'transparent',
+      showlegend: false,
+      title: { text: 'γ and its interior', font: { color: '#e6edf3', size: 13 }, x: 0.5, y: 0.97 },
+      uirevision: 'argumentContour',
+    };
+  }, [contourPoints]);
+
+  const imageLayout = useMemo(() => {
+    const bounds = boundsOf(imagePoints);
+    return {
+      xaxis: { ...axisStyle, range: bounds.x, scaleanchor: 'y' as const, scaleratio: 1 },
+      yaxis: { ...axisStyle, range: bounds.y },
+      autosize: true,
+      margin: { l: 40, r: 10, t: 30, b: 35 },
+      paper_bgcolor: 'transparent',
+      plot_bgcolor: 'transparent',
+      showlegend: false,
+      title: { text: 'f(γ(t))', font: { color: '#e6edf3', size: 13 }, x: 0.5, y: 0.97 },
+      uirevision: 'argumentImage',
+    };
+  }, [imagePoints]);
+
+  const agrees = winding !== null && enclosedCount !== null && winding === enclosedCount;
+
+  return (
+    <div className="argument-principle">
+      <div className="argument-principle__header">
+        <span className="argument-principle__title">
+          Argument principle: {transformFunction}(z) on γ(t) = {expression}
+        </span>
+      </div>
+
+      <div className="argument-principle__panels">
+        <div className="argument-principle__panel">
+          <Plot
+            data={contourTraces}
+            layout={contourLayout}
+            style={{ width: '100%', height: '100%' }}
+            useResizeHandler={true}
+            config={plotConfig}
+          />
+        </div>
+        <div className="argument-principle__panel">
+          <Plot
+            data={imageTraces}
+            layout={imageLayout}
+            style={{ width: '100%', height: '100%' }}
+            useResizeHandler={true}
+            config={plotConfig}
+          />
+        </div>
+      </div>
+
+      <div className="argument-principle__result">
+        <span className="argument-principle__label">Winding of f(γ) around 0:</span>
+        {winding === null ? (
+          <span className="argument-principle__note">
+            {region === null
+              ? 'γ is not closed'
+              : 'f(γ(t)) passes through 0 or ∞, so the winding is undefined'}
+          </span>
+        ) : (
+          <span className="argument-principle__value" style={{ color }}>
+            Z − P = {winding}
+          </span>
+        )}
+        {counting && (
+          <div className="argument-principle__check">
+            <span className="argument-principle__label">Found inside γ:</span>
+            <span className="argument-principle__note">searching for zeros and poles…</span>
+          </div>
+        )}
+        {!counting && enclosedCount !== null && (
+          <div className="argument-principle__check">
+            <span className="argument-principle__label">Found inside γ:</span>
+            <span className="argument-principle__value">
+              {enclosed.filter((p) => p.type === 'zero').reduce((sum, p) => sum + p.multiplicity, 0)} zeros,{' '}
+              {enclosed.filter((p) => p.type === 'pole').reduce((sum, p) => sum + p.multiplicity, 0)} poles
+              {' '}→ Z − P = {enclosedCount}
+            </span>
+            {winding !== null && (
+              <span
+                className={`argument-principle__status argument-principle__status--${agrees ? 'ok' : 'mismatch'}`}
+                title={agrees
+                  ? 'The winding count matches the zeros and poles found on a grid'
+                  : 'The grid search missed or misplaced a zero or pole (or one lies very close to γ)'}
+              >
+                {agrees ? '✓ agrees' : '✗ differs'}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArgumentPrincipleView;
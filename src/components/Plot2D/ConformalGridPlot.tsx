@@ -0,0 +1,110 @@
+import React from 'react';
+import Plot from 'react-plotly.js';
+import type { ComplexPoint, GridLineData, PlotRange } from '../../types';
+
+export interface ConformalGridPlotProps {
+  /** Grid lines with their images */
+  lines: GridLineData[];
+  /** Which curve of each line to draw */
+  side: 'preimage' | 'image';
+  /** Axis ranges of the pane */
+  range: PlotRange;
+  /** Pane title */
+  title: string;
+  /** Line to emphasise (the one hovered in either pane) */
+  highlightedId?: string | null;
+  /** Called with the hovered line's id, or null when the cursor leaves it */
+  onHighlight?: (id: string | null) => void;
+}
+
+/**
+ * Insert nulls at break indices so Plotly leaves a gap in the line
+ */
+function withGaps(points: ComplexPoint[], breaks: number[], part: 're' | 'im'): (number | null)[] {
+  const result: (number | null)[] = [];
+  let next = 0;
+  points.forEach((point, i) => {
+    if (breaks[next] === i) {
+      result.push(null);
+      next++;
+    }
+    result.push(point[part]);
+  });
+  return result;
+}
+
+/**
+ * One pane of a conformal grid mapping: the z-plane grid or its image under f
+ */
+export const ConformalGridPlot: React.FC<ConformalGridPlotProps> = ({
+  lines,
+  side,
+  range,
+  title,
+  highlightedId = null,
+  onHighlight,
+}) => {
+  const variable = side === 'preimage' ? 'z' : 'w';
+
+  const traces: Plotly.Data[] = lines.map((line) => {
+    const { points, breaks } = line[side];
+    const highlighted = line.id === highlightedId;
+    return {
+      type: 'scatter',
+      mode: 'lines',
+      x: withGaps(points, breaks, 're'),
+      y: withGaps(points, breaks, 'im'),
+      connectgaps: false,
+      line: { color: line.color, width: highlighted ? 3.5 : 1.5 },
+      opacity: highlightedId === null || highlighted ? 1 : 0.35,
+      name: line.label,
+      showlegend: false,
+      hovertemplate: `${side === 'preimage' ? line.label : `f(${line.label})`}<br>` +
+        `${variable} = %{x:.3f} + %{y:.3f}i<extra></extra>`,
+    };
+  });
+
+  return (
+    <Plot
+      data={traces}
+      layout={{
+        title: { text: title, font: { size: 16 } },
+        xaxis: {
+          title: { text: `Re(${variable})`, standoff: 10 },
+          scaleanchor: 'y',
+          scaleratio: 1,
+          range: range.x,
+          gridcolor: 'rgba(128, 128, 128, 0.15)',
+          zerolinecolor: 'rgba(128, 128, 128, 0.5)',
+          zerolinewidth: 2,
+        },
+        yaxis: {
+          title: { text: `Im(${variable})`, standoff: 10 },
+          range: range.y,
+          gridcolor: 'rgba(128, 128, 128, 0.15)',
+          zerolinecolor: 'rgba(128, 128, 128, 0.5)',
+          zerolinewidth: 2,
+        },
+        hovermode: 'closest',
+        // Keep the user's zoom while lines are highlighted, until the grid itself changes
+        uirevision: `${range.x}:${range.y}`,
+        autosize: true,
+        margin: { l: 60, r: 30, t: 50, b: 50 },
+        paper_bgcolor: 'transparent',
+        plot_bgcolor: 'transparent',
+      }}
+      style={{ width: '100%', height: '100%' }}
+      useResizeHandler={true}
+      onHover={(event) => onHighlight?.(lines[event.points[0]?.curveNumber]?.id ?? null)}
+      onUnhover={() => onHighlight?.(null)}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        modeBarButtonsToRemove: ['lasso2d', 'select2d'],
+        displaylogo: false,
+      }}
+    />
+  );
+};
+
+export default ConformalGridPlot;
@@ -1,6 +1,6 @@
 import React, { useEffect, useRef, useCallback, useMemo } from 'react';
 import Plot from 'react-plotly.js';
-import type { ContourData } from '../../types';
+import type { ContourData, PoleInfo } from '../../types';
 
 export interface ContourPlotProps {
   /** Array of contour data objects, each with points and styling */
@@ -13,12 +13,49 @@ export interface ContourPlotProps {
   isAnimatingAll?: boolean;
   /** Set of contour IDs that are individually animating */
   animatingContourIds?: Set<string>;
+  /** Poles enclosed by the contour whose integral is shown */
+  poles?: PoleInfo[];
+}
+
+/**
+ * Index of the last sample with t value ≤ t (binary search over ascending tValues)
+ */
+function findPointIndex(tValues: number[], t: number): number {
+  let lo = 0;
+  let hi = tValues.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (tValues[mid] <= t) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Insert nulls at break indices so Plotly leaves a gap in the line
+ */
+function withGaps<T>(values: T[], breaks: number[]): (T | null)[] {
+  if (breaks.length === 0) return values;
+  const result: (T | null)[] = [];
+  let next = 0;
+  values.forEach((value, i) => {
+    if (breaks[next] === i) {
+      result.push(null);
+      next++;
+    }
+    result.push(value);
+  });
+  return result;
 }
 
 export const ContourPlot: React.FC<ContourPlotProps> = ({
   contours,
   isAnimatingAll = false,
   animatingContourIds = new Set(),
+  poles,
 }) => {
   const plotDivRef = useRef<Plot | null>(null);
   const animationFrameRef = useRef<number | null>(null);
@@ -31,7 +68,7 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
 
   // Build trace indices for tracers (one per contour that can be animated)
   const tracerInfo = useMemo(() => {
-    const info: { contourId: string; contourIndex: number; traceIndex: number; points: { x: number; y: number }[]; tMin: number; tMax: number; color: string; animationSpeed: number }[] = [];
+    const info: { contourId: string; contourIndex: number; traceIndex: number; points: { x: number; y: number }[]; tValues: number[]; tMin: number; tMax: number; color: string; animationSpeed: number }[] = [];
     let traceIndex = 0;
     
     contours.forEach((contour, contourIndex) => {
@@ -53,6 +90,7 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
           contourIndex,
           traceIndex,
           points: contour.points.map(p => ({ x: p.re, y: p.im })),
+          tValues: contour.tValues,
           tMin: contour.tMin,
           tMax: contour.tMax,
           color: contour.color,
@@ -89,7 +127,6 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
         
         tracerInfo.forEach((info) => {
           const isThisAnimating = isAnimatingAll || animatingContourIds.has(info.contourId);
-          const tRange = info.tMax - info.tMin;
           
           // Get or initialize current t value for this contour (starts at tMin)
           let currentT = progressMapRef.current.get(info.contourId) ?? info.tMin;
@@ -107,13 +144,8 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
             progressMapRef.current.set(info.contourId, currentT);
           }
           
-          // Convert t to point index
-          const normalizedT = (currentT - info.tMin) / tRange;
-          const pointIndex = Math.min(
-            Math.floor(normalizedT * (info.points.length - 1)),
-            info.points.length - 1
-          );
-          const point = info.points[Math.max(0, pointIndex)];
+          // Convert t to point index (samples may be unevenly spaced in t)
+          const point = info.points[findPointIndex(info.tValues, currentT)];
           
           updates.x.push([point.x]);
           updates.y.push([point.y]);
@@ -176,25 +208,22 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
 
       const xValues = contour.points.map((p) => p.re);
       const yValues = contour.points.map((p) => p.im);
-      
-      const tValues = contour.points.map((_, i) => {
-        const normalized = i / (contour.points.length - 1 || 1);
-        return contour.tMin + normalized * (contour.tMax - contour.tMin);
-      });
 
       // Main curve trace
       result.push({
         type: 'scatter',
         mode: 'lines',
-        x: xValues,
-        y: yValues,
+        // Breaks (singularities, undefined stretches) become gaps in the line
+        x: withGaps(xValues, contour.breaks),
+        y: withGaps(yValues, contour.breaks),
+        connectgaps: false,
         line: {
           color: contour.color,
           width: 2.5,
           shape: 'spline',
           smoothing: 0.8,
         },
-        customdata: tValues,
+        customdata: withGaps(contour.tValues, contour.breaks),
         hovertemplate:
           `<b>z<sub>${contourIndex + 1}</sub>(t)</b><br>` +
           't = %{customdata:.3f}<br>' +
@@ -215,7 +244,7 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
           symbol: 'circle',
           line: { color: 'rgba(255,255,255,0.8)', width: 2 },
         },
-        hovertemplate: `Start (t=${contour.tMin.toFixed(2)})<br>z = %{x:.3f} + %{y:.3f}i<extra></extra>`,
+        hovertemplate: `Start (t=${contour.tValues[0].toFixed(2)})<br>z = %{x:.3f} + %{y:.3f}i<extra></extra>`,
         name: `Start`,
         legendgroup: contour.id,
         showlegend: false,
@@ -234,7 +263,7 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
             symbol: 'diamond',
             line: { color: 'rgba(255,255,255,0.8)', width: 2 },
           },
-          hovertemplate: `End (t=${contour.tMax.toFixed(2)})<br>z = %{x:.3f} + %{y:.3f}i<extra></extra>`,
+          hovertemplate: `End (t=${contour.tValues[contour.tValues.length - 1].toFixed(2)})<br>z = %{x:.3f} + %{y:.3f}i<extra></extra>`,
           name: `End`,
           legendgroup: contour.id,
           showlegend: false,
@@ -263,8 +292,34 @@ export const ContourPlot: React.FC<ContourPlotProps> = ({
       }
     });
 
+    // Pole markers go last so the tracer trace indices above stay valid
+    if (poles && poles.length > 0) {
+      result.push({
+        type: 'scatter',
+        mode: 'markers',
+        x: poles.map((pole) => pole.location.re),
+        y: poles.map((pole) => pole.location.im),
+        customdata: poles.map((pole) => [
+          pole.order === null ? 'essential' : `order ${pole.order}`,
+          pole.residue.re,
+          pole.residue.im,
+        ]),
+        marker: {
+          size: 11,
+          color: '#ff5555',
+          symbol: 'x-thin',
+          line: { color: '#ff5555', width: 2.5 },
+        },
+        hovertemplate:
+          '<b>Pole</b> (%{customdata[0]})<br>' +
+          'z = %{x:.4f} + %{y:.4f}i<br>' +
+          'Res = %{customdata[1]:.4f} + %{customdata[2]:.4f}i<extra></extra>',
+        name: 'Poles',
+      });
+    }
+
     return result;
-  }, [contours]);
+  }, [contours, poles]);
 
   const layout = useMemo(() => ({
     xaxis: {
@@ -1,8 +1,12 @@
 import React from 'react';
 import Plot from 'react-plotly.js';
-import type { ColorMapping } from '../../types';
+import type { ColorMapping, ComplexPoint, ZeroPole } from '../../types';
 
 export interface DomainColoringProps {
+  /** Re(z) of each grid column (defaults to evenly spaced over xRange) */
+  x?: number[];
+  /** Im(z) of each grid row (defaults to evenly spaced over yRange) */
+  y?: number[];
   /** 2D array of z values (grid) */
   z: number[][];
   /** 2D array of color values (modulus, argument, etc.) */
@@ -15,13 +19,44 @@ export interface DomainColoringProps {
   colorBy: ColorMapping;
   /** Optional title */
   title?: string;
+  /** Zeros and poles found over the grid, drawn as labelled markers */
+  zerosAndPoles?: ZeroPole[];
+  /** Branch cuts found over the grid, drawn as dashed polylines */
+  branchCuts?: ComplexPoint[][];
+  /** Colorscale and colorbar title overriding those of colorBy */
+  colorScale?: string | [number, string][];
+  colorBarTitle?: string;
+  /** Fixed color range (default: the range of the colors) */
+  colorRange?: [number, number];
+  /** Labelled colorbar ticks, e.g. one per discrete band */
+  colorBarTicks?: { values: number[]; labels: string[] };
+  /** Hover text per sample, replacing the color value */
+  hoverText?: string[][];
+  /** Name of the plane variable in axis titles and hover labels (default z) */
+  variable?: string;
+  /** Called with the grid point under the cursor when the plot is clicked */
+  onPick?: (point: ComplexPoint) => void;
+  /** A point to mark, such as the last one picked */
+  marker?: { location: ComplexPoint; label: string };
+  /** Circles to outline, such as a radius of convergence (infinite radii are skipped) */
+  circles?: { center: ComplexPoint; radius: number; label: string; color: string; dash?: 'solid' | 'dash' | 'dot' }[];
+  /** Level curve of a second grid (on the same axes) to outline, such as where a residual crosses its threshold */
+  outline?: { values: number[][]; level: number; label: string; color: string };
+  /** RGBA pixels (such as a phase portrait) drawn in place of the heatmap, which stays for hovering */
+  image?: number[][][];
 }
 
+// Vertices of each outlined circle
+const CIRCLE_SEGMENTS = 180;
+
 const colorScaleMap: Record<ColorMapping, string> = {
   modulus: 'Viridis',
   argument: 'HSV',
   real: 'RdBu',
   imaginary: 'PiYG',
+  derivative: 'HSV',
+  areaScaling: 'Viridis',
+  angleDistortion: 'Hot',
 };
 
 const colorBarTitleMap: Record<ColorMapping, string> = {
@@ -29,15 +64,33 @@ const colorBarTitleMap: Record<ColorMapping, string> = {
   argument: 'arg(f(z))',
   real: 'Re(f(z))',
   imaginary: 'Im(f(z))',
+  derivative: "arg(f'(z))",
+  areaScaling: "|f'(z)|²",
+  angleDistortion: 'Bending (rad)',
 };
 
 export const DomainColoring: React.FC<DomainColoringProps> = ({
+  x,
+  y,
   z: _z,
   colors,
   xRange,
   yRange,
   colorBy,
   title,
+  zerosAndPoles = [],
+  branchCuts = [],
+  colorScale,
+  colorBarTitle,
+  colorRange,
+  colorBarTicks,
+  hoverText,
+  variable = 'z',
+  onPick,
+  marker,
+  circles = [],
+  outline,
+  image,
 }) => {
   // Note: z is passed for potential future use but colors is used for the heatmap
   void _z;
@@ -48,41 +101,151 @@ export const DomainColoring: React.FC<DomainColoringProps> = ({
   const numRows = colors.length;
   const numCols = colors[0]?.length || 0;
 
-  const xValues = Array.from({ length: numCols }, (_, i) =>
+  // Coarse refinement passes may be unevenly spaced, so prefer the given axes
+  const xValues = x ?? Array.from({ length: numCols }, (_, i) =>
     xMin + (i / (numCols - 1)) * (xMax - xMin)
   );
-  const yValues = Array.from({ length: numRows }, (_, i) =>
+  const yValues = y ?? Array.from({ length: numRows }, (_, i) =>
     yMin + (i / (numRows - 1)) * (yMax - yMin)
   );
 
+  const zeros = zerosAndPoles.filter((p) => p.type === 'zero');
+  const poles = zerosAndPoles.filter((p) => p.type === 'pole');
+  const markerTrace = (points: ZeroPole[], marker: Partial<Plotly.PlotMarker>): Plotly.Data => ({
+    type: 'scatter',
+    mode: 'text+markers',
+    x: points.map((p) => p.location.re),
+    y: points.map((p) => p.location.im),
+    text: points.map((p) => p.label),
+    customdata: points.map((p) => p.multiplicity),
+    textposition: 'top right',
+    textfont: { color: '#fff', size: 11 },
+    marker,
+    showlegend: false,
+    hovertemplate:
+      '%{text}: %{x:.4f} + %{y:.4f}i<br>Multiplicity: %{customdata}<extra></extra>',
+  });
+
+  // All cuts in one trace, separated by null gaps
+  const cutX = branchCuts.flatMap((line) => [...line.map((p) => p.re), null]);
+  const cutY = branchCuts.flatMap((line) => [...line.map((p) => p.im), null]);
+
+  const circleTraces: Plotly.Data[] = circles
+    .filter((circle) => isFinite(circle.radius) && circle.radius > 0)
+    .map((circle) => {
+      const angles = Array.from({ length: CIRCLE_SEGMENTS + 1 }, (_, k) => (2 * Math.PI * k) / CIRCLE_SEGMENTS);
+      return {
+        type: 'scatter',
+        mode: 'lines',
+        x: angles.map((t) => circle.center.re + circle.radius * Math.cos(t)),
+        y: angles.map((t) => circle.center.im + circle.radius * Math.sin(t)),
+        line: { color: circle.color, width: 2, dash: circle.dash ?? 'solid' },
+        showlegend: false,
+        hovertemplate: `${circle.label}<extra></extra>`,
+      };
+    });
+
+  const outlineTraces: Plotly.Data[] = outline
+    ? [{
+        type: 'contour',
+        z: outline.values,
+        x: xValues,
+        y: yValues,
+        contours: { start: outline.level, end: outline.level, size: 1, coloring: 'none' },
+        line: { color: outline.color, width: 2 },
+        showscale: false,
+        hoverinfo: 'skip',
+        name: outline.label,
+      }]
+    : [];
+
+  // Pixels are centered on the grid points (coarse passes are taken as evenly spaced)
+  const imageTraces: Plotly.Data[] = image
+    ? [{
+        type: 'image',
+        z: image,
+        colormodel: 'rgba',
+        x0: xValues[0],
+        y0: yValues[0],
+        dx: numCols > 1 ? (xValues[numCols - 1] - xValues[0]) / (numCols - 1) : 1,
+        dy: numRows > 1 ? (yValues[numRows - 1] - yValues[0]) / (numRows - 1) : 1,
+        hoverinfo: 'skip',
+        // The typings have no colormodel
+      } as Plotly.Data]
+    : [];
+
+  const colorTitle = colorBarTitle ?? colorBarTitleMap[colorBy];
+
+  const handleClick = (event: Readonly<Plotly.PlotMouseEvent>) => {
+    const point = event.points[0];
+    if (onPick && point && typeof point.x === 'number' && typeof point.y === 'number') {
+      onPick({ re: point.x, im: point.y });
+    }
+  };
+
   return (
     <Plot
       data={[
+        ...imageTraces,
         {
           type: 'heatmap',
           z: colors,
           x: xValues,
           y: yValues,
-          colorscale: colorScaleMap[colorBy],
+          opacity: image ? 0 : 1,
+          showscale: !image,
+          colorscale: colorScale ?? colorScaleMap[colorBy],
+          zmin: colorRange?.[0],
+          zmax: colorRange?.[1],
+          // Heatmaps take a 2D text grid (the typings only allow 1D)
+          text: hoverText as unknown as string[],
           colorbar: {
             title: {
-              text: colorBarTitleMap[colorBy],
+              text: colorTitle,
               side: 'right',
             },
+            tickvals: colorBarTicks?.values,
+            ticktext: colorBarTicks?.labels,
             thickness: 15,
             len: 0.9,
           },
           hoverongaps: false,
           hovertemplate:
-            'Re(z): %{x:.3f}<br>Im(z): %{y:.3f}<br>' +
-            colorBarTitleMap[colorBy] +
-            ': %{z:.3f}<extra></extra>',
+            `Re(${variable}): %{x:.3f}<br>Im(${variable}): %{y:.3f}<br>` +
+            (hoverText ? '%{text}' : `${colorTitle}: %{z:.3f}`) +
+            '<extra></extra>',
+        },
+        {
+          type: 'scatter',
+          mode: 'lines',
+          x: cutX,
+          y: cutY,
+          connectgaps: false,
+          line: { color: '#ffffff', width: 2, dash: 'dash' },
+          showlegend: false,
+          hovertemplate: 'Branch cut: f jumps to another branch across this line<extra></extra>',
+        },
+        markerTrace(zeros, { symbol: 'circle-open', size: 11, color: '#ffffff', line: { width: 2.5, color: '#ffffff' } }),
+        markerTrace(poles, { symbol: 'x-thin', size: 11, color: '#ff5555', line: { width: 2.5, color: '#ff5555' } }),
+        {
+          type: 'scatter',
+          mode: 'text+markers',
+          x: marker ? [marker.location.re] : [],
+          y: marker ? [marker.location.im] : [],
+          text: marker ? [marker.label] : [],
+          textposition: 'top right',
+          textfont: { color: '#fff', size: 11 },
+          marker: { symbol: 'cross-thin', size: 14, color: '#ffffff', line: { width: 2, color: '#ffffff' } },
+          showlegend: false,
+          hoverinfo: 'skip',
         },
+        ...circleTraces,
+        ...outlineTraces,
       ]}
       layout={{
         title: title ? { text: title, font: { size: 16 } } : undefined,
         xaxis: {
-          title: { text: 'Re(z)', standoff: 10 },
+          title: { text: `Re(${variable})`, standoff: 10 },
           scaleanchor: 'y',
           scaleratio: 1,
           range: xRange,
@@ -91,7 +254,7 @@ export const DomainColoring: React.FC<DomainColoringProps> = ({
           zerolinewidth: 2,
         },
         yaxis: {
-          title: { text: 'Im(z)', standoff: 10 },
+          title: { text: `Im(${variable})`, standoff: 10 },
           range: yRange,
           gridcolor: 'rgba(128, 128, 128, 0.3)',
           zerolinecolor: 'rgba(128, 128, 128, 0.5)',
@@ -104,6 +267,7 @@ export const DomainColoring: React.FC<DomainColoringProps> = ({
       }}
       style={{ width: '100%', height: '100%' }}
       useResizeHandler={true}
+      onClick={onPick ? handleClick : undefined}
       config={{
         responsive: true,
         displayModeBar: true,
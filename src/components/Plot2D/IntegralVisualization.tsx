@@ -1,6 +1,6 @@
 import React, { useMemo, useEffect, useRef, useCallback } from 'react';
 import Plot from 'react-plotly.js';
-import type { ContourIntegralData, ComplexPoint } from '../../types';
+import type { ContourIntegralData, ComplexPoint, QuadratureRule } from '../../types';
 import './IntegralVisualization.css';
 
 export interface IntegralVisualizationProps {
@@ -22,6 +22,20 @@ function formatComplex(z: ComplexPoint, precision = 3): string {
   return `${re} ${sign} ${im}i`;
 }
 
+const QUADRATURE_LABELS: Record<QuadratureRule, string> = {
+  trapezoid: 'Trapezoid',
+  simpson: 'Simpson',
+  gaussLegendre: 'Gauss–Legendre',
+  gaussKronrod: 'Gauss–Kronrod',
+};
+
+/**
+ * Format an error bound for display
+ */
+function formatError(error: number): string {
+  return isFinite(error) ? error.toExponential(1) : '∞';
+}
+
 /**
  * Get the magnitude of a complex number
  */
@@ -34,19 +48,41 @@ export const IntegralVisualization: React.FC<IntegralVisualizationProps> = ({
   animationProgress,
   isAnimating,
 }) => {
-  const { integrandVectors, runningSum, finalValue, color, tValues, transformFunction } = integralData;
+  const {
+    integrandVectors,
+    runningSum,
+    finalValue,
+    color,
+    tValues,
+    transformFunction,
+    derivativeMethod,
+    derivativeExpression,
+    quadrature,
+    errorEstimate,
+    evaluations,
+    residues,
+    pieces,
+  } = integralData;
   
   const integrandPlotRef = useRef<Plot | null>(null);
   const runningSumPlotRef = useRef<Plot | null>(null);
   
-  // Current index based on animation progress
+  // Current index based on animation progress (progress is linear in t; quadrature nodes need not be)
   const currentIndex = useMemo(() => {
-    if (runningSum.length === 0) return 0;
-    return Math.min(
-      Math.floor(animationProgress * (runningSum.length - 1)),
-      runningSum.length - 1
-    );
-  }, [animationProgress, runningSum.length]);
+    if (tValues.length === 0) return 0;
+    const t = tValues[0] + animationProgress * (tValues[tValues.length - 1] - tValues[0]);
+    let lo = 0;
+    let hi = tValues.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (tValues[mid] <= t) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return lo;
+  }, [animationProgress, tValues]);
 
   // Current values
   const currentIntegrand = integrandVectors[currentIndex] || { re: 0, im: 0 };
@@ -386,9 +422,69 @@ export const IntegralVisualization: React.FC<IntegralVisualizationProps> = ({
         <span className="integral-visualization__value" style={{ color }}>
           ∮f(z)dz = {formatComplex(finalValue, 4)}
         </span>
+        <span className="integral-visualization__error" title="Estimated absolute error">
+          ± {formatError(errorEstimate)}
+        </span>
+        <span className="integral-visualization__rule">
+          {QUADRATURE_LABELS[quadrature]} · {evaluations} evaluations
+        </span>
         <span className="integral-visualization__magnitude">
           |∮| = {magnitude(finalValue).toFixed(4)}
         </span>
+        {residues && (
+          <div className="integral-visualization__residues">
+            <span className="integral-visualization__label">Residues:</span>
+            <span className="integral-visualization__value" style={{ color }}>
+              2πi·ΣRes = {formatComplex(residues.residueSum, 4)}
+            </span>
+            <span className="integral-visualization__error" title="Difference from the numeric integral">
+              Δ = {formatError(Math.hypot(
+                residues.residueSum.re - finalValue.re,
+                residues.residueSum.im - finalValue.im
+              ))}
+            </span>
+            <span className="integral-visualization__rule">
+              {residues.poles.length === 0
+                ? 'no poles inside γ'
+                : residues.poles.map((pole) =>
+                    `${pole.order === null ? 'essential' : `order ${pole.order}`} at ${formatComplex(pole.location, 3)}` +
+                    `${pole.winding !== 1 ? ` (n = ${pole.winding})` : ''}: Res = ${formatComplex(pole.residue, 4)}`
+                  ).join('; ')}
+              {residues.method === 'symbolic' ? ' · poles from denominator' : ' · poles found numerically'}
+            </span>
+          </div>
+        )}
+        {pieces && (
+          <div className="integral-visualization__pieces">
+            {pieces.map((piece, k) => {
+              const active = isAnimating && currentT >= piece.tStart && currentT <= piece.tEnd;
+              return (
+                <div
+                  key={k}
+                  className={`integral-visualization__piece ${active ? 'active' : ''}`}
+                  title="Integral over this piece, with its estimated error"
+                >
+                  <span className="integral-visualization__piece-label">{piece.label}</span>
+                  <span className="integral-visualization__piece-value">
+                    {formatComplex(piece.value, 4)} ± {formatError(piece.errorEstimate)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <span
+          className={`integral-visualization__derivative integral-visualization__derivative--${derivativeMethod}`}
+          title={derivativeMethod === 'symbolic'
+            ? 'γ\'(t) differentiated symbolically'
+            : 'γ\'(t) could not be differentiated symbolically; using a 5-point finite difference'}
+        >
+          {derivativeMethod === 'symbolic'
+            ? derivativeExpression
+              ? <>γ'(t) = {derivativeExpression}</>
+              : <>γ'(t) exact on every piece</>
+            : <>γ'(t) ≈ numeric (5-point stencil)</>}
+        </span>
       </div>
     </div>
   );
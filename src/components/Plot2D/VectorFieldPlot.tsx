@@ -0,0 +1,169 @@
+import React from 'react';
+import Plot from 'react-plotly.js';
+import type { ComplexPoint, VectorFieldData } from '../../types';
+
+export interface VectorFieldPlotProps {
+  data: VectorFieldData;
+  /** X-axis range [min, max] for Re(z) */
+  xRange: [number, number];
+  /** Y-axis range [min, max] for Im(z) */
+  yRange: [number, number];
+  /** Level curves of Re Φ and of Im Φ (0 hides them) */
+  levels: number;
+  /** Points the streamlines were started from */
+  seeds: ComplexPoint[];
+  title?: string;
+  /** Called with the point clicked, to seed a streamline there */
+  onSeed?: (point: ComplexPoint) => void;
+}
+
+// Colors of the equipotentials (Re Φ) and of the stream function levels (Im Φ)
+const EQUIPOTENTIAL_COLOR = '#ffb86c';
+const STREAM_FUNCTION_COLOR = '#8be9fd';
+
+function levelTrace(
+  x: number[],
+  y: number[],
+  z: number[][],
+  levels: number,
+  color: string,
+  name: string,
+  dash: 'solid' | 'dot'
+): Plotly.Data {
+  return {
+    type: 'contour',
+    x,
+    y,
+    z,
+    ncontours: levels,
+    contours: { coloring: 'none' },
+    line: { color, width: 1, dash },
+    showscale: false,
+    name,
+    hoverinfo: 'skip',
+  } as Plotly.Data;
+}
+
+/**
+ * Pólya vector field: normalized arrows over a speed map, streamlines and the
+ * level curves of the complex potential. Clicking seeds a streamline.
+ */
+export const VectorFieldPlot: React.FC<VectorFieldPlotProps> = ({
+  data,
+  xRange,
+  yRange,
+  levels,
+  seeds,
+  title,
+  onSeed,
+}) => {
+  const { arrows, speed, streamlines, potential } = data;
+
+  // All streamlines in one trace, separated by null gaps
+  const streamX = streamlines.flatMap((line) => [...line.map((p) => p.re), null]);
+  const streamY = streamlines.flatMap((line) => [...line.map((p) => p.im), null]);
+
+  const traces: Plotly.Data[] = [
+    {
+      type: 'heatmap',
+      x: speed.x,
+      y: speed.y,
+      z: speed.z,
+      colorscale: 'Viridis',
+      opacity: 0.55,
+      colorbar: {
+        title: { text: 'log(1 + |f|)', side: 'right' },
+        thickness: 15,
+        len: 0.9,
+      },
+      hovertemplate: 'Re(z): %{x:.3f}<br>Im(z): %{y:.3f}<br>log(1 + |f|): %{z:.3f}<extra>click to seed</extra>',
+    },
+  ];
+
+  if (potential && levels > 0) {
+    traces.push(
+      levelTrace(potential.x, potential.y, potential.re, levels, EQUIPOTENTIAL_COLOR, 'Re Φ', 'dot'),
+      levelTrace(potential.x, potential.y, potential.im, levels, STREAM_FUNCTION_COLOR, 'Im Φ', 'solid')
+    );
+  }
+
+  traces.push(
+    {
+      type: 'scatter',
+      mode: 'lines',
+      x: arrows.x,
+      y: arrows.y,
+      connectgaps: false,
+      line: { color: 'rgba(255, 255, 255, 0.85)', width: 1.2 },
+      showlegend: false,
+      hoverinfo: 'skip',
+    },
+    {
+      type: 'scatter',
+      mode: 'lines',
+      x: streamX,
+      y: streamY,
+      connectgaps: false,
+      line: { color: '#ff79c6', width: 2.5 },
+      showlegend: false,
+      hoverinfo: 'skip',
+    },
+    {
+      type: 'scatter',
+      mode: 'markers',
+      x: seeds.map((p) => p.re),
+      y: seeds.map((p) => p.im),
+      marker: { symbol: 'circle', size: 7, color: '#ff79c6', line: { width: 1.5, color: '#ffffff' } },
+      showlegend: false,
+      hovertemplate: 'Seed: %{x:.3f} + %{y:.3f}i<extra></extra>',
+    }
+  );
+
+  const handleClick = (event: Readonly<Plotly.PlotMouseEvent>) => {
+    const point = event.points[0];
+    if (onSeed && point && typeof point.x === 'number' && typeof point.y === 'number') {
+      onSeed({ re: point.x, im: point.y });
+    }
+  };
+
+  return (
+    <Plot
+      data={traces}
+      layout={{
+        title: title ? { text: title, font: { size: 16 } } : undefined,
+        xaxis: {
+          title: { text: 'Re(z)', standoff: 10 },
+          scaleanchor: 'y',
+          scaleratio: 1,
+          range: xRange,
+          gridcolor: 'rgba(128, 128, 128, 0.3)',
+          zerolinecolor: 'rgba(128, 128, 128, 0.5)',
+          zerolinewidth: 2,
+        },
+        yaxis: {
+          title: { text: 'Im(z)', standoff: 10 },
+          range: yRange,
+          gridcolor: 'rgba(128, 128, 128, 0.3)',
+          zerolinecolor: 'rgba(128, 128, 128, 0.5)',
+          zerolinewidth: 2,
+        },
+        hovermode: 'closest',
+        autosize: true,
+        margin: { l: 60, r: 50, t: title ? 50 : 30, b: 50 },
+        paper_bgcolor: 'transparent',
+        plot_bgcolor: 'transparent',
+      }}
+      style={{ width: '100%', height: '100%' }}
+      useResizeHandler={true}
+      onClick={onSeed ? handleClick : undefined}
+      config={{
+        responsive: true,
+        displayModeBar: true,
+        modeBarButtonsToRemove: ['lasso2d', 'select2d'],
+        displaylogo: false,
+      }}
+    />
+  );
+};
+
+export default VectorFieldPlot;
@@ -7,3 +7,11 @@ export type { ContourPlotProps } from './ContourPlot';
 export { IntegralVisualization } from './IntegralVisualization';
 export type { IntegralVisualizationProps } from './IntegralVisualization';
 
+export { ArgumentPrincipleView } from './ArgumentPrincipleView';
+export type { ArgumentPrincipleViewProps } from './ArgumentPrincipleView';
+
+export { ConformalGridPlot } from './ConformalGridPlot';
+export type { ConformalGridPlotProps } from './ConformalGridPlot';
+
+export { VectorFieldPlot } from './VectorFieldPlot';
+export type { VectorFieldPlotProps } from './VectorFieldPlot';
@@ -0,0 +1,348 @@
+/**
+ * RiemannSphere - domain coloring of f painted on the Riemann sphere
+ * The sphere grid comes from the math engine; the graticule, zero and pole
+ * markers and contours are projected onto it here, slightly lifted so the
+ * surface does not hide them
+ */
+
+import Plot from 'react-plotly.js';
+import type {
+  ContourData,
+  RiemannSphereConfig,
+  RiemannSphereData,
+  SphereFacing,
+  ZeroPole,
+} from '../../types';
+import { stereographic } from '../../math/riemannSphere';
+
+interface RiemannSphereProps {
+  /** Sphere grid and singularities from the math engine */
+  data: RiemannSphereData;
+  /** Configuration for the sphere */
+  config: RiemannSphereConfig;
+  /** Curves to draw on the sphere (the contour mode's) */
+  contours?: ContourData[];
+  /** Width of the plot in pixels */
+  width?: number;
+  /** Height of the plot in pixels */
+  height?: number;
+}
+
+// Overlays sit just above the unit sphere
+const LIFT = 1.006;
+
+// Graticule: circles |z| = r and meridians every 30°
+const GRATICULE_RADII = [0.25, 0.5, 1, 2, 4];
+const GRATICULE_MERIDIANS = 12;
+const GRATICULE_SEGMENTS = 120;
+
+// Camera eye for each point that can be turned toward the viewer
+const cameras: Record<SphereFacing, Partial<Plotly.Camera>> = {
+  zero: { eye: { x: 0, y: 0, z: -1.9 }, up: { x: 0, y: 1, z: 0 } },
+  infinity: { eye: { x: 0, y: 0, z: 1.9 }, up: { x: 0, y: 1, z: 0 } },
+  one: { eye: { x: 1.9, y: 0, z: 0.4 }, up: { x: 0, y: 0, z: 1 } },
+  i: { eye: { x: 0, y: 1.9, z: 0.4 }, up: { x: 0, y: 0, z: 1 } },
+};
+
+// Color ranges after the sphere's squashing of unbounded mappings
+const colorRanges: Record<RiemannSphereConfig['colorBy'], [number, number]> = {
+  modulus: [0, 1],
+  argument: [-Math.PI, Math.PI],
+  real: [-1, 1],
+  imaginary: [-1, 1],
+};
+
+const colorTitles: Record<RiemannSphereConfig['colorBy'], string> = {
+  modulus: '|f| / (1 + |f|)',
+  argument: 'arg(f(z))',
+  real: 'Re f / (1 + |Re f|)',
+  imaginary: 'Im f / (1 + |Im f|)',
+};
+
+const colorScales: Record<RiemannSphereConfig['colorBy'], Plotly.ColorScale> = {
+  modulus: 'Viridis',
+  argument: [
+    [0, 'hsl(0, 80%, 50%)'],
+    [0.167, 'hsl(60, 80%, 50%)'],
+    [0.333, 'hsl(120, 80%, 50%)'],
+    [0.5, 'hsl(180, 80%, 50%)'],
+    [0.667, 'hsl(240, 80%, 50%)'],
+    [0.833, 'hsl(300, 80%, 50%)'],
+    [1, 'hsl(360, 80%, 50%)'],
+  ],
+  real: 'RdBu',
+  imaginary: 'PiYG',
+};
+
+const lifted = (p: [number, number, number]) => p.map((c) => c * LIFT);
+
+/**
+ * Polylines on the sphere as one null-separated trace's coordinates
+ */
+function sphereLines(lines: [number, number, number][][]) {
+  return {
+    x: lines.flatMap((line) => [...line.map((p) => p[0]), null]),
+    y: lines.flatMap((line) => [...line.map((p) => p[1]), null]),
+    z: lines.flatMap((line) => [...line.map((p) => p[2]), null]),
+  };
+}
+
+function graticuleLines(): [number, number, number][][] {
+  const angles = Array.from({ length: GRATICULE_SEGMENTS + 1 }, (_, k) => (2 * Math.PI * k) / GRATICULE_SEGMENTS);
+  const circles = GRATICULE_RADII.map((r) =>
+    angles.map((t) => lifted(stereographic({ re: r * Math.cos(t), im: r * Math.sin(t) })) as [number, number, number])
+  );
+  // Meridians run from the south pole (0) to the north pole (∞)
+  const meridians = Array.from({ length: GRATICULE_MERIDIANS }, (_, k) => {
+    const phi = (2 * Math.PI * k) / GRATICULE_MERIDIANS;
+    return angles.slice(0, GRATICULE_SEGMENTS / 2 + 1).map((t) => {
+      const theta = Math.PI - t;
+      return lifted([Math.sin(theta) * Math.cos(phi), Math.sin(theta) * Math.sin(phi), Math.cos(theta)]) as [number, number, number];
+    });
+  });
+  return [...circles, ...meridians];
+}
+
+/**
+ * Describe f at ∞ for the marker at the north pole (null if nothing to mark)
+ */
+function infinityMarker(data: RiemannSphereData): ZeroPole | null {
+  const { kind, multiplicity } = data.infinity;
+  if (kind !== 'zero' && kind !== 'pole') return null;
+  return {
+    label: kind === 'zero' ? 'Z∞' : 'P∞',
+    location: { re: Infinity, im: Infinity },
+    type: kind,
+    multiplicity,
+  };
+}
+
+/**
+ * RiemannSphere Component
+ *
+ * - z = 0 at the south pole, the unit circle on the equator, ∞ at the north pole
+ * - Color: the chosen property of f(z), squashed into a bounded range
+ */
+export function RiemannSphere({
+  data,
+  config,
+  contours = [],
+  width = 700,
+  height = 600,
+}: RiemannSphereProps) {
+  const { expression, colorBy, graticule, showContours, facing } = config;
+
+  if (data.colors.length === 0) {
+    return (
+      <div
+        style={{
+          width,
+          height,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: '#1a1a2e',
+          color: '#e0e0e0',
+          borderRadius: '8px',
+          fontFamily: 'system-ui, sans-serif'
+        }}
+      >
+        No data to display. Enter a valid expression.
+      </div>
+    );
+  }
+
+  const traces: Plotly.Data[] = [
+    {
+      type: 'surface',
+      x: data.x,
+      y: data.y,
+      z: data.z,
+      surfacecolor: data.colors,
+      cmin: colorRanges[colorBy][0],
+      cmax: colorRanges[colorBy][1],
+      colorscale: colorScales[colorBy],
+      colorbar: {
+        title: {
+          text: colorTitles[colorBy],
+          side: 'right',
+          font: { color: '#e0e0e0', size: 14 }
+        },
+        tickfont: { color: '#e0e0e0' },
+        bgcolor: 'rgba(30, 30, 50, 0.8)',
+        bordercolor: '#444',
+        borderwidth: 1,
+        len: 0.75,
+        thickness: 20,
+      },
+      lighting: {
+        ambient: 0.75,
+        diffuse: 0.6,
+        specular: 0.15,
+        roughness: 0.6,
+        fresnel: 0.1
+      },
+      hovertemplate: `${colorTitles[colorBy]}: %{surfacecolor:.3f}<extra></extra>`,
+    } as Plotly.Data
+  ];
+
+  if (graticule) {
+    traces.push({
+      type: 'scatter3d',
+      mode: 'lines',
+      ...sphereLines(graticuleLines()),
+      connectgaps: false,
+      line: { color: 'rgba(255, 255, 255, 0.45)', width: 1.5 },
+      showlegend: false,
+      hoverinfo: 'skip',
+    } as Plotly.Data);
+
+    const landmarks = [
+      { label: '0', p: { re: 0, im: 0 } },
+      { label: '∞', p: { re: Infinity, im: Infinity } },
+      { label: '1', p: { re: 1, im: 0 } },
+      { label: '−1', p: { re: -1, im: 0 } },
+      { label: 'i', p: { re: 0, im: 1 } },
+      { label: '−i', p: { re: 0, im: -1 } },
+    ];
+    const positions = landmarks.map(({ p }) => stereographic(p).map((c) => c * 1.12));
+    traces.push({
+      type: 'scatter3d',
+      mode: 'text',
+      x: positions.map((p) => p[0]),
+      y: positions.map((p) => p[1]),
+      z: positions.map((p) => p[2]),
+      text: landmarks.map((l) => l.label),
+      textfont: { color: '#e0e0e0', size: 13 },
+      showlegend: false,
+      hoverinfo: 'skip',
+    } as Plotly.Data);
+  }
+
+  if (showContours && contours.length > 0) {
+    for (const contour of contours) {
+      // Split the curve where it is not drawn (its breaks)
+      const pieces: [number, number, number][][] = [[]];
+      contour.points.forEach((point, k) => {
+        if (contour.breaks.includes(k)) pieces.push([]);
+        if (isFinite(point.re) && isFinite(point.im)) {
+          pieces[pieces.length - 1].push(lifted(stereographic(point)) as [number, number, number]);
+        }
+      });
+      traces.push({
+        type: 'scatter3d',
+        mode: 'lines',
+        ...sphereLines(pieces),
+        connectgaps: false,
+        line: { color: contour.color, width: 5 },
+        name: contour.expression,
+        showlegend: false,
+        hovertemplate: `z(t) = ${contour.expression}<extra></extra>`,
+      } as Plotly.Data);
+    }
+  }
+
+  const atInfinity = infinityMarker(data);
+  const markers = atInfinity ? [...data.zerosAndPoles, atInfinity] : data.zerosAndPoles;
+  if (markers.length > 0) {
+    const positions = markers.map((p) => lifted(stereographic(p.location)));
+    traces.push({
+      type: 'scatter3d',
+      mode: 'text+markers',
+      x: positions.map((p) => p[0]),
+      y: positions.map((p) => p[1]),
+      z: positions.map((p) => p[2]),
+      text: markers.map((p) => p.label),
+      customdata: markers.map((p) => [
+        isFinite(p.location.re) ? `${p.location.re.toFixed(4)} + ${p.location.im.toFixed(4)}i` : '∞',
+        p.multiplicity,
+      ]),
+      textposition: 'top center',
+      textfont: { color: '#e0e0e0', size: 12 },
+      marker: {
+        size: 5,
+        symbol: markers.map((p) => (p.type === 'zero' ? 'circle-open' : 'x')),
+        color: markers.map((p) => (p.type === 'zero' ? '#ffffff' : '#ff5555')),
+        line: { width: 2 },
+      },
+      showlegend: false,
+      hovertemplate:
+        '%{text}: %{customdata[0]}<br>' +
+        'Multiplicity: %{customdata[1]}' +
+        '<extra></extra>',
+    } as Plotly.Data);
+  }
+
+  const hiddenAxis = {
+    visible: false,
+    showspikes: false,
+    range: [-1.25, 1.25],
+  };
+
+  const layout: Partial<Plotly.Layout> = {
+    title: {
+      text: `f(z) = ${expression} on the Riemann sphere`,
+      font: {
+        color: '#e0e0e0',
+        size: 18,
+        family: 'Georgia, serif'
+      },
+      x: 0.5,
+      xanchor: 'center'
+    },
+    autosize: false,
+    width: width,
+    height: height,
+    paper_bgcolor: '#0f0f1a',
+    plot_bgcolor: '#0f0f1a',
+    margin: {
+      l: 30,
+      r: 30,
+      t: 80,
+      b: 30
+    },
+    // Keep the user's rotation until another point is turned to face them
+    uirevision: facing,
+    scene: {
+      xaxis: hiddenAxis,
+      yaxis: hiddenAxis,
+      zaxis: hiddenAxis,
+      bgcolor: '#0f0f1a',
+      camera: cameras[facing],
+      aspectmode: 'cube',
+      dragmode: 'orbit',
+    },
+  };
+
+  const plotConfig: Partial<Plotly.Config> = {
+    displayModeBar: true,
+    modeBarButtonsToRemove: [
+      'toImage',
+      'sendDataToCloud',
+      'lasso2d',
+      'select2d',
+    ],
+    displaylogo: false,
+    responsive: true,
+    scrollZoom: true,
+  };
+
+  return (
+    <div
+      style={{
+        borderRadius: '8px',
+        overflow: 'hidden',
+        boxShadow: '0 4px 24px rgba(0, 0, 0, 0.4)'
+      }}
+    >
+      <Plot
+        data={traces}
+        layout={layout}
+        config={plotConfig}
+        style={{ width: '100%', height: '100%' }}
+      />
+    </div>
+  );
+}
+
+export default RiemannSphere;
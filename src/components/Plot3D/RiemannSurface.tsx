@@ -0,0 +1,190 @@
+/**
+ * RiemannSurface - stitched sheets of a multivalued complex function
+ * Renders the mesh from the math engine with Plotly mesh3d, so the sheets
+ * join across branch cuts into one continuous surface
+ */
+
+import Plot from 'react-plotly.js';
+import type { RiemannSurfaceConfig, RiemannSurfaceData } from '../../types';
+
+interface RiemannSurfaceProps {
+  /** Triangle mesh from the math engine */
+  data: RiemannSurfaceData;
+  /** Configuration for the surface */
+  config: RiemannSurfaceConfig;
+  /** Width of the plot in pixels */
+  width?: number;
+  /** Height of the plot in pixels */
+  height?: number;
+}
+
+// Cyclic scale for arg f(z) in (-π, π]
+const argumentColorScale: Plotly.ColorScale = [
+  [0, 'hsl(0, 80%, 50%)'],
+  [0.167, 'hsl(60, 80%, 50%)'],
+  [0.333, 'hsl(120, 80%, 50%)'],
+  [0.5, 'hsl(180, 80%, 50%)'],
+  [0.667, 'hsl(240, 80%, 50%)'],
+  [0.833, 'hsl(300, 80%, 50%)'],
+  [1, 'hsl(360, 80%, 50%)'],
+];
+
+const axisStyle = {
+  tickfont: { color: '#b0b0b0' },
+  gridcolor: '#333',
+  zerolinecolor: '#666',
+  backgroundcolor: '#0f0f1a',
+  showspikes: false,
+};
+
+/**
+ * RiemannSurface Component
+ *
+ * - x-axis: Re(z), y-axis: Im(z)
+ * - z-axis: Re or Im of f(z) on each sheet
+ * - Color: arg f(z)
+ */
+export function RiemannSurface({
+  data,
+  config,
+  width = 700,
+  height = 600,
+}: RiemannSurfaceProps) {
+  const { expression, heightBy } = config;
+  const heightLabel = heightBy === 'real' ? 'Re(f(z))' : 'Im(f(z))';
+
+  if (data.i.length === 0) {
+    return (
+      <div
+        style={{
+          width,
+          height,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: '#1a1a2e',
+          color: '#e0e0e0',
+          borderRadius: '8px',
+          fontFamily: 'system-ui, sans-serif'
+        }}
+      >
+        No data to display. Enter a valid expression.
+      </div>
+    );
+  }
+
+  const meshData: Plotly.Data[] = [
+    {
+      type: 'mesh3d',
+      x: data.x,
+      y: data.y,
+      z: data.z,
+      // Plotly's typings want typed arrays for the triangle indices
+      i: Int32Array.from(data.i),
+      j: Int32Array.from(data.j),
+      k: Int32Array.from(data.k),
+      intensity: data.colors,
+      intensitymode: 'vertex',
+      cmin: -Math.PI,
+      cmax: Math.PI,
+      colorscale: argumentColorScale,
+      colorbar: {
+        title: {
+          text: 'arg(f(z))',
+          side: 'right',
+          font: { color: '#e0e0e0', size: 14 }
+        },
+        tickfont: { color: '#e0e0e0' },
+        bgcolor: 'rgba(30, 30, 50, 0.8)',
+        bordercolor: '#444',
+        borderwidth: 1,
+        len: 0.75,
+        thickness: 20,
+      },
+      flatshading: false,
+      lighting: {
+        ambient: 0.6,
+        diffuse: 0.8,
+        specular: 0.3,
+        roughness: 0.5,
+        fresnel: 0.2
+      },
+      hovertemplate:
+        'Re(z): %{x:.3f}<br>' +
+        'Im(z): %{y:.3f}<br>' +
+        `${heightLabel}: %{z:.3f}<br>` +
+        'arg(f(z)): %{intensity:.3f}' +
+        '<extra></extra>',
+    } as Plotly.Data
+  ];
+
+  const layout: Partial<Plotly.Layout> = {
+    title: {
+      text: `f(z) = ${expression} · ${data.sheets} sheet${data.sheets === 1 ? '' : 's'}`,
+      font: {
+        color: '#e0e0e0',
+        size: 18,
+        family: 'Georgia, serif'
+      },
+      x: 0.5,
+      xanchor: 'center'
+    },
+    autosize: false,
+    width: width,
+    height: height,
+    paper_bgcolor: '#0f0f1a',
+    plot_bgcolor: '#0f0f1a',
+    margin: {
+      l: 50,
+      r: 50,
+      t: 80,
+      b: 50
+    },
+    scene: {
+      xaxis: { ...axisStyle, title: { text: 'Re(z)', font: { color: '#e0e0e0', size: 14 } } },
+      yaxis: { ...axisStyle, title: { text: 'Im(z)', font: { color: '#e0e0e0', size: 14 } } },
+      zaxis: { ...axisStyle, title: { text: heightLabel, font: { color: '#e0e0e0', size: 14 } } },
+      bgcolor: '#0f0f1a',
+      camera: {
+        eye: { x: 1.5, y: 1.5, z: 1.2 },
+        center: { x: 0, y: 0, z: -0.1 },
+        up: { x: 0, y: 0, z: 1 }
+      },
+      aspectmode: 'manual',
+      aspectratio: { x: 1, y: 1, z: 0.8 },
+      dragmode: 'orbit',
+    },
+  };
+
+  const plotConfig: Partial<Plotly.Config> = {
+    displayModeBar: true,
+    modeBarButtonsToRemove: [
+      'toImage',
+      'sendDataToCloud',
+      'lasso2d',
+      'select2d',
+    ],
+    displaylogo: false,
+    responsive: true,
+    scrollZoom: true,
+  };
+
+  return (
+    <div
+      style={{
+        borderRadius: '8px',
+        overflow: 'hidden',
+        boxShadow: '0 4px 24px rgba(0, 0, 0, 0.4)'
+      }}
+    >
+      <Plot
+        data={meshData}
+        layout={layout}
+        config={plotConfig}
+        style={{ width: '100%', height: '100%' }}
+      />
+    </div>
+  );
+}
+
+export default RiemannSurface;
@@ -4,13 +4,15 @@
  */
 
 import Plot from 'react-plotly.js';
-import type { ColorMapping, Surface3DConfig } from '../../types';
+import type { ColorMapping, ComplexPoint, Surface3DConfig, ZeroPole } from '../../types';
 
 interface Surface3DData {
   x: number[];
   y: number[];
   z: number[][];
   colors: number[][];
+  zerosAndPoles?: ZeroPole[];
+  branchCuts?: ComplexPoint[][];
 }
 
 interface Surface3DProps {
@@ -37,6 +39,12 @@ function getMappingLabel(mapping: ColorMapping): string {
       return 'Re(f(z))';
     case 'imaginary':
       return 'Im(f(z))';
+    case 'derivative':
+      return "arg(f'(z))";
+    case 'areaScaling':
+      return "|f'(z)|²";
+    case 'angleDistortion':
+      return 'Bending (rad)';
     default:
       return mapping;
   }
@@ -51,6 +59,7 @@ function getColorScale(mapping: ColorMapping): Plotly.ColorScale {
       // Viridis works well for magnitude - perceptually uniform
       return 'Viridis';
     case 'argument':
+    case 'derivative':
       // HSL-based for cyclic phase values (-π to π)
       return [
         [0, 'hsl(0, 80%, 50%)'],      // -π: red
@@ -67,18 +76,33 @@ function getColorScale(mapping: ColorMapping): Plotly.ColorScale {
     case 'imaginary':
       // Different diverging colorscale for imaginary
       return 'PiYG';
+    case 'angleDistortion':
+      // Dark where f is conformal, bright around its critical points
+      return 'Hot';
     default:
       return 'Viridis';
   }
 }
 
+/**
+ * Index of the grid value nearest to v (values ascending)
+ */
+function nearestIndex(values: number[], v: number): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (Math.abs(values[i] - v) < Math.abs(values[best] - v)) best = i;
+  }
+  return best;
+}
+
 /**
  * Surface3D Component
  * 
  * Renders a 3D surface plot for complex function visualization:
  * - x-axis: Real part of input z
  * - y-axis: Imaginary part of input z  
- * - z-axis: Chosen property (modulus, argument, real, or imaginary part) of f(z)
+ * - z-axis: Chosen property (modulus, argument, real, or imaginary part) of f(z),
+ *   or of f'(z) for the derivative mappings
  * - Color: Independently chosen property of f(z)
  */
 export function Surface3D({ 
@@ -122,6 +146,22 @@ export function Surface3D({
     );
   }
 
+  // Zeros sit on the surface; poles float at the top of the z-range
+  const zerosAndPoles = data.zerosAndPoles ?? [];
+  let top = zMax ?? -Infinity;
+  if (zMax === undefined) {
+    for (const row of z) {
+      for (const val of row) {
+        if (isFinite(val) && val > top) top = val;
+      }
+    }
+  }
+  const markerHeight = (p: ZeroPole) => {
+    if (p.type === 'pole') return top;
+    const val = z[nearestIndex(y, p.location.im)]?.[nearestIndex(x, p.location.re)];
+    return isFinite(val) ? val : 0;
+  };
+
   const surfaceData: Plotly.Data[] = [
     {
       type: 'surface',
@@ -171,6 +211,55 @@ export function Surface3D({
     } as Plotly.Data
   ];
 
+  // Branch cuts are drawn on the floor of the scene, beneath the tear in the surface
+  const branchCuts = data.branchCuts ?? [];
+  if (branchCuts.length > 0) {
+    let floor = zMin ?? Infinity;
+    if (zMin === undefined) {
+      for (const row of z) {
+        for (const val of row) {
+          if (isFinite(val) && val < floor) floor = val;
+        }
+      }
+    }
+    surfaceData.push({
+      type: 'scatter3d',
+      mode: 'lines',
+      x: branchCuts.flatMap((line) => [...line.map((p) => p.re), null]),
+      y: branchCuts.flatMap((line) => [...line.map((p) => p.im), null]),
+      z: branchCuts.flatMap((line) => [...line.map(() => floor), null]),
+      connectgaps: false,
+      line: { color: '#ffffff', width: 4, dash: 'dash' },
+      showlegend: false,
+      hovertemplate: 'Branch cut: f jumps to another branch across this line<extra></extra>',
+    } as Plotly.Data);
+  }
+
+  if (zerosAndPoles.length > 0) {
+    surfaceData.push({
+      type: 'scatter3d',
+      mode: 'text+markers',
+      x: zerosAndPoles.map((p) => p.location.re),
+      y: zerosAndPoles.map((p) => p.location.im),
+      z: zerosAndPoles.map(markerHeight),
+      text: zerosAndPoles.map((p) => p.label),
+      customdata: zerosAndPoles.map((p) => p.multiplicity),
+      textposition: 'top center',
+      textfont: { color: '#e0e0e0', size: 12 },
+      marker: {
+        size: 5,
+        symbol: zerosAndPoles.map((p) => (p.type === 'zero' ? 'circle-open' : 'x')),
+        color: zerosAndPoles.map((p) => (p.type === 'zero' ? '#ffffff' : '#ff5555')),
+        line: { width: 2 },
+      },
+      showlegend: false,
+      hovertemplate:
+        '%{text}: %{x:.4f} + %{y:.4f}i<br>' +
+        'Multiplicity: %{customdata}' +
+        '<extra></extra>',
+    } as Plotly.Data);
+  }
+
   const layout: Partial<Plotly.Layout> = {
     title: {
       text: `f(z) = ${expression}`,
@@ -5,3 +5,9 @@
 export { Surface3D } from './Surface3D';
 export { default as Surface3DDefault } from './Surface3D';
 
+
+export { RiemannSurface } from './RiemannSurface';
+export { default as RiemannSurfaceDefault } from './RiemannSurface';
+
+export { RiemannSphere } from './RiemannSphere';
+export { default as RiemannSphereDefault } from './RiemannSphere';
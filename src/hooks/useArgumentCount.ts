@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import type { ArgumentPrincipleCount, AsyncEvaluationOptions } from '../types/index';
+
+/** Starts the zero/pole search of an argument principle view; resolves to null when superseded */
+export type ArgumentCountRequest = (options: AsyncEvaluationOptions) => Promise<ArgumentPrincipleCount | null>;
+
+export interface UseArgumentCountReturn {
+  /** Zeros and poles found for the current request, or null until the search is done */
+  count: ArgumentPrincipleCount | null;
+  /** Whether the search is still running */
+  busy: boolean;
+  /** Why the current request failed (null unless it did) */
+  error: string | null;
+}
+
+/**
+ * Search for the zeros and poles inside a contour whenever the request changes.
+ * The result of an older request is never exposed; changing the request (or
+ * unmounting) aborts the previous one. A request that fails is no longer busy
+ * and reports its error instead.
+ * @param request - Memoized request for the current contour, or null when idle
+ */
+export function useArgumentCount(request: ArgumentCountRequest | null): UseArgumentCountReturn {
+  const [result, setResult] = useState<{ count: ArgumentPrincipleCount; request: ArgumentCountRequest } | null>(null);
+  const [failure, setFailure] = useState<{ message: string; request: ArgumentCountRequest } | null>(null);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const controller = new AbortController();
+    request({ signal: controller.signal }).then((count) => {
+      if (count && !controller.signal.aborted) {
+        setResult({ count, request });
+      }
+    }).catch((error: unknown) => {
+      // Cancellations are expected; anything else is reported
+      if (controller.signal.aborted) return;
+      console.warn('Zero/pole search failed:', error);
+      setFailure({ message: error instanceof Error ? error.message : String(error), request });
+    });
+
+    return () => controller.abort();
+  }, [request]);
+
+  const ready = request !== null && result?.request === request;
+  const error = failure?.request === request ? failure.message : null;
+  return {
+    count: ready ? result.count : null,
+    busy: request !== null && !ready && error === null,
+    error,
+  };
+}
+
+export default useArgumentCount;
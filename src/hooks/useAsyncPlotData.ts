@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import type { AsyncEvaluationOptions, GridPlotData } from '../types/index';
+
+/** Starts an async evaluation; resolves to null when superseded */
+export type AsyncPlotRequest = (options: AsyncEvaluationOptions) => Promise<GridPlotData | null>;
+
+export interface UseAsyncPlotDataReturn {
+  /** Latest data: a coarse pass of the current request, or the last finished one */
+  data: GridPlotData;
+  /** Whether the current request is still in flight (including refinement) */
+  busy: boolean;
+  /** Completed fraction (0 to 1) of the current request */
+  progress: number;
+  /** Why the current request failed (null unless it did) */
+  error: string | null;
+}
+
+/**
+ * Run an async plot evaluation whenever the request changes.
+ * Coarse passes replace the data as they arrive; changing the request (or
+ * unmounting) aborts the previous one, abandoning its refinement. A request
+ * that fails is no longer busy and reports its error instead.
+ * @param request - Memoized request for the current config, or null when idle
+ * @param initialData - Data to expose before the first pass arrives
+ */
+export function useAsyncPlotData(
+  request: AsyncPlotRequest | null,
+  initialData: GridPlotData
+): UseAsyncPlotDataReturn {
+  const [result, setResult] = useState<{
+    data: GridPlotData;
+    request: AsyncPlotRequest | null;
+    final: boolean;
+  }>({
+    data: initialData,
+    request: null,
+    final: true,
+  });
+  const [progress, setProgress] = useState<{ value: number; request: AsyncPlotRequest | null }>({
+    value: 0,
+    request: null,
+  });
+  const [failure, setFailure] = useState<{ message: string; request: AsyncPlotRequest } | null>(null);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const controller = new AbortController();
+    request({
+      signal: controller.signal,
+      onProgress: (value) => setProgress({ value, request }),
+      onPartial: (data) => {
+        if (!controller.signal.aborted) {
+          setResult({ data, request, final: false });
+        }
+      },
+    }).then((data) => {
+      if (data && !controller.signal.aborted) {
+        setResult({ data, request, final: true });
+      }
+    }).catch((error: unknown) => {
+      // Cancellations are expected; anything else is reported
+      if (controller.signal.aborted) return;
+      console.warn('Plot evaluation failed:', error);
+      setFailure({ message: error instanceof Error ? error.message : String(error), request });
+    });
+
+    return () => controller.abort();
+  }, [request]);
+
+  const error = failure?.request === request ? failure.message : null;
+  return {
+    data: result.data,
+    busy: request !== null && error === null && (result.request !== request || !result.final),
+    progress: progress.request === request ? progress.value : 0,
+    error,
+  };
+}
+
+export default useAsyncPlotData;
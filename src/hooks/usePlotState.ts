@@ -6,7 +6,20 @@ import type {
   ContourEntry,
   DomainColoringConfig,
   Surface3DConfig,
+  RiemannSurfaceConfig,
+  EscapeTimeConfig,
+  EscapePlane,
+  NewtonConfig,
+  ConformalGridConfig,
+  VectorFieldConfig,
+  SeriesConfig,
+  RiemannSphereConfig,
+  TextureMapConfig,
+  MobiusConfig,
   ColorMapping,
+  Parameter,
+  ParameterKind,
+  ParameterSweep,
 } from '../types/index';
 
 // Color palette for contours
@@ -45,6 +58,24 @@ function createContourEntry(
   };
 }
 
+// Names offered to new parameters, first unused one wins (z, t, i and e are taken;
+// unit names such as b, m and s are not built-ins, so they are free)
+const PARAMETER_NAMES = ['a', 'b', 'c', 'd', 'k', 'm', 'n', 'p', 'q', 'r', 's', 'u', 'v', 'w'];
+
+let parameterIdCounter = 0;
+
+function createParameter(kind: ParameterKind, taken: string[]): Parameter {
+  const name = PARAMETER_NAMES.find((n) => !taken.includes(n)) ?? `p${taken.length + 1}`;
+  return {
+    id: `parameter-${++parameterIdCounter}`,
+    name,
+    kind,
+    value: kind === 'real' ? { re: 1, im: 0 } : { re: -0.4, im: 0.6 },
+    min: kind === 'real' ? -5 : -2,
+    max: kind === 'real' ? 5 : 2,
+  };
+}
+
 const defaultContour: ContourConfig = {
   contours: [createContourEntry('exp(i * t)', 0)],
 };
@@ -57,6 +88,7 @@ const defaultDomainColoring: DomainColoringConfig = {
   yMax: 2,
   resolution: 256,
   colorBy: 'argument',
+  overlay: 'none',
 };
 
 const defaultSurface3D: Surface3DConfig = {
@@ -72,11 +104,149 @@ const defaultSurface3D: Surface3DConfig = {
   zMax: undefined,
 };
 
+const defaultRiemannSurface: RiemannSurfaceConfig = {
+  expression: 'sqrt(z)',
+  xMin: -2,
+  xMax: 2,
+  yMin: -2,
+  yMax: 2,
+  resolution: 64,
+  sheets: 2,
+  heightBy: 'real',
+};
+
+// Windows the escape-time planes open on (the linked Julia view always shows the dynamic one)
+export const ESCAPE_WINDOWS: Record<EscapePlane, Pick<EscapeTimeConfig, 'xMin' | 'xMax' | 'yMin' | 'yMax'>> = {
+  dynamic: { xMin: -2, xMax: 2, yMin: -2, yMax: 2 },
+  parameter: { xMin: -2.5, xMax: 1, yMin: -1.5, yMax: 1.5 },
+};
+
+const defaultEscapeTime: EscapeTimeConfig = {
+  expression: 'z^2 + c',
+  ...ESCAPE_WINDOWS.parameter,
+  resolution: 256,
+  plane: 'parameter',
+  c: { re: -0.8, im: 0.156 },
+  critical: { re: 0, im: 0 },
+  escapeRadius: 10,
+  maxIterations: 200,
+};
+
+const defaultNewton: NewtonConfig = {
+  expression: 'z^3 - 1',
+  xMin: -2,
+  xMax: 2,
+  yMin: -2,
+  yMax: 2,
+  resolution: 256,
+  damping: 1,
+  maxIterations: 50,
+};
+
+const defaultConformalGrid: ConformalGridConfig = {
+  expression: 'exp(z)',
+  kind: 'cartesian',
+  xMin: -1,
+  xMax: 1,
+  yMin: -Math.PI / 2,
+  yMax: Math.PI / 2,
+  rMin: 0,
+  rMax: 2,
+  lineCount: 9,
+  tSteps: 400,
+};
+
+// Flow past a cylinder: Φ(z) = z + 1/z, with a few streamlines coming in from the left
+const defaultVectorField: VectorFieldConfig = {
+  expression: '1 - 1/z^2',
+  xMin: -3,
+  xMax: 3,
+  yMin: -2,
+  yMax: 2,
+  resolution: 128,
+  arrows: 20,
+  seeds: [
+    { re: -2.9, im: 0.3 },
+    { re: -2.9, im: 0.8 },
+    { re: -2.9, im: 1.4 },
+    { re: -2.9, im: -0.3 },
+    { re: -2.9, im: -0.8 },
+    { re: -2.9, im: -1.4 },
+  ],
+  potential: 'z + 1/z',
+  levels: 12,
+};
+
+// Poles at ±i: the Taylor series at 0 converges for |z| < 1, the Laurent series for |z| > 1
+const defaultSeries: SeriesConfig = {
+  expression: '1/(1 + z^2)',
+  xMin: -2,
+  xMax: 2,
+  yMin: -2,
+  yMax: 2,
+  resolution: 256,
+  kind: 'taylor',
+  center: { re: 0, im: 0 },
+  radius: 0.5,
+  annulus: [1.2, 2],
+  order: 12,
+  view: 'difference',
+};
+
+// A double pole at ∞ and a simple one at 1, seen side by side from z = 1
+const defaultRiemannSphere: RiemannSphereConfig = {
+  expression: 'z^2 / (z - 1)',
+  resolution: 96,
+  colorBy: 'argument',
+  graticule: true,
+  showContours: false,
+  facing: 'one',
+};
+
+// Under z² the checkerboard's colored quadrants come back as opposite pairs of octants, and its lines as hyperbolas
+const defaultTextureMap: TextureMapConfig = {
+  expression: 'z^2',
+  xMin: -2,
+  xMax: 2,
+  yMin: -2,
+  yMax: 2,
+  resolution: 512,
+  texture: 'checkerboard',
+  image: null,
+  mapping: 'cartesian',
+  scale: 4,
+  cells: 8,
+  wrap: 'repeat',
+};
+
+// The Cayley map, sending the upper half-plane to the unit disk (0, 1, i ↦ −1, −i, 0)
+const defaultMobius: MobiusConfig = {
+  a: { re: 1, im: 0 },
+  b: { re: 0, im: -1 },
+  c: { re: 1, im: 0 },
+  d: { re: 0, im: 1 },
+  input: 'coefficients',
+  source: [{ re: 0, im: 0 }, { re: 1, im: 0 }, { re: 0, im: 1 }],
+  target: [{ re: -1, im: 0 }, { re: 0, im: -1 }, { re: 0, im: 0 }],
+  linked: false,
+};
+
 const defaultPlotState: PlotState = {
   mode: 'contour',
   contour: defaultContour,
   domainColoring: defaultDomainColoring,
   surface3d: defaultSurface3D,
+  riemannSurface: defaultRiemannSurface,
+  escapeTime: defaultEscapeTime,
+  newton: defaultNewton,
+  conformalGrid: defaultConformalGrid,
+  vectorField: defaultVectorField,
+  series: defaultSeries,
+  riemannSphere: defaultRiemannSphere,
+  textureMap: defaultTextureMap,
+  mobius: defaultMobius,
+  parameters: [],
+  sweep: null,
 };
 
 export interface UsePlotStateReturn {
@@ -85,10 +255,26 @@ export interface UsePlotStateReturn {
   setContour: (config: Partial<ContourConfig>) => void;
   setDomainColoring: (config: Partial<DomainColoringConfig>) => void;
   setSurface3D: (config: Partial<Surface3DConfig>) => void;
+  setRiemannSurface: (config: Partial<RiemannSurfaceConfig>) => void;
+  setEscapeTime: (config: Partial<EscapeTimeConfig>) => void;
+  /** Switch escape-time planes, moving to the new plane's default window */
+  setEscapePlane: (plane: EscapePlane) => void;
+  setNewton: (config: Partial<NewtonConfig>) => void;
+  setConformalGrid: (config: Partial<ConformalGridConfig>) => void;
+  setVectorField: (config: Partial<VectorFieldConfig>) => void;
+  setSeries: (config: Partial<SeriesConfig>) => void;
+  setRiemannSphere: (config: Partial<RiemannSphereConfig>) => void;
+  setTextureMap: (config: Partial<TextureMapConfig>) => void;
+  setMobius: (config: Partial<MobiusConfig>) => void;
   // Contour-specific methods
   addContour: () => void;
   removeContour: (id: string) => void;
   updateContour: (id: string, updates: Partial<ContourEntry>) => void;
+  // Named parameters (shared by every mode)
+  addParameter: (kind: ParameterKind) => void;
+  removeParameter: (id: string) => void;
+  updateParameter: (id: string, updates: Partial<Parameter>) => void;
+  setSweep: (sweep: ParameterSweep | null) => void;
   // Generic setters for current mode
   setExpression: (expression: string) => void;
   setXRange: (xMin: number, xMax: number) => void;
@@ -99,7 +285,7 @@ export interface UsePlotStateReturn {
   setColorBy: (colorBy: ColorMapping) => void;
   setHeightBy: (heightBy: ColorMapping) => void;
   resetToDefaults: () => void;
-  currentConfig: ContourConfig | DomainColoringConfig | Surface3DConfig;
+  currentConfig: ContourConfig | DomainColoringConfig | Surface3DConfig | RiemannSurfaceConfig | EscapeTimeConfig | NewtonConfig | ConformalGridConfig | VectorFieldConfig | SeriesConfig | RiemannSphereConfig | TextureMapConfig;
 }
 
 export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateReturn {
@@ -133,6 +319,76 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
     }));
   }, []);
 
+  const setRiemannSurface = useCallback((config: Partial<RiemannSurfaceConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      riemannSurface: { ...prev.riemannSurface, ...config },
+    }));
+  }, []);
+
+  const setEscapeTime = useCallback((config: Partial<EscapeTimeConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      escapeTime: { ...prev.escapeTime, ...config },
+    }));
+  }, []);
+
+  const setEscapePlane = useCallback((plane: EscapePlane) => {
+    setState((prev) => ({
+      ...prev,
+      escapeTime: { ...prev.escapeTime, plane, ...ESCAPE_WINDOWS[plane] },
+    }));
+  }, []);
+
+  const setNewton = useCallback((config: Partial<NewtonConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      newton: { ...prev.newton, ...config },
+    }));
+  }, []);
+
+  const setConformalGrid = useCallback((config: Partial<ConformalGridConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      conformalGrid: { ...prev.conformalGrid, ...config },
+    }));
+  }, []);
+
+  const setVectorField = useCallback((config: Partial<VectorFieldConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      vectorField: { ...prev.vectorField, ...config },
+    }));
+  }, []);
+
+  const setSeries = useCallback((config: Partial<SeriesConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      series: { ...prev.series, ...config },
+    }));
+  }, []);
+
+  const setRiemannSphere = useCallback((config: Partial<RiemannSphereConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      riemannSphere: { ...prev.riemannSphere, ...config },
+    }));
+  }, []);
+
+  const setTextureMap = useCallback((config: Partial<TextureMapConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      textureMap: { ...prev.textureMap, ...config },
+    }));
+  }, []);
+
+  const setMobius = useCallback((config: Partial<MobiusConfig>) => {
+    setState((prev) => ({
+      ...prev,
+      mobius: { ...prev.mobius, ...config },
+    }));
+  }, []);
+
   // Contour-specific: add new contour (copies t-range from last contour if exists)
   const addContour = useCallback(() => {
     setState((prev) => {
@@ -178,6 +434,34 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
     }));
   }, []);
 
+  // Parameters: add one under the first free name
+  const addParameter = useCallback((kind: ParameterKind) => {
+    setState((prev) => ({
+      ...prev,
+      parameters: [...prev.parameters, createParameter(kind, prev.parameters.map((p) => p.name))],
+    }));
+  }, []);
+
+  // Removing the swept parameter also stops the sweep
+  const removeParameter = useCallback((id: string) => {
+    setState((prev) => ({
+      ...prev,
+      parameters: prev.parameters.filter((p) => p.id !== id),
+      sweep: prev.sweep?.parameterId === id ? null : prev.sweep,
+    }));
+  }, []);
+
+  const updateParameter = useCallback((id: string, updates: Partial<Parameter>) => {
+    setState((prev) => ({
+      ...prev,
+      parameters: prev.parameters.map((p) => (p.id === id ? { ...p, ...updates } : p)),
+    }));
+  }, []);
+
+  const setSweep = useCallback((sweep: ParameterSweep | null) => {
+    setState((prev) => ({ ...prev, sweep }));
+  }, []);
+
   // Generic expression setter (for domain coloring and surface3d)
   const setExpression = useCallback((expression: string) => {
     setState((prev) => {
@@ -194,6 +478,22 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
           return { ...prev, domainColoring: { ...prev.domainColoring, expression } };
         case 'surface3d':
           return { ...prev, surface3d: { ...prev.surface3d, expression } };
+        case 'riemannSurface':
+          return { ...prev, riemannSurface: { ...prev.riemannSurface, expression } };
+        case 'escapeTime':
+          return { ...prev, escapeTime: { ...prev.escapeTime, expression } };
+        case 'newton':
+          return { ...prev, newton: { ...prev.newton, expression } };
+        case 'conformalGrid':
+          return { ...prev, conformalGrid: { ...prev.conformalGrid, expression } };
+        case 'vectorField':
+          return { ...prev, vectorField: { ...prev.vectorField, expression } };
+        case 'series':
+          return { ...prev, series: { ...prev.series, expression } };
+        case 'riemannSphere':
+          return { ...prev, riemannSphere: { ...prev.riemannSphere, expression } };
+        case 'textureMap':
+          return { ...prev, textureMap: { ...prev.textureMap, expression } };
       }
     });
   }, []);
@@ -207,6 +507,23 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
           return { ...prev, domainColoring: { ...prev.domainColoring, xMin, xMax } };
         case 'surface3d':
           return { ...prev, surface3d: { ...prev.surface3d, xMin, xMax } };
+        case 'riemannSurface':
+          return { ...prev, riemannSurface: { ...prev.riemannSurface, xMin, xMax } };
+        case 'escapeTime':
+          return { ...prev, escapeTime: { ...prev.escapeTime, xMin, xMax } };
+        case 'newton':
+          return { ...prev, newton: { ...prev.newton, xMin, xMax } };
+        case 'conformalGrid':
+          return { ...prev, conformalGrid: { ...prev.conformalGrid, xMin, xMax } };
+        case 'vectorField':
+          return { ...prev, vectorField: { ...prev.vectorField, xMin, xMax } };
+        case 'series':
+          return { ...prev, series: { ...prev.series, xMin, xMax } };
+        case 'riemannSphere':
+          // The sphere shows the whole plane, so it has no window
+          return prev;
+        case 'textureMap':
+          return { ...prev, textureMap: { ...prev.textureMap, xMin, xMax } };
       }
     });
   }, []);
@@ -220,6 +537,22 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
           return { ...prev, domainColoring: { ...prev.domainColoring, yMin, yMax } };
         case 'surface3d':
           return { ...prev, surface3d: { ...prev.surface3d, yMin, yMax } };
+        case 'riemannSurface':
+          return { ...prev, riemannSurface: { ...prev.riemannSurface, yMin, yMax } };
+        case 'escapeTime':
+          return { ...prev, escapeTime: { ...prev.escapeTime, yMin, yMax } };
+        case 'newton':
+          return { ...prev, newton: { ...prev.newton, yMin, yMax } };
+        case 'conformalGrid':
+          return { ...prev, conformalGrid: { ...prev.conformalGrid, yMin, yMax } };
+        case 'vectorField':
+          return { ...prev, vectorField: { ...prev.vectorField, yMin, yMax } };
+        case 'series':
+          return { ...prev, series: { ...prev.series, yMin, yMax } };
+        case 'riemannSphere':
+          return prev;
+        case 'textureMap':
+          return { ...prev, textureMap: { ...prev.textureMap, yMin, yMax } };
       }
     });
   }, []);
@@ -246,6 +579,23 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
           return { ...prev, domainColoring: { ...prev.domainColoring, resolution } };
         case 'surface3d':
           return { ...prev, surface3d: { ...prev.surface3d, resolution } };
+        case 'riemannSurface':
+          return { ...prev, riemannSurface: { ...prev.riemannSurface, resolution } };
+        case 'escapeTime':
+          return { ...prev, escapeTime: { ...prev.escapeTime, resolution } };
+        case 'newton':
+          return { ...prev, newton: { ...prev.newton, resolution } };
+        case 'conformalGrid':
+          // Image lines are sampled adaptively (tSteps is their budget)
+          return prev;
+        case 'vectorField':
+          return { ...prev, vectorField: { ...prev.vectorField, resolution } };
+        case 'series':
+          return { ...prev, series: { ...prev.series, resolution } };
+        case 'riemannSphere':
+          return { ...prev, riemannSphere: { ...prev.riemannSphere, resolution } };
+        case 'textureMap':
+          return { ...prev, textureMap: { ...prev.textureMap, resolution } };
       }
     });
   }, []);
@@ -259,20 +609,52 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
           return { ...prev, domainColoring: { ...prev.domainColoring, colorBy } };
         case 'surface3d':
           return { ...prev, surface3d: { ...prev.surface3d, colorBy } };
+        case 'riemannSurface':
+          // Sheets are always colored by arg f
+          return prev;
+        case 'escapeTime':
+          // Always colored by escape count
+          return prev;
+        case 'newton':
+          // Always colored by basin
+          return prev;
+        case 'conformalGrid':
+          // Lines are colored by family and position
+          return prev;
+        case 'vectorField':
+          // The background always shows the speed |f|
+          return prev;
+        case 'series':
+          // Colored by phase, or by the error in the difference view
+          return prev;
+        case 'riemannSphere':
+          // The sphere is colored by f itself (f′ in z says nothing about ∞)
+          return colorBy === 'modulus' || colorBy === 'argument' || colorBy === 'real' || colorBy === 'imaginary'
+            ? { ...prev, riemannSphere: { ...prev.riemannSphere, colorBy } }
+            : prev;
+        case 'textureMap':
+          // Colored by the texture
+          return prev;
       }
     });
   }, []);
 
   const setHeightBy = useCallback((heightBy: ColorMapping) => {
-    setState((prev) => ({
-      ...prev,
-      surface3d: { ...prev.surface3d, heightBy },
-    }));
+    setState((prev) => {
+      if (prev.mode === 'riemannSurface') {
+        // Riemann sheets take their height from Re or Im of f
+        return heightBy === 'real' || heightBy === 'imaginary'
+          ? { ...prev, riemannSurface: { ...prev.riemannSurface, heightBy } }
+          : prev;
+      }
+      return { ...prev, surface3d: { ...prev.surface3d, heightBy } };
+    });
   }, []);
 
   const resetToDefaults = useCallback(() => {
-    // Reset the counter for fresh IDs
+    // Reset the counters for fresh IDs
     contourIdCounter = 0;
+    parameterIdCounter = 0;
     setState({
       ...defaultPlotState,
       contour: {
@@ -290,6 +672,22 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
         return state.domainColoring;
       case 'surface3d':
         return state.surface3d;
+      case 'riemannSurface':
+        return state.riemannSurface;
+      case 'escapeTime':
+        return state.escapeTime;
+      case 'newton':
+        return state.newton;
+      case 'conformalGrid':
+        return state.conformalGrid;
+      case 'vectorField':
+        return state.vectorField;
+      case 'series':
+        return state.series;
+      case 'riemannSphere':
+        return state.riemannSphere;
+      case 'textureMap':
+        return state.textureMap;
     }
   }, [state]);
 
@@ -299,9 +697,23 @@ export function usePlotState(initialState?: Partial<PlotState>): UsePlotStateRet
     setContour,
     setDomainColoring,
     setSurface3D,
+    setRiemannSurface,
+    setEscapeTime,
+    setEscapePlane,
+    setNewton,
+    setConformalGrid,
+    setVectorField,
+    setSeries,
+    setRiemannSphere,
+    setTextureMap,
+    setMobius,
     addContour,
     removeContour,
     updateContour,
+    addParameter,
+    removeParameter,
+    updateParameter,
+    setSweep,
     setExpression,
     setXRange,
     setYRange,
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import type { AsyncEvaluationOptions, GridPlotData } from '../types/index';
+
+/** Starts precomputing sweep frames; resolves to null when superseded */
+export type SweepRequest = (options: AsyncEvaluationOptions) => Promise<GridPlotData[] | null>;
+
+export interface UseSweepFramesReturn {
+  /** Frames of the current request, or null until all of them are ready */
+  frames: GridPlotData[] | null;
+  /** Whether frames are still being computed */
+  busy: boolean;
+  /** Completed fraction (0 to 1) of the current request */
+  progress: number;
+  /** Why the current request failed (null unless it did) */
+  error: string | null;
+}
+
+/**
+ * Precompute the frames of a parameter sweep whenever the request changes.
+ * Frames are only exposed once every one of them is ready, so playback never
+ * stalls; changing the request (or unmounting) aborts the previous one. A
+ * request that fails is no longer busy and reports its error instead.
+ * @param request - Memoized request for the current sweep, or null when idle
+ */
+export function useSweepFrames(request: SweepRequest | null): UseSweepFramesReturn {
+  const [result, setResult] = useState<{ frames: GridPlotData[]; request: SweepRequest } | null>(null);
+  const [progress, setProgress] = useState<{ value: number; request: SweepRequest | null }>({
+    value: 0,
+    request: null,
+  });
+  const [failure, setFailure] = useState<{ message: string; request: SweepRequest } | null>(null);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const controller = new AbortController();
+    request({
+      signal: controller.signal,
+      onProgress: (value) => setProgress({ value, request }),
+    }).then((frames) => {
+      if (frames && !controller.signal.aborted) {
+        setResult({ frames, request });
+      }
+    }).catch((error: unknown) => {
+      // Cancellations are expected; anything else is reported
+      if (controller.signal.aborted) return;
+      console.warn('Sweep evaluation failed:', error);
+      setFailure({ message: error instanceof Error ? error.message : String(error), request });
+    });
+
+    return () => controller.abort();
+  }, [request]);
+
+  const ready = request !== null && result?.request === request;
+  const error = failure?.request === request ? failure.message : null;
+  return {
+    frames: ready ? result.frames : null,
+    busy: request !== null && !ready && error === null,
+    progress: progress.request === request ? progress.value : 0,
+    error,
+  };
+}
+
+export default useSweepFrames;
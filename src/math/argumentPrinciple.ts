@@ -0,0 +1,193 @@
+/**
+ * Argument principle for closed contours
+ * Counts the turns of f(γ(t)) around 0, which equals Z − P (zeros minus
+ * poles of f inside γ, each weighted by the winding number of γ), and
+ * compares it with the zeros and poles found independently over a grid
+ * covering γ. That search samples and analyzes the grid on the worker pool,
+ * since it takes far longer than following f along γ.
+ */
+
+import type {
+  ArgumentPrincipleCount,
+  ArgumentPrincipleData,
+  AsyncEvaluationOptions,
+  ComplexPoint,
+  ContourEntry,
+  ParameterValues,
+} from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import { buildContourPath } from './contourPath';
+import { closedContourPolygon, linspace } from './generators';
+import { windingNumber } from './residues';
+import { analyzeGridAsync, cancelGridJobs, sampleGridAsync } from './workerPool';
+
+// Samples of γ (before refining fast-turning stretches of f(γ))
+const ARGUMENT_SAMPLES = 512;
+
+// Bisection depth when f(γ) turns by more than π/3 between samples
+const MAX_SUBDIVISIONS = 12;
+
+// Samples per axis of the grid searched for zeros and poles
+const ARGUMENT_GRID_SIZE = 128;
+
+// Worker pool channel of the grid search (a new search cancels the older one)
+const ARGUMENT_CHANNEL = 'argumentPrinciple';
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+/**
+ * Angle from arg a to arg b, wrapped to (-π, π]
+ */
+function turn(a: ComplexPoint, b: ComplexPoint): number {
+  return Math.atan2(a.re * b.im - a.im * b.re, a.re * b.re + a.im * b.im);
+}
+
+/**
+ * Count Z − P for f inside a closed contour γ by the argument principle
+ * @param contour - Contour entry; f defaults to z (the winding of γ around 0)
+ * @param parameters - Named parameter values in scope in γ and f
+ * @returns γ, f(γ) and the winding count (the zeros and poles inside γ are
+ *   left to countEnclosedAsync), or null if invalid
+ */
+export function computeArgumentPrinciple(
+  contour: ContourEntry,
+  parameters: ParameterValues = {}
+): ArgumentPrincipleData | null {
+  const { transformFunction, id, color } = contour;
+  const fExpr = transformFunction && transformFunction.trim() !== '' ? transformFunction : 'z';
+
+  const path = buildContourPath(contour, parameters);
+  const fKernel = compileExpression(fExpr, { constants: parameters });
+  if (!path || !fKernel) {
+    return null;
+  }
+
+  const { tMin, tMax } = path;
+  const evalGamma = path.evaluate;
+  const evalF = (z: ComplexPoint): ComplexPoint => evaluateKernelAt(fKernel, z);
+
+  const contourPoints: ComplexPoint[] = [];
+  const imagePoints: ComplexPoint[] = [];
+  let total = 0;
+  let defined = true;
+
+  const push = (z: ComplexPoint, w: ComplexPoint) => {
+    contourPoints.push(z);
+    imagePoints.push(w);
+    if (!isFinitePoint(w) || (w.re === 0 && w.im === 0)) {
+      defined = false;
+    }
+  };
+
+  // Accumulate the turn of f(γ) from t0 to t1, bisecting fast-turning stretches
+  const accumulate = (t0: number, w0: ComplexPoint, t1: number, w1: ComplexPoint, depth: number) => {
+    const d = turn(w0, w1);
+    if (Math.abs(d) <= Math.PI / 3 || depth === 0) {
+      total += d;
+      return;
+    }
+    const tm = (t0 + t1) / 2;
+    const zm = evalGamma(tm);
+    const wm = evalF(zm);
+    if (!isFinitePoint(wm)) {
+      total += d;
+      defined = false;
+      return;
+    }
+    accumulate(t0, w0, tm, wm, depth - 1);
+    push(zm, wm);
+    accumulate(tm, wm, t1, w1, depth - 1);
+  };
+
+  const ts = linspace(tMin, tMax, ARGUMENT_SAMPLES);
+  let previous: { t: number; w: ComplexPoint } | null = null;
+  for (const t of ts) {
+    const z = evalGamma(t);
+    const w = evalF(z);
+    if (previous && defined && isFinitePoint(w)) {
+      accumulate(previous.t, previous.w, t, w, MAX_SUBDIVISIONS);
+    }
+    push(z, w);
+    previous = { t, w };
+  }
+
+  // A composite contour with gaps between its pieces does not bound a region
+  const polygon = path.gaps.length === 0 ? closedContourPolygon(evalGamma, tMin, tMax) : null;
+  // Z − P as a whole number of turns (|| 0 normalizes -0)
+  const winding = polygon && defined ? Math.round(total / (2 * Math.PI)) || 0 : null;
+
+  return {
+    id,
+    color,
+    expression: path.label,
+    transformFunction: fExpr,
+    contourPoints,
+    imagePoints,
+    winding,
+    region: polygon,
+    enclosed: [],
+    enclosedCount: null,
+  };
+}
+
+/**
+ * Independent count: the zeros and poles of f over a grid covering γ (on
+ * the worker pool), weighted by n(γ, a)
+ * @param data - γ and f, as found by computeArgumentPrinciple
+ * @param parameters - Named parameter values in scope in f
+ * @param options - Progress callback and abort signal
+ * @returns The zeros and poles inside γ and their Z − P (a null count if γ
+ *   bounds no region), or null if the search was cancelled or superseded
+ */
+export async function countEnclosedAsync(
+  data: ArgumentPrincipleData,
+  parameters: ParameterValues = {},
+  options: AsyncEvaluationOptions = {}
+): Promise<ArgumentPrincipleCount | null> {
+  const polygon = data.region;
+  if (!polygon) {
+    cancelGridJobs(ARGUMENT_CHANNEL);
+    return { enclosed: [], enclosedCount: null };
+  }
+
+  let minRe = Infinity, maxRe = -Infinity, minIm = Infinity, maxIm = -Infinity;
+  for (const p of polygon) {
+    minRe = Math.min(minRe, p.re);
+    maxRe = Math.max(maxRe, p.re);
+    minIm = Math.min(minIm, p.im);
+    maxIm = Math.max(maxIm, p.im);
+  }
+  const pad = Math.hypot(maxRe - minRe, maxIm - minIm) * 0.05;
+  if (!(pad > 0)) {
+    cancelGridJobs(ARGUMENT_CHANNEL);
+    return { enclosed: [], enclosedCount: null };
+  }
+
+  const { onProgress, signal } = options;
+  const expression = data.transformFunction;
+  const x = linspace(minRe - pad, maxRe + pad, ARGUMENT_GRID_SIZE);
+  const y = linspace(minIm - pad, maxIm + pad, ARGUMENT_GRID_SIZE);
+  const samples = await sampleGridAsync(
+    { expression, constants: parameters, xs: Float64Array.from(x), ys: Float64Array.from(y) },
+    { channel: ARGUMENT_CHANNEL, onProgress, signal }
+  );
+  if (!samples) {
+    return null;
+  }
+  const analysis = await analyzeGridAsync(
+    { expression, constants: parameters, x, y, samples },
+    { channel: ARGUMENT_CHANNEL, signal }
+  );
+  if (!analysis) {
+    return null;
+  }
+
+  const enclosed = analysis.zerosAndPoles.filter((p) => windingNumber(polygon, p.location) !== 0);
+  const enclosedCount = enclosed.reduce((sum, p) => {
+    const sign = p.type === 'zero' ? 1 : -1;
+    return sum + sign * p.multiplicity * windingNumber(polygon, p.location);
+  }, 0);
+  return { enclosed, enclosedCount };
+}
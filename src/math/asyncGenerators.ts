@@ -0,0 +1,605 @@
+/**
+ * Async counterparts of the grid generators
+ * Sampling runs on the worker pool in coarse-to-fine passes; mapping samples
+ * to plot values stays on the main thread since it is cheap compared to
+ * evaluating f. Parameter sweeps sample one full grid per frame instead and
+ * keep the finished frames cached for playback.
+ */
+
+import type {
+  AsyncEvaluationOptions,
+  ComplexPoint,
+  DomainColoringConfig,
+  EscapeTimeConfig,
+  GridPlotData,
+  NewtonConfig,
+  ParameterSweep,
+  SeriesConfig,
+  ParameterValues,
+  Surface3DConfig,
+  TextureMapConfig,
+} from '../types';
+import { domainColoringFromSamples, surface3DFromSamples, linspace } from './generators';
+import { analyzeGridAsync, cancelGridJobs, sampleGridAsync } from './workerPool';
+import type { GridSamples } from './workerPool';
+import { sampleGridProgressive } from './progressive';
+import { compileExpression } from './compiler';
+import { escapeTimeFromSamples } from './escapeTime';
+import { differentiateMap, findNewtonRoots, newtonFromSamples } from './newton';
+import { computeSeries, seriesErrorFromSamples, seriesViewExpression } from './series';
+import { isDerivedMapping, mappedExpression } from './derivedViews';
+import { phasePortraitFromSamples, portraitPresets } from './phasePortrait';
+import { textureMapFromSamples } from './textureMap';
+
+// Finished sweeps kept for replay (each holds every frame's grids)
+const SWEEP_CACHE_SIZE = 3;
+
+const sweepCache = new Map<string, GridPlotData[]>();
+
+/** Extra work on the full-resolution grid of a progressive evaluation */
+interface FinalPassOptions {
+  /** Blank z on one side of each branch cut (so surfaces tear cleanly instead of drawing walls) */
+  splitAtCuts?: boolean;
+  /** Check the Cauchy–Riemann equations over the grid */
+  checkHolomorphy?: boolean;
+}
+
+/**
+ * Map samples to domain coloring data, with the phase portrait of f when the
+ * config asks for one instead of the colorBy heatmap (whose arg f values are
+ * then kept for hovering)
+ */
+function domainColoringPlotData(
+  config: DomainColoringConfig,
+  samples: GridSamples,
+  x: number[],
+  y: number[]
+): GridPlotData {
+  if (config.rendering !== 'portrait') {
+    return domainColoringFromSamples(samples, x, y, config.colorBy);
+  }
+  return {
+    ...domainColoringFromSamples(samples, x, y, 'argument'),
+    image: phasePortraitFromSamples(samples, x, y, config.portrait ?? portraitPresets.modulus),
+  };
+}
+
+/**
+ * Finish the plot data of a full-resolution grid with what the grid analysis
+ * finds there (in a worker): zeros and poles, branch cuts and, if asked for,
+ * the Cauchy–Riemann check
+ * @param channel - Worker pool channel (a new request cancels the older one)
+ * @param expression - f(z)
+ * @param parameters - Named parameter values in scope in f
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param samples - Samples of f over the grid
+ * @param data - Plot data already made from the samples
+ * @param finalPass - Extra work on the grid
+ * @param signal - Aborting cancels the analysis
+ * @returns The finished plot data, or null if superseded
+ */
+async function withGridAnalysis(
+  channel: string,
+  expression: string,
+  parameters: ParameterValues,
+  x: number[],
+  y: number[],
+  samples: GridSamples,
+  data: GridPlotData,
+  { splitAtCuts = false, checkHolomorphy = false }: FinalPassOptions,
+  signal?: AbortSignal
+): Promise<GridPlotData | null> {
+  const analysis = await analyzeGridAsync(
+    { expression, constants: parameters, x, y, samples, checkHolomorphy },
+    { channel, signal }
+  );
+  if (!analysis) {
+    return null;
+  }
+  const cuts = analysis.branchCuts;
+  if (splitAtCuts) {
+    for (const k of cuts.samples) {
+      data.z[Math.floor(k / x.length)][k % x.length] = NaN;
+    }
+  }
+  return {
+    ...data,
+    zerosAndPoles: analysis.zerosAndPoles,
+    branchCuts: cuts.polylines,
+    holomorphy: analysis.holomorphy,
+  };
+}
+
+/**
+ * Keep only the poles among the zeros and poles of plot data
+ */
+function withPolesOnly(data: GridPlotData): GridPlotData {
+  return { ...data, zerosAndPoles: data.zerosAndPoles?.filter((p) => p.type === 'pole') };
+}
+
+/**
+ * Sample f progressively over a grid, converting every pass to plot data
+ * @param channel - Worker pool channel (a new request cancels the older one)
+ * @param expression - f(z)
+ * @param parameters - Named parameter values in scope in f
+ * @param x - Real parts of the full-resolution grid columns
+ * @param y - Imaginary parts of the full-resolution grid rows
+ * @param toPlotData - Converts samples on a sub-grid to plot data
+ * @param options - Progress/partial callbacks and abort signal
+ * @param finalPass - Extra work on the full-resolution grid
+ * @returns Full-resolution plot data with its zeros, poles and branch cuts, or null if superseded
+ */
+async function evaluateGridProgressive(
+  channel: string,
+  expression: string,
+  parameters: ParameterValues,
+  x: number[],
+  y: number[],
+  toPlotData: (samples: GridSamples, x: number[], y: number[]) => GridPlotData,
+  options: AsyncEvaluationOptions,
+  finalPass: FinalPassOptions = {}
+): Promise<GridPlotData | null> {
+  const { onPartial, ...jobOptions } = options;
+
+  const samples = await sampleGridProgressive(
+    { expression, constants: parameters, xs: Float64Array.from(x), ys: Float64Array.from(y) },
+    {
+      channel,
+      ...jobOptions,
+      onPass: (pass) => onPartial?.(
+        toPlotData(pass.samples, pass.cols.map((c) => x[c]), pass.rows.map((r) => y[r]))
+      ),
+    }
+  );
+
+  if (!samples) {
+    return null;
+  }
+
+  // Zeros, poles and branch cuts are only located on the full-resolution grid
+  return withGridAnalysis(
+    channel, expression, parameters, x, y, samples, toPlotData(samples, x, y), finalPass, jobOptions.signal
+  );
+}
+
+/**
+ * Generate domain coloring data on the worker pool
+ * @param config - Domain coloring configuration
+ * @param options - Progress/partial callbacks and abort signal
+ * @returns Heatmap data, or null if superseded by a newer request
+ */
+export async function generateDomainColoringDataAsync(
+  config: DomainColoringConfig,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, parameters = {} } = config;
+  // A phase portrait is always of f itself
+  const colorBy = config.rendering === 'portrait' ? 'argument' : config.colorBy;
+
+  if (!expression || expression.trim() === '') {
+    cancelGridJobs('domainColoring');
+    return { x: [], y: [], z: [], colors: [] };
+  }
+
+  const data = await evaluateGridProgressive(
+    'domainColoring',
+    mappedExpression(expression, colorBy, xMax - xMin, parameters),
+    parameters,
+    linspace(xMin, xMax, resolution),
+    linspace(yMin, yMax, resolution),
+    (samples, x, y) => domainColoringPlotData(config, samples, x, y),
+    options,
+    // A differenced f′ of a non-holomorphic f can still pass the check, so only f itself is checked
+    { checkHolomorphy: !isDerivedMapping(colorBy) }
+  );
+
+  // The zeros of f″ mean little here, but the poles of f″/f′ are the critical points and poles of f
+  return data && colorBy === 'angleDistortion' ? withPolesOnly(data) : data;
+}
+
+/**
+ * Generate 3D surface data on the worker pool
+ * @param config - Surface 3D configuration
+ * @param options - Progress/partial callbacks and abort signal
+ * @returns Surface data, or null if superseded by a newer request
+ */
+export async function generateSurface3DDataAsync(
+  config: Surface3DConfig,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, heightBy, colorBy, parameters = {} } = config;
+
+  if (!expression || expression.trim() === '') {
+    cancelGridJobs('surface3d');
+    cancelGridJobs('surface3dColor');
+    return { x: [], y: [], z: [], colors: [] };
+  }
+
+  const x = linspace(xMin, xMax, resolution);
+  const y = linspace(yMin, yMax, resolution);
+  const heightSource = mappedExpression(expression, heightBy, xMax - xMin, parameters);
+  const colorSource = mappedExpression(expression, colorBy, xMax - xMin, parameters);
+  const finalPass = { splitAtCuts: true, checkHolomorphy: !isDerivedMapping(heightBy) };
+
+  if (colorSource === heightSource) {
+    cancelGridJobs('surface3dColor');
+    return evaluateGridProgressive(
+      'surface3d',
+      heightSource,
+      parameters,
+      x,
+      y,
+      (samples, x, y) => surface3DFromSamples(samples, x, y, heightBy, colorBy),
+      options,
+      finalPass
+    );
+  }
+
+  // Height and color map different expressions: the color grid is sampled
+  // alongside on a channel of its own, and there are no coarse passes to draw
+  const { onProgress, signal } = options;
+  const [data, colorSamples] = await Promise.all([
+    evaluateGridProgressive(
+      'surface3d',
+      heightSource,
+      parameters,
+      x,
+      y,
+      (samples, x, y) => surface3DFromSamples(samples, x, y, heightBy, heightBy),
+      { onProgress, signal },
+      finalPass
+    ),
+    sampleGridAsync(
+      { expression: colorSource, constants: parameters, xs: Float64Array.from(x), ys: Float64Array.from(y) },
+      { channel: 'surface3dColor', signal }
+    ),
+  ]);
+  if (!data || !colorSamples) {
+    return null;
+  }
+  return { ...data, colors: surface3DFromSamples(colorSamples, x, y, colorBy, colorBy).colors };
+}
+
+/**
+ * Generate an escape-time plot on the worker pool
+ * @param config - Escape-time configuration (map, plane, escape radius and iteration cap)
+ * @param options - Progress/partial callbacks and abort signal
+ * @returns Heatmap of smooth escape counts, or null if superseded by a newer request for the same plane
+ */
+export async function generateEscapeTimeDataAsync(
+  config: EscapeTimeConfig,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, plane, parameters = {} } = config;
+  // Each plane has its own channel, so the linked Julia set does not cancel the parameter plane
+  const channel = `escapeTime:${plane}`;
+
+  if (!expression || expression.trim() === '') {
+    cancelGridJobs(channel);
+    return { x: [], y: [], z: [], colors: [] };
+  }
+
+  const { onPartial, ...jobOptions } = options;
+  const x = linspace(xMin, xMax, resolution);
+  const y = linspace(yMin, yMax, resolution);
+
+  const samples = await sampleGridProgressive(
+    {
+      expression,
+      constants: parameters,
+      xs: Float64Array.from(x),
+      ys: Float64Array.from(y),
+      iteration: {
+        kind: 'escape',
+        plane,
+        c: config.c,
+        critical: config.critical,
+        radius: config.escapeRadius,
+        maxIterations: config.maxIterations,
+      },
+    },
+    {
+      channel,
+      ...jobOptions,
+      onPass: (pass) => onPartial?.(
+        escapeTimeFromSamples(pass.samples, pass.cols.map((c) => x[c]), pass.rows.map((r) => y[r]))
+      ),
+    }
+  );
+
+  return samples ? escapeTimeFromSamples(samples, x, y) : null;
+}
+
+/**
+ * Generate Newton basins of attraction on the worker pool
+ * The roots are found on the main thread first (from a coarse grid of seeds),
+ * so every pass can be colored by them
+ * @param config - Newton configuration (f, relaxation factor and iteration cap)
+ * @param options - Progress/partial callbacks and abort signal
+ * @returns Basin heatmap with the roots in zerosAndPoles, or null if superseded
+ */
+export async function generateNewtonDataAsync(
+  config: NewtonConfig,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, damping, maxIterations, parameters = {} } = config;
+  const channel = 'newton';
+
+  const kernel = compileExpression(expression, { constants: parameters });
+  if (!kernel) {
+    cancelGridJobs(channel);
+    return { x: [], y: [], z: [], colors: [] };
+  }
+
+  const derivative = differentiateMap(expression, parameters).expression;
+  const derivativeKernel = derivative ? compileExpression(derivative, { constants: parameters }) : null;
+  const roots = findNewtonRoots(kernel, derivativeKernel, config, damping, maxIterations);
+
+  const { onPartial, ...jobOptions } = options;
+  const x = linspace(xMin, xMax, resolution);
+  const y = linspace(yMin, yMax, resolution);
+
+  const samples = await sampleGridProgressive(
+    {
+      expression,
+      constants: parameters,
+      xs: Float64Array.from(x),
+      ys: Float64Array.from(y),
+      iteration: {
+        kind: 'newton',
+        derivative,
+        damping,
+        maxIterations,
+        roots: roots.map((root) => root.location),
+      },
+    },
+    {
+      channel,
+      ...jobOptions,
+      onPass: (pass) => onPartial?.(
+        newtonFromSamples(pass.samples, pass.cols.map((c) => x[c]), pass.rows.map((r) => y[r]), roots, maxIterations)
+      ),
+    }
+  );
+
+  return samples ? newtonFromSamples(samples, x, y, roots, maxIterations) : null;
+}
+
+/**
+ * Generate a series view on the worker pool: f or S_N colored by phase, or
+ * log₁₀|f − S_N| to show where the partial sum converges
+ * @param config - Series configuration (the view picks what is plotted)
+ * @param options - Progress/partial callbacks and abort signal
+ * @returns Heatmap data with the poles of f, or null if superseded by a newer request
+ */
+export async function generateSeriesDataAsync(
+  config: SeriesConfig,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData | null> {
+  const { xMin, xMax, yMin, yMax, resolution, view, parameters = {} } = config;
+  const channel = 'series';
+
+  const series = computeSeries(config);
+  if (!series) {
+    cancelGridJobs(channel);
+    return { x: [], y: [], z: [], colors: [] };
+  }
+
+  const data = await evaluateGridProgressive(
+    channel,
+    seriesViewExpression(config, series),
+    parameters,
+    linspace(xMin, xMax, resolution),
+    linspace(yMin, yMax, resolution),
+    (samples, x, y) => view === 'difference'
+      ? seriesErrorFromSamples(samples, x, y)
+      : domainColoringFromSamples(samples, x, y, 'argument'),
+    options
+  );
+
+  // Zeros of S_N or of f − S_N say little about f, but the poles are those of f (and z₀)
+  return data && view !== 'function' ? withPolesOnly(data) : data;
+}
+
+/**
+ * Generate a texture map on the worker pool: f is sampled like a domain
+ * coloring, and each sample takes the texture's color at f(z)
+ * @param config - Texture map configuration (window, texture and how it is laid on the w-plane)
+ * @param options - Progress/partial callbacks and abort signal
+ * @returns The texture pulled back by f in image (arg f in colors, for hovering),
+ *   or null if superseded by a newer request
+ */
+export async function generateTextureMapDataAsync(
+  config: TextureMapConfig,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, parameters = {} } = config;
+  const channel = 'textureMap';
+
+  if (!expression || expression.trim() === '') {
+    cancelGridJobs(channel);
+    return { x: [], y: [], z: [], colors: [] };
+  }
+
+  return evaluateGridProgressive(
+    channel,
+    expression,
+    parameters,
+    linspace(xMin, xMax, resolution),
+    linspace(yMin, yMax, resolution),
+    (samples, x, y) => ({
+      ...domainColoringFromSamples(samples, x, y, 'argument'),
+      image: textureMapFromSamples(samples, x, y, config),
+    }),
+    options
+  );
+}
+
+/**
+ * Value of a swept parameter part-way along its segment
+ * @param sweep - The sweep
+ * @param fraction - Position along the segment, 0 (start) to 1 (end)
+ */
+export function sweepValue(sweep: ParameterSweep, fraction: number): ComplexPoint {
+  return {
+    re: sweep.start.re + fraction * (sweep.end.re - sweep.start.re),
+    im: sweep.start.im + fraction * (sweep.end.im - sweep.start.im),
+  };
+}
+
+/**
+ * Sample f once per frame of a parameter sweep, converting each to plot data
+ * finished like a single plot (zeros, poles and branch cuts of the first
+ * expression, without the Cauchy–Riemann check)
+ * @param channel - Worker pool channel (a new request cancels the older one)
+ * @param key - Cache key identifying the plot settings
+ * @param expressions - f(z), or the distinct expressions the plot's mappings sample
+ * @param parameters - Values of the other parameters
+ * @param parameter - Name of the swept parameter
+ * @param sweep - Segment and frame count
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param toPlotData - Converts the samples of a frame (one grid per expression) to plot data
+ * @param options - Progress callback and abort signal (frames have no partial passes)
+ * @param splitAtCuts - Blank z on one side of each branch cut, as for a single surface
+ * @returns One plot per frame, or null if superseded
+ */
+async function evaluateSweepFrames(
+  channel: string,
+  key: unknown[],
+  expressions: string[],
+  parameters: ParameterValues,
+  parameter: string,
+  sweep: ParameterSweep,
+  x: number[],
+  y: number[],
+  toPlotData: (samples: GridSamples[], x: number[], y: number[]) => GridPlotData,
+  options: AsyncEvaluationOptions,
+  splitAtCuts = false
+): Promise<GridPlotData[] | null> {
+  const { onProgress, signal } = options;
+  const frameCount = Math.max(2, sweep.frames);
+  // The swept parameter's own value does not affect the frames
+  const others = Object.entries(parameters).filter(([name]) => name !== parameter);
+  const cacheKey = JSON.stringify([...key, others, parameter, sweep.start, sweep.end, frameCount]);
+
+  const cached = sweepCache.get(cacheKey);
+  if (cached) {
+    cancelGridJobs(channel);
+    onProgress?.(1);
+    return cached;
+  }
+
+  const xs = Float64Array.from(x);
+  const ys = Float64Array.from(y);
+  const frames: GridPlotData[] = [];
+  for (let n = 0; n < frameCount; n++) {
+    const constants = { ...parameters, [parameter]: sweepValue(sweep, n / (frameCount - 1)) };
+    const grids: GridSamples[] = [];
+    for (const [e, expression] of expressions.entries()) {
+      const samples = await sampleGridAsync(
+        { expression, constants, xs, ys },
+        {
+          channel,
+          signal,
+          onProgress: (fraction) => onProgress?.((n + (e + fraction) / expressions.length) / frameCount),
+        }
+      );
+      if (!samples || signal?.aborted) {
+        return null;
+      }
+      grids.push(samples);
+    }
+    const frame = await withGridAnalysis(
+      channel, expressions[0], constants, x, y, grids[0], toPlotData(grids, x, y), { splitAtCuts }, signal
+    );
+    if (!frame || signal?.aborted) {
+      return null;
+    }
+    frames.push(frame);
+  }
+
+  // Oldest entries go first (Maps iterate in insertion order)
+  sweepCache.set(cacheKey, frames);
+  while (sweepCache.size > SWEEP_CACHE_SIZE) {
+    sweepCache.delete(sweepCache.keys().next().value!);
+  }
+  return frames;
+}
+
+/**
+ * Precompute domain coloring frames of a parameter sweep on the worker pool
+ * @param config - Domain coloring configuration (its parameters hold the other values)
+ * @param parameter - Name of the swept parameter
+ * @param sweep - Segment and frame count
+ * @param options - Progress callback and abort signal
+ * @returns One heatmap per frame, or null if superseded by a newer sweep
+ */
+export async function generateDomainColoringSweepAsync(
+  config: DomainColoringConfig,
+  parameter: string,
+  sweep: ParameterSweep,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData[] | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, rendering, portrait, parameters = {} } = config;
+  const colorBy = rendering === 'portrait' ? 'argument' : config.colorBy;
+
+  if (!expression || expression.trim() === '') {
+    cancelGridJobs('sweep');
+    return [];
+  }
+
+  const frames = await evaluateSweepFrames(
+    'sweep',
+    ['domainColoring', expression, xMin, xMax, yMin, yMax, resolution, colorBy, rendering, portrait],
+    [mappedExpression(expression, colorBy, xMax - xMin, parameters)],
+    parameters,
+    parameter,
+    sweep,
+    linspace(xMin, xMax, resolution),
+    linspace(yMin, yMax, resolution),
+    ([samples], x, y) => domainColoringPlotData(config, samples, x, y),
+    options
+  );
+  return frames && colorBy === 'angleDistortion' ? frames.map(withPolesOnly) : frames;
+}
+
+/**
+ * Precompute 3D surface frames of a parameter sweep on the worker pool
+ * @param config - Surface 3D configuration (its parameters hold the other values)
+ * @param parameter - Name of the swept parameter
+ * @param sweep - Segment and frame count
+ * @param options - Progress callback and abort signal
+ * @returns One surface per frame, or null if superseded by a newer sweep
+ */
+export async function generateSurface3DSweepAsync(
+  config: Surface3DConfig,
+  parameter: string,
+  sweep: ParameterSweep,
+  options: AsyncEvaluationOptions = {}
+): Promise<GridPlotData[] | null> {
+  const { expression, xMin, xMax, yMin, yMax, resolution, heightBy, colorBy, parameters = {} } = config;
+
+  if (!expression || expression.trim() === '') {
+    cancelGridJobs('sweep');
+    return [];
+  }
+
+  const heightSource = mappedExpression(expression, heightBy, xMax - xMin, parameters);
+  const colorSource = mappedExpression(expression, colorBy, xMax - xMin, parameters);
+
+  return evaluateSweepFrames(
+    'sweep',
+    ['surface3d', expression, xMin, xMax, yMin, yMax, resolution, heightBy, colorBy],
+    colorSource === heightSource ? [heightSource] : [heightSource, colorSource],
+    parameters,
+    parameter,
+    sweep,
+    linspace(xMin, xMax, resolution),
+    linspace(yMin, yMax, resolution),
+    ([samples, colorSamples], x, y) => surface3DFromSamples(samples, x, y, heightBy, colorBy, colorSamples),
+    options,
+    true
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Branch cut detection for sampled grids
+ * A branch cut shows up as a jump in f between neighbouring samples that is
+ * large compared to the change along the neighbouring edges on either side
+ * (f is continuous up to the cut from both sides). Near a pole f changes
+ * quickly but smoothly, so the ratio stays small and poles are not flagged.
+ * Flagged edges are linked cell by cell into polylines running through the
+ * midpoints of the edges the cut crosses.
+ */
+
+import type { ComplexPoint } from '../types';
+import type { GridSamples } from './workerPool';
+
+// A jump must exceed this multiple of the change along the neighbouring edges
+const JUMP_RATIO = 8;
+
+// ... and this fraction of |f| at its ends (ignores tiny jumps where f is nearly constant)
+const JUMP_FLOOR = 0.05;
+
+// Connected groups of fewer flagged edges are treated as noise
+const MIN_CUT_EDGES = 3;
+
+export interface BranchCuts {
+  /** Cuts as polylines in the z-plane */
+  polylines: ComplexPoint[][];
+  /** Row-major indices of the samples on one side of each cut edge (blanked to split surfaces) */
+  samples: number[];
+}
+
+/**
+ * Find branch cuts of f over a sampled grid
+ * @param x - Real parts of the grid columns (ascending)
+ * @param y - Imaginary parts of the grid rows (ascending)
+ * @param samples - Row-major samples of f (y.length × x.length)
+ * @returns Cut polylines and the samples to blank on one side of them
+ */
+export function findBranchCuts(x: number[], y: number[], samples: GridSamples): BranchCuts {
+  const width = x.length;
+  const height = y.length;
+  if (width < 3 || height < 3) {
+    return { polylines: [], samples: [] };
+  }
+
+  const isDefined = (k: number) => isFinite(samples.re[k]) && isFinite(samples.im[k]);
+  const difference = (a: number, b: number) =>
+    Math.hypot(samples.re[a] - samples.re[b], samples.im[a] - samples.im[b]);
+
+  /**
+   * Whether f jumps between samples a and b, where `before` precedes a and
+   * `after` follows b along the same line (-1 outside the grid)
+   */
+  const isJump = (a: number, b: number, before: number, after: number): boolean => {
+    if (!isDefined(a) || !isDefined(b)) return false;
+    const jump = difference(a, b);
+    const size = Math.max(Math.hypot(samples.re[a], samples.im[a]), Math.hypot(samples.re[b], samples.im[b]));
+    if (!(jump > JUMP_FLOOR * size)) return false;
+
+    let side = -1;
+    if (before >= 0 && isDefined(before)) side = Math.max(side, difference(before, a));
+    if (after >= 0 && isDefined(after)) side = Math.max(side, difference(b, after));
+    return side >= 0 && jump > JUMP_RATIO * side;
+  };
+
+  // Edge ids: horizontal edge (i, j)–(i+1, j) is j·width + i, vertical edge
+  // (i, j)–(i, j+1) is width·height + j·width + i
+  const vertical = width * height;
+  const flagged = new Uint8Array(2 * width * height);
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const k = j * width + i;
+      if (i < width - 1) {
+        flagged[k] = isJump(k, k + 1, i > 0 ? k - 1 : -1, i < width - 2 ? k + 2 : -1) ? 1 : 0;
+      }
+      if (j < height - 1) {
+        flagged[vertical + k] = isJump(k, k + width, j > 0 ? k - width : -1, j < height - 2 ? k + 2 * width : -1) ? 1 : 0;
+      }
+    }
+  }
+
+  // Union flagged edges that share a cell
+  const parent = new Map<number, number>();
+  const find = (e: number): number => {
+    let root = e;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(e, root);
+    return root;
+  };
+  const cellEdges = (i: number, j: number) => {
+    const k = j * width + i;
+    return [k, k + width, vertical + k, vertical + k + 1].filter((e) => flagged[e]);
+  };
+
+  flagged.forEach((f, e) => {
+    if (f) parent.set(e, e);
+  });
+  for (let j = 0; j < height - 1; j++) {
+    for (let i = 0; i < width - 1; i++) {
+      const edges = cellEdges(i, j);
+      for (let n = 1; n < edges.length; n++) {
+        parent.set(find(edges[n]), find(edges[0]));
+      }
+    }
+  }
+  const groupSize = new Map<number, number>();
+  for (const e of parent.keys()) {
+    const root = find(e);
+    groupSize.set(root, (groupSize.get(root) ?? 0) + 1);
+  }
+  const keep = (e: number) => (groupSize.get(find(e)) ?? 0) >= MIN_CUT_EDGES;
+
+  // Graph nodes: 'e<id>' at edge midpoints, 'c<cell>' at cell centres
+  const position = new Map<string, ComplexPoint>();
+  const adjacency = new Map<string, string[]>();
+  const edgeNode = (e: number): string => {
+    const key = `e${e}`;
+    if (!position.has(key)) {
+      const k = e % vertical;
+      const i = k % width;
+      const j = Math.floor(k / width);
+      position.set(key, e < vertical
+        ? { re: (x[i] + x[i + 1]) / 2, im: y[j] }
+        : { re: x[i], im: (y[j] + y[j + 1]) / 2 });
+    }
+    return key;
+  };
+  const link = (a: string, b: string) => {
+    adjacency.set(a, [...(adjacency.get(a) ?? []), b]);
+    adjacency.set(b, [...(adjacency.get(b) ?? []), a]);
+  };
+
+  for (let j = 0; j < height - 1; j++) {
+    for (let i = 0; i < width - 1; i++) {
+      const edges = cellEdges(i, j).filter(keep);
+      if (edges.length === 0) continue;
+      if (edges.length === 2) {
+        link(edgeNode(edges[0]), edgeNode(edges[1]));
+        continue;
+      }
+      // A cut ending in this cell (at a branch point), or several meeting in it
+      const center = `c${j * width + i}`;
+      position.set(center, { re: (x[i] + x[i + 1]) / 2, im: (y[j] + y[j + 1]) / 2 });
+      for (const e of edges) {
+        link(center, edgeNode(e));
+      }
+    }
+  }
+
+  // Walk the graph into polylines, starting from ends and junctions, then closed loops
+  const visited = new Set<string>();
+  const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const polylines: ComplexPoint[][] = [];
+  const walk = (start: string) => {
+    for (const next of adjacency.get(start) ?? []) {
+      if (visited.has(edgeKey(start, next))) continue;
+      const line = [position.get(start)!];
+      let previous = start;
+      let current = next;
+      visited.add(edgeKey(previous, current));
+      for (;;) {
+        line.push(position.get(current)!);
+        const neighbours = adjacency.get(current) ?? [];
+        if (neighbours.length !== 2) break;
+        const following = neighbours[0] === previous ? neighbours[1] : neighbours[0];
+        if (visited.has(edgeKey(current, following))) break;
+        visited.add(edgeKey(current, following));
+        previous = current;
+        current = following;
+      }
+      polylines.push(line);
+    }
+  };
+  for (const [node, neighbours] of adjacency) {
+    if (neighbours.length !== 2) walk(node);
+  }
+  for (const node of adjacency.keys()) {
+    walk(node);
+  }
+
+  // The far sample of each kept edge
+  const blanked: number[] = [];
+  flagged.forEach((f, e) => {
+    if (f && keep(e)) {
+      blanked.push(e < vertical ? e + 1 : e - vertical + width);
+    }
+  });
+
+  return { polylines, samples: blanked };
+}
@@ -0,0 +1,498 @@
+/**
+ * Native kernel compiler
+ * Walks a parsed math.js AST and emits a specialized JS function that works on
+ * raw real/imaginary pairs, so grid generators avoid allocating a math.js
+ * Complex and a scope object for every sample
+ */
+
+import {
+  complex,
+  i as imaginaryUnit,
+  pi,
+  e as eulerNumber,
+  isConstantNode,
+  isFunctionNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isSymbolNode,
+} from 'mathjs';
+import type { EvalFunction, MathNode } from 'mathjs';
+import type { ComplexPoint } from '../types';
+import { parseExpression } from './parser';
+import { toComplexPoint } from './evaluator';
+
+// Common math constants to include in the math.js fallback scope
+export const mathConstants = {
+  i: imaginaryUnit,
+  pi: pi,
+  e: eulerNumber,
+};
+
+/** Symbols the compiler resolves natively */
+const nativeConstants: Record<string, ComplexPoint> = {
+  i: { re: 0, im: 1 },
+  pi: { re: Math.PI, im: 0 },
+  PI: { re: Math.PI, im: 0 },
+  e: { re: Math.E, im: 0 },
+  E: { re: Math.E, im: 0 },
+  tau: { re: 2 * Math.PI, im: 0 },
+};
+
+/**
+ * A compiled expression working on raw Float64 real/imaginary pairs
+ */
+export interface ComplexKernel {
+  /**
+   * Evaluate the expression
+   * @param args - Interleaved inputs [re0, im0, re1, im1, ...] in `variables` order
+   * @param out - Receives Re(result) in out[0] and Im(result) in out[1]
+   */
+  evaluate: (args: Float64Array, out: Float64Array) => void;
+  /** Variable names, in the order they appear in `args` */
+  variables: string[];
+  /** True when every node was compiled natively (no math.js fallback) */
+  native: boolean;
+  /** Number of multivalued nodes (log, sqrt, non-integer powers) a `sheet` can select branches of */
+  branchNodes: number;
+}
+
+export interface KernelOptions {
+  /** Input variable names (default ['z']) */
+  variables?: string[];
+  /** Named values baked into the kernel (e.g. user parameters) */
+  constants?: Record<string, ComplexPoint>;
+  /**
+   * Branch of each multivalued node, in emission order (missing entries are 0,
+   * the principal branch): offset m evaluates log u as Log u + 2πi·m, so
+   * sqrt u picks up a factor e^{iπm} and u^w a factor e^{2πi·m·w}
+   */
+  sheet?: number[];
+}
+
+/**
+ * Runtime helpers shared by generated kernels.
+ * Each writes its result into the scratch array s (s[0] = re, s[1] = im).
+ */
+const helpers = {
+  div(ar: number, ai: number, br: number, bi: number, s: Float64Array) {
+    const d = br * br + bi * bi;
+    s[0] = (ar * br + ai * bi) / d;
+    s[1] = (ai * br - ar * bi) / d;
+  },
+  exp(ar: number, ai: number, s: Float64Array) {
+    const m = Math.exp(ar);
+    s[0] = m * Math.cos(ai);
+    s[1] = ai === 0 ? 0 : m * Math.sin(ai);
+  },
+  log(ar: number, ai: number, s: Float64Array) {
+    s[0] = Math.log(Math.hypot(ar, ai));
+    s[1] = Math.atan2(ai, ar);
+  },
+  sqrt(ar: number, ai: number, s: Float64Array) {
+    const m = Math.hypot(ar, ai);
+    s[0] = Math.sqrt((m + ar) / 2);
+    s[1] = (ai < 0 ? -1 : 1) * Math.sqrt((m - ar) / 2);
+  },
+  powi(ar: number, ai: number, n: number, s: Float64Array) {
+    // Exponentiation by squaring for small integer exponents
+    let rr = 1, ri = 0;
+    let br = ar, bi = ai;
+    let k = Math.abs(n);
+    while (k > 0) {
+      if (k & 1) {
+        const t = rr * br - ri * bi;
+        ri = rr * bi + ri * br;
+        rr = t;
+      }
+      const t = br * br - bi * bi;
+      bi = 2 * br * bi;
+      br = t;
+      k >>= 1;
+    }
+    if (n < 0) {
+      helpers.div(1, 0, rr, ri, s);
+    } else {
+      s[0] = rr;
+      s[1] = ri;
+    }
+  },
+  pow(ar: number, ai: number, br: number, bi: number, s: Float64Array) {
+    if (bi === 0 && Number.isInteger(br) && Math.abs(br) <= 64) {
+      helpers.powi(ar, ai, br, s);
+      return;
+    }
+    if (ai === 0 && bi === 0 && ar >= 0) {
+      s[0] = Math.pow(ar, br);
+      s[1] = 0;
+      return;
+    }
+    if (ar === 0 && ai === 0) {
+      // 0^w is 0 for Re(w) > 0 and undefined otherwise
+      s[0] = br > 0 ? 0 : NaN;
+      s[1] = s[0];
+      return;
+    }
+    // z^w = exp(w·log z) on the principal branch
+    const lr = Math.log(Math.hypot(ar, ai));
+    const li = Math.atan2(ai, ar);
+    helpers.exp(br * lr - bi * li, br * li + bi * lr, s);
+  },
+  sin(ar: number, ai: number, s: Float64Array) {
+    s[0] = Math.sin(ar) * Math.cosh(ai);
+    s[1] = Math.cos(ar) * Math.sinh(ai);
+  },
+  cos(ar: number, ai: number, s: Float64Array) {
+    s[0] = Math.cos(ar) * Math.cosh(ai);
+    s[1] = -Math.sin(ar) * Math.sinh(ai);
+  },
+  tan(ar: number, ai: number, s: Float64Array) {
+    const d = Math.cos(2 * ar) + Math.cosh(2 * ai);
+    s[0] = Math.sin(2 * ar) / d;
+    s[1] = Math.sinh(2 * ai) / d;
+  },
+  sinh(ar: number, ai: number, s: Float64Array) {
+    s[0] = Math.sinh(ar) * Math.cos(ai);
+    s[1] = Math.cosh(ar) * Math.sin(ai);
+  },
+  cosh(ar: number, ai: number, s: Float64Array) {
+    s[0] = Math.cosh(ar) * Math.cos(ai);
+    s[1] = Math.sinh(ar) * Math.sin(ai);
+  },
+  tanh(ar: number, ai: number, s: Float64Array) {
+    const d = Math.cosh(2 * ar) + Math.cos(2 * ai);
+    s[0] = Math.sinh(2 * ar) / d;
+    s[1] = Math.sin(2 * ai) / d;
+  },
+};
+
+type HelperName = keyof typeof helpers;
+
+/** Unary functions implemented by a helper call */
+const unaryHelpers: Record<string, HelperName> = {
+  exp: 'exp',
+  log: 'log',
+  sqrt: 'sqrt',
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  sinh: 'sinh',
+  cosh: 'cosh',
+  tanh: 'tanh',
+};
+
+/** Reciprocal trig functions: 1 / g(z) */
+const reciprocalHelpers: Record<string, HelperName> = {
+  sec: 'cos',
+  csc: 'sin',
+  cot: 'tan',
+};
+
+/**
+ * Whether a node is a literal integer such as 3 or -2 (powers with these are single-valued)
+ */
+function isIntegerConstant(node: MathNode): boolean {
+  if (isParenthesisNode(node)) {
+    return isIntegerConstant(node.content);
+  }
+  if (isOperatorNode(node) && (node.fn === 'unaryMinus' || node.fn === 'unaryPlus')) {
+    return isIntegerConstant(node.args[0]);
+  }
+  return isConstantNode(node) && Number.isInteger(node.value);
+}
+
+/** A compiled value: the names of the locals holding its re/im parts */
+interface Value {
+  re: string;
+  im: string;
+}
+
+/**
+ * Emit the body of a kernel for a parsed expression
+ * @returns Generated source lines, the value holding the result, and the
+ *          math.js fallbacks the source refers to by index
+ */
+function emitKernelSource(
+  root: MathNode,
+  variables: string[],
+  constants: Record<string, ComplexPoint>,
+  sheet: number[]
+): { lines: string[]; result: Value; fallbacks: EvalFunction[]; branchNodes: number } {
+  const lines: string[] = [];
+  const fallbacks: EvalFunction[] = [];
+  let counter = 0;
+  let branchNodes = 0;
+
+  const assign = (re: string, im: string): Value => {
+    const n = counter++;
+    lines.push(`const r${n} = ${re}, i${n} = ${im};`);
+    return { re: `r${n}`, im: `i${n}` };
+  };
+
+  const literal = (c: ComplexPoint): Value => assign(`(${c.re})`, `(${c.im})`);
+
+  // Call a helper that writes into the scratch array, then copy the result out
+  const call = (name: HelperName, args: string[]): Value => {
+    lines.push(`h.${name}(${args.join(', ')}, s);`);
+    return assign('s[0]', 's[1]');
+  };
+
+  // Delegate a subtree to math.js
+  const fallback = (node: MathNode): Value => {
+    const index = fallbacks.length;
+    fallbacks.push(node.compile());
+    lines.push(`fb(${index}, a, s);`);
+    return assign('s[0]', 's[1]');
+  };
+
+  const add = (a: Value, b: Value): Value => assign(`${a.re} + ${b.re}`, `${a.im} + ${b.im}`);
+
+  const multiply = (a: Value, b: Value): Value =>
+    assign(`${a.re} * ${b.re} - ${a.im} * ${b.im}`, `${a.re} * ${b.im} + ${a.im} * ${b.re}`);
+
+  // Branch offset of the next multivalued node
+  const nextBranch = (): number => sheet[branchNodes++] ?? 0;
+
+  // log on the selected branch: Log u + 2πi·m
+  const branchLog = (a: Value): Value => {
+    const m = nextBranch();
+    const l = call('log', [a.re, a.im]);
+    return m === 0 ? l : assign(l.re, `${l.im} + ${2 * Math.PI * m}`);
+  };
+
+  // u^w on the selected branch: principal value times e^{2πi·m·w}
+  const branchPow = (a: Value, b: Value, exponent: MathNode): Value => {
+    const p = call('pow', [a.re, a.im, b.re, b.im]);
+    if (isIntegerConstant(exponent)) {
+      return p;
+    }
+    const m = nextBranch();
+    if (m === 0) {
+      return p;
+    }
+    const factor = call('exp', [`${-2 * Math.PI * m} * ${b.im}`, `${2 * Math.PI * m} * ${b.re}`]);
+    return multiply(p, factor);
+  };
+
+  const emitOperator = (fn: string, args: MathNode[], node: MathNode): Value => {
+    switch (fn) {
+      case 'add':
+        return args.map(emit).reduce(add);
+      case 'multiply':
+        return args.map(emit).reduce(multiply);
+      case 'subtract': {
+        const [a, b] = args.map(emit);
+        return assign(`${a.re} - ${b.re}`, `${a.im} - ${b.im}`);
+      }
+      case 'divide': {
+        const [a, b] = args.map(emit);
+        return call('div', [a.re, a.im, b.re, b.im]);
+      }
+      case 'pow': {
+        const [a, b] = args.map(emit);
+        return branchPow(a, b, args[1]);
+      }
+      case 'unaryMinus': {
+        const a = emit(args[0]);
+        return assign(`-${a.re}`, `-${a.im}`);
+      }
+      case 'unaryPlus':
+        return emit(args[0]);
+      default:
+        return fallback(node);
+    }
+  };
+
+  const emitFunction = (name: string, args: MathNode[], node: MathNode): Value => {
+    if (args.length === 2 && name === 'pow') {
+      const [a, b] = args.map(emit);
+      return branchPow(a, b, args[1]);
+    }
+    if (args.length === 2 && name === 'log') {
+      // log(x, base) = log(x) / log(base)
+      const [x, base] = args.map(emit);
+      const lx = branchLog(x);
+      const lb = branchLog(base);
+      return call('div', [lx.re, lx.im, lb.re, lb.im]);
+    }
+    if (args.length !== 1) {
+      return fallback(node);
+    }
+
+    if (name === 'log') {
+      return branchLog(emit(args[0]));
+    }
+    if (name === 'sqrt') {
+      // Odd offsets select the other square root
+      const a = emit(args[0]);
+      const m = nextBranch();
+      const r = call('sqrt', [a.re, a.im]);
+      return m % 2 === 0 ? r : assign(`-${r.re}`, `-${r.im}`);
+    }
+
+    if (name in unaryHelpers) {
+      const a = emit(args[0]);
+      return call(unaryHelpers[name], [a.re, a.im]);
+    }
+    if (name in reciprocalHelpers) {
+      const a = emit(args[0]);
+      const g = call(reciprocalHelpers[name], [a.re, a.im]);
+      return call('div', ['1', '0', g.re, g.im]);
+    }
+
+    switch (name) {
+      case 're': {
+        const a = emit(args[0]);
+        return assign(a.re, '0');
+      }
+      case 'im': {
+        const a = emit(args[0]);
+        return assign(a.im, '0');
+      }
+      case 'conj': {
+        const a = emit(args[0]);
+        return assign(a.re, `-${a.im}`);
+      }
+      case 'abs': {
+        const a = emit(args[0]);
+        return assign(`Math.hypot(${a.re}, ${a.im})`, '0');
+      }
+      case 'arg': {
+        const a = emit(args[0]);
+        return assign(`Math.atan2(${a.im}, ${a.re})`, '0');
+      }
+      case 'square': {
+        const a = emit(args[0]);
+        return multiply(a, a);
+      }
+      case 'cube': {
+        const a = emit(args[0]);
+        return multiply(multiply(a, a), a);
+      }
+      default:
+        return fallback(node);
+    }
+  };
+
+  function emit(node: MathNode): Value {
+    if (isParenthesisNode(node)) {
+      return emit(node.content);
+    }
+
+    if (isConstantNode(node)) {
+      return typeof node.value === 'number' ? literal({ re: node.value, im: 0 }) : fallback(node);
+    }
+
+    if (isSymbolNode(node)) {
+      const index = variables.indexOf(node.name);
+      if (index >= 0) {
+        return assign(`a[${2 * index}]`, `a[${2 * index + 1}]`);
+      }
+      const constant = constants[node.name] ?? nativeConstants[node.name];
+      return constant ? literal(constant) : fallback(node);
+    }
+
+    if (isOperatorNode(node)) {
+      return emitOperator(node.fn, node.args, node);
+    }
+
+    if (isFunctionNode(node) && isSymbolNode(node.fn)) {
+      return emitFunction(node.fn.name, node.args, node);
+    }
+
+    return fallback(node);
+  }
+
+  const result = emit(root);
+  return { lines, result, fallbacks, branchNodes };
+}
+
+/**
+ * Compile a parsed expression into a native complex kernel
+ * @param node - The parsed math.js AST
+ * @param options - Variables and baked-in constants
+ * @returns The compiled kernel
+ */
+export function compileKernel(node: MathNode, options: KernelOptions = {}): ComplexKernel {
+  const variables = options.variables ?? ['z'];
+  const constants = options.constants ?? {};
+  const { lines, result, fallbacks, branchNodes } = emitKernelSource(node, variables, constants, options.sheet ?? []);
+  const scratch = new Float64Array(2);
+
+  // math.js fallback for subtrees the emitter does not handle natively
+  const fallback = (index: number, args: Float64Array, s: Float64Array) => {
+    const scope: Record<string, unknown> = { ...mathConstants };
+    for (const [name, value] of Object.entries(constants)) {
+      scope[name] = value.im === 0 ? value.re : complex(value.re, value.im);
+    }
+    variables.forEach((name, k) => {
+      const re = args[2 * k];
+      const im = args[2 * k + 1];
+      scope[name] = im === 0 ? re : complex(re, im);
+    });
+    try {
+      const point = toComplexPoint(fallbacks[index].evaluate(scope));
+      s[0] = point.re;
+      s[1] = point.im;
+    } catch {
+      s[0] = NaN;
+      s[1] = NaN;
+    }
+  };
+
+  const body = [
+    'return function kernel(a, o) {',
+    '  const s = scratch;',
+    ...lines.map((line) => `  ${line}`),
+    `  o[0] = ${result.re};`,
+    `  o[1] = ${result.im};`,
+    '};',
+  ].join('\n');
+
+  const evaluate = new Function('h', 'fb', 'scratch', body)(helpers, fallback, scratch) as (
+    args: Float64Array,
+    out: Float64Array
+  ) => void;
+
+  return {
+    evaluate,
+    variables,
+    native: fallbacks.length === 0,
+    branchNodes,
+  };
+}
+
+/**
+ * Parse and compile an expression string into a native complex kernel
+ * @param expr - The expression string
+ * @param options - Variables and baked-in constants
+ * @returns The compiled kernel, or null if parsing fails
+ */
+export function compileExpression(expr: string, options: KernelOptions = {}): ComplexKernel | null {
+  const variables = options.variables ?? ['z'];
+  const node = parseExpression(expr, variables[0]);
+  if (!node) {
+    return null;
+  }
+
+  try {
+    return compileKernel(node, options);
+  } catch (error) {
+    console.warn(`Failed to compile expression "${expr}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Evaluate a single-variable kernel at one complex point
+ * @param kernel - The compiled kernel
+ * @param point - The input value
+ * @returns The resulting complex point (NaN parts if undefined there)
+ */
+export function evaluateKernelAt(kernel: ComplexKernel, point: ComplexPoint): ComplexPoint {
+  const args = new Float64Array(2 * kernel.variables.length);
+  const out = new Float64Array(2);
+  args[0] = point.re;
+  args[1] = point.im;
+  kernel.evaluate(args, out);
+  return { re: out[0], im: out[1] };
+}
@@ -0,0 +1,193 @@
+/**
+ * Conformal grid mapping
+ * Builds the lines of a Cartesian (Re z, Im z = const) or polar (|z|, arg z =
+ * const) grid and pushes each through f, the way a contour is pushed through
+ * its transform, so the pre-image grid and its deformed image can be drawn
+ * side by side with matching colors.
+ */
+
+import type {
+  ComplexPoint,
+  ConformalGridConfig,
+  ConformalGridData,
+  GridFamily,
+  GridLineData,
+  PlotRange,
+} from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import { formatAngle, formatPoint } from './contourPath';
+import { linspace } from './generators';
+import { sampleCurveAdaptive, sampleCurveUniform } from './sampling';
+
+// Samples of each pre-image line (straight lines only need the ends, circles more)
+const LINE_STEPS = 2;
+const CIRCLE_STEPS = 129;
+
+// Turning angle tolerance of the adaptively sampled images
+const IMAGE_TOLERANCE = 0.05;
+
+// Share of image points (per axis, cut evenly from both ends) the image pane is fitted to,
+// so points thrown far out near poles do not shrink the rest to a dot
+const IMAGE_QUANTILE = 0.96;
+
+// Padding around the fitted image, relative to its size
+const IMAGE_PADDING = 0.08;
+
+// Hue ranges of the two families (the first is the lines of constant Re z or |z|)
+const FAMILY_HUES: [[number, number], [number, number]] = [[175, 265], [320, 400]];
+
+interface LineSpec {
+  family: GridFamily;
+  value: number;
+  label: string;
+  gamma: (t: number) => ComplexPoint;
+  tMin: number;
+  tMax: number;
+  curved: boolean;
+}
+
+/**
+ * The lines of the pre-image grid, first family first
+ */
+function gridLines(config: ConformalGridConfig): LineSpec[] {
+  const { kind, lineCount } = config;
+  const lines: LineSpec[] = [];
+
+  if (kind === 'cartesian') {
+    const { xMin, xMax, yMin, yMax } = config;
+    for (const x of linspace(xMin, xMax, lineCount)) {
+      lines.push({
+        family: 'real',
+        value: x,
+        label: `Re z = ${formatPoint({ re: x, im: 0 })}`,
+        gamma: (t) => ({ re: x, im: t }),
+        tMin: yMin,
+        tMax: yMax,
+        curved: false,
+      });
+    }
+    for (const y of linspace(yMin, yMax, lineCount)) {
+      lines.push({
+        family: 'imaginary',
+        value: y,
+        label: `Im z = ${formatPoint({ re: y, im: 0 })}`,
+        gamma: (t) => ({ re: t, im: y }),
+        tMin: xMin,
+        tMax: xMax,
+        curved: false,
+      });
+    }
+    return lines;
+  }
+
+  const { rMin, rMax } = config;
+  // A circle of radius 0 is a point, so the radii skip it
+  const radii = linspace(rMin, rMax, lineCount + (rMin === 0 ? 1 : 0)).filter((r) => r > 0);
+  for (const r of radii) {
+    lines.push({
+      family: 'modulus',
+      value: r,
+      label: `|z| = ${formatPoint({ re: r, im: 0 })}`,
+      gamma: (t) => ({ re: r * Math.cos(t), im: r * Math.sin(t) }),
+      tMin: 0,
+      tMax: 2 * Math.PI,
+      curved: true,
+    });
+  }
+  for (let k = 0; k < lineCount; k++) {
+    const theta = (2 * Math.PI * k) / lineCount;
+    lines.push({
+      family: 'argument',
+      value: theta,
+      label: `arg z = ${formatAngle(theta)}`,
+      gamma: (t) => ({ re: t * Math.cos(theta), im: t * Math.sin(theta) }),
+      tMin: rMin,
+      tMax: rMax,
+      curved: false,
+    });
+  }
+  return lines;
+}
+
+/**
+ * Value at a quantile of a sorted array
+ */
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+}
+
+/**
+ * Axis ranges fitted to the bulk of a point cloud, padded
+ */
+function fitRange(points: ComplexPoint[]): PlotRange {
+  if (points.length === 0) {
+    return { x: [-1, 1], y: [-1, 1] };
+  }
+  const cut = (1 - IMAGE_QUANTILE) / 2;
+  const fit = (values: number[]): [number, number] => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const lo = quantile(sorted, cut);
+    const hi = quantile(sorted, 1 - cut);
+    const pad = hi > lo ? (hi - lo) * IMAGE_PADDING : 1;
+    return [lo - pad, hi + pad];
+  };
+  return { x: fit(points.map((p) => p.re)), y: fit(points.map((p) => p.im)) };
+}
+
+function familyColor(familyIndex: 0 | 1, position: number): string {
+  const [from, to] = FAMILY_HUES[familyIndex];
+  return `hsl(${Math.round(from + (to - from) * position) % 360}, 80%, 62%)`;
+}
+
+/**
+ * Map a grid through f
+ * @param config - f, grid kind, window (or radii), lines per family and samples per line
+ * @returns Each line and its image with a shared id and color, and the ranges of both panes
+ *   (empty if f does not compile)
+ */
+export function generateConformalGrid(config: ConformalGridConfig): ConformalGridData {
+  const { expression, tSteps, parameters = {} } = config;
+  const isPolar = config.kind === 'polar';
+  const preimageRange: PlotRange = isPolar
+    ? { x: [-config.rMax, config.rMax], y: [-config.rMax, config.rMax] }
+    : { x: [config.xMin, config.xMax], y: [config.yMin, config.yMax] };
+
+  const f = expression.trim() !== '' ? compileExpression(expression, { constants: parameters }) : null;
+  if (!f) {
+    return { lines: [], preimageRange, imageRange: preimageRange };
+  }
+
+  const specs = gridLines(config);
+  const firstFamily = specs[0]?.family;
+  const familySizes = [
+    specs.filter((spec) => spec.family === firstFamily).length,
+    specs.filter((spec) => spec.family !== firstFamily).length,
+  ];
+
+  const lines: GridLineData[] = specs.map((spec, k) => {
+    const familyIndex = spec.family === firstFamily ? 0 : 1;
+    const indexInFamily = familyIndex === 0 ? k : k - familySizes[0];
+    const preimage = sampleCurveUniform(spec.gamma, spec.tMin, spec.tMax, spec.curved ? CIRCLE_STEPS : LINE_STEPS);
+    const image = sampleCurveAdaptive((t) => evaluateKernelAt(f, spec.gamma(t)), spec.tMin, spec.tMax, {
+      initialSteps: Math.min(CIRCLE_STEPS, tSteps),
+      tolerance: IMAGE_TOLERANCE,
+      maxPoints: tSteps,
+    });
+
+    return {
+      id: `${spec.family}-${indexInFamily}`,
+      family: spec.family,
+      value: spec.value,
+      label: spec.label,
+      color: familyColor(familyIndex, indexInFamily / Math.max(familySizes[familyIndex] - 1, 1)),
+      preimage: { points: preimage.points, breaks: preimage.breaks },
+      image: { points: image.points, breaks: image.breaks },
+    };
+  });
+
+  return {
+    lines,
+    preimageRange,
+    imageRange: fitRange(lines.flatMap((line) => line.image.points)),
+  };
+}
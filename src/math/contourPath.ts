@@ -0,0 +1,402 @@
+/**
+ * Contour paths
+ * A contour is either a single γ(t) over [tMin, tMax] or a composite of line
+ * segments, circular arcs and custom γ(t) pieces joined in order. Both become
+ * one oriented path over a single t range: composite pieces are laid end to
+ * end along t, segments and arcs by arc length and custom pieces by their own
+ * t span, so tracers move at a steady pace across the joins.
+ */
+
+import type { ComplexPoint, ContourEntry, ContourPiece, ParameterValues } from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import { differentiateContour } from './derivative';
+import type { ContourDerivative } from './derivative';
+
+// Joins further apart than this fraction of the path's extent (at least 1) are gaps
+const JOIN_TOLERANCE = 1e-6;
+
+// Keyhole preset: outer and inner radii, and half-width of the slit along the positive real axis
+const KEYHOLE_OUTER = 2;
+const KEYHOLE_INNER = 0.25;
+const KEYHOLE_SLIT = 0.05;
+
+/** One piece of a path, placed on the path's t axis */
+export interface PathPiece {
+  /** Index of the piece in ContourEntry.pieces (0 for a plain γ(t)) */
+  source: number;
+  label: string;
+  tStart: number;
+  tEnd: number;
+  /** γ at a t of the whole path (within [tStart, tEnd]) */
+  evaluate: (t: number) => ComplexPoint;
+  /** γ'(t) with respect to the path's t (built on demand: custom pieces differentiate symbolically) */
+  differentiate: () => ContourDerivative;
+}
+
+/** A contour as a single oriented path */
+export interface ContourPath {
+  tMin: number;
+  tMax: number;
+  /** Pieces in order (a single piece for a plain γ(t)) */
+  pieces: PathPiece[];
+  /** Whether the contour was built from pieces */
+  composite: boolean;
+  /** Display expression (γ(t), or the pieces joined with +) */
+  label: string;
+  /** Joins where consecutive pieces do not meet */
+  gaps: JoinGap[];
+  /** Whether the path ends where it starts */
+  closed: boolean;
+  /** γ anywhere on the path (each join belongs to the earlier piece) */
+  evaluate: (t: number) => ComplexPoint;
+}
+
+/** A discontinuity between consecutive pieces of a composite contour */
+export interface JoinGap {
+  /** Index in ContourEntry.pieces of the piece before the join */
+  after: number;
+  distance: number;
+}
+
+export type ContourPreset = 'rectangle' | 'semicircle' | 'keyhole';
+
+let pieceIdCounter = 0;
+
+function nextPieceId(): string {
+  return `piece-${++pieceIdCounter}`;
+}
+
+function polar(center: ComplexPoint, radius: number, angle: number): ComplexPoint {
+  return { re: center.re + radius * Math.cos(angle), im: center.im + radius * Math.sin(angle) };
+}
+
+/**
+ * Format a number to at most 3 decimals (without "-0")
+ */
+function formatNumber(value: number): string {
+  const rounded = Number(value.toFixed(3));
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+/**
+ * Format a complex constant compactly: 1, 2i, 1 - 2i
+ */
+export function formatPoint(p: ComplexPoint): string {
+  const re = formatNumber(p.re);
+  const im = formatNumber(Math.abs(p.im));
+  if (im === '0') return re;
+  const imPart = `${im === '1' ? '' : im}i`;
+  if (re === '0') return p.im < 0 ? `-${imPart}` : imPart;
+  return `${re} ${p.im < 0 ? '-' : '+'} ${imPart}`;
+}
+
+/**
+ * Format an angle as a multiple of π where it is a multiple of π/12
+ */
+export function formatAngle(angle: number): string {
+  const twelfths = Math.round((angle / Math.PI) * 12);
+  if (Math.abs(twelfths - (angle / Math.PI) * 12) > 1e-9) {
+    return formatNumber(angle);
+  }
+  if (twelfths === 0) return '0';
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const d = gcd(Math.abs(twelfths), 12);
+  const numerator = twelfths / d;
+  const denominator = 12 / d;
+  const coefficient = numerator === 1 ? '' : numerator === -1 ? '-' : String(numerator);
+  return denominator === 1 ? `${coefficient}π` : `${coefficient}π/${denominator}`;
+}
+
+/**
+ * Whether a contour is built from pieces (even before it has any)
+ */
+export function isComposite(contour: ContourEntry): boolean {
+  return contour.pieces !== undefined;
+}
+
+/**
+ * Length of a piece along the path's t axis
+ */
+export function pieceSpan(piece: ContourPiece): number {
+  switch (piece.kind) {
+    case 'segment':
+      return Math.hypot(piece.to.re - piece.from.re, piece.to.im - piece.from.im);
+    case 'arc':
+      return Math.abs(piece.radius * (piece.endAngle - piece.startAngle));
+    case 'custom':
+      return Math.max(0, piece.tMax - piece.tMin);
+  }
+}
+
+/**
+ * Short description of a piece, e.g. "segment -1 → 1" or "arc |z| = 2, 0 → π"
+ */
+export function pieceLabel(piece: ContourPiece): string {
+  switch (piece.kind) {
+    case 'segment':
+      return `segment ${formatPoint(piece.from)} → ${formatPoint(piece.to)}`;
+    case 'arc': {
+      const center = piece.center.re === 0 && piece.center.im === 0 ? 'z' : `z - (${formatPoint(piece.center)})`;
+      return `arc |${center}| = ${formatNumber(piece.radius)}, ${formatAngle(piece.startAngle)} → ${formatAngle(piece.endAngle)}`;
+    }
+    case 'custom':
+      return piece.expression;
+  }
+}
+
+/**
+ * The t range of a contour: its own [tMin, tMax], or the pieces laid end to end from 0
+ */
+export function contourRange(contour: ContourEntry): { tMin: number; tMax: number } {
+  if (!isComposite(contour)) {
+    return { tMin: contour.tMin, tMax: contour.tMax };
+  }
+  return { tMin: 0, tMax: contour.pieces!.reduce((sum, piece) => sum + pieceSpan(piece), 0) };
+}
+
+/**
+ * Display expression of a contour
+ */
+export function describeContour(contour: ContourEntry): string {
+  return isComposite(contour) ? contour.pieces!.map(pieceLabel).join(' + ') : contour.expression;
+}
+
+/**
+ * Place one piece on the path's t axis from tStart
+ * @returns The placed piece, or null if a custom piece does not compile
+ */
+function placePiece(
+  piece: ContourPiece,
+  source: number,
+  tStart: number,
+  parameters: ParameterValues
+): PathPiece | null {
+  const span = pieceSpan(piece);
+  const tEnd = tStart + span;
+  const label = pieceLabel(piece);
+
+  switch (piece.kind) {
+    case 'segment': {
+      const { from, to } = piece;
+      // Unit speed: γ'(t) is the unit vector from `from` to `to`
+      const velocity = { re: (to.re - from.re) / span, im: (to.im - from.im) / span };
+      return {
+        source,
+        label,
+        tStart,
+        tEnd,
+        evaluate: (t) => ({
+          re: from.re + velocity.re * (t - tStart),
+          im: from.im + velocity.im * (t - tStart),
+        }),
+        differentiate: () => ({ method: 'symbolic', evaluate: () => velocity }),
+      };
+    }
+
+    case 'arc': {
+      const { center, radius, startAngle, endAngle } = piece;
+      const direction = endAngle >= startAngle ? 1 : -1;
+      const angleAt = (t: number) => startAngle + (direction * (t - tStart)) / radius;
+      return {
+        source,
+        label,
+        tStart,
+        tEnd,
+        evaluate: (t) => polar(center, radius, angleAt(t)),
+        // Unit speed along the circle: γ'(t) = ±i·e^{iθ}
+        differentiate: () => ({
+          method: 'symbolic',
+          evaluate: (t) => {
+            const theta = angleAt(t);
+            return { re: -direction * Math.sin(theta), im: direction * Math.cos(theta) };
+          },
+        }),
+      };
+    }
+
+    case 'custom': {
+      const kernel = compileExpression(piece.expression, { variables: ['t'], constants: parameters });
+      if (!kernel) {
+        return null;
+      }
+      // The piece's own t runs from its tMin as the path's t runs from tStart
+      const localEvaluate = (u: number) => evaluateKernelAt(kernel, { re: u, im: 0 });
+      const toLocal = (t: number) => piece.tMin + (t - tStart);
+      return {
+        source,
+        label,
+        tStart,
+        tEnd,
+        evaluate: (t) => localEvaluate(toLocal(t)),
+        differentiate: () => {
+          const local = differentiateContour(piece.expression, localEvaluate, piece.tMin, piece.tMax, parameters);
+          return { ...local, evaluate: (t) => local.evaluate(toLocal(t)) };
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Distance between two points, or null if they meet (an undefined point never does)
+ */
+function apart(a: ComplexPoint, b: ComplexPoint, tolerance: number): number | null {
+  const distance = Math.hypot(a.re - b.re, a.im - b.im);
+  return distance <= tolerance ? null : distance;
+}
+
+/**
+ * Joins where consecutive pieces do not meet, and whether the last meets the first
+ */
+function checkJoins(pieces: PathPiece[]): { gaps: JoinGap[]; closed: boolean } {
+  const ends = pieces.map((piece) => ({ start: piece.evaluate(piece.tStart), end: piece.evaluate(piece.tEnd) }));
+  const extent = ends.reduce(
+    (max, { start, end }) => Math.max(max, Math.hypot(start.re, start.im), Math.hypot(end.re, end.im)),
+    1
+  );
+  const tolerance = JOIN_TOLERANCE * extent;
+  const gaps: JoinGap[] = [];
+  for (let k = 0; k + 1 < ends.length; k++) {
+    const distance = apart(ends[k].end, ends[k + 1].start, tolerance);
+    if (distance !== null) {
+      gaps.push({ after: pieces[k].source, distance });
+    }
+  }
+  return { gaps, closed: apart(ends[ends.length - 1].end, ends[0].start, tolerance) === null };
+}
+
+/**
+ * Build the oriented path of a contour
+ * @param contour - Plain γ(t) or composite contour entry
+ * @param parameters - Named parameter values in scope in γ
+ * @returns The path, or null if γ (or a custom piece) does not compile or the path is empty
+ */
+export function buildContourPath(contour: ContourEntry, parameters: ParameterValues = {}): ContourPath | null {
+  let pieces: PathPiece[];
+
+  if (isComposite(contour)) {
+    pieces = [];
+    let t = 0;
+    for (const [source, piece] of contour.pieces!.entries()) {
+      // Zero-length pieces add nothing to the path
+      if (!(pieceSpan(piece) > 0)) continue;
+      const placed = placePiece(piece, source, t, parameters);
+      if (!placed) {
+        return null;
+      }
+      pieces.push(placed);
+      t = placed.tEnd;
+    }
+  } else {
+    const { expression, tMin, tMax } = contour;
+    if (!expression || expression.trim() === '') {
+      return null;
+    }
+    const kernel = compileExpression(expression, { variables: ['t'], constants: parameters });
+    if (!kernel) {
+      return null;
+    }
+    const evaluate = (t: number): ComplexPoint => evaluateKernelAt(kernel, { re: t, im: 0 });
+    pieces = [{
+      source: 0,
+      label: expression,
+      tStart: tMin,
+      tEnd: tMax,
+      evaluate,
+      differentiate: () => differentiateContour(expression, evaluate, tMin, tMax, parameters),
+    }];
+  }
+
+  if (pieces.length === 0) {
+    return null;
+  }
+
+  const { gaps, closed } = checkJoins(pieces);
+
+  return {
+    tMin: pieces[0].tStart,
+    tMax: pieces[pieces.length - 1].tEnd,
+    pieces,
+    composite: isComposite(contour),
+    label: describeContour(contour),
+    gaps,
+    closed,
+    evaluate: (t) => (pieces.find((piece) => t <= piece.tEnd) ?? pieces[pieces.length - 1]).evaluate(t),
+  };
+}
+
+/**
+ * A new piece starting at `start` (the end of the previous piece, if any)
+ * @param kind - Segment, arc or custom γ(t)
+ * @param start - Where the piece should begin
+ */
+export function createContourPiece(kind: ContourPiece['kind'], start: ComplexPoint = { re: 0, im: 0 }): ContourPiece {
+  switch (kind) {
+    case 'segment':
+      return { id: nextPieceId(), kind, from: start, to: { re: start.re + 1, im: start.im } };
+    case 'arc':
+      // Unit circle arc whose angle 0 sits at `start`
+      return {
+        id: nextPieceId(),
+        kind,
+        center: { re: start.re - 1, im: start.im },
+        radius: 1,
+        startAngle: 0,
+        endAngle: Math.PI / 2,
+      };
+    case 'custom':
+      return { id: nextPieceId(), kind, expression: `${formatPoint(start)} + t`, tMin: 0, tMax: 1 };
+  }
+}
+
+/**
+ * Where a piece ends (null for a custom piece, whose end depends on its expression)
+ */
+export function pieceEnd(piece: ContourPiece): ComplexPoint | null {
+  switch (piece.kind) {
+    case 'segment':
+      return piece.to;
+    case 'arc':
+      return polar(piece.center, piece.radius, piece.endAngle);
+    case 'custom':
+      return null;
+  }
+}
+
+/**
+ * Pieces of a textbook contour, positively oriented
+ * @param preset - Rectangle [-2, 2] × [-1, 1], upper semicircle of radius 2 with its diameter,
+ *                 or a keyhole around the positive real axis (radii 2 and 1/4)
+ */
+export function contourPreset(preset: ContourPreset): ContourPiece[] {
+  const segment = (from: ComplexPoint, to: ComplexPoint): ContourPiece => ({ id: nextPieceId(), kind: 'segment', from, to });
+  const arc = (radius: number, startAngle: number, endAngle: number): ContourPiece => ({
+    id: nextPieceId(),
+    kind: 'arc',
+    center: { re: 0, im: 0 },
+    radius,
+    startAngle,
+    endAngle,
+  });
+  const origin = { re: 0, im: 0 };
+
+  switch (preset) {
+    case 'rectangle': {
+      const corners = [{ re: -2, im: -1 }, { re: 2, im: -1 }, { re: 2, im: 1 }, { re: -2, im: 1 }];
+      return corners.map((corner, k) => segment(corner, corners[(k + 1) % corners.length]));
+    }
+    case 'semicircle':
+      return [segment({ re: -2, im: 0 }, { re: 2, im: 0 }), arc(2, 0, Math.PI)];
+    case 'keyhole': {
+      // Angles at which the slit's edges (Im z = ±KEYHOLE_SLIT) meet each circle
+      const outer = Math.asin(KEYHOLE_SLIT / KEYHOLE_OUTER);
+      const inner = Math.asin(KEYHOLE_SLIT / KEYHOLE_INNER);
+      return [
+        arc(KEYHOLE_OUTER, outer, 2 * Math.PI - outer),
+        segment(polar(origin, KEYHOLE_OUTER, -outer), polar(origin, KEYHOLE_INNER, -inner)),
+        arc(KEYHOLE_INNER, 2 * Math.PI - inner, inner),
+        segment(polar(origin, KEYHOLE_INNER, inner), polar(origin, KEYHOLE_OUTER, outer)),
+      ];
+    }
+  }
+}
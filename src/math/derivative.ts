@@ -0,0 +1,119 @@
+/**
+ * Derivatives of contour parametrizations γ(t)
+ * γ'(t) is differentiated symbolically with math.js when possible; otherwise
+ * a fourth-order finite difference is used, one-sided at the ends of the range
+ */
+
+import { derivative } from 'mathjs';
+import type { ComplexPoint, DerivativeMethod } from '../types';
+import { parseExpression } from './parser';
+import { compileKernel, evaluateKernelAt } from './compiler';
+
+/** γ'(t) for a contour, with the method used to obtain it */
+export interface ContourDerivative {
+  method: DerivativeMethod;
+  /** The symbolic derivative, when available */
+  expression?: string;
+  evaluate: (t: number) => ComplexPoint;
+}
+
+// Step relative to |t| (≈ ε^(1/5), balancing truncation and rounding error of the stencils)
+const STENCIL_STEP = 1e-3;
+
+// Five-point stencils (numerators over 12h): central, and forward (backward = forward with -h)
+const CENTRAL_OFFSETS = [-2, -1, 1, 2];
+const CENTRAL_WEIGHTS = [1, -8, 8, -1];
+const FORWARD_OFFSETS = [0, 1, 2, 3, 4];
+const FORWARD_WEIGHTS = [-25, 48, -36, 16, -3];
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+function applyStencil(
+  gamma: (t: number) => ComplexPoint,
+  t: number,
+  h: number,
+  offsets: number[],
+  weights: number[]
+): ComplexPoint {
+  let re = 0;
+  let im = 0;
+  offsets.forEach((offset, k) => {
+    const value = gamma(t + offset * h);
+    re += weights[k] * value.re;
+    im += weights[k] * value.im;
+  });
+  return { re: re / (12 * h), im: im / (12 * h) };
+}
+
+/**
+ * Fourth-order finite difference of γ at t. Uses the central stencil in the
+ * interior and one-sided stencils near the ends of [tMin, tMax] (or where
+ * the central one hits an undefined value).
+ * @param gamma - γ(t), returning NaN parts where undefined
+ * @param t - Parameter value
+ * @param tMin - Start of parameter range
+ * @param tMax - End of parameter range
+ * @returns γ'(t) (NaN parts if no stencil succeeds)
+ */
+export function numericDerivative(
+  gamma: (t: number) => ComplexPoint,
+  t: number,
+  tMin: number,
+  tMax: number
+): ComplexPoint {
+  const h = STENCIL_STEP * Math.max(1, Math.abs(t));
+  const candidates: ComplexPoint[] = [];
+
+  if (t - 2 * h >= tMin && t + 2 * h <= tMax) {
+    candidates.push(applyStencil(gamma, t, h, CENTRAL_OFFSETS, CENTRAL_WEIGHTS));
+  }
+  // Prefer the side that stays inside the range
+  const forwardFirst = tMax - t >= t - tMin;
+  for (const direction of forwardFirst ? [1, -1] : [-1, 1]) {
+    candidates.push(applyStencil(gamma, t, direction * h, FORWARD_OFFSETS, FORWARD_WEIGHTS));
+  }
+
+  return candidates.find(isFinitePoint) ?? { re: NaN, im: NaN };
+}
+
+/**
+ * Build γ'(t) for a contour expression: symbolic when math.js can
+ * differentiate it, numeric otherwise. Where the symbolic derivative is
+ * undefined at a point (e.g. abs(t) at 0) the numeric one is used there.
+ * @param expression - The γ(t) expression
+ * @param gamma - Evaluates γ(t)
+ * @param tMin - Start of parameter range
+ * @param tMax - End of parameter range
+ * @param constants - Named parameter values (held constant when differentiating)
+ */
+export function differentiateContour(
+  expression: string,
+  gamma: (t: number) => ComplexPoint,
+  tMin: number,
+  tMax: number,
+  constants: Record<string, ComplexPoint> = {}
+): ContourDerivative {
+  const numeric = (t: number) => numericDerivative(gamma, t, tMin, tMax);
+
+  const node = parseExpression(expression, 't');
+  if (node) {
+    try {
+      const derivativeNode = derivative(node, 't');
+      const kernel = compileKernel(derivativeNode, { variables: ['t'], constants });
+      return {
+        method: 'symbolic',
+        expression: derivativeNode.toString(),
+        evaluate: (t) => {
+          const value = evaluateKernelAt(kernel, { re: t, im: 0 });
+          return isFinitePoint(value) ? value : numeric(t);
+        },
+      };
+    } catch {
+      // Unsupported function (re, im, arg, ...): fall through to the numeric stencil
+    }
+  }
+
+  return { method: 'numeric', evaluate: numeric };
+}
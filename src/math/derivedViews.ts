@@ -0,0 +1,88 @@
+/**
+ * Derivative views of f
+ * These color mappings show a property of f′ instead of f: its phase, the
+ * local area scaling |f′|², and how far f is from conformal at the scale of
+ * the view, which only fails around critical points. Each is plotted by
+ * sampling an expression built from f, so the workers evaluate it like any
+ * other map. f′ and f″ come from math.js when it can differentiate f, and
+ * from five-point finite differences of f otherwise.
+ */
+
+import { parse, isFunctionNode, isSymbolNode } from 'mathjs';
+import type { MathNode } from 'mathjs';
+import type { ColorMapping, DerivedMapping, ParameterValues } from '../types';
+import { parseExpression } from './parser';
+import { differentiateMap } from './newton';
+
+// Step of the finite differences of f (≈ ε^(1/5), balancing truncation and rounding error)
+const DIFFERENCE_STEP = 1e-3;
+
+// Angle distortion is measured over segments this long, relative to the width of the view
+const DISTORTION_SCALE = 0.02;
+
+/**
+ * Whether a mapping colors by f′ rather than by f
+ */
+export function isDerivedMapping(mapping: ColorMapping): mapping is DerivedMapping {
+  return mapping === 'derivative' || mapping === 'areaScaling' || mapping === 'angleDistortion';
+}
+
+/**
+ * f(z + offset) as an expression
+ */
+function shifted(node: MathNode, offset: number): string {
+  const argument = parse(offset < 0 ? `(z - ${-offset})` : `(z + ${offset})`);
+  return node
+    .transform((child, path, parent) =>
+      isSymbolNode(child) && child.name === 'z' && !(path === 'fn' && isFunctionNode(parent)) ? argument : child
+    )
+    .toString();
+}
+
+/**
+ * f′ or f″ of f as five-point central differences over DIFFERENCE_STEP
+ */
+function differenceExpression(node: MathNode, order: 1 | 2): string {
+  const h = DIFFERENCE_STEP;
+  const [m2, m1, p1, p2] = [-2 * h, -h, h, 2 * h].map((offset) => `(${shifted(node, offset)})`);
+  if (order === 1) {
+    return `(8 * (${p1} - ${m1}) - (${p2} - ${m2})) / ${12 * h}`;
+  }
+  return `(16 * (${p1} + ${m1}) - (${p2} + ${m2}) - 30 * (${node.toString()})) / ${12 * h * h}`;
+}
+
+/**
+ * The expression sampled to color by a mapping: f itself for the value
+ * mappings, f′ for 'derivative' and 'areaScaling', and r·f″/f′ for
+ * 'angleDistortion', which is the angle (in radians, for small values) by
+ * which f bends a segment of length r
+ * @param expression - f(z)
+ * @param mapping - Color mapping
+ * @param width - Width of the view (sets r)
+ * @param constants - Named parameter values (held constant when differentiating)
+ * @returns The expression, or f unchanged if it does not parse
+ */
+export function mappedExpression(
+  expression: string,
+  mapping: ColorMapping,
+  width: number,
+  constants: ParameterValues = {}
+): string {
+  if (!isDerivedMapping(mapping)) {
+    return expression;
+  }
+  const node = parseExpression(expression, 'z');
+  if (!node) {
+    return expression;
+  }
+
+  const first = differentiateMap(expression, constants).expression;
+  const firstDerivative = first ?? differenceExpression(node, 1);
+  if (mapping !== 'angleDistortion') {
+    return firstDerivative;
+  }
+
+  const second = first ? differentiateMap(first, constants).expression : null;
+  const secondDerivative = second ?? differenceExpression(node, 2);
+  return `${DISTORTION_SCALE * width} * (${secondDerivative}) / (${firstDerivative})`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Escape-time sampling of iterated maps z ↦ f(z, c)
+ * In the dynamic plane every grid point is a starting z for a fixed c (Julia
+ * sets); in the parameter plane every grid point is a c, iterated from a
+ * fixed z₀ (Mandelbrot-style sets, with z₀ a critical point of f). Escaped
+ * orbits get a smooth (fractional) iteration count so the coloring has no bands.
+ */
+
+import type { ComplexPoint, EscapePlane, GridPlotData } from '../types';
+import type { ComplexKernel } from './compiler';
+
+/** An escape-time iteration, as sent with a grid request */
+export interface EscapeIteration {
+  kind: 'escape';
+  plane: EscapePlane;
+  c: ComplexPoint;
+  /** z₀ of the parameter plane */
+  critical: ComplexPoint;
+  radius: number;
+  maxIterations: number;
+}
+
+// Kernel variables of an iterated map, in argument order
+export const ESCAPE_VARIABLES = ['z', 'c'];
+
+// |z| at which the degree of f is estimated, from log|f(z)| / log|z|
+const DEGREE_PROBE = 1e4;
+
+// Degrees outside this range (e.g. transcendental f) fall back to 2
+const MIN_DEGREE = 1.1;
+const MAX_DEGREE = 16;
+
+/**
+ * Growth rate d of f for large |z| (|f(z)| ~ |z|^d), used to smooth the counts
+ */
+function estimateDegree(kernel: ComplexKernel, c: ComplexPoint): number {
+  const args = Float64Array.of(DEGREE_PROBE * Math.cos(0.3), DEGREE_PROBE * Math.sin(0.3), c.re, c.im);
+  const out = new Float64Array(2);
+  kernel.evaluate(args, out);
+  const degree = Math.log(Math.hypot(out[0], out[1])) / Math.log(DEGREE_PROBE);
+  return degree >= MIN_DEGREE && degree <= MAX_DEGREE ? degree : 2;
+}
+
+/**
+ * Iterate f from every point of an x × y grid
+ * @param kernel - f compiled with variables z and c
+ * @param xs - Real parts of the grid columns
+ * @param ys - Imaginary parts of the grid rows
+ * @param iteration - Plane, fixed point, escape radius and iteration cap
+ * @returns Row-major smooth escape counts in re (NaN where the orbit stayed bounded); im is 0
+ */
+export function sampleEscapeTime(
+  kernel: ComplexKernel,
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>,
+  iteration: EscapeIteration
+): { re: Float64Array; im: Float64Array } {
+  const { plane, c, critical, radius, maxIterations } = iteration;
+  const re = new Float64Array(xs.length * ys.length);
+  const im = new Float64Array(xs.length * ys.length);
+  const args = new Float64Array(4);
+  const out = new Float64Array(2);
+
+  const radiusSq = radius * radius;
+  const logRadius = Math.log(radius);
+  const logDegree = Math.log(plane === 'dynamic' ? estimateDegree(kernel, c) : estimateDegree(kernel, { re: 0, im: 0 }));
+
+  let k = 0;
+  for (let j = 0; j < ys.length; j++) {
+    for (let i = 0; i < xs.length; i++) {
+      if (plane === 'dynamic') {
+        args[0] = xs[i];
+        args[1] = ys[j];
+        args[2] = c.re;
+        args[3] = c.im;
+      } else {
+        args[0] = critical.re;
+        args[1] = critical.im;
+        args[2] = xs[i];
+        args[3] = ys[j];
+      }
+
+      let count = NaN;
+      for (let n = 1; n <= maxIterations; n++) {
+        kernel.evaluate(args, out);
+        const modulusSq = out[0] * out[0] + out[1] * out[1];
+        if (!(modulusSq <= radiusSq)) {
+          // n − log_d(log|z_n| / log R) runs continuously across the bands of n
+          // (an orbit that overflowed to ∞ or NaN just counts as escaping at n)
+          const ratio = Math.log(modulusSq) / (2 * logRadius);
+          const smooth = n - Math.log(ratio) / logDegree;
+          count = isFinite(smooth) ? Math.max(smooth, 0) : n;
+          break;
+        }
+        args[0] = out[0];
+        args[1] = out[1];
+      }
+
+      re[k] = count;
+      k++;
+    }
+  }
+
+  return { re, im };
+}
+
+/**
+ * Map escape counts to heatmap values, on a log scale so the few slow
+ * orbits near the boundary do not wash out the rest
+ * @param samples - Row-major escape counts (y.length × x.length) in re
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @returns Counts in z and log(1 + count) in colors, NaN for bounded orbits
+ */
+export function escapeTimeFromSamples(
+  samples: { re: Float64Array; im: Float64Array },
+  x: number[],
+  y: number[]
+): GridPlotData {
+  const z: number[][] = [];
+  const colors: number[][] = [];
+
+  for (let j = 0; j < y.length; j++) {
+    const countRow = Array.from(samples.re.subarray(j * x.length, (j + 1) * x.length));
+    z.push(countRow);
+    colors.push(countRow.map(Math.log1p));
+  }
+
+  return { x, y, z, colors };
+}
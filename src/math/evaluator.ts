@@ -114,6 +114,9 @@ export function argument(point: ComplexPoint): number {
 
 /**
  * Get the value based on color mapping type
+ * The derivative mappings take a sample of their own expression (see
+ * mappedExpression): f′ for 'derivative' and 'areaScaling', r·f″/f′ for
+ * 'angleDistortion', whose modulus is capped at π
  */
 export function getColorValue(point: ComplexPoint, colorBy: string): number {
   switch (colorBy) {
@@ -125,6 +128,12 @@ export function getColorValue(point: ComplexPoint, colorBy: string): number {
       return point.re;
     case 'imaginary':
       return point.im;
+    case 'derivative':
+      return argument(point);
+    case 'areaScaling':
+      return point.re * point.re + point.im * point.im;
+    case 'angleDistortion':
+      return Math.min(Math.PI, modulus(point));
     default:
       return modulus(point);
   }
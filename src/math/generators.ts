@@ -3,116 +3,181 @@
  * Generates arrays suitable for Plotly visualization
  */
 
-import { compile, i as imaginaryUnit, pi, e as eulerNumber } from 'mathjs';
 import type {
+  ColorMapping,
   ComplexPoint,
   ContourConfig,
   ContourData,
   ContourEntry,
   ContourIntegralData,
   DomainColoringConfig,
+  GridPlotData,
+  ParameterValues,
+  PieceIntegral,
   Surface3DConfig,
 } from '../types';
-import { toMathComplex, toComplexPoint, getColorValue } from './evaluator';
+import { getColorValue } from './evaluator';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import type { ComplexKernel } from './compiler';
+import { buildContourPath, contourRange, describeContour, isComposite } from './contourPath';
+import type { ContourPath, PathPiece } from './contourPath';
+import { integrateComplex } from './quadrature';
+import { computeResidues } from './residues';
+import { mappedExpression } from './derivedViews';
+import { sampleCurveAdaptive, sampleCurveUniform } from './sampling';
+import type { CurveSamples } from './sampling';
+
+// Adaptive contour sampling defaults
+const ADAPTIVE_INITIAL_STEPS = 64;
+export const DEFAULT_ADAPTIVE_TOLERANCE = 0.05;
+export const DEFAULT_ADAPTIVE_MAX_POINTS = 2000;
+
+// Fewest samples (and quadrature steps) given to any piece of a composite contour
+const MIN_PIECE_STEPS = 8;
+
+// Closed contours: samples of γ used as its polygon, and the gap (relative to its extent) still counted as closed
+const CLOSED_POLYGON_SAMPLES = 512;
+const CLOSED_TOLERANCE = 1e-6;
 
-// Common math constants to include in evaluation scope
-const mathConstants = {
-  i: imaginaryUnit,
-  pi: pi,
-  e: eulerNumber,
-};
+/**
+ * Evaluate every point of an x × y grid with a compiled kernel
+ * @param kernel - Single-variable kernel f(z)
+ * @param xs - Real parts of the grid columns
+ * @param ys - Imaginary parts of the grid rows
+ * @returns Row-major real and imaginary parts of f over the grid
+ */
+export function sampleGrid(
+  kernel: ComplexKernel,
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>
+): { re: Float64Array; im: Float64Array } {
+  const re = new Float64Array(xs.length * ys.length);
+  const im = new Float64Array(xs.length * ys.length);
+  const args = new Float64Array(2);
+  const out = new Float64Array(2);
+
+  let k = 0;
+  for (let j = 0; j < ys.length; j++) {
+    args[1] = ys[j];
+    for (let i = 0; i < xs.length; i++) {
+      args[0] = xs[i];
+      kernel.evaluate(args, out);
+      re[k] = out[0];
+      im[k] = out[1];
+      k++;
+    }
+  }
+
+  return { re, im };
+}
 
 /**
- * Generate points for a single contour expression z(t) with optional transform f(γ(t))
- * @param expression - The γ(t) expression to evaluate
- * @param transformFunction - Optional f(z) to apply: result = f(γ(t))
- * @param tMin - Start of parameter range
- * @param tMax - End of parameter range
- * @param tSteps - Number of evaluation points
- * @returns Array of complex points
+ * Evenly spaced values from min to max (inclusive)
  */
-function evaluateSingleContour(
-  expression: string,
-  transformFunction: string,
-  tMin: number,
-  tMax: number,
-  tSteps: number
-): ComplexPoint[] {
-  if (!expression || expression.trim() === '') {
-    return [];
+export function linspace(min: number, max: number, count: number): number[] {
+  const step = (max - min) / Math.max(count - 1, 1);
+  return Array.from({ length: count }, (_, i) => min + i * step);
+}
+
+/**
+ * Samples (or quadrature steps) for one piece of a path, sharing the contour's
+ * budget between the pieces of a composite contour in proportion to their spans
+ */
+function pieceSteps(path: ContourPath, piece: PathPiece, total: number): number {
+  if (path.pieces.length === 1) {
+    return total;
   }
+  const share = (piece.tEnd - piece.tStart) / (path.tMax - path.tMin);
+  return Math.max(MIN_PIECE_STEPS, Math.round(total * share));
+}
 
-  try {
-    const compiled = compile(expression);
-    // Compile the transform function if provided
-    const hasTransform = transformFunction && transformFunction.trim() !== '';
-    const compiledTransform = hasTransform ? compile(transformFunction) : null;
-    
-    const points: ComplexPoint[] = [];
-    const dt = (tMax - tMin) / Math.max(tSteps - 1, 1);
-
-    for (let step = 0; step < tSteps; step++) {
-      const t = tMin + step * dt;
-      
-      try {
-        // First evaluate γ(t)
-        const gammaResult = compiled.evaluate({ t, ...mathConstants });
-        let point = toComplexPoint(gammaResult);
-        
-        // Apply transform f(γ(t)) if provided
-        if (compiledTransform) {
-          const transformed = compiledTransform.evaluate({ 
-            z: toMathComplex(point), 
-            ...mathConstants 
-          });
-          point = toComplexPoint(transformed);
-        }
-        
-        // Skip invalid points (NaN, Infinity)
-        if (isFinite(point.re) && isFinite(point.im)) {
-          points.push(point);
-        }
-      } catch {
-        // Skip points that fail to evaluate
-        continue;
-      }
+/**
+ * Append the samples of the next piece, dropping the point shared at a
+ * continuous join and breaking the line at a gap
+ */
+function appendSamples(result: CurveSamples, next: CurveSamples, gap: boolean): void {
+  let skip = 0;
+  if (result.points.length > 0 && next.points.length > 0) {
+    if (gap) {
+      result.breaks.push(result.points.length);
+    } else if (next.tValues[0] === result.tValues[result.tValues.length - 1]) {
+      skip = 1;
     }
+  }
+  const offset = result.points.length - skip;
+  result.points.push(...next.points.slice(skip));
+  result.tValues.push(...next.tValues.slice(skip));
+  result.breaks.push(...next.breaks.filter((index) => index > skip).map((index) => index + offset));
+}
 
-    return points;
-  } catch (error) {
-    console.warn(`Failed to generate contour for "${expression}":`, error);
-    return [];
+/**
+ * Generate points for a single contour (γ(t) or composite) with optional transform f(γ(t))
+ * @param contour - Contour entry (expression or pieces, transform, t range and sampling settings)
+ * @param parameters - Named parameter values in scope
+ * @returns Finite points with their t values and the breaks between them
+ */
+function evaluateSingleContour(contour: ContourEntry, parameters: ParameterValues): CurveSamples {
+  const { transformFunction, tSteps } = contour;
+  const result: CurveSamples = { points: [], tValues: [], breaks: [] };
+
+  const path = buildContourPath(contour, parameters);
+  if (!path) {
+    return result;
+  }
+
+  // Compile the transform function if provided
+  const hasTransform = transformFunction && transformFunction.trim() !== '';
+  const transform = hasTransform ? compileExpression(transformFunction, { constants: parameters }) : null;
+  if (hasTransform && !transform) {
+    return result;
   }
+
+  const gapsAfter = new Set(path.gaps.map((gap) => gap.after));
+  const maxPoints = contour.maxPoints ?? DEFAULT_ADAPTIVE_MAX_POINTS;
+
+  path.pieces.forEach((piece, k) => {
+    // Apply transform f(γ(t)) if provided
+    const evaluate = (t: number): ComplexPoint => {
+      const z = piece.evaluate(t);
+      return transform ? evaluateKernelAt(transform, z) : z;
+    };
+    const steps = pieceSteps(path, piece, tSteps);
+
+    const samples = contour.sampling === 'adaptive'
+      ? sampleCurveAdaptive(evaluate, piece.tStart, piece.tEnd, {
+          initialSteps: Math.min(steps, ADAPTIVE_INITIAL_STEPS),
+          tolerance: contour.tolerance ?? DEFAULT_ADAPTIVE_TOLERANCE,
+          maxPoints: pieceSteps(path, piece, maxPoints),
+        })
+      : sampleCurveUniform(evaluate, piece.tStart, piece.tEnd, steps);
+
+    appendSamples(result, samples, k > 0 && gapsAfter.has(path.pieces[k - 1].source));
+  });
+
+  return result;
 }
 
 /**
  * Generate contour data for all enabled contours
- * Each contour uses its own parameter range [tMin, tMax]
+ * Each contour uses its own parameter range [tMin, tMax] (composite contours: their pieces end to end)
  * If transformFunction is provided, result is f(γ(t))
  * @param config - Contour configuration with multiple contour entries
  * @returns Array of ContourData objects with evaluated points
  */
 export function generateContourPoints(config: ContourConfig): ContourData[] {
-  const { contours } = config;
-  
+  const { contours, parameters = {} } = config;
+
   return contours
-    .filter(contour => contour.enabled && contour.expression.trim() !== '')
+    .filter(contour => contour.enabled && (isComposite(contour) || contour.expression.trim() !== ''))
     .map(contour => ({
       id: contour.id,
       expression: contour.transformFunction?.trim() 
-        ? `${contour.transformFunction}(${contour.expression})`
-        : contour.expression,
+        ? `${contour.transformFunction}(${describeContour(contour)})`
+        : describeContour(contour),
       color: contour.color,
-      tMin: contour.tMin,
-      tMax: contour.tMax,
+      ...contourRange(contour),
       animationSpeed: contour.animationSpeed ?? 5,
-      points: evaluateSingleContour(
-        contour.expression,
-        contour.transformFunction || '',
-        contour.tMin,
-        contour.tMax,
-        contour.tSteps
-      ),
+      ...evaluateSingleContour(contour, parameters),
     }));
 }
 
@@ -146,117 +211,112 @@ function complexScale(a: ComplexPoint, scalar: number): ComplexPoint {
   };
 }
 
+/**
+ * Sample γ as a polygon, if it is a closed curve
+ * @param evalGamma - γ(t)
+ * @param tMin - Parameter range start
+ * @param tMax - Parameter range end
+ * @returns Vertices of γ (first and last coincide), or null if γ is open or undefined somewhere
+ */
+export function closedContourPolygon(
+  evalGamma: (t: number) => ComplexPoint,
+  tMin: number,
+  tMax: number
+): ComplexPoint[] | null {
+  const polygon = linspace(tMin, tMax, CLOSED_POLYGON_SAMPLES).map(evalGamma);
+  if (!polygon.every((p) => isFinite(p.re) && isFinite(p.im))) {
+    return null;
+  }
+  const start = polygon[0];
+  const end = polygon[polygon.length - 1];
+  const extent = polygon.reduce((max, p) => Math.max(max, Math.hypot(p.re - start.re, p.im - start.im)), 0);
+  return Math.hypot(end.re - start.re, end.im - start.im) <= CLOSED_TOLERANCE * extent ? polygon : null;
+}
+
 /**
  * Compute contour integral data for visualization
- * Calculates γ'(t) via numerical differentiation and accumulates ∫f(γ(t))γ'(t)dt
+ * Differentiates γ(t) and integrates ∫f(γ(t))γ'(t)dt with the contour's quadrature rule,
+ * piece by piece for composite contours
  * @param contour - The contour entry to compute integral for
+ * @param parameters - Named parameter values in scope in γ and f
  * @returns ContourIntegralData with integrand vectors and running sum, or null if invalid
  */
-export function computeContourIntegral(contour: ContourEntry): ContourIntegralData | null {
-  const { expression, transformFunction, tMin, tMax, tSteps, id, color } = contour;
-
-  // Need both a contour and a function to integrate
-  if (!expression || expression.trim() === '') {
-    return null;
-  }
+export function computeContourIntegral(
+  contour: ContourEntry,
+  parameters: ParameterValues = {}
+): ContourIntegralData | null {
+  const { transformFunction, tSteps, id, color } = contour;
 
   // If no transform function, default to f(z) = 1 (integrates to arc length in complex sense)
   const fExpr = transformFunction && transformFunction.trim() !== '' ? transformFunction : '1';
 
   try {
-    const compiledGamma = compile(expression);
-    const compiledF = compile(fExpr);
+    // Need both a contour and a function to integrate
+    const path = buildContourPath(contour, parameters);
+    const fKernel = compileExpression(fExpr, { constants: parameters });
+    if (!path || !fKernel) {
+      return null;
+    }
+
+    const quadrature = contour.quadrature ?? 'trapezoid';
+
+    // Evaluate f(z) at a given complex point
+    const evalF = (z: ComplexPoint): ComplexPoint => evaluateKernelAt(fKernel, z);
 
-    const dt = (tMax - tMin) / Math.max(tSteps - 1, 1);
-    const h = dt * 0.01; // Small step for numerical derivative
+    // γ'(t): symbolic when possible, finite differences otherwise
+    const derivatives = path.pieces.map((piece) => piece.differentiate());
 
     const tValues: number[] = [];
     const contourPoints: ComplexPoint[] = [];
     const integrandVectors: ComplexPoint[] = [];
     const runningSum: ComplexPoint[] = [];
+    const pieces: PieceIntegral[] = [];
 
     let currentSum: ComplexPoint = { re: 0, im: 0 };
+    let errorEstimate = 0;
+    let evaluations = 0;
 
-    // Evaluate γ(t) at a given t value
-    const evalGamma = (t: number): ComplexPoint | null => {
-      try {
-        const result = compiledGamma.evaluate({ t, ...mathConstants });
-        return toComplexPoint(result);
-      } catch {
-        return null;
-      }
-    };
+    path.pieces.forEach((piece, k) => {
+      // Integrand f(γ(t)) · γ'(t)
+      const integrandAt = (t: number): ComplexPoint =>
+        complexMultiply(evalF(piece.evaluate(t)), derivatives[k].evaluate(t));
 
-    // Evaluate f(z) at a given complex point
-    const evalF = (z: ComplexPoint): ComplexPoint | null => {
-      try {
-        const result = compiledF.evaluate({ z: toMathComplex(z), ...mathConstants });
-        return toComplexPoint(result);
-      } catch {
-        return null;
-      }
-    };
+      const result = integrateComplex(integrandAt, piece.tStart, piece.tEnd, quadrature, pieceSteps(path, piece, tSteps));
 
-    for (let step = 0; step < tSteps; step++) {
-      const t = tMin + step * dt;
-
-      // Evaluate γ(t)
-      const gamma = evalGamma(t);
-      if (!gamma || !isFinite(gamma.re) || !isFinite(gamma.im)) {
-        continue;
-      }
-
-      // Compute γ'(t) using central difference: (γ(t+h) - γ(t-h)) / (2h)
-      const gammaPlusH = evalGamma(t + h);
-      const gammaMinusH = evalGamma(t - h);
-      
-      let gammaPrime: ComplexPoint;
-      if (gammaPlusH && gammaMinusH && 
-          isFinite(gammaPlusH.re) && isFinite(gammaPlusH.im) &&
-          isFinite(gammaMinusH.re) && isFinite(gammaMinusH.im)) {
-        gammaPrime = {
-          re: (gammaPlusH.re - gammaMinusH.re) / (2 * h),
-          im: (gammaPlusH.im - gammaMinusH.im) / (2 * h),
-        };
-      } else {
-        // Fallback to forward difference at boundaries
-        const gammaNext = evalGamma(t + h);
-        if (gammaNext && isFinite(gammaNext.re) && isFinite(gammaNext.im)) {
-          gammaPrime = {
-            re: (gammaNext.re - gamma.re) / h,
-            im: (gammaNext.im - gamma.im) / h,
-          };
-        } else {
-          continue;
+      // Running sum over the rule's nodes in t order (undefined nodes are skipped, as in the rule)
+      result.nodes.forEach((t, n) => {
+        const integrand = result.values[n];
+        if (!isFinite(integrand.re) || !isFinite(integrand.im)) {
+          return;
         }
-      }
-
-      // Evaluate f(γ(t))
-      const fValue = evalF(gamma);
-      if (!fValue || !isFinite(fValue.re) || !isFinite(fValue.im)) {
-        continue;
-      }
-
-      // Compute integrand: f(γ(t)) · γ'(t)
-      const integrand = complexMultiply(fValue, gammaPrime);
-      if (!isFinite(integrand.re) || !isFinite(integrand.im)) {
-        continue;
-      }
-
-      // Accumulate: sum += integrand * dt
-      const contribution = complexScale(integrand, dt);
-      currentSum = complexAdd(currentSum, contribution);
-
-      tValues.push(t);
-      contourPoints.push(gamma);
-      integrandVectors.push(integrand);
-      runningSum.push({ ...currentSum });
-    }
+
+        // Accumulate: sum += w_n · integrand
+        currentSum = complexAdd(currentSum, complexScale(integrand, result.weights[n]));
+
+        tValues.push(t);
+        contourPoints.push(piece.evaluate(t));
+        integrandVectors.push(integrand);
+        runningSum.push({ ...currentSum });
+      });
+
+      errorEstimate += result.error;
+      evaluations += result.evaluations;
+      pieces.push({
+        label: piece.label,
+        tStart: piece.tStart,
+        tEnd: piece.tEnd,
+        value: result.value,
+        errorEstimate: result.error,
+      });
+    });
 
     if (tValues.length === 0) {
       return null;
     }
 
+    // Residue theorem cross-check, for closed contours (a composite one must also be joined up)
+    const polygon = path.gaps.length === 0 ? closedContourPolygon(path.evaluate, path.tMin, path.tMax) : null;
+
     return {
       id,
       color,
@@ -265,15 +325,97 @@ export function computeContourIntegral(contour: ContourEntry): ContourIntegralDa
       integrandVectors,
       runningSum,
       finalValue: { ...currentSum },
-      expression,
+      expression: path.label,
       transformFunction: fExpr,
+      derivativeMethod: derivatives.every((d) => d.method === 'symbolic') ? 'symbolic' : 'numeric',
+      derivativeExpression: path.composite ? undefined : derivatives[0].expression,
+      quadrature,
+      errorEstimate,
+      evaluations,
+      residues: polygon ? computeResidues(fExpr, fKernel, polygon) : undefined,
+      pieces: path.composite ? pieces : undefined,
     };
   } catch (error) {
-    console.warn(`Failed to compute contour integral for "${expression}":`, error);
+    console.warn(`Failed to compute contour integral for "${describeContour(contour)}":`, error);
     return null;
   }
 }
 
+/**
+ * Map grid samples of f to domain coloring heatmap values
+ * @param samples - Row-major samples of f, or of the expression a derivative mapping samples (y.length × x.length)
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param colorBy - Which property of f(z) to plot
+ * @returns Object with x, y (1D arrays), z (modulus/value) and colors (color mapping) 2D arrays
+ */
+export function domainColoringFromSamples(
+  samples: { re: Float64Array; im: Float64Array },
+  x: number[],
+  y: number[],
+  colorBy: ColorMapping
+): GridPlotData {
+  const z: number[][] = [];
+  const colors: number[][] = [];
+
+  for (let j = 0; j < y.length; j++) {
+    const row: number[] = [];
+    for (let i = 0; i < x.length; i++) {
+      const k = j * x.length + i;
+      const value = getColorValue({ re: samples.re[k], im: samples.im[k] }, colorBy);
+      // Use NaN to create gaps in the plot for infinities and undefined points
+      row.push(isFinite(value) ? value : NaN);
+    }
+    z.push(row);
+    colors.push([...row]);
+  }
+
+  return { x, y, z, colors };
+}
+
+/**
+ * Map grid samples of f to 3D surface heights and colors
+ * @param samples - Row-major samples of the expression heightBy maps (y.length × x.length)
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param heightBy - Which property of f(z) sets the height
+ * @param colorBy - Which property of f(z) sets the color
+ * @param colorSamples - Samples of the expression colorBy maps, when it is not the same one
+ * @returns Object with x, y (1D arrays), z and colors (2D arrays)
+ */
+export function surface3DFromSamples(
+  samples: { re: Float64Array; im: Float64Array },
+  x: number[],
+  y: number[],
+  heightBy: ColorMapping,
+  colorBy: ColorMapping,
+  colorSamples: { re: Float64Array; im: Float64Array } = samples
+): GridPlotData {
+  const z: number[][] = [];
+  const colors: number[][] = [];
+
+  for (let j = 0; j < y.length; j++) {
+    const zRow: number[] = [];
+    const colorRow: number[] = [];
+
+    for (let i = 0; i < x.length; i++) {
+      const k = j * x.length + i;
+      const output: ComplexPoint = { re: samples.re[k], im: samples.im[k] };
+      const heightValue = getColorValue(output, heightBy);
+      const colorValue = getColorValue({ re: colorSamples.re[k], im: colorSamples.im[k] }, colorBy);
+
+      // Handle infinity and NaN
+      zRow.push(isFinite(heightValue) ? heightValue : NaN);
+      colorRow.push(isFinite(colorValue) ? colorValue : NaN);
+    }
+
+    z.push(zRow);
+    colors.push(colorRow);
+  }
+
+  return { x, y, z, colors };
+}
+
 /**
  * Generate domain coloring data for heatmap visualization
  * @param config - Domain coloring configuration
@@ -283,59 +425,22 @@ export function generateDomainColoringData(config: DomainColoringConfig): {
   z: number[][];
   colors: number[][];
 } {
-  const { expression, xMin, xMax, yMin, yMax, resolution, colorBy } = config;
+  const { expression, xMin, xMax, yMin, yMax, resolution, colorBy, parameters } = config;
   
   if (!expression || expression.trim() === '') {
     return { z: [], colors: [] };
   }
 
-  try {
-    const compiled = compile(expression);
-    const z: number[][] = [];
-    const colors: number[][] = [];
-    
-    const dx = (xMax - xMin) / Math.max(resolution - 1, 1);
-    const dy = (yMax - yMin) / Math.max(resolution - 1, 1);
-
-    for (let j = 0; j < resolution; j++) {
-      const row: number[] = [];
-      const colorRow: number[] = [];
-      const y = yMin + j * dy;
-
-      for (let i = 0; i < resolution; i++) {
-        const x = xMin + i * dx;
-        const zInput: ComplexPoint = { re: x, im: y };
-
-        try {
-          const result = compiled.evaluate({ z: toMathComplex(zInput), ...mathConstants });
-          const output = toComplexPoint(result);
-          
-          const value = getColorValue(output, colorBy);
-          
-          // Handle infinity and NaN
-          if (isFinite(value)) {
-            row.push(value);
-            colorRow.push(value);
-          } else {
-            // Use NaN to create gaps in the plot
-            row.push(NaN);
-            colorRow.push(NaN);
-          }
-        } catch {
-          row.push(NaN);
-          colorRow.push(NaN);
-        }
-      }
-
-      z.push(row);
-      colors.push(colorRow);
-    }
-
-    return { z, colors };
-  } catch (error) {
-    console.warn(`Failed to generate domain coloring for "${expression}":`, error);
+  const kernel = compileExpression(mappedExpression(expression, colorBy, xMax - xMin, parameters), {
+    constants: parameters,
+  });
+  if (!kernel) {
     return { z: [], colors: [] };
   }
+
+  const x = linspace(xMin, xMax, resolution);
+  const y = linspace(yMin, yMax, resolution);
+  return domainColoringFromSamples(sampleGrid(kernel, x, y), x, y, colorBy);
 }
 
 /**
@@ -349,75 +454,23 @@ export function generateSurface3DData(config: Surface3DConfig): {
   z: number[][];
   colors: number[][];
 } {
-  const { expression, xMin, xMax, yMin, yMax, resolution, heightBy, colorBy } = config;
+  const { expression, xMin, xMax, yMin, yMax, resolution, heightBy, colorBy, parameters } = config;
   
   if (!expression || expression.trim() === '') {
     return { x: [], y: [], z: [], colors: [] };
   }
 
-  try {
-    const compiled = compile(expression);
-    const x: number[] = [];
-    const y: number[] = [];
-    const z: number[][] = [];
-    const colors: number[][] = [];
-    
-    const dx = (xMax - xMin) / Math.max(resolution - 1, 1);
-    const dy = (yMax - yMin) / Math.max(resolution - 1, 1);
-
-    // Generate x array
-    for (let i = 0; i < resolution; i++) {
-      x.push(xMin + i * dx);
-    }
-
-    // Generate y array
-    for (let j = 0; j < resolution; j++) {
-      y.push(yMin + j * dy);
-    }
-
-    // Generate z and colors arrays
-    for (let j = 0; j < resolution; j++) {
-      const zRow: number[] = [];
-      const colorRow: number[] = [];
-      const yVal = y[j];
-
-      for (let i = 0; i < resolution; i++) {
-        const xVal = x[i];
-        const zInput: ComplexPoint = { re: xVal, im: yVal };
-
-        try {
-          const result = compiled.evaluate({ z: toMathComplex(zInput), ...mathConstants });
-          const output = toComplexPoint(result);
-          
-          const heightValue = getColorValue(output, heightBy);
-          const colorValue = getColorValue(output, colorBy);
-          
-          // Handle infinity and NaN
-          if (isFinite(heightValue)) {
-            zRow.push(heightValue);
-          } else {
-            zRow.push(NaN);
-          }
-          
-          if (isFinite(colorValue)) {
-            colorRow.push(colorValue);
-          } else {
-            colorRow.push(NaN);
-          }
-        } catch {
-          zRow.push(NaN);
-          colorRow.push(NaN);
-        }
-      }
-
-      z.push(zRow);
-      colors.push(colorRow);
-    }
-
-    return { x, y, z, colors };
-  } catch (error) {
-    console.warn(`Failed to generate 3D surface for "${expression}":`, error);
+  const heightSource = mappedExpression(expression, heightBy, xMax - xMin, parameters);
+  const colorSource = mappedExpression(expression, colorBy, xMax - xMin, parameters);
+  const kernel = compileExpression(heightSource, { constants: parameters });
+  const colorKernel = colorSource === heightSource ? kernel : compileExpression(colorSource, { constants: parameters });
+  if (!kernel || !colorKernel) {
     return { x: [], y: [], z: [], colors: [] };
   }
-}
 
+  const x = linspace(xMin, xMax, resolution);
+  const y = linspace(yMin, yMax, resolution);
+  const samples = sampleGrid(kernel, x, y);
+  const colorSamples = colorKernel === kernel ? samples : sampleGrid(colorKernel, x, y);
+  return surface3DFromSamples(samples, x, y, heightBy, colorBy, colorSamples);
+}
@@ -0,0 +1,86 @@
+/**
+ * Full-grid analysis
+ * Work done once on the full-resolution samples of f, after the last pass:
+ * locating its zeros, poles and branch cuts, and checking the Cauchy–Riemann
+ * equations. It is run in a grid worker, since at high resolutions it takes
+ * far longer than sampling f did.
+ *
+ * The argument principle only counts zeros and poles of meromorphic f, so
+ * those with samples failing the Cauchy–Riemann check around them are
+ * dropped: for conj(z), re(z) or |z|² − 1 the windings it picks up are not
+ * zeros or poles at all.
+ */
+
+import type { ComplexPoint, HolomorphyData, ZeroPole } from '../types';
+import { compileExpression } from './compiler';
+import { findZerosAndPoles, labelZerosAndPoles } from './zeros';
+import { findBranchCuts } from './branchCuts';
+import type { BranchCuts } from './branchCuts';
+import { cauchyRiemannCheck } from './holomorphy';
+import type { GridSamples } from './workerPool';
+
+// Zeros and poles are kept only if no sample this many grid steps around them
+// fails the Cauchy–Riemann check (one step past those it skips around a pole)
+const MEROMORPHIC_MARGIN = 4;
+
+/** A full grid of samples of f to analyze */
+export interface GridAnalysisRequest {
+  expression: string;
+  constants?: Record<string, ComplexPoint>;
+  /** Real parts of the grid columns */
+  x: number[];
+  /** Imaginary parts of the grid rows */
+  y: number[];
+  /** Row-major samples of f (y.length × x.length) */
+  samples: GridSamples;
+  /** Return the Cauchy–Riemann residual over the grid (it is always checked, to screen the zeros and poles) */
+  checkHolomorphy?: boolean;
+}
+
+/** What the analysis found */
+export interface GridAnalysis {
+  zerosAndPoles: ZeroPole[];
+  branchCuts: BranchCuts;
+  holomorphy?: HolomorphyData;
+}
+
+/**
+ * Whether any sample within MEROMORPHIC_MARGIN grid steps of a point fails the
+ * Cauchy–Riemann check
+ */
+function failsNear(x: number[], y: number[], holomorphy: HolomorphyData, point: ComplexPoint): boolean {
+  const hx = (x[x.length - 1] - x[0]) / (x.length - 1);
+  const hy = (y[y.length - 1] - y[0]) / (y.length - 1);
+  const pi = Math.round((point.re - x[0]) / hx);
+  const pj = Math.round((point.im - y[0]) / hy);
+  for (let j = Math.max(0, pj - MEROMORPHIC_MARGIN); j <= Math.min(y.length - 1, pj + MEROMORPHIC_MARGIN); j++) {
+    for (let i = Math.max(0, pi - MEROMORPHIC_MARGIN); i <= Math.min(x.length - 1, pi + MEROMORPHIC_MARGIN); i++) {
+      if (holomorphy.residual[j][i] > holomorphy.threshold) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Analyze a full grid of samples of f
+ * @param request - f, its parameters and its samples
+ * @returns Zeros and poles (none if f does not compile, and only where f
+ *   passes the Cauchy–Riemann check), branch cuts and, if asked for, the
+ *   Cauchy–Riemann residual
+ */
+export function analyzeGrid(request: GridAnalysisRequest): GridAnalysis {
+  const { expression, constants, x, y, samples, checkHolomorphy = false } = request;
+  const kernel = compileExpression(expression, { constants });
+  const candidates = kernel ? findZerosAndPoles(kernel, x, y, samples) : [];
+  const branchCuts = findBranchCuts(x, y, samples);
+  const poles = candidates.filter((p) => p.type === 'pole').map((p) => p.location);
+  const holomorphy = cauchyRiemannCheck(x, y, samples, branchCuts.samples, poles);
+  const meromorphic = candidates.filter((p) => !failsNear(x, y, holomorphy, p.location));
+  return {
+    zerosAndPoles: meromorphic.length < candidates.length ? labelZerosAndPoles(meromorphic) : candidates,
+    branchCuts,
+    holomorphy: checkHolomorphy ? holomorphy : undefined,
+  };
+}
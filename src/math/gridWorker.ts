@@ -0,0 +1,81 @@
+/**
+ * Grid worker - evaluates row bands of a sampling grid off the main thread
+ * Receives a GridTask from the worker pool and posts back GridTaskResult with
+ * the sample buffers transferred (not copied), or an AnalysisTask of a full
+ * grid and posts back its AnalysisTaskResult
+ */
+
+import { compileExpression } from './compiler';
+import type { ComplexKernel } from './compiler';
+import { sampleGrid } from './generators';
+import { ESCAPE_VARIABLES, sampleEscapeTime } from './escapeTime';
+import { sampleNewton } from './newton';
+import { analyzeGrid } from './gridAnalysis';
+import type { AnalysisTaskResult, GridTask, GridTaskResult, PoolTask } from './workerPool';
+
+// Kernels are reused across bands of the same job (and across jobs that only change the viewport)
+let cachedKey: string | null = null;
+let cachedKernel: ComplexKernel | null = null;
+let cachedDerivativeKey: string | null = null;
+let cachedDerivative: ComplexKernel | null = null;
+
+function getKernel(task: GridTask): ComplexKernel | null {
+  // Iterated maps take c as a second variable
+  const variables = task.iteration?.kind === 'escape' ? ESCAPE_VARIABLES : undefined;
+  const key = JSON.stringify([task.expression, task.constants ?? {}, variables]);
+  if (key !== cachedKey) {
+    cachedKey = key;
+    cachedKernel = compileExpression(task.expression, { constants: task.constants, variables });
+  }
+  return cachedKernel;
+}
+
+/**
+ * f′ of a Newton task (null when it is differenced numerically)
+ */
+function getDerivative(task: GridTask, expression: string | null): ComplexKernel | null {
+  const key = JSON.stringify([expression, task.constants ?? {}]);
+  if (key !== cachedDerivativeKey) {
+    cachedDerivativeKey = key;
+    cachedDerivative = expression ? compileExpression(expression, { constants: task.constants }) : null;
+  }
+  return cachedDerivative;
+}
+
+function sampleTask(kernel: ComplexKernel, task: GridTask): { re: Float64Array; im: Float64Array } {
+  switch (task.iteration?.kind) {
+    case 'escape':
+      return sampleEscapeTime(kernel, task.xs, task.ys, task.iteration);
+    case 'newton':
+      return sampleNewton(kernel, getDerivative(task, task.iteration.derivative), task.xs, task.ys, task.iteration);
+    default:
+      return sampleGrid(kernel, task.xs, task.ys);
+  }
+}
+
+self.onmessage = (event: MessageEvent<PoolTask>) => {
+  const task = event.data;
+  if (task.kind === 'analysis') {
+    const result: AnalysisTaskResult = { kind: 'analysis', jobId: task.jobId, analysis: analyzeGrid(task) };
+    (self as unknown as Worker).postMessage(result);
+    return;
+  }
+
+  const kernel = getKernel(task);
+
+  const samples = kernel
+    ? sampleTask(kernel, task)
+    : {
+        re: new Float64Array(task.xs.length * task.ys.length).fill(NaN),
+        im: new Float64Array(task.xs.length * task.ys.length).fill(NaN),
+      };
+
+  const result: GridTaskResult = {
+    kind: 'sample',
+    jobId: task.jobId,
+    taskId: task.taskId,
+    re: samples.re,
+    im: samples.im,
+  };
+  (self as unknown as Worker).postMessage(result, [samples.re.buffer, samples.im.buffer]);
+};
@@ -0,0 +1,142 @@
+/**
+ * Cauchy–Riemann check of a sampled grid
+ * f is holomorphic exactly where ∂f/∂z̄ = ½(∂f/∂x + i ∂f/∂y) vanishes. Both
+ * Wirtinger derivatives are estimated from central differences over one and
+ * two grid steps, combined by Richardson extrapolation so that the
+ * discretization error of a holomorphic f falls to O(h⁴) and does not read as
+ * a failure. The residual |∂f/∂z̄| / (|∂f/∂z| + |∂f/∂z̄|) is scale-free: 0 for
+ * holomorphic f, 1 for antiholomorphic f such as conj(z), ½ for real-valued f.
+ *
+ * Close to a pole or where f is steep the estimate is still dominated by
+ * discretization error, so a sample only fails if its residual stands above
+ * the rounding error of f across a grid step and does not shrink when the
+ * stencil is refined from 2h to h (for holomorphic f the estimate of ∂f/∂z̄
+ * falls as h⁶; for a real failure it stays put). Samples next to the poles of
+ * f are not checked at all.
+ */
+
+import type { ComplexPoint, HolomorphyData, HolomorphyVerdict } from '../types';
+import type { GridSamples } from './workerPool';
+
+// Samples whose residual exceeds this fail the Cauchy–Riemann equations
+const RESIDUAL_THRESHOLD = 1e-3;
+
+// Rounding error of a derivative estimate, in units of ε|f|/h (generous, since
+// library functions are only accurate to a few ε)
+const ROUNDING_ERROR = 256;
+
+// A failing residual shrinks by less than this factor when h is halved
+const REFINEMENT_GAIN = 4;
+
+// Samples within this many grid steps of a pole are not checked
+const POLE_MARGIN = 3;
+
+// Reach of the stencil over two grid steps, in samples
+const STENCIL_REACH = 4;
+
+// Residuals are clamped to this before taking log₁₀ (f exactly holomorphic or constant)
+const MIN_RESIDUAL = 1e-16;
+
+// Failing shares of the view at or below which f looks analytic, and at or above which nowhere analytic
+const ANALYTIC_SHARE = 0.005;
+const NON_ANALYTIC_SHARE = 0.95;
+
+/**
+ * Estimate the Cauchy–Riemann residual of f at every sample
+ * @param x - Real parts of the grid columns (evenly spaced)
+ * @param y - Imaginary parts of the grid rows (evenly spaced)
+ * @param samples - Row-major samples of f (y.length × x.length)
+ * @param excluded - Samples next to a branch cut, where f jumps rather than failing to be holomorphic
+ * @param poles - Poles of f, around which the estimate is not trusted
+ * @returns log₁₀ residuals (NaN within four samples of the edge, a branch cut,
+ *   a pole or an undefined sample, and where the residual is only
+ *   discretization or rounding error) and the verdict over the rest
+ */
+export function cauchyRiemannCheck(
+  x: number[],
+  y: number[],
+  samples: GridSamples,
+  excluded: number[] = [],
+  poles: ComplexPoint[] = []
+): HolomorphyData {
+  const width = x.length;
+  const height = y.length;
+  const residual = Array.from({ length: height }, () => new Array<number>(width).fill(NaN));
+  const threshold = Math.log10(RESIDUAL_THRESHOLD);
+  const margin = STENCIL_REACH;
+  if (width < 2 * margin + 1 || height < 2 * margin + 1) {
+    return { residual, threshold, failing: 0, verdict: 'analytic' };
+  }
+
+  const hx = (x[width - 1] - x[0]) / (width - 1);
+  const hy = (y[height - 1] - y[0]) / (height - 1);
+  const { re, im } = samples;
+
+  // The samples around each pole count as excluded too
+  const skipped = [...excluded];
+  for (const pole of poles) {
+    const pi = Math.round((pole.re - x[0]) / hx);
+    const pj = Math.round((pole.im - y[0]) / hy);
+    for (let j = Math.max(0, pj - POLE_MARGIN); j <= Math.min(height - 1, pj + POLE_MARGIN); j++) {
+      for (let i = Math.max(0, pi - POLE_MARGIN); i <= Math.min(width - 1, pi + POLE_MARGIN); i++) {
+        skipped.push(j * width + i);
+      }
+    }
+  }
+
+  // Spread each excluded sample over the stencils that reach it
+  const blocked = new Uint8Array(width * height);
+  for (const k of skipped) {
+    const i = k % width;
+    const j = Math.floor(k / width);
+    for (let d = -margin; d <= margin; d++) {
+      if (i + d >= 0 && i + d < width) blocked[k + d] = 1;
+      if (j + d >= 0 && j + d < height) blocked[k + d * width] = 1;
+    }
+  }
+
+  // Richardson-extrapolated central difference along a line through k with stride s
+  const differentiate = (part: Float64Array, k: number, s: number, h: number) =>
+    (8 * (part[k + s] - part[k - s]) - (part[k + 2 * s] - part[k - 2 * s])) / (12 * h);
+
+  // 2|∂f/∂z̄| and 2|∂f/∂z| at k, from the stencil over `step` grid steps
+  const wirtinger = (k: number, step: number): [number, number] => {
+    const uX = differentiate(re, k, step, step * hx);
+    const vX = differentiate(im, k, step, step * hx);
+    const uY = differentiate(re, k, step * width, step * hy);
+    const vY = differentiate(im, k, step * width, step * hy);
+    // 2∂f/∂z̄ = (u_x − v_y) + i(v_x + u_y), 2∂f/∂z = (u_x + v_y) + i(v_x − u_y)
+    return [Math.hypot(uX - vY, vX + uY), Math.hypot(uX + vY, vX - uY)];
+  };
+
+  const h = Math.min(Math.abs(hx), Math.abs(hy));
+  let checked = 0;
+  let failed = 0;
+  for (let j = margin; j < height - margin; j++) {
+    for (let i = margin; i < width - margin; i++) {
+      const k = j * width + i;
+      if (blocked[k]) continue;
+
+      const [zBar, zHol] = wirtinger(k, 1);
+      if (!isFinite(zBar) || !isFinite(zHol)) continue;
+
+      const value = zBar + zHol > 0 ? zBar / (zBar + zHol) : 0;
+      checked++;
+      if (value > RESIDUAL_THRESHOLD) {
+        // Within the rounding error of f over a step, relative to the change |∂f/∂z|·h across it,
+        // or shrinking under refinement: too large only because h is, and left unresolved
+        const rounding = (ROUNDING_ERROR * Number.EPSILON * Math.hypot(re[k], im[k])) / h;
+        const [coarseBar] = wirtinger(k, 2);
+        if (zBar <= rounding || zBar * REFINEMENT_GAIN <= coarseBar) continue;
+        failed++;
+      }
+      residual[j][i] = Math.log10(Math.max(MIN_RESIDUAL, value));
+    }
+  }
+
+  const failing = checked > 0 ? failed / checked : 0;
+  let verdict: HolomorphyVerdict = 'partial';
+  if (failing <= ANALYTIC_SHARE) verdict = 'analytic';
+  else if (failing >= NON_ANALYTIC_SHARE) verdict = 'nonAnalytic';
+  return { residual, threshold, failing, verdict };
+}
@@ -5,19 +5,54 @@
 
 import type { MathNode } from 'mathjs';
 import type {
+  AsyncEvaluationOptions,
+  GridPlotData,
   MathEngine,
   ContourConfig,
   ContourData,
   ContourEntry,
   ContourIntegralData,
+  ArgumentPrincipleCount,
+  ArgumentPrincipleData,
+  ConformalGridConfig,
+  ConformalGridData,
   DomainColoringConfig,
+  EscapeTimeConfig,
+  NewtonConfig,
+  ParameterSweep,
+  ParameterValues,
+  RiemannSphereConfig,
+  RiemannSphereData,
+  RiemannSurfaceConfig,
+  RiemannSurfaceData,
+  SeriesConfig,
+  SeriesData,
   Surface3DConfig,
+  TextureMapConfig,
+  VectorFieldConfig,
+  VectorFieldData,
 } from '../types';
 import { parseExpression } from './parser';
 import { generateContourPoints, generateDomainColoringData, generateSurface3DData, computeContourIntegral } from './generators';
+import {
+  generateDomainColoringDataAsync,
+  generateSurface3DDataAsync,
+  generateDomainColoringSweepAsync,
+  generateSurface3DSweepAsync,
+  generateEscapeTimeDataAsync,
+  generateNewtonDataAsync,
+  generateSeriesDataAsync,
+  generateTextureMapDataAsync,
+} from './asyncGenerators';
+import { computeArgumentPrinciple, countEnclosedAsync } from './argumentPrinciple';
+import { generateRiemannSurfaceData } from './riemannSurface';
+import { generateConformalGrid } from './conformalGrid';
+import { generateVectorField } from './vectorField';
+import { computeSeries } from './series';
+import { generateRiemannSphere } from './riemannSphere';
 
 // Re-export utilities for external use
-export { parseExpression, parseAndCompile, isValidExpression } from './parser';
+export { parseExpression, parseAndCompile, isValidExpression, isBuiltinSymbol, findUndefinedSymbols } from './parser';
 export {
   evaluateAt,
   evaluateExpressionAt,
@@ -28,7 +63,62 @@ export {
   argument,
   getColorValue,
 } from './evaluator';
-export { generateContourPoints, generateDomainColoringData, generateSurface3DData, computeContourIntegral } from './generators';
+export { generateContourPoints, generateDomainColoringData, generateSurface3DData, computeContourIntegral, closedContourPolygon, sampleGrid, linspace, DEFAULT_ADAPTIVE_TOLERANCE, DEFAULT_ADAPTIVE_MAX_POINTS } from './generators';
+export { sampleCurveUniform, sampleCurveAdaptive } from './sampling';
+export type { CurveSamples, AdaptiveSamplingOptions } from './sampling';
+export {
+  buildContourPath,
+  contourRange,
+  describeContour,
+  isComposite,
+  pieceSpan,
+  pieceLabel,
+  pieceEnd,
+  createContourPiece,
+  contourPreset,
+  formatPoint,
+  formatAngle,
+} from './contourPath';
+export type { ContourPath, PathPiece, JoinGap, ContourPreset } from './contourPath';
+export { differentiateContour, numericDerivative } from './derivative';
+export type { ContourDerivative } from './derivative';
+export { integrateComplex } from './quadrature';
+export type { QuadratureResult } from './quadrature';
+export { computeResidues, windingNumber, polynomialRoots } from './residues';
+export { findZerosAndPoles } from './zeros';
+export { findBranchCuts } from './branchCuts';
+export { cauchyRiemannCheck } from './holomorphy';
+export { isDerivedMapping, mappedExpression } from './derivedViews';
+export { phasePortraitFromSamples, portraitPresets, matchPortraitPreset } from './phasePortrait';
+export { textureMapFromSamples } from './textureMap';
+export type { BranchCuts } from './branchCuts';
+export { computeArgumentPrinciple, countEnclosedAsync } from './argumentPrinciple';
+export { generateRiemannSurfaceData } from './riemannSurface';
+export { generateConformalGrid } from './conformalGrid';
+export { generateVectorField } from './vectorField';
+export { computeSeries, seriesCircleRadius, seriesViewExpression, seriesErrorFromSamples } from './series';
+export { generateRiemannSphere, stereographic } from './riemannSphere';
+export { analyzeMobius, applyMobius, mobiusFromPoints, mobiusExpression } from './mobius';
+export {
+  generateDomainColoringDataAsync,
+  generateSurface3DDataAsync,
+  generateDomainColoringSweepAsync,
+  generateSurface3DSweepAsync,
+  generateEscapeTimeDataAsync,
+  generateNewtonDataAsync,
+  generateSeriesDataAsync,
+  generateTextureMapDataAsync,
+  sweepValue,
+} from './asyncGenerators';
+export { sampleEscapeTime, escapeTimeFromSamples, ESCAPE_VARIABLES } from './escapeTime';
+export type { EscapeIteration } from './escapeTime';
+export { differentiateMap, findNewtonRoots, sampleNewton, newtonFromSamples, basinColorScale } from './newton';
+export type { NewtonIteration, MapDerivative } from './newton';
+export { sampleGridAsync, cancelGridJobs } from './workerPool';
+export { sampleGridProgressive, progressiveStrides } from './progressive';
+export type { GridRequest, GridSamples } from './workerPool';
+export { compileExpression, compileKernel, evaluateKernelAt } from './compiler';
+export type { ComplexKernel, KernelOptions } from './compiler';
 
 /**
  * Create a MathEngine instance that implements the MathEngine interface
@@ -54,8 +144,17 @@ function createMathEngine(): MathEngine {
      * Compute contour integral data for visualization
      * Calculates integrand vectors f(γ(t))·γ'(t) and running sum
      */
-    evaluateContourIntegral(contour: ContourEntry): ContourIntegralData | null {
-      return computeContourIntegral(contour);
+    evaluateContourIntegral(contour: ContourEntry, parameters?: ParameterValues): ContourIntegralData | null {
+      return computeContourIntegral(contour, parameters);
+    },
+
+    /**
+     * Count zeros minus poles inside a closed contour by the argument principle
+     * Returns γ, f(γ(t)) and its winding around 0 (the zero/pole search to
+     * cross-check it runs separately, in countArgumentPrincipleAsync)
+     */
+    evaluateArgumentPrinciple(contour: ContourEntry, parameters?: ParameterValues): ArgumentPrincipleData | null {
+      return computeArgumentPrinciple(contour, parameters);
     },
 
     /**
@@ -81,6 +180,150 @@ function createMathEngine(): MathEngine {
     } {
       return generateSurface3DData(config);
     },
+
+    /**
+     * Build the stitched Riemann surface of a multivalued function
+     * Returns a triangle mesh joining the sheets across their branch cuts
+     */
+    evaluateRiemannSurface(config: RiemannSurfaceConfig): RiemannSurfaceData {
+      return generateRiemannSurfaceData(config);
+    },
+
+    /**
+     * Map the lines of a Cartesian or polar grid through f
+     * Returns each line beside its image, with matching ids and colors
+     */
+    evaluateConformalGrid(config: ConformalGridConfig): ConformalGridData {
+      return generateConformalGrid(config);
+    },
+
+    /**
+     * Build the Pólya field conj(f) with streamlines through the seeds
+     * and the level curves of the complex potential
+     */
+    evaluateVectorField(config: VectorFieldConfig): VectorFieldData {
+      return generateVectorField(config);
+    },
+
+    /**
+     * Expand f in a Taylor or Laurent series about the config's center
+     * Returns the Cauchy integral coefficients and the estimated annulus of convergence
+     */
+    evaluateSeries(config: SeriesConfig): SeriesData | null {
+      return computeSeries(config);
+    },
+
+    /**
+     * Paint f on the Riemann sphere by stereographic projection
+     * Returns the sphere grid with colors, the zeros and poles and how f behaves at ∞
+     */
+    evaluateRiemannSphere(config: RiemannSphereConfig): RiemannSphereData {
+      return generateRiemannSphere(config);
+    },
+
+    /**
+     * Evaluate a domain coloring grid on the worker pool
+     * Resolves to null if a newer domain coloring request superseded this one
+     */
+    evaluateDomainColoringAsync(
+      config: DomainColoringConfig,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData | null> {
+      return generateDomainColoringDataAsync(config, options);
+    },
+
+    /**
+     * Evaluate a 3D surface grid on the worker pool
+     * Resolves to null if a newer surface request superseded this one
+     */
+    evaluateSurface3DAsync(
+      config: Surface3DConfig,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData | null> {
+      return generateSurface3DDataAsync(config, options);
+    },
+
+    /**
+     * Precompute the domain coloring frames of a parameter sweep
+     * Resolves to null if a newer sweep superseded this one
+     */
+    evaluateDomainColoringSweepAsync(
+      config: DomainColoringConfig,
+      parameter: string,
+      sweep: ParameterSweep,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData[] | null> {
+      return generateDomainColoringSweepAsync(config, parameter, sweep, options);
+    },
+
+    /**
+     * Precompute the 3D surface frames of a parameter sweep
+     * Resolves to null if a newer sweep superseded this one
+     */
+    evaluateSurface3DSweepAsync(
+      config: Surface3DConfig,
+      parameter: string,
+      sweep: ParameterSweep,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData[] | null> {
+      return generateSurface3DSweepAsync(config, parameter, sweep, options);
+    },
+
+    /**
+     * Evaluate an escape-time grid of z ↦ f(z, c) on the worker pool
+     * Resolves to null if a newer request for the same plane superseded this one
+     */
+    evaluateEscapeTimeAsync(
+      config: EscapeTimeConfig,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData | null> {
+      return generateEscapeTimeDataAsync(config, options);
+    },
+
+    /**
+     * Evaluate Newton basins of attraction on the worker pool
+     * Resolves to null if a newer request superseded this one
+     */
+    evaluateNewtonAsync(
+      config: NewtonConfig,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData | null> {
+      return generateNewtonDataAsync(config, options);
+    },
+
+    /**
+     * Evaluate a series view (f, S_N or log₁₀|f − S_N|) on the worker pool
+     * Resolves to null if a newer series request superseded this one
+     */
+    evaluateSeriesAsync(
+      config: SeriesConfig,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData | null> {
+      return generateSeriesDataAsync(config, options);
+    },
+
+    /**
+     * Pull a texture back through f on the worker pool
+     * Resolves to null if a newer texture map request superseded this one
+     */
+    evaluateTextureMapAsync(
+      config: TextureMapConfig,
+      options?: AsyncEvaluationOptions
+    ): Promise<GridPlotData | null> {
+      return generateTextureMapDataAsync(config, options);
+    },
+
+    /**
+     * Search a grid covering γ for the zeros and poles of f inside it, on the worker pool
+     * Resolves to null if a newer search superseded this one
+     */
+    countArgumentPrincipleAsync(
+      data: ArgumentPrincipleData,
+      parameters?: ParameterValues,
+      options?: AsyncEvaluationOptions
+    ): Promise<ArgumentPrincipleCount | null> {
+      return countEnclosedAsync(data, parameters, options);
+    },
   };
 }
 
@@ -0,0 +1,250 @@
+/**
+ * Möbius transformations
+ * f(z) = (az + b)/(cz + d) is handled through its matrix [[a, b], [c, d]],
+ * scaled to determinant 1. That fixes the matrix up to sign, so tr² is an
+ * invariant of f and decides how it moves points about its fixed points:
+ * rotating (elliptic), shifting (parabolic), scaling (hyperbolic) or both
+ * (loxodromic).
+ */
+
+import type {
+  ComplexPoint,
+  MobiusAnalysis,
+  MobiusClass,
+  MobiusCoefficients,
+  PointTriple,
+} from '../types';
+
+// Relative size below which a coefficient, discriminant or imaginary part counts as 0
+const TOLERANCE = 1e-9;
+
+// Significant digits of the coefficients written into f's expression
+const LITERAL_DIGITS = 6;
+
+const INFINITY: ComplexPoint = { re: Infinity, im: Infinity };
+
+function add(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  return { re: a.re + b.re, im: a.im + b.im };
+}
+
+function subtract(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  return { re: a.re - b.re, im: a.im - b.im };
+}
+
+function multiply(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+function divide(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  const denominator = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / denominator,
+    im: (a.im * b.re - a.re * b.im) / denominator,
+  };
+}
+
+function negate(a: ComplexPoint): ComplexPoint {
+  return { re: -a.re, im: -a.im };
+}
+
+/**
+ * Principal square root
+ */
+function squareRoot(a: ComplexPoint): ComplexPoint {
+  const r = Math.hypot(a.re, a.im);
+  const re = Math.sqrt((r + a.re) / 2);
+  const im = Math.sqrt(Math.max(0, (r - a.re) / 2));
+  return { re, im: a.im < 0 ? -im : im };
+}
+
+function size(a: ComplexPoint): number {
+  return Math.hypot(a.re, a.im);
+}
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+/**
+ * f(z), with f(∞) = a/c and f(−d/c) = ∞
+ */
+export function applyMobius({ a, b, c, d }: MobiusCoefficients, z: ComplexPoint): ComplexPoint {
+  if (!isFinitePoint(z)) {
+    return size(c) === 0 ? INFINITY : divide(a, c);
+  }
+  const denominator = add(multiply(c, z), d);
+  if (denominator.re === 0 && denominator.im === 0) {
+    return INFINITY;
+  }
+  return divide(add(multiply(a, z), b), denominator);
+}
+
+/**
+ * The map sending z₁, z₂, z₃ to 0, 1, ∞: (z − z₁)(z₂ − z₃) / ((z − z₃)(z₂ − z₁))
+ */
+function toStandardPoints([z1, z2, z3]: PointTriple): MobiusCoefficients {
+  const p = subtract(z2, z3);
+  const q = subtract(z2, z1);
+  return { a: p, b: negate(multiply(z1, p)), c: q, d: negate(multiply(z3, q)) };
+}
+
+/**
+ * The Möbius map sending each source point to its target
+ * @returns Coefficients scaled so that c = 1 (or d = 1 for an affine map),
+ *   or null unless both triples are finite, distinct points
+ */
+export function mobiusFromPoints(source: PointTriple, target: PointTriple): MobiusCoefficients | null {
+  const distinct = (points: PointTriple) =>
+    points.every(isFinitePoint) &&
+    points.every((p, k) => points.every((q, l) => l <= k || size(subtract(p, q)) > TOLERANCE * Math.max(1, size(p))));
+  if (!distinct(source) || !distinct(target)) {
+    return null;
+  }
+
+  // f = T⁻¹ ∘ S for the maps S and T of each triple to 0, 1, ∞ (inverse by adjugate)
+  const s = toStandardPoints(source);
+  const t = toStandardPoints(target);
+  const inverse = { a: t.d, b: negate(t.b), c: negate(t.c), d: t.a };
+  const product: MobiusCoefficients = {
+    a: add(multiply(inverse.a, s.a), multiply(inverse.b, s.c)),
+    b: add(multiply(inverse.a, s.b), multiply(inverse.b, s.d)),
+    c: add(multiply(inverse.c, s.a), multiply(inverse.d, s.c)),
+    d: add(multiply(inverse.c, s.b), multiply(inverse.d, s.d)),
+  };
+
+  const largest = Math.max(size(product.a), size(product.b), size(product.c), size(product.d));
+  const pivot = size(product.c) > TOLERANCE * largest ? product.c : product.d;
+  const scaled = (p: ComplexPoint) => {
+    const v = divide(p, pivot);
+    return size(v) < TOLERANCE ? { re: 0, im: 0 } : v;
+  };
+  return { a: scaled(product.a), b: scaled(product.b), c: scaled(product.c), d: scaled(product.d) };
+}
+
+/**
+ * A number to LITERAL_DIGITS significant digits, without trailing zeros or "-0"
+ */
+function formatNumber(value: number): string {
+  const rounded = Number(value.toPrecision(LITERAL_DIGITS));
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+/**
+ * A complex coefficient as a math.js literal: 2, -i, 1.5 + 2i
+ */
+function formatLiteral(p: ComplexPoint): string {
+  const re = formatNumber(p.re);
+  const im = formatNumber(Math.abs(p.im));
+  if (im === '0') return re;
+  const imPart = `${im === '1' ? '' : im}i`;
+  if (re === '0') return p.im < 0 ? `-${imPart}` : imPart;
+  return `${re} ${p.im < 0 ? '-' : '+'} ${imPart}`;
+}
+
+/**
+ * pz + q with the terms that vanish left out
+ */
+function formatLinear(p: ComplexPoint, q: ComplexPoint): string {
+  const constant = formatLiteral(q);
+  const slope = formatLiteral(p);
+  if (slope === '0') return constant;
+
+  let term: string;
+  if (slope === '1') term = 'z';
+  else if (slope === '-1') term = '-z';
+  else term = slope.includes(' ') ? `(${slope}) * z` : `${slope} * z`;
+
+  if (constant === '0') return term;
+  if (constant.includes(' ')) return `${term} + (${constant})`;
+  return constant.startsWith('-') ? `${term} - ${constant.slice(1)}` : `${term} + ${constant}`;
+}
+
+/**
+ * f as an expression in z
+ */
+export function mobiusExpression({ a, b, c, d }: MobiusCoefficients): string {
+  const numerator = formatLinear(a, b);
+  const denominator = formatLinear(c, d);
+  if (denominator === '1') return numerator;
+  const wrap = (text: string) => (/^[\w.]+$/.test(text) ? text : `(${text})`);
+  return `${wrap(numerator)} / ${wrap(denominator)}`;
+}
+
+/**
+ * Conjugacy class from tr² of the normalized matrix (4 for parabolic maps,
+ * in [0, 4) for elliptic ones, above 4 for hyperbolic ones)
+ */
+function classify(trace: ComplexPoint, isIdentity: boolean): MobiusClass {
+  if (isIdentity) return 'identity';
+  const t2 = multiply(trace, trace);
+  if (Math.abs(t2.im) > TOLERANCE * Math.max(1, size(t2))) return 'loxodromic';
+  if (Math.abs(t2.re - 4) <= 4 * TOLERANCE) return 'parabolic';
+  if (t2.re >= 0 && t2.re < 4) return 'elliptic';
+  return t2.re > 4 ? 'hyperbolic' : 'loxodromic';
+}
+
+/**
+ * Normalize f to SL(2,ℂ) and describe it
+ * @returns The normalized matrix, trace, fixed points, class and multiplier,
+ *   or null if ad − bc = 0 (f is constant) or a coefficient is not finite
+ */
+export function analyzeMobius(coefficients: MobiusCoefficients): MobiusAnalysis | null {
+  const { a, b, c, d } = coefficients;
+  if (![a, b, c, d].every(isFinitePoint)) {
+    return null;
+  }
+  const largest = Math.max(size(a), size(b), size(c), size(d));
+  const determinant = subtract(multiply(a, d), multiply(b, c));
+  if (!(size(determinant) > TOLERANCE * largest * largest)) {
+    return null;
+  }
+
+  // Divide by √det, choosing the sign that puts the trace in the right half-plane
+  let root = squareRoot(determinant);
+  const rawTrace = divide(add(a, d), root);
+  if (rawTrace.re < 0 || (rawTrace.re === 0 && rawTrace.im < 0)) {
+    root = negate(root);
+  }
+  const [na, nb, nc, nd] = [a, b, c, d].map((p) => divide(p, root));
+  const trace = add(na, nd);
+
+  const small = (p: ComplexPoint) => size(p) <= TOLERANCE;
+  const isIdentity = small(nb) && small(nc) && small(subtract(na, nd));
+  const classification = classify(trace, isIdentity);
+
+  // Fixed points solve cz² + (d − a)z − b = 0, whose discriminant is tr² − 4
+  const discriminant = squareRoot(subtract(multiply(trace, trace), { re: 4, im: 0 }));
+  let fixedPoints: ComplexPoint[];
+  if (isIdentity) {
+    fixedPoints = [];
+  } else if (small(nc)) {
+    // Affine: ∞ is fixed, and so is b/(d − a) unless f is a translation
+    const gap = subtract(nd, na);
+    fixedPoints = small(gap) ? [INFINITY] : [divide(nb, gap), INFINITY];
+  } else {
+    const twoC = multiply({ re: 2, im: 0 }, nc);
+    const half = subtract(na, nd);
+    fixedPoints = classification === 'parabolic'
+      ? [divide(half, twoC)]
+      : [divide(add(half, discriminant), twoC), divide(subtract(half, discriminant), twoC)];
+  }
+
+  // Eigenvalues λ, 1/λ of the matrix; f is conjugate to w ↦ λ²w (taking |λ| ≥ 1)
+  let multiplier: ComplexPoint | null = null;
+  if (classification !== 'identity' && classification !== 'parabolic') {
+    let lambda = multiply({ re: 0.5, im: 0 }, add(trace, discriminant));
+    if (size(lambda) < 1) {
+      lambda = divide({ re: 1, im: 0 }, lambda);
+    }
+    multiplier = multiply(lambda, lambda);
+  }
+
+  return {
+    matrix: [[na, nb], [nc, nd]],
+    trace,
+    fixedPoints,
+    classification,
+    multiplier,
+    expression: mobiusExpression(coefficients),
+  };
+}
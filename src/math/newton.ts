@@ -0,0 +1,282 @@
+/**
+ * Newton's method basins of attraction
+ * Relaxed Newton z ↦ z − a·f(z)/f′(z) is run from every grid point. The roots
+ * are found first from a coarse grid of seeds; every sample then records which
+ * of them its orbit converged to and after how many (smoothed) steps.
+ */
+
+import { derivative } from 'mathjs';
+import type { ComplexPoint, DerivativeMethod, GridPlotData, ZeroPole } from '../types';
+import type { ComplexKernel } from './compiler';
+import { compileKernel } from './compiler';
+import { parseExpression } from './parser';
+
+/** A Newton iteration, as sent with a grid request */
+export interface NewtonIteration {
+  kind: 'newton';
+  /** f′ as an expression, or null to difference f numerically */
+  derivative: string | null;
+  /** Relaxation factor a (1 is plain Newton) */
+  damping: number;
+  maxIterations: number;
+  /** Roots the orbits are matched against */
+  roots: ComplexPoint[];
+}
+
+/** f′(z) for a map, with the method used to obtain it */
+export interface MapDerivative {
+  method: DerivativeMethod;
+  /** The symbolic derivative, when available */
+  expression: string | null;
+}
+
+// An orbit has converged once a step is below this (relative to max(1, |z|))
+const STEP_TOLERANCE = 1e-9;
+
+// Converged points closer than this (relative to max(1, |z|)) are the same root;
+// loose enough for the slow, imprecise convergence at multiple roots
+const ROOT_TOLERANCE = 1e-4;
+
+// Seeds per axis of the grid the roots are found from
+const SEED_COUNT = 24;
+
+// Step of the central difference used when f′ has no symbolic form
+const DIFFERENCE_STEP = 1e-6;
+
+// Share of a root's color band used for shading (the rest separates the bands)
+const SHADE_SPAN = 0.95;
+
+/**
+ * Differentiate f symbolically with math.js, if it can
+ * @param expression - f(z)
+ * @param constants - Named parameter values (held constant when differentiating)
+ */
+export function differentiateMap(
+  expression: string,
+  constants: Record<string, ComplexPoint> = {}
+): MapDerivative {
+  const node = parseExpression(expression, 'z');
+  if (node) {
+    try {
+      const derivativeNode = derivative(node, 'z');
+      // Make sure the result compiles before handing it to the workers
+      compileKernel(derivativeNode, { constants });
+      return { method: 'symbolic', expression: derivativeNode.toString() };
+    } catch {
+      // Unsupported function (re, im, arg, ...): f′ is differenced instead
+    }
+  }
+  return { method: 'numeric', expression: null };
+}
+
+/**
+ * Run relaxed Newton from z₀, reusing the scratch buffers
+ */
+function newtonOrbit(
+  f: ComplexKernel,
+  df: ComplexKernel | null,
+  start: ComplexPoint,
+  damping: number,
+  maxIterations: number,
+  args: Float64Array,
+  value: Float64Array,
+  slope: Float64Array
+): { point: ComplexPoint; count: number; ratio: number } | null {
+  let zr = start.re;
+  let zi = start.im;
+  let previousStep = Infinity;
+  let lastStep = Infinity;
+
+  for (let n = 1; n <= maxIterations; n++) {
+    args[0] = zr;
+    args[1] = zi;
+    f.evaluate(args, value);
+    const fr = value[0];
+    const fi = value[1];
+
+    if (df) {
+      df.evaluate(args, slope);
+    } else {
+      const h = DIFFERENCE_STEP * Math.max(1, Math.hypot(zr, zi));
+      args[0] = zr + h;
+      f.evaluate(args, slope);
+      const ur = slope[0];
+      const ui = slope[1];
+      args[0] = zr - h;
+      f.evaluate(args, slope);
+      slope[0] = (ur - slope[0]) / (2 * h);
+      slope[1] = (ui - slope[1]) / (2 * h);
+    }
+
+    // Δ = a·f/f′
+    const d = slope[0] * slope[0] + slope[1] * slope[1];
+    const dr = (damping * (fr * slope[0] + fi * slope[1])) / d;
+    const di = (damping * (fi * slope[0] - fr * slope[1])) / d;
+    if (!isFinite(dr) || !isFinite(di)) {
+      // f is exactly zero here (0/0 only at a root) or the orbit left the domain
+      return fr === 0 && fi === 0 ? { point: { re: zr, im: zi }, count: n - 1, ratio: 0 } : null;
+    }
+
+    zr -= dr;
+    zi -= di;
+    const step = Math.hypot(dr, di);
+    const tolerance = STEP_TOLERANCE * Math.max(1, Math.hypot(zr, zi));
+    if (step < tolerance) {
+      // Interpolate between the last two steps on a log scale, so the count
+      // runs continuously instead of in bands
+      const fraction = isFinite(lastStep) && lastStep > tolerance && lastStep > step
+        ? Math.log(lastStep / tolerance) / Math.log(lastStep / step)
+        : 1;
+      return { point: { re: zr, im: zi }, count: n - 1 + fraction, ratio: lastStep / previousStep };
+    }
+    previousStep = lastStep;
+    lastStep = step;
+  }
+
+  return null;
+}
+
+function isSameRoot(a: ComplexPoint, b: ComplexPoint): boolean {
+  return Math.hypot(a.re - b.re, a.im - b.im) < ROOT_TOLERANCE * Math.max(1, Math.hypot(a.re, a.im));
+}
+
+/**
+ * Find the roots Newton's method converges to from a grid of seeds over a window
+ * @param f - Compiled f(z)
+ * @param df - Compiled f′(z), or null to difference f
+ * @param window - Window the seeds are spread over
+ * @param damping - Relaxation factor a
+ * @param maxIterations - Iteration cap per seed
+ * @returns Roots labelled Z1, Z2, … by distance from 0, with multiplicity read off
+ *   the linear convergence rate 1 − a/m
+ */
+export function findNewtonRoots(
+  f: ComplexKernel,
+  df: ComplexKernel | null,
+  window: { xMin: number; xMax: number; yMin: number; yMax: number },
+  damping: number,
+  maxIterations: number
+): ZeroPole[] {
+  const args = new Float64Array(2);
+  const value = new Float64Array(2);
+  const slope = new Float64Array(2);
+  const found: { location: ComplexPoint; multiplicity: number }[] = [];
+
+  for (let j = 0; j < SEED_COUNT; j++) {
+    for (let i = 0; i < SEED_COUNT; i++) {
+      // Cell centers, which avoids seeding on symmetry axes
+      const start = {
+        re: window.xMin + ((i + 0.5) / SEED_COUNT) * (window.xMax - window.xMin),
+        im: window.yMin + ((j + 0.5) / SEED_COUNT) * (window.yMax - window.yMin),
+      };
+      const orbit = newtonOrbit(f, df, start, damping, maxIterations, args, value, slope);
+      if (!orbit || found.some((root) => isSameRoot(root.location, orbit.point))) continue;
+
+      const multiplicity = isFinite(orbit.ratio) && orbit.ratio < 1
+        ? Math.max(1, Math.round(damping / (1 - orbit.ratio)))
+        : 1;
+      found.push({ location: orbit.point, multiplicity });
+    }
+  }
+
+  return found
+    .sort((a, b) => Math.hypot(a.location.re, a.location.im) - Math.hypot(b.location.re, b.location.im))
+    .map((root, k) => ({ label: `Z${k + 1}`, type: 'zero', ...root }));
+}
+
+/**
+ * Run Newton from every point of an x × y grid
+ * @param f - Compiled f(z)
+ * @param df - Compiled f′(z), or null to difference f
+ * @param xs - Real parts of the grid columns
+ * @param ys - Imaginary parts of the grid rows
+ * @param iteration - Roots, relaxation factor and iteration cap
+ * @returns Row-major index of the root reached in re (−1 for an unlisted one, NaN
+ *   if the orbit did not converge) and the smooth step count in im
+ */
+export function sampleNewton(
+  f: ComplexKernel,
+  df: ComplexKernel | null,
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>,
+  iteration: NewtonIteration
+): { re: Float64Array; im: Float64Array } {
+  const { damping, maxIterations, roots } = iteration;
+  const re = new Float64Array(xs.length * ys.length);
+  const im = new Float64Array(xs.length * ys.length);
+  const args = new Float64Array(2);
+  const value = new Float64Array(2);
+  const slope = new Float64Array(2);
+
+  let k = 0;
+  for (let j = 0; j < ys.length; j++) {
+    for (let i = 0; i < xs.length; i++) {
+      const orbit = newtonOrbit(f, df, { re: xs[i], im: ys[j] }, damping, maxIterations, args, value, slope);
+      if (orbit) {
+        re[k] = roots.findIndex((root) => isSameRoot(root, orbit.point));
+        im[k] = orbit.count;
+      } else {
+        re[k] = NaN;
+        im[k] = NaN;
+      }
+      k++;
+    }
+  }
+
+  return { re, im };
+}
+
+/**
+ * Colorscale giving each of `count` roots its own hue band, dark (slow) to bright (fast)
+ * @param count - Number of roots
+ * @returns Plotly colorscale over [0, 1], for colors in [0, count]
+ */
+export function basinColorScale(count: number): [number, string][] {
+  const bands = Math.max(count, 1);
+  const scale: [number, string][] = [];
+  for (let k = 0; k < bands; k++) {
+    const hue = Math.round((360 * k) / bands);
+    scale.push([k / bands, `hsl(${hue}, 70%, 8%)`]);
+    scale.push([(k + SHADE_SPAN) / bands, `hsl(${hue}, 85%, 62%)`]);
+    scale.push([(k + 1) / bands, `hsl(${hue}, 85%, 62%)`]);
+  }
+  return scale;
+}
+
+/**
+ * Map Newton samples to heatmap values
+ * @param samples - Row-major root indices (re) and step counts (im)
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param roots - The roots the indices refer to
+ * @param maxIterations - Iteration cap (the count that maps to the darkest shade)
+ * @returns Step counts in z; in colors, root index + a shade in [0, 0.95) that is
+ *   brighter for fewer steps (NaN where no listed root was reached)
+ */
+export function newtonFromSamples(
+  samples: { re: Float64Array; im: Float64Array },
+  x: number[],
+  y: number[],
+  roots: ZeroPole[],
+  maxIterations: number
+): GridPlotData {
+  const z: number[][] = [];
+  const colors: number[][] = [];
+  const logCap = Math.log1p(maxIterations);
+
+  for (let j = 0; j < y.length; j++) {
+    const zRow: number[] = [];
+    const colorRow: number[] = [];
+    for (let i = 0; i < x.length; i++) {
+      const k = j * x.length + i;
+      const index = samples.re[k];
+      const count = samples.im[k];
+      zRow.push(count);
+      colorRow.push(index >= 0 ? index + SHADE_SPAN * (1 - Math.min(Math.log1p(count) / logCap, 1)) : NaN);
+    }
+    z.push(zRow);
+    colors.push(colorRow);
+  }
+
+  return { x, y, z, colors, zerosAndPoles: roots };
+}
@@ -3,7 +3,7 @@
  * Handles complex number expressions with variables z and t
  */
 
-import { parse, compile } from 'mathjs';
+import { parse, compile, evaluate, isComplex, isFunctionNode, isSymbolNode } from 'mathjs';
 import type { MathNode, EvalFunction } from 'mathjs';
 
 export interface ParsedExpression {
@@ -73,3 +73,42 @@ export function isValidExpression(expr: string): boolean {
   }
 }
 
+
+/**
+ * Whether a name already means something to math.js (a built-in function or
+ * numeric constant such as pi, i or phi). Units (m, s, g, …) do not count, so
+ * those names are free for parameters.
+ * @param name - The identifier
+ */
+export function isBuiltinSymbol(name: string): boolean {
+  try {
+    const value = evaluate(name);
+    return typeof value === 'function' || typeof value === 'number' || isComplex(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the identifiers in an expression that nothing defines
+ * @param expr - The expression string
+ * @param known - Names in scope besides the built-ins (variables and parameters)
+ * @returns Undefined names in order of first use (empty if the expression does not parse)
+ */
+export function findUndefinedSymbols(expr: string, known: string[]): string[] {
+  let node: MathNode;
+  try {
+    node = parse(expr);
+  } catch {
+    return [];
+  }
+
+  const names = new Set<string>();
+  node.traverse((child, path, parent) => {
+    // Skip the name of a called function (sin in sin(z))
+    if (isSymbolNode(child) && !(path === 'fn' && isFunctionNode(parent))) {
+      names.add(child.name);
+    }
+  });
+  return [...names].filter((name) => !known.includes(name) && !isBuiltinSymbol(name));
+}
@@ -0,0 +1,153 @@
+/**
+ * Phase portraits
+ * Every point is colored by the phase of f there: the hue runs red, yellow,
+ * green, cyan, blue, magenta as arg f turns once around, so each zero or pole
+ * shows as a point where all colors meet (counterclockwise in this order for a
+ * zero, clockwise for a pole). The brightness can carry |f| as well, and lines
+ * of constant phase or modulus or a checkerboard of Re f and Im f can be laid
+ * over it. The presets follow the enhanced phase portraits of E. Wegert,
+ * Visual Complex Functions (2012).
+ */
+
+import type { PortraitOptions, PortraitPreset } from '../types';
+import type { GridSamples } from './workerPool';
+
+// Isochromatic lines per turn of arg f
+const PHASE_LINES = 12;
+
+// Step of log|f| between iso-modulus lines and sawtooth ramps; 2π/12 makes the
+// cells between them and the isochromatic lines conformal squares
+const MODULUS_STEP = (2 * Math.PI) / PHASE_LINES;
+
+// Brightness at the foot of each sawtooth ramp (the top is 1)
+const SAWTOOTH_FLOOR = 0.6;
+
+// Side of the checkerboard squares in the w-plane
+const CHECKER_SIZE = 0.5;
+
+// Brightness factors of the contour lines and of the dark checkerboard squares
+const LINE_SHADE = 0.35;
+const CHECKER_SHADE = 0.75;
+
+export const portraitPresets: Record<PortraitPreset, PortraitOptions> = {
+  phase: { lightness: 'flat', isochromatic: false, isoModulus: false, checker: false },
+  modulus: { lightness: 'sawtooth', isochromatic: false, isoModulus: false, checker: false },
+  polar: { lightness: 'sawtooth', isochromatic: true, isoModulus: true, checker: false },
+  cartesian: { lightness: 'flat', isochromatic: false, isoModulus: false, checker: true },
+  classic: { lightness: 'smooth', isochromatic: false, isoModulus: false, checker: false },
+};
+
+/**
+ * The preset with exactly these options, if any
+ */
+export function matchPortraitPreset(options: PortraitOptions): PortraitPreset | null {
+  const presets = Object.keys(portraitPresets) as PortraitPreset[];
+  return presets.find((preset) => {
+    const candidate = portraitPresets[preset];
+    return (Object.keys(candidate) as (keyof PortraitOptions)[]).every((key) => candidate[key] === options[key]);
+  }) ?? null;
+}
+
+/**
+ * RGB (0 to 1) of a hue (in turns) at full saturation, scaled to a brightness
+ */
+function hueToRgb(hue: number, value: number): [number, number, number] {
+  const channel = (n: number) => {
+    const k = (n + hue * 6) % 6;
+    return value * (1 - Math.max(0, Math.min(k, 4 - k, 1)));
+  };
+  return [channel(5), channel(3), channel(1)];
+}
+
+/**
+ * RGB (0 to 1) of a hue (in turns) at full saturation and the given HSL lightness
+ */
+function hueToRgbLightness(hue: number, lightness: number): [number, number, number] {
+  const chroma = 1 - Math.abs(2 * lightness - 1);
+  const [r, g, b] = hueToRgb(hue, 1);
+  const base = lightness - chroma / 2;
+  return [base + chroma * r, base + chroma * g, base + chroma * b];
+}
+
+/**
+ * Whether a level set crosses between sample k and its right or upper neighbor
+ */
+function crossesLine(levels: Float64Array, k: number, width: number, height: number): boolean {
+  const level = Math.floor(levels[k]);
+  if (Number.isNaN(level)) return false;
+  const neighbors = [];
+  if ((k % width) + 1 < width) neighbors.push(k + 1);
+  if (k + width < width * height) neighbors.push(k + width);
+  return neighbors.some((n) => !Number.isNaN(levels[n]) && Math.floor(levels[n]) !== level);
+}
+
+/**
+ * Color grid samples of f as a phase portrait
+ * @param samples - Row-major samples of f (y.length × x.length)
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param options - Lightness and overlays
+ * @returns RGBA pixel rows (transparent where f is undefined, white where it is infinite)
+ */
+export function phasePortraitFromSamples(
+  samples: GridSamples,
+  x: number[],
+  y: number[],
+  options: PortraitOptions
+): number[][][] {
+  const width = x.length;
+  const height = y.length;
+  const { re, im } = samples;
+
+  // arg f in twelfths of a turn, from 0, and log|f| in steps of MODULUS_STEP
+  const phaseLevels = new Float64Array(width * height);
+  const modulusLevels = new Float64Array(width * height);
+  for (let k = 0; k < width * height; k++) {
+    const turn = Math.atan2(im[k], re[k]) / (2 * Math.PI);
+    phaseLevels[k] = PHASE_LINES * (turn < 0 ? turn + 1 : turn);
+    modulusLevels[k] = Math.log(Math.hypot(re[k], im[k])) / MODULUS_STEP;
+  }
+
+  const image: number[][][] = [];
+  for (let j = 0; j < height; j++) {
+    const row: number[][] = [];
+    for (let i = 0; i < width; i++) {
+      const k = j * width + i;
+      if (Number.isNaN(re[k]) || Number.isNaN(im[k])) {
+        row.push([0, 0, 0, 0]);
+        continue;
+      }
+      if (!isFinite(re[k]) || !isFinite(im[k])) {
+        row.push([255, 255, 255, 1]);
+        continue;
+      }
+
+      const hue = phaseLevels[k] / PHASE_LINES;
+      let rgb: [number, number, number];
+      if (options.lightness === 'smooth') {
+        rgb = hueToRgbLightness(hue, (2 / Math.PI) * Math.atan(Math.hypot(re[k], im[k])));
+      } else if (options.lightness === 'sawtooth' && isFinite(modulusLevels[k])) {
+        const ramp = modulusLevels[k] - Math.floor(modulusLevels[k]);
+        rgb = hueToRgb(hue, SAWTOOTH_FLOOR + (1 - SAWTOOTH_FLOOR) * ramp);
+      } else {
+        rgb = hueToRgb(hue, 1);
+      }
+
+      let shade = 1;
+      if (options.checker) {
+        const cell = Math.floor(re[k] / CHECKER_SIZE) + Math.floor(im[k] / CHECKER_SIZE);
+        if (cell % 2 !== 0) shade *= CHECKER_SHADE;
+      }
+      if (
+        (options.isochromatic && crossesLine(phaseLevels, k, width, height)) ||
+        (options.isoModulus && crossesLine(modulusLevels, k, width, height))
+      ) {
+        shade *= LINE_SHADE;
+      }
+
+      row.push([...rgb.map((c) => Math.round(255 * c * shade)), 1]);
+    }
+    image.push(row);
+  }
+  return image;
+}
@@ -0,0 +1,137 @@
+/**
+ * Progressive coarse-to-fine grid sampling
+ * Samples a grid in passes of increasing density (e.g. 64 → 256 → target)
+ * on the worker pool. Each pass is a strided subset of the full grid that
+ * contains every earlier pass, so samples are computed once and reused.
+ */
+
+import type { GridJobOptions, GridRequest, GridSamples } from './workerPool';
+import { sampleGridAsync } from './workerPool';
+
+/** Approximate samples per axis of the first (coarsest) pass */
+const COARSE_SAMPLES = 64;
+
+/** One finished pass: the full-grid rows/columns it covers and their samples */
+export interface GridPass {
+  rows: number[];
+  cols: number[];
+  /** Row-major samples on rows × cols */
+  samples: GridSamples;
+}
+
+export interface ProgressiveGridOptions extends GridJobOptions {
+  /** Called after every pass except the last (whose samples are the resolved result) */
+  onPass?: (pass: GridPass) => void;
+}
+
+/**
+ * Strides for the passes over an axis of `resolution` points.
+ * Strides are powers of two, each a divisor of the one before, ending at 1.
+ * @param resolution - Target number of points along the axis
+ * @returns Strides from coarsest to finest
+ */
+export function progressiveStrides(resolution: number): number[] {
+  const strides: number[] = [];
+  let stride = 2 ** Math.floor(Math.log2(Math.max((resolution - 1) / (COARSE_SAMPLES - 1), 1)));
+  while (stride > 1) {
+    strides.push(stride);
+    stride = Math.max(Math.floor(stride / 4), 1);
+  }
+  strides.push(1);
+  return strides;
+}
+
+/**
+ * Indices of an axis sampled at a given stride (always including both ends)
+ */
+export function strideIndices(length: number, stride: number): number[] {
+  const indices: number[] = [];
+  for (let k = 0; k < length - 1; k += stride) {
+    indices.push(k);
+  }
+  if (length > 0) {
+    indices.push(length - 1);
+  }
+  return indices;
+}
+
+function pick(values: Float64Array, indices: number[]): Float64Array {
+  return Float64Array.from(indices, (k) => values[k]);
+}
+
+/**
+ * Sample f over a grid in coarse-to-fine passes
+ * @param request - Expression and full-resolution grid axes
+ * @param options - Channel, progress/pass callbacks and abort signal
+ * @returns The full-resolution samples, or null if cancelled or superseded
+ */
+export async function sampleGridProgressive(
+  request: GridRequest,
+  options: ProgressiveGridOptions
+): Promise<GridSamples | null> {
+  const { onPass, onProgress, ...jobOptions } = options;
+  const { xs, ys } = request;
+  const width = xs.length;
+  const height = ys.length;
+  const re = new Float64Array(width * height);
+  const im = new Float64Array(width * height);
+
+  const strides = progressiveStrides(Math.max(width, height));
+  const total = width * height;
+  let done = 0;
+  let prevRows: number[] = [];
+  let prevCols: number[] = [];
+
+  for (const stride of strides) {
+    const rows = strideIndices(height, stride);
+    const cols = strideIndices(width, stride);
+    const oldRows = new Set(prevRows);
+    const oldCols = new Set(prevCols);
+
+    // Only the samples missing from earlier passes: new rows in full, then new columns of old rows
+    const blocks = [
+      { rows: rows.filter((r) => !oldRows.has(r)), cols },
+      { rows: prevRows, cols: cols.filter((c) => !oldCols.has(c)) },
+    ].filter((block) => block.rows.length > 0 && block.cols.length > 0);
+
+    for (const block of blocks) {
+      const size = block.rows.length * block.cols.length;
+      const samples = await sampleGridAsync(
+        { ...request, xs: pick(xs, block.cols), ys: pick(ys, block.rows) },
+        { ...jobOptions, onProgress: (fraction) => onProgress?.((done + fraction * size) / total) }
+      );
+      if (!samples || jobOptions.signal?.aborted) {
+        return null;
+      }
+
+      let k = 0;
+      for (const r of block.rows) {
+        for (const c of block.cols) {
+          re[r * width + c] = samples.re[k];
+          im[r * width + c] = samples.im[k];
+          k++;
+        }
+      }
+      done += size;
+    }
+
+    if (stride > 1) {
+      const passRe = new Float64Array(rows.length * cols.length);
+      const passIm = new Float64Array(rows.length * cols.length);
+      let k = 0;
+      for (const r of rows) {
+        for (const c of cols) {
+          passRe[k] = re[r * width + c];
+          passIm[k] = im[r * width + c];
+          k++;
+        }
+      }
+      onPass?.({ rows, cols, samples: { re: passRe, im: passIm } });
+    }
+
+    prevRows = rows;
+    prevCols = cols;
+  }
+
+  return { re, im };
+}
@@ -0,0 +1,319 @@
+/**
+ * Quadrature rules for complex-valued integrands g(t) on [a, b]
+ * Trapezoid, Simpson, composite Gauss–Legendre and adaptive Gauss–Kronrod,
+ * each returning its nodes (for visualization), an error estimate and the
+ * number of integrand evaluations used
+ */
+
+import type { ComplexPoint, QuadratureRule } from '../types';
+
+export interface QuadratureResult {
+  /** Nodes in increasing t order, with their weights and integrand values */
+  nodes: number[];
+  weights: number[];
+  values: ComplexPoint[];
+  value: ComplexPoint;
+  /** Estimated absolute error (Infinity if the integrand was undefined at a node) */
+  error: number;
+  evaluations: number;
+}
+
+interface WeightedNodes {
+  nodes: number[];
+  weights: number[];
+}
+
+// Points per panel of the composite Gauss–Legendre rule
+const GAUSS_LEGENDRE_ORDER = 8;
+
+// Adaptive Gauss–Kronrod: starting panels, panel budget and relative tolerance
+const KRONROD_INITIAL_PANELS = 4;
+const KRONROD_MAX_PANELS = 200;
+const KRONROD_TOLERANCE = 1e-10;
+
+// 15-point Kronrod nodes on [0, 1) (mirrored for the negative half) and weights;
+// the odd-indexed nodes are the 7-point Gauss nodes
+const KRONROD_NODES = [
+  0.9914553711208126, 0.9491079123427585,
+  0.8648644233597691, 0.7415311855993945,
+  0.5860872354676911, 0.4058451513773972,
+  0.20778495500789848, 0,
+];
+const KRONROD_WEIGHTS = [
+  0.022935322010529224, 0.06309209262997856,
+  0.10479001032225019, 0.14065325971552592,
+  0.1690047266392679, 0.19035057806478542,
+  0.20443294007529889, 0.20948214108472782,
+];
+const GAUSS7_WEIGHTS = [
+  0.1294849661688697, 0.27970539148927664,
+  0.3818300505051189, 0.4179591836734694,
+];
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+/**
+ * Gauss–Legendre nodes and weights on [-1, 1] (Newton iteration on P_n)
+ */
+function gaussLegendre(n: number): WeightedNodes {
+  const nodes = new Array<number>(n);
+  const weights = new Array<number>(n);
+
+  for (let i = 0; i < Math.ceil(n / 2); i++) {
+    let x = Math.cos((Math.PI * (i + 0.75)) / (n + 0.5));
+    let derivative = 0;
+    for (let iter = 0; iter < 100; iter++) {
+      // Recurrence for P_n(x) and P_n'(x)
+      let p0 = 1;
+      let p1 = x;
+      for (let k = 2; k <= n; k++) {
+        const p2 = ((2 * k - 1) * x * p1 - (k - 1) * p0) / k;
+        p0 = p1;
+        p1 = p2;
+      }
+      derivative = (n * (x * p1 - p0)) / (x * x - 1);
+      const dx = p1 / derivative;
+      x -= dx;
+      if (Math.abs(dx) < 1e-15) break;
+    }
+    const weight = 2 / ((1 - x * x) * derivative * derivative);
+    nodes[i] = -x;
+    nodes[n - 1 - i] = x;
+    weights[i] = weight;
+    weights[n - 1 - i] = weight;
+  }
+
+  return { nodes, weights };
+}
+
+const GAUSS_LEGENDRE = gaussLegendre(GAUSS_LEGENDRE_ORDER);
+
+/**
+ * Evaluates g at nodes, counting calls and caching by t so coarse and fine
+ * estimates share samples
+ */
+function createSampler(g: (t: number) => ComplexPoint) {
+  const cache = new Map<number, ComplexPoint>();
+  return {
+    sample(t: number): ComplexPoint {
+      let value = cache.get(t);
+      if (!value) {
+        value = g(t);
+        cache.set(t, value);
+      }
+      return value;
+    },
+    get evaluations() {
+      return cache.size;
+    },
+  };
+}
+
+/**
+ * Σ w_k g(t_k), skipping undefined values
+ */
+function weightedSum(rule: WeightedNodes, sample: (t: number) => ComplexPoint): ComplexPoint {
+  let re = 0;
+  let im = 0;
+  rule.nodes.forEach((t, k) => {
+    const value = sample(t);
+    if (isFinitePoint(value)) {
+      re += rule.weights[k] * value.re;
+      im += rule.weights[k] * value.im;
+    }
+  });
+  return { re, im };
+}
+
+/**
+ * Composite Newton–Cotes weights on `intervals` equal intervals of [a, b]
+ * @param pattern - Interior weight pattern (repeats), in units of h
+ * @param end - Weight of the two end nodes, in units of h
+ */
+function newtonCotes(a: number, b: number, intervals: number, pattern: number[], end: number): WeightedNodes {
+  const h = (b - a) / intervals;
+  const nodes: number[] = [];
+  const weights: number[] = [];
+  for (let k = 0; k <= intervals; k++) {
+    nodes.push(a + k * h);
+    weights.push(h * (k === 0 || k === intervals ? end : pattern[(k - 1) % pattern.length]));
+  }
+  return { nodes, weights };
+}
+
+const trapezoidRule = (a: number, b: number, intervals: number) => newtonCotes(a, b, intervals, [1], 1 / 2);
+const simpsonRule = (a: number, b: number, intervals: number) => newtonCotes(a, b, intervals, [4 / 3, 2 / 3], 1 / 3);
+
+/**
+ * Map a rule on [-1, 1] onto `panels` equal panels of [a, b]
+ */
+function compositeRule(rule: WeightedNodes, a: number, b: number, panels: number): WeightedNodes {
+  const width = (b - a) / panels;
+  const nodes: number[] = [];
+  const weights: number[] = [];
+  for (let p = 0; p < panels; p++) {
+    const mid = a + (p + 0.5) * width;
+    rule.nodes.forEach((x, k) => {
+      nodes.push(mid + (x * width) / 2);
+      weights.push((rule.weights[k] * width) / 2);
+    });
+  }
+  return { nodes, weights };
+}
+
+interface KronrodPanel {
+  a: number;
+  b: number;
+  value: ComplexPoint;
+  error: number;
+}
+
+/**
+ * Kronrod nodes/weights of a panel, in increasing t order
+ */
+function kronrodRule(a: number, b: number): WeightedNodes & { gaussWeights: number[] } {
+  const mid = (a + b) / 2;
+  const half = (b - a) / 2;
+  const nodes: number[] = [];
+  const weights: number[] = [];
+  const gaussWeights: number[] = [];
+
+  for (let k = 0; k < KRONROD_NODES.length; k++) {
+    nodes.push(mid - half * KRONROD_NODES[k]);
+    weights.push(half * KRONROD_WEIGHTS[k]);
+    gaussWeights.push(k % 2 === 1 ? half * GAUSS7_WEIGHTS[(k - 1) / 2] : 0);
+  }
+  for (let k = KRONROD_NODES.length - 2; k >= 0; k--) {
+    nodes.push(mid + half * KRONROD_NODES[k]);
+    weights.push(half * KRONROD_WEIGHTS[k]);
+    gaussWeights.push(k % 2 === 1 ? half * GAUSS7_WEIGHTS[(k - 1) / 2] : 0);
+  }
+
+  return { nodes, weights, gaussWeights };
+}
+
+function integrateKronrod(
+  sample: (t: number) => ComplexPoint,
+  a: number,
+  b: number
+): { panels: KronrodPanel[]; rules: WeightedNodes[] } {
+  const evaluatePanel = (pa: number, pb: number): KronrodPanel => {
+    const rule = kronrodRule(pa, pb);
+    const kronrod = weightedSum(rule, sample);
+    const gauss = weightedSum({ nodes: rule.nodes, weights: rule.gaussWeights }, sample);
+    return { a: pa, b: pb, value: kronrod, error: Math.hypot(kronrod.re - gauss.re, kronrod.im - gauss.im) };
+  };
+
+  const width = (b - a) / KRONROD_INITIAL_PANELS;
+  const panels = Array.from({ length: KRONROD_INITIAL_PANELS }, (_, p) =>
+    evaluatePanel(a + p * width, p === KRONROD_INITIAL_PANELS - 1 ? b : a + (p + 1) * width)
+  );
+
+  // Globally adaptive: keep bisecting the panel with the largest error
+  while (panels.length < KRONROD_MAX_PANELS) {
+    let totalError = 0;
+    let re = 0;
+    let im = 0;
+    let worst = 0;
+    panels.forEach((panel, p) => {
+      totalError += panel.error;
+      re += panel.value.re;
+      im += panel.value.im;
+      if (panel.error > panels[worst].error) worst = p;
+    });
+    if (!(totalError > KRONROD_TOLERANCE * Math.max(Math.hypot(re, im), 1))) break;
+
+    const { a: pa, b: pb } = panels[worst];
+    const mid = (pa + pb) / 2;
+    panels.splice(worst, 1, evaluatePanel(pa, mid), evaluatePanel(mid, pb));
+  }
+
+  return { panels, rules: panels.map((panel) => kronrodRule(panel.a, panel.b)) };
+}
+
+/**
+ * Integrate a complex-valued g(t) over [a, b]
+ * @param g - The integrand (NaN parts where undefined; such nodes are skipped)
+ * @param a - Lower limit
+ * @param b - Upper limit
+ * @param rule - Quadrature rule
+ * @param steps - Approximate number of nodes (fixed rules) / hint for adaptive rules
+ * @returns Nodes, weights and values, with the integral, error estimate and evaluation count
+ */
+export function integrateComplex(
+  g: (t: number) => ComplexPoint,
+  a: number,
+  b: number,
+  rule: QuadratureRule,
+  steps: number
+): QuadratureResult {
+  const sampler = createSampler(g);
+  const sample = (t: number) => sampler.sample(t);
+
+  let fine: WeightedNodes;
+  let value: ComplexPoint;
+  let error: number;
+
+  switch (rule) {
+    case 'gaussKronrod': {
+      const { panels, rules } = integrateKronrod(sample, a, b);
+      fine = {
+        nodes: rules.flatMap((r) => r.nodes),
+        weights: rules.flatMap((r) => r.weights),
+      };
+      value = panels.reduce(
+        (sum, panel) => ({ re: sum.re + panel.value.re, im: sum.im + panel.value.im }),
+        { re: 0, im: 0 }
+      );
+      error = panels.reduce((sum, panel) => sum + panel.error, 0);
+      break;
+    }
+
+    case 'gaussLegendre': {
+      // Error estimated against the same rule on half as many panels
+      const panels = 2 * Math.max(1, Math.ceil(steps / GAUSS_LEGENDRE_ORDER / 2));
+      fine = compositeRule(GAUSS_LEGENDRE, a, b, panels);
+      value = weightedSum(fine, sample);
+      const coarse = weightedSum(compositeRule(GAUSS_LEGENDRE, a, b, panels / 2), sample);
+      error = Math.hypot(value.re - coarse.re, value.im - coarse.im);
+      break;
+    }
+
+    case 'simpson': {
+      // Richardson estimate against Simpson with step 2h (intervals a multiple of 4)
+      const intervals = 4 * Math.max(1, Math.ceil((steps - 1) / 4));
+      fine = simpsonRule(a, b, intervals);
+      value = weightedSum(fine, sample);
+      const coarse = weightedSum(simpsonRule(a, b, intervals / 2), sample);
+      error = Math.hypot(value.re - coarse.re, value.im - coarse.im) / 15;
+      break;
+    }
+
+    case 'trapezoid':
+    default: {
+      // Richardson estimate against the trapezoid rule with step 2h
+      const intervals = 2 * Math.max(1, Math.ceil((steps - 1) / 2));
+      fine = trapezoidRule(a, b, intervals);
+      value = weightedSum(fine, sample);
+      const coarse = weightedSum(trapezoidRule(a, b, intervals / 2), sample);
+      error = Math.hypot(value.re - coarse.re, value.im - coarse.im) / 3;
+      break;
+    }
+  }
+
+  const values = fine.nodes.map(sample);
+  if (!values.every(isFinitePoint)) {
+    error = Infinity;
+  }
+
+  return {
+    nodes: fine.nodes,
+    weights: fine.weights,
+    values,
+    value,
+    error,
+    evaluations: sampler.evaluations,
+  };
+}
@@ -0,0 +1,390 @@
+/**
+ * Residue calculator
+ * Finds the poles of f inside a closed contour (from the denominator of
+ * rational expressions, otherwise numerically), estimates each pole's order
+ * and residue on a small circle, and sums 2πi·Σ n(γ, a)·Res(f, a) so the
+ * result can be checked against the numeric contour integral
+ */
+
+import { parse, rationalize } from 'mathjs';
+import type { MathNode } from 'mathjs';
+import type { ComplexPoint, PoleInfo, ResidueData } from '../types';
+import type { ComplexKernel } from './compiler';
+import { evaluateKernelAt } from './compiler';
+import { sampleGrid, linspace } from './generators';
+
+// Samples per axis of the grid scanned for numeric poles
+const POLE_GRID_SIZE = 96;
+
+// |f| must exceed this multiple of its median over the grid to be a pole candidate
+const POLE_PEAK_FACTOR = 10;
+
+// Newton iterations when refining a numeric pole
+const MAX_POLE_ITERATIONS = 80;
+
+// Ratio of successive Newton steps above which convergence counts as linear,
+// and the highest order of u = g/g′ the steps are then scaled by
+const MIN_LINEAR_RATIO = 0.3;
+const MAX_POLE_MULTIPLICITY = 8;
+
+// Samples on the circle used for a pole's order and residue
+const CIRCLE_SAMPLES = 128;
+
+// Poles closer than this fraction of the contour's extent are merged
+const MERGE_FRACTION = 1e-6;
+
+/** Detailed result of math.js rationalize (its typings omit the numerator/denominator) */
+interface RationalForm {
+  variables: string[];
+  coefficients: number[];
+  denominator?: MathNode;
+}
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+function multiply(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+function divide(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  const denominator = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / denominator,
+    im: (a.im * b.re - a.re * b.im) / denominator,
+  };
+}
+
+function distance(a: ComplexPoint, b: ComplexPoint): number {
+  return Math.hypot(a.re - b.re, a.im - b.im);
+}
+
+/**
+ * Winding number of a closed polygon around a point
+ * @param polygon - Vertices of the closed curve (first and last may coincide)
+ * @param p - The point
+ * @returns The (rounded) number of counter-clockwise turns around p
+ */
+export function windingNumber(polygon: ComplexPoint[], p: ComplexPoint): number {
+  let total = 0;
+  for (let k = 0; k < polygon.length; k++) {
+    const a = polygon[k];
+    const b = polygon[(k + 1) % polygon.length];
+    const ax = a.re - p.re, ay = a.im - p.im;
+    const bx = b.re - p.re, by = b.im - p.im;
+    total += Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+  }
+  return Math.round(total / (2 * Math.PI));
+}
+
+/**
+ * Roots of a real polynomial (Durand–Kerner iteration)
+ * @param coefficients - Coefficients in ascending order of degree
+ * @returns The complex roots, repeated according to multiplicity
+ */
+export function polynomialRoots(coefficients: number[]): ComplexPoint[] {
+  const coeffs = [...coefficients];
+  while (coeffs.length > 0 && coeffs[coeffs.length - 1] === 0) {
+    coeffs.pop();
+  }
+  const degree = coeffs.length - 1;
+  if (degree < 1) {
+    return [];
+  }
+
+  // Monic, descending order
+  const lead = coeffs[degree];
+  const monic = coeffs.map((c) => c / lead).reverse();
+  const evaluate = (z: ComplexPoint): ComplexPoint => {
+    let result: ComplexPoint = { re: 1, im: 0 };
+    for (let k = 1; k <= degree; k++) {
+      result = multiply(result, z);
+      result.re += monic[k];
+    }
+    return result;
+  };
+
+  const seed = { re: 0.4, im: 0.9 };
+  const roots: ComplexPoint[] = [];
+  let power: ComplexPoint = { re: 1, im: 0 };
+  for (let k = 0; k < degree; k++) {
+    roots.push(power);
+    power = multiply(power, seed);
+  }
+
+  for (let iter = 0; iter < 500; iter++) {
+    let maxStep = 0;
+    for (let k = 0; k < degree; k++) {
+      let denominator: ComplexPoint = { re: 1, im: 0 };
+      for (let j = 0; j < degree; j++) {
+        if (j !== k) {
+          denominator = multiply(denominator, { re: roots[k].re - roots[j].re, im: roots[k].im - roots[j].im });
+        }
+      }
+      const step = divide(evaluate(roots[k]), denominator);
+      if (!isFinitePoint(step)) continue;
+      roots[k] = { re: roots[k].re - step.re, im: roots[k].im - step.im };
+      maxStep = Math.max(maxStep, Math.hypot(step.re, step.im));
+    }
+    if (maxStep < 1e-14) break;
+  }
+
+  return roots;
+}
+
+/**
+ * Candidate poles of a rational f(z) from the roots of its denominator
+ * @returns Candidate locations, or null if f is not a rational function of z alone
+ */
+function findRationalPoles(expression: string): ComplexPoint[] | null {
+  try {
+    const rational = rationalize(parse(expression), {}, true) as unknown as RationalForm;
+    if (rational.variables.some((name) => name !== 'z')) {
+      return null;
+    }
+    if (!rational.denominator) {
+      return [];
+    }
+    const denominator = rationalize(rational.denominator, {}, true) as unknown as RationalForm;
+    return polynomialRoots(denominator.coefficients);
+  } catch {
+    // Not rational (exp, sin, ...) or has non-real constants
+    return null;
+  }
+}
+
+/**
+ * Candidate poles found numerically: peaks of |f| over a grid covering the
+ * contour, refined by Newton's method on the Newton step of g = 1/f. The step
+ * u = g/g′ has a simple zero wherever g has a zero of any multiplicity, so
+ * this converges fast at poles of every order (where Newton on g itself
+ * only crawls). At essential singularities u can still vanish to a higher
+ * order (u = z² for exp(1/z)); the steps then shrink by a steady ratio, from
+ * which that order is estimated and the step scaled by it, as `refine` does
+ * in zeros.ts. Peaks that do not converge are dropped.
+ */
+function findNumericPoles(
+  kernel: ComplexKernel,
+  min: ComplexPoint,
+  max: ComplexPoint,
+  scale: number
+): ComplexPoint[] {
+  const xs = linspace(min.re, max.re, POLE_GRID_SIZE);
+  const ys = linspace(min.im, max.im, POLE_GRID_SIZE);
+  const samples = sampleGrid(kernel, xs, ys);
+  const modulus = Array.from(samples.re, (re, k) => Math.hypot(re, samples.im[k]));
+
+  const finiteModuli = modulus.filter(isFinite).sort((a, b) => a - b);
+  const threshold = POLE_PEAK_FACTOR * (finiteModuli[Math.floor(finiteModuli.length / 2)] ?? 0);
+
+  const candidates: ComplexPoint[] = [];
+  for (let j = 0; j < POLE_GRID_SIZE; j++) {
+    for (let i = 0; i < POLE_GRID_SIZE; i++) {
+      const value = modulus[j * POLE_GRID_SIZE + i];
+      let isPeak = !isFinite(value) || value > threshold;
+      for (let dj = -1; dj <= 1 && isPeak; dj++) {
+        for (let di = -1; di <= 1 && isPeak; di++) {
+          const ii = i + di;
+          const jj = j + dj;
+          if ((di || dj) && ii >= 0 && jj >= 0 && ii < POLE_GRID_SIZE && jj < POLE_GRID_SIZE) {
+            const neighbour = modulus[jj * POLE_GRID_SIZE + ii];
+            isPeak = isFinite(value) ? !(neighbour > value) && isFinite(neighbour) : true;
+          }
+        }
+      }
+      if (isPeak) {
+        candidates.push({ re: xs[i], im: ys[j] });
+      }
+    }
+  }
+
+  // Refine each peak as a zero of u = g/g′, with g = 1/f
+  const h = scale * 1e-7;
+  const g = (z: ComplexPoint): ComplexPoint => divide({ re: 1, im: 0 }, evaluateKernelAt(kernel, z));
+  const derivative = (fn: (z: ComplexPoint) => ComplexPoint, z: ComplexPoint, step: number): ComplexPoint => {
+    const plus = fn({ re: z.re + step, im: z.im });
+    const minus = fn({ re: z.re - step, im: z.im });
+    return { re: (plus.re - minus.re) / (2 * step), im: (plus.im - minus.im) / (2 * step) };
+  };
+  // Difference steps stay well inside the distance to the pole (about |u| times its order)
+  // so they cannot reach it, but above rounding at z
+  const stepNear = (z: ComplexPoint, size: number) =>
+    Math.max(Math.min(h, size / 10), Number.EPSILON * 16 * Math.max(1, Math.hypot(z.re, z.im)));
+
+  return candidates.flatMap((start) => {
+    let z = start;
+    let size = h * 10;
+    let multiplicity = 1; // Order of the zero of u the steps are scaled by
+    let previous = Infinity; // Length of the previous raw Newton step
+    for (let iter = 0; iter < MAX_POLE_ITERATIONS; iter++) {
+      if (!isFinitePoint(evaluateKernelAt(kernel, z))) {
+        // f is infinite/undefined exactly here
+        return [z];
+      }
+      const step = stepNear(z, size);
+      const u = (w: ComplexPoint) => divide(g(w), derivative(g, w, step));
+      const value = u(z);
+      if (!isFinitePoint(value)) {
+        break;
+      }
+      size = Math.hypot(value.re, value.im);
+      if (size === 0) {
+        return [z];
+      }
+      const delta = divide(value, derivative(u, z, stepNear(z, size)));
+      if (!isFinitePoint(delta)) {
+        break;
+      }
+      // A step of m·δ at a zero of order n shrinks the next δ by 1 − m/n
+      const length = Math.hypot(delta.re, delta.im);
+      const ratio = length / previous;
+      if (ratio > MIN_LINEAR_RATIO && ratio < 1) {
+        multiplicity = Math.min(MAX_POLE_MULTIPLICITY, Math.max(1, Math.round(multiplicity / (1 - ratio))));
+      }
+      previous = length;
+      z = { re: z.re - multiplicity * delta.re, im: z.im - multiplicity * delta.im };
+      if (multiplicity * length < scale * 1e-12) {
+        return [z];
+      }
+    }
+    // Never report the grid sample itself as a pole
+    return [];
+  });
+}
+
+/**
+ * Merge candidates closer than `tolerance`
+ */
+function mergeCandidates(candidates: ComplexPoint[], tolerance: number): ComplexPoint[] {
+  const merged: ComplexPoint[] = [];
+  for (const candidate of candidates) {
+    if (!merged.some((p) => distance(p, candidate) < tolerance)) {
+      merged.push(candidate);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Order and residue of f at a, from samples on the circle |z − a| = r:
+ * the order is minus the winding of f around 0, and the residue is
+ * (1/2πi)∮f(z)dz by the (spectrally accurate) trapezoid rule
+ */
+function analyzeSingularity(
+  kernel: ComplexKernel,
+  center: ComplexPoint,
+  radius: number
+): { order: number; residue: ComplexPoint } | null {
+  let totalTurn = 0;
+  let previous: ComplexPoint | null = null;
+  let first: ComplexPoint | null = null;
+  let re = 0;
+  let im = 0;
+
+  for (let k = 0; k < CIRCLE_SAMPLES; k++) {
+    const theta = (2 * Math.PI * k) / CIRCLE_SAMPLES;
+    const direction = { re: Math.cos(theta), im: Math.sin(theta) };
+    const value = evaluateKernelAt(kernel, {
+      re: center.re + radius * direction.re,
+      im: center.im + radius * direction.im,
+    });
+    if (!isFinitePoint(value)) {
+      return null;
+    }
+
+    // Res = (1/2πi)∮f dz with dz = i·r·e^{iθ}dθ, i.e. the mean of f·r·e^{iθ}
+    const term = multiply(value, direction);
+    re += term.re;
+    im += term.im;
+
+    if (previous) {
+      totalTurn += Math.atan2(previous.re * value.im - previous.im * value.re, previous.re * value.re + previous.im * value.im);
+    } else {
+      first = value;
+    }
+    previous = value;
+  }
+  if (previous && first) {
+    totalTurn += Math.atan2(previous.re * first.im - previous.im * first.re, previous.re * first.re + previous.im * first.im);
+  }
+
+  return {
+    order: -Math.round(totalTurn / (2 * Math.PI)),
+    residue: { re: (re * radius) / CIRCLE_SAMPLES, im: (im * radius) / CIRCLE_SAMPLES },
+  };
+}
+
+/**
+ * Find the poles of f enclosed by a closed contour and apply the residue theorem
+ * @param expression - f(z)
+ * @param kernel - Compiled f(z)
+ * @param contour - Vertices of the closed contour γ
+ * @returns Poles with order, residue and winding number, and 2πi·Σ n(γ, a)·Res(f, a)
+ */
+export function computeResidues(
+  expression: string,
+  kernel: ComplexKernel,
+  contour: ComplexPoint[]
+): ResidueData {
+  let minRe = Infinity, maxRe = -Infinity, minIm = Infinity, maxIm = -Infinity;
+  for (const p of contour) {
+    minRe = Math.min(minRe, p.re);
+    maxRe = Math.max(maxRe, p.re);
+    minIm = Math.min(minIm, p.im);
+    maxIm = Math.max(maxIm, p.im);
+  }
+  const scale = Math.hypot(maxRe - minRe, maxIm - minIm) || 1;
+  const pad = scale * 0.05;
+
+  const rationalPoles = findRationalPoles(expression);
+  const method = rationalPoles ? 'symbolic' : 'numeric';
+  const candidates = mergeCandidates(
+    rationalPoles ?? findNumericPoles(
+      kernel,
+      { re: minRe - pad, im: minIm - pad },
+      { re: maxRe + pad, im: maxIm + pad },
+      scale
+    ),
+    // Repeated roots of the denominator only agree to ~ε^(1/m)
+    rationalPoles ? scale * 1e-4 : scale * MERGE_FRACTION
+  );
+
+  const poles: PoleInfo[] = [];
+  for (const location of candidates) {
+    const winding = windingNumber(contour, location);
+    if (winding === 0) continue;
+
+    // Circle well inside the contour and clear of other candidates
+    const nearestContour = Math.min(...contour.map((p) => distance(p, location)));
+    const nearestPole = Math.min(
+      Infinity,
+      ...candidates.filter((other) => other !== location).map((other) => distance(other, location))
+    );
+    const radius = Math.min(scale * 0.05, nearestContour * 0.5, nearestPole * 0.4);
+    if (!(radius > 0)) continue;
+
+    const singularity = analyzeSingularity(kernel, location, radius);
+    if (!singularity) continue;
+
+    const residueSize = Math.hypot(singularity.residue.re, singularity.residue.im);
+    if (singularity.order > 0) {
+      poles.push({ location, order: singularity.order, residue: singularity.residue, winding });
+    } else if (residueSize > 1e-9) {
+      // No net pole order but a residue: an essential singularity
+      poles.push({ location, order: null, residue: singularity.residue, winding });
+    }
+  }
+
+  // 2πi · Σ n(γ, a) · Res(f, a)
+  const sum = poles.reduce(
+    (acc, pole) => ({ re: acc.re + pole.winding * pole.residue.re, im: acc.im + pole.winding * pole.residue.im }),
+    { re: 0, im: 0 }
+  );
+
+  return {
+    poles,
+    method,
+    residueSum: { re: -2 * Math.PI * sum.im, im: 2 * Math.PI * sum.re },
+  };
+}
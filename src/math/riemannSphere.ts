@@ -0,0 +1,219 @@
+/**
+ * Riemann sphere
+ * Stereographic projection from the north pole puts z = 0 at the south pole,
+ * the unit circle on the equator and ∞ at the north pole. f is sampled on a
+ * latitude/longitude grid of the sphere, and its zeros and poles are found on
+ * two charts: the disk |z| ≤ 1 for f and the disk |w| ≤ 1 for g(w) = f(1/w).
+ */
+
+import type {
+  ComplexPoint,
+  PointAtInfinity,
+  RiemannSphereConfig,
+  RiemannSphereData,
+  ZeroPole,
+} from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import type { ComplexKernel } from './compiler';
+import { getColorValue } from './evaluator';
+import { linspace, sampleGrid } from './generators';
+import { windingNumber } from './residues';
+import { findZerosAndPoles } from './zeros';
+
+// Grid of each chart the zeros and poles are searched on (even, so w = 0 is not a node)
+const CHART_RESOLUTION = 128;
+
+// Each chart covers the unit disk with a little overlap
+const CHART_EXTENT = 1.05;
+
+// Finite zeros and poles this close to w = 0 are taken to be at ∞
+const INFINITY_RADIUS = 1e-3;
+
+// Zeros or poles found on both charts closer than this are the same point
+const DUPLICATE_DISTANCE = 1e-6;
+
+// The north pole row is colored by f this far (in polar angle) from ∞
+const POLE_THETA = 1e-6;
+
+// Circles |z| = R on which the behaviour at ∞ is read off, and samples on each
+const FAR_RADII: [number, number] = [1e4, 1e5];
+const FAR_SAMPLES = 256;
+
+// Largest mismatch (in orders of magnitude per decade of |z|) still counted as a zero or pole
+const ORDER_TOLERANCE = 0.05;
+
+// Largest spread of f over the outer circle, relative to |f(∞)|, still counted as a limit
+const LIMIT_TOLERANCE = 1e-3;
+
+/**
+ * Point of the unit sphere over z (∞ maps to the north pole)
+ */
+export function stereographic(p: ComplexPoint): [number, number, number] {
+  const r2 = p.re * p.re + p.im * p.im;
+  if (!isFinite(r2)) {
+    return [0, 0, 1];
+  }
+  return [(2 * p.re) / (r2 + 1), (2 * p.im) / (r2 + 1), (r2 - 1) / (r2 + 1)];
+}
+
+/**
+ * g(w) = f(1/w), the chart of f about ∞
+ */
+function invertedKernel(f: ComplexKernel): ComplexKernel {
+  const args = new Float64Array(2 * f.variables.length);
+  return {
+    ...f,
+    evaluate: (input, out) => {
+      const d = input[0] * input[0] + input[1] * input[1];
+      // At w = 0 itself, stand in a point far enough out to read f's limit
+      args[0] = d === 0 ? 1e200 : input[0] / d;
+      args[1] = d === 0 ? 0 : -input[1] / d;
+      f.evaluate(args, out);
+    },
+  };
+}
+
+/**
+ * Zeros and poles of a kernel over the unit disk
+ */
+function chartZerosAndPoles(kernel: ComplexKernel): ZeroPole[] {
+  const axis = linspace(-CHART_EXTENT, CHART_EXTENT, CHART_RESOLUTION);
+  return findZerosAndPoles(kernel, axis, axis, sampleGrid(kernel, axis, axis));
+}
+
+/**
+ * Classify ∞ from f on two large circles: a zero or pole of order m winds
+ * f −m times around 0 on both, and scales |f| by (R₂/R₁)^−m between them
+ */
+function classifyInfinity(f: ComplexKernel): PointAtInfinity {
+  const singular: PointAtInfinity = { kind: 'singular', multiplicity: 0, value: null };
+  const circles = FAR_RADII.map((R) =>
+    Array.from({ length: FAR_SAMPLES }, (_, k) => {
+      const t = (2 * Math.PI * k) / FAR_SAMPLES;
+      return evaluateKernelAt(f, { re: R * Math.cos(t), im: R * Math.sin(t) });
+    })
+  );
+  if (!circles.every((values) => values.every((v) => isFinite(v.re) && isFinite(v.im) && (v.re !== 0 || v.im !== 0)))) {
+    return singular;
+  }
+
+  const origin = { re: 0, im: 0 };
+  const winding = windingNumber(circles[0], origin);
+  if (windingNumber(circles[1], origin) !== winding) {
+    return singular;
+  }
+
+  const order = -winding;
+  const decades = Math.log10(FAR_RADII[1] / FAR_RADII[0]);
+  const consistent = circles[0].every((near, k) => {
+    const far = circles[1][k];
+    const decay = Math.log10(Math.hypot(near.re, near.im) / Math.hypot(far.re, far.im)) / decades;
+    return Math.abs(decay - order) < ORDER_TOLERANCE;
+  });
+  if (!consistent) {
+    return singular;
+  }
+
+  if (order !== 0) {
+    return { kind: order > 0 ? 'zero' : 'pole', multiplicity: Math.abs(order), value: null };
+  }
+  const far = circles[1];
+  const value = {
+    re: far.reduce((sum, v) => sum + v.re, 0) / far.length,
+    im: far.reduce((sum, v) => sum + v.im, 0) / far.length,
+  };
+  // Without a limit the far values still wander (e.g. around an essential singularity)
+  const spread = Math.max(...far.map((v) => Math.hypot(v.re - value.re, v.im - value.im)));
+  return spread <= LIMIT_TOLERANCE * Math.max(1, Math.hypot(value.re, value.im))
+    ? { kind: 'regular', multiplicity: 0, value }
+    : singular;
+}
+
+/**
+ * Squash an unbounded color value into (−1, 1), as the sphere squashes the plane
+ * (arg f is already bounded)
+ */
+function sphereColor(value: ComplexPoint, colorBy: RiemannSphereConfig['colorBy']): number {
+  if (colorBy === 'argument') {
+    return getColorValue(value, colorBy);
+  }
+  if (!isFinite(value.re) || !isFinite(value.im)) {
+    // A pole is at the top of every scale
+    return colorBy === 'modulus' && (Math.abs(value.re) === Infinity || Math.abs(value.im) === Infinity) ? 1 : NaN;
+  }
+  const t = getColorValue(value, colorBy);
+  return t / (1 + Math.abs(t));
+}
+
+/**
+ * Paint f on the Riemann sphere
+ * @param config - f, grid rows and color mapping
+ * @returns The sphere grid with colors, the finite zeros and poles and the behaviour at ∞
+ *   (empty if f does not compile)
+ */
+export function generateRiemannSphere(config: RiemannSphereConfig): RiemannSphereData {
+  const { expression, resolution, colorBy, parameters = {} } = config;
+  const f = expression.trim() !== '' ? compileExpression(expression, { constants: parameters }) : null;
+  if (!f) {
+    return {
+      x: [],
+      y: [],
+      z: [],
+      colors: [],
+      zerosAndPoles: [],
+      infinity: { kind: 'singular', multiplicity: 0, value: null },
+    };
+  }
+
+  // Polar angle θ from the north pole, longitude φ = arg z; |z| = cot(θ/2)
+  const thetas = linspace(0, Math.PI, resolution);
+  const phis = linspace(0, 2 * Math.PI, 2 * resolution);
+  const infinity = classifyInfinity(f);
+
+  const x: number[][] = [];
+  const y: number[][] = [];
+  const z: number[][] = [];
+  const colors: number[][] = [];
+  for (const theta of thetas) {
+    const r = 1 / Math.tan(Math.max(theta, POLE_THETA) / 2);
+    x.push(phis.map((phi) => Math.sin(theta) * Math.cos(phi)));
+    y.push(phis.map((phi) => Math.sin(theta) * Math.sin(phi)));
+    z.push(phis.map(() => Math.cos(theta)));
+    colors.push(phis.map((phi) =>
+      sphereColor(evaluateKernelAt(f, { re: r * Math.cos(phi), im: r * Math.sin(phi) }), colorBy)
+    ));
+  }
+
+  // Finite zeros and poles: |z| ≤ 1 on f's chart, |z| ≥ 1 on g's (away from w = 0),
+  // dropping the second copy of those found on the unit circle by both
+  const inner = chartZerosAndPoles(f).filter((p) => Math.hypot(p.location.re, p.location.im) <= 1);
+  const outer = chartZerosAndPoles(invertedKernel(f))
+    .filter((p) => {
+      const size = Math.hypot(p.location.re, p.location.im);
+      return size <= 1 && size > INFINITY_RADIUS;
+    })
+    .map((p) => {
+      const d = p.location.re * p.location.re + p.location.im * p.location.im;
+      return { ...p, location: { re: p.location.re / d, im: -p.location.im / d } };
+    })
+    .filter((p) => !inner.some((q) => q.type === p.type &&
+      Math.hypot(q.location.re - p.location.re, q.location.im - p.location.im) < DUPLICATE_DISTANCE));
+
+  const byDistance = (a: ZeroPole, b: ZeroPole) =>
+    Math.hypot(a.location.re, a.location.im) - Math.hypot(b.location.re, b.location.im);
+  const found = [...inner, ...outer];
+  const zeros = found.filter((p) => p.type === 'zero').sort(byDistance);
+  const poles = found.filter((p) => p.type === 'pole').sort(byDistance);
+
+  return {
+    x,
+    y,
+    z,
+    colors,
+    zerosAndPoles: [
+      ...zeros.map((p, n) => ({ ...p, label: `Z${n + 1}` })),
+      ...poles.map((p, n) => ({ ...p, label: `P${n + 1}` })),
+    ],
+    infinity,
+  };
+}
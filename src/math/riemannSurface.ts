@@ -0,0 +1,177 @@
+/**
+ * Riemann surface builder for multivalued functions
+ * Each sheet evaluates every log, sqrt and fractional power of f on a chosen
+ * branch. The sheets are sampled on the same grid and stitched into one
+ * triangle mesh by continuity: going round each grid cell, every corner
+ * continues onto the sheet whose value is nearest the previous corner's, so
+ * crossing a branch cut moves onto the neighbouring sheet instead of tearing.
+ */
+
+import type { ComplexPoint, ParameterValues, RiemannSurfaceConfig, RiemannSurfaceData } from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import type { ComplexKernel } from './compiler';
+import { linspace, sampleGrid } from './generators';
+
+// Branch offsets to try per multivalued node, in order: 0, 1, -1, 2, -2, ...
+const MAX_SHEET_CANDIDATES = 64;
+
+// Points where sheets are compared to drop duplicates (e.g. sqrt offsets 0 and 2)
+const TEST_POINTS: ComplexPoint[] = [
+  { re: 0.37, im: 0.61 },
+  { re: -0.83, im: 0.29 },
+  { re: 0.52, im: -0.94 },
+];
+
+// A continuation must be this much closer than the runner-up sheet to be trusted
+const MATCH_RATIO = 0.25;
+
+const emptyData: RiemannSurfaceData = { x: [], y: [], z: [], colors: [], i: [], j: [], k: [], sheets: 0 };
+
+/**
+ * Offsets 0, 1, -1, 2, -2, ... (the first `count`)
+ */
+function branchOffsets(count: number): number[] {
+  return Array.from({ length: count }, (_, n) => (n % 2 === 1 ? (n + 1) / 2 : -n / 2));
+}
+
+/**
+ * Whether two kernels agree at every test point where both are defined
+ */
+function sameSheet(a: ComplexKernel, b: ComplexKernel): boolean {
+  return TEST_POINTS.every((p) => {
+    const va = evaluateKernelAt(a, p);
+    const vb = evaluateKernelAt(b, p);
+    if (![va.re, va.im, vb.re, vb.im].every(isFinite)) return true;
+    return Math.hypot(va.re - vb.re, va.im - vb.im) <= 1e-9 * (1 + Math.hypot(va.re, va.im));
+  });
+}
+
+/**
+ * Compile up to `count` distinct sheets of f
+ */
+function compileSheets(expression: string, count: number, parameters: ParameterValues): ComplexKernel[] {
+  const principal = compileExpression(expression, { constants: parameters });
+  if (!principal) {
+    return [];
+  }
+  const nodes = principal.branchNodes;
+  if (nodes === 0) {
+    return [principal];
+  }
+
+  // Odometer over offset vectors, one offset per multivalued node
+  const offsets = branchOffsets(count);
+  const digits = new Array<number>(nodes).fill(0);
+  const sheets: ComplexKernel[] = [principal];
+  for (let tried = 1; tried < MAX_SHEET_CANDIDATES && sheets.length < count; tried++) {
+    let d = 0;
+    while (d < nodes && ++digits[d] === offsets.length) {
+      digits[d++] = 0;
+    }
+    if (d === nodes) break;
+
+    const kernel = compileExpression(expression, {
+      constants: parameters,
+      sheet: digits.map((n) => offsets[n]),
+    });
+    if (kernel && !sheets.some((other) => sameSheet(other, kernel))) {
+      sheets.push(kernel);
+    }
+  }
+  return sheets;
+}
+
+/**
+ * Build the Riemann surface of a multivalued f over a rectangle
+ * @param config - Expression, domain, resolution, sheet count and height component
+ * @returns Mesh vertices (height by Re or Im of f, colored by arg f) and triangles
+ */
+export function generateRiemannSurfaceData(config: RiemannSurfaceConfig): RiemannSurfaceData {
+  const { expression, xMin, xMax, yMin, yMax, resolution, sheets: requested, heightBy, parameters = {} } = config;
+  if (!expression || expression.trim() === '') {
+    return emptyData;
+  }
+
+  const kernels = compileSheets(expression, Math.max(1, requested), parameters);
+  if (kernels.length === 0) {
+    return emptyData;
+  }
+
+  const xs = linspace(xMin, xMax, resolution);
+  const ys = linspace(yMin, yMax, resolution);
+  const width = xs.length;
+  const samples = kernels.map((kernel) => sampleGrid(kernel, xs, ys));
+  const sheetCount = kernels.length;
+
+  // Vertices: one per sheet and grid node where f is defined
+  const data: RiemannSurfaceData = { x: [], y: [], z: [], colors: [], i: [], j: [], k: [], sheets: sheetCount };
+  const vertex = new Int32Array(sheetCount * width * ys.length).fill(-1);
+  samples.forEach((sample, s) => {
+    for (let node = 0; node < width * ys.length; node++) {
+      const re = sample.re[node];
+      const im = sample.im[node];
+      if (!isFinite(re) || !isFinite(im)) continue;
+      vertex[s * width * ys.length + node] = data.x.length;
+      data.x.push(xs[node % width]);
+      data.y.push(ys[Math.floor(node / width)]);
+      data.z.push(heightBy === 'real' ? re : im);
+      data.colors.push(Math.atan2(im, re));
+    }
+  });
+
+  /**
+   * The sheet at `node` continuing from value (re, im), or -1 if no sheet is
+   * clearly nearest
+   */
+  const continueTo = (node: number, re: number, im: number): number => {
+    let best = -1;
+    let bestDistance = Infinity;
+    let secondDistance = Infinity;
+    for (let s = 0; s < sheetCount; s++) {
+      const d = Math.hypot(samples[s].re[node] - re, samples[s].im[node] - im);
+      if (d < bestDistance) {
+        secondDistance = bestDistance;
+        bestDistance = d;
+        best = s;
+      } else if (d < secondDistance) {
+        secondDistance = d;
+      }
+    }
+    if (!isFinite(bestDistance)) return -1;
+    return sheetCount === 1 || bestDistance <= MATCH_RATIO * secondDistance ? best : -1;
+  };
+
+  // Stitch quads: start each sheet at a cell's first corner and continue round the cell
+  const seen = new Set<string>();
+  for (let j = 0; j < ys.length - 1; j++) {
+    for (let i = 0; i < width - 1; i++) {
+      const corners = [j * width + i, j * width + i + 1, (j + 1) * width + i + 1, (j + 1) * width + i];
+      for (let s = 0; s < sheetCount; s++) {
+        const quad: number[] = [];
+        let sheet = s;
+        for (let c = 0; c < 4 && sheet >= 0; c++) {
+          if (c > 0) {
+            const previous = samples[sheet];
+            sheet = continueTo(corners[c], previous.re[corners[c - 1]], previous.im[corners[c - 1]]);
+            if (sheet < 0) break;
+          }
+          quad.push(vertex[sheet * width * ys.length + corners[c]]);
+        }
+        if (quad.length < 4 || quad.some((v) => v < 0)) continue;
+
+        // Going round the cell must close up onto the starting sheet
+        const last = samples[sheet];
+        if (continueTo(corners[0], last.re[corners[3]], last.im[corners[3]]) !== s) continue;
+
+        const key = quad.join(',');
+        if (seen.has(key)) continue;
+        seen.add(key);
+        data.i.push(quad[0], quad[0]);
+        data.j.push(quad[1], quad[2]);
+        data.k.push(quad[2], quad[3]);
+      }
+    }
+  }
+
+  return data;
+}
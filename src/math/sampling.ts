@@ -0,0 +1,236 @@
+/**
+ * Curve sampling for contours
+ * Uniform and curvature-adaptive sampling of a parametric curve p(t),
+ * with breaks marked where the curve is undefined or jumps (singularities)
+ */
+
+import type { ComplexPoint } from '../types';
+
+/** Sampled curve: finite points, their parameter values and line breaks */
+export interface CurveSamples {
+  points: ComplexPoint[];
+  tValues: number[];
+  /** Indices i where no line should be drawn from points[i - 1] to points[i] */
+  breaks: number[];
+}
+
+export interface AdaptiveSamplingOptions {
+  /** Number of evenly spaced samples to start from */
+  initialSteps: number;
+  /** Max turning angle (radians) at a midpoint; chord error is held to tolerance / 100 of the curve's extent */
+  tolerance: number;
+  /** Maximum number of samples */
+  maxPoints: number;
+}
+
+interface SampleNode {
+  t: number;
+  p: ComplexPoint;
+  next: SampleNode | null;
+}
+
+// Subdivision stops once an interval is this fraction of the parameter range
+const MIN_INTERVAL_FRACTION = 2 ** -24;
+
+// An unresolved interval this many chord tolerances long is treated as a jump
+const JUMP_FACTOR = 50;
+
+// Fraction of initial samples (by distance from their median) that defines the curve's extent
+const EXTENT_QUANTILE = 0.9;
+
+// Samples farther than this many extents from the curve's median are treated as undefined
+const ESCAPE_FACTOR = 100;
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Distance from p to the segment ab
+ */
+function distanceToSegment(p: ComplexPoint, a: ComplexPoint, b: ComplexPoint): number {
+  const dx = b.re - a.re;
+  const dy = b.im - a.im;
+  const lengthSq = dx * dx + dy * dy;
+  const s = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((p.re - a.re) * dx + (p.im - a.im) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(p.re - (a.re + s * dx), p.im - (a.im + s * dy));
+}
+
+/**
+ * Collect finite samples, marking a break wherever invalid samples were dropped
+ * or where `isJump` flags the gap between two consecutive samples
+ */
+function collectSamples(
+  samples: { t: number; p: ComplexPoint }[],
+  isJump: (index: number) => boolean = () => false
+): CurveSamples {
+  const result: CurveSamples = { points: [], tValues: [], breaks: [] };
+  let pendingBreak = false;
+
+  samples.forEach((sample, index) => {
+    if (!isFinitePoint(sample.p)) {
+      pendingBreak = true;
+      return;
+    }
+    if (result.points.length > 0 && (pendingBreak || isJump(index))) {
+      result.breaks.push(result.points.length);
+    }
+    pendingBreak = false;
+    result.points.push(sample.p);
+    result.tValues.push(sample.t);
+  });
+
+  return result;
+}
+
+/**
+ * Sample a curve at evenly spaced parameter values
+ * @param evaluate - p(t), returning NaN parts where undefined
+ * @param tMin - Start of parameter range
+ * @param tMax - End of parameter range
+ * @param tSteps - Number of evaluation points
+ */
+export function sampleCurveUniform(
+  evaluate: (t: number) => ComplexPoint,
+  tMin: number,
+  tMax: number,
+  tSteps: number
+): CurveSamples {
+  const dt = (tMax - tMin) / Math.max(tSteps - 1, 1);
+  const samples = Array.from({ length: tSteps }, (_, step) => {
+    const t = tMin + step * dt;
+    return { t, p: evaluate(t) };
+  });
+  return collectSamples(samples);
+}
+
+/**
+ * Sample a curve adaptively: t-intervals are bisected where the turning angle
+ * or chord error exceeds the tolerance, until the point budget is spent.
+ * Gaps that stay unresolved at the finest scale are marked as breaks.
+ * @param evaluate - p(t), returning NaN parts where undefined
+ * @param tMin - Start of parameter range
+ * @param tMax - End of parameter range
+ * @param options - Initial steps, tolerance and point budget
+ */
+export function sampleCurveAdaptive(
+  evaluate: (t: number) => ComplexPoint,
+  tMin: number,
+  tMax: number,
+  options: AdaptiveSamplingOptions
+): CurveSamples {
+  const { tolerance, maxPoints } = options;
+  const initialSteps = Math.max(2, Math.min(options.initialSteps, maxPoints));
+  const dt = (tMax - tMin) / (initialSteps - 1);
+
+  // Linked list of samples so midpoints can be inserted in place
+  let head: SampleNode | null = null;
+  let tail: SampleNode | null = null;
+  for (let step = 0; step < initialSteps; step++) {
+    const t = tMin + step * dt;
+    const node: SampleNode = { t, p: evaluate(t), next: null };
+    if (tail) tail.next = node;
+    else head = node;
+    tail = node;
+  }
+
+  // Scale for the chord error: robust extent of the initial samples (ignoring outliers near poles)
+  const finite: ComplexPoint[] = [];
+  for (let node = head; node; node = node.next) {
+    if (isFinitePoint(node.p)) finite.push(node.p);
+  }
+  const center = {
+    re: median(finite.map((p) => p.re)),
+    im: median(finite.map((p) => p.im)),
+  };
+  const radii = finite.map((p) => Math.hypot(p.re - center.re, p.im - center.im)).sort((a, b) => a - b);
+  const extent = 2 * (radii[Math.floor(radii.length * EXTENT_QUANTILE)] ?? 0) || 1;
+  const chordTolerance = (tolerance / 100) * extent;
+  const escapeRadius = ESCAPE_FACTOR * extent;
+  const minInterval = Math.abs(tMax - tMin) * MIN_INTERVAL_FRACTION;
+
+  // Samples that escape far beyond the curve's extent are treated as undefined (near a pole)
+  const bound = (p: ComplexPoint): ComplexPoint =>
+    Math.hypot(p.re - center.re, p.im - center.im) > escapeRadius ? { re: NaN, im: NaN } : p;
+  for (let node = head; node; node = node.next) {
+    node.p = bound(node.p);
+  }
+
+  const needsRefinement = (a: ComplexPoint, m: ComplexPoint, b: ComplexPoint): boolean => {
+    const finiteA = isFinitePoint(a);
+    const finiteB = isFinitePoint(b);
+    if (!finiteA || !finiteB) {
+      // Narrow down the edge of an undefined region
+      return finiteA !== finiteB || isFinitePoint(m);
+    }
+    if (!isFinitePoint(m)) {
+      return true;
+    }
+
+    if (distanceToSegment(m, a, b) > chordTolerance) {
+      return true;
+    }
+
+    const ux = m.re - a.re, uy = m.im - a.im;
+    const vx = b.re - m.re, vy = b.im - m.im;
+    const turning = Math.abs(Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy));
+    return turning > tolerance;
+  };
+
+  let count = initialSteps;
+  let pending: SampleNode[] = [];
+  for (let node = head; node?.next; node = node.next) {
+    pending.push(node);
+  }
+
+  // Intervals still failing the tolerance at the finest scale (keyed by their left sample)
+  const unresolved = new Set<SampleNode>();
+
+  while (pending.length > 0) {
+    const next: SampleNode[] = [];
+
+    for (const a of pending) {
+      const b = a.next!;
+      if (b.t - a.t <= minInterval) {
+        unresolved.add(a);
+        continue;
+      }
+      if (count >= maxPoints) {
+        continue;
+      }
+
+      const t = (a.t + b.t) / 2;
+      const m: SampleNode = { t, p: bound(evaluate(t)), next: b };
+      a.next = m;
+      count++;
+
+      if (needsRefinement(a.p, m.p, b.p)) {
+        next.push(a, m);
+      }
+    }
+
+    pending = next;
+  }
+
+  const samples: { t: number; p: ComplexPoint; jumpBefore: boolean }[] = [];
+  let previous: SampleNode | null = null;
+  for (let node = head; node; node = node.next) {
+    const jumpBefore = previous !== null &&
+      unresolved.has(previous) &&
+      isFinitePoint(previous.p) &&
+      isFinitePoint(node.p) &&
+      Math.hypot(node.p.re - previous.p.re, node.p.im - previous.p.im) > JUMP_FACTOR * chordTolerance;
+    samples.push({ t: node.t, p: node.p, jumpBefore });
+    previous = node;
+  }
+
+  return collectSamples(samples, (index) => samples[index].jumpBefore);
+}
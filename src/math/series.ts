@@ -0,0 +1,239 @@
+/**
+ * Taylor and Laurent series
+ * The coefficients c_n = (1/2πi) ∮ f(ζ) (ζ − z₀)^−(n+1) dζ are integrated
+ * numerically on a circle about z₀ (the trapezoid rule converges
+ * geometrically for periodic integrands), and the radii of convergence are
+ * estimated from how fast they decay.
+ */
+
+import type {
+  ComplexPoint,
+  GridPlotData,
+  SeriesCoefficient,
+  SeriesConfig,
+  SeriesData,
+} from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import { integrateComplex } from './quadrature';
+
+// Trapezoid nodes on the Cauchy circle (shared by every coefficient)
+const CAUCHY_STEPS = 512;
+
+// Coefficients whose term is below this share of max |f| on the circle are roundoff
+const NOISE_FLOOR = 1e-12;
+
+// Decay counts as faster than geometric when the last half of the ratios
+// |c_n+1 / c_n|, fitted against 1/n, extrapolate to below this share of the
+// last ratio as n → ∞ (a pole of order k would need k − 1 > 4n for that)
+const SUPER_GEOMETRIC_SHARE = 0.2;
+
+// Lowest log₁₀|f − S_N| shown (where S_N matches f to double precision)
+const MIN_LOG_ERROR = -16;
+
+/**
+ * Radius of the circle the coefficients are integrated on
+ */
+export function seriesCircleRadius(config: SeriesConfig): number {
+  const [inner, outer] = config.annulus;
+  return config.kind === 'taylor' ? config.radius : (inner + outer) / 2;
+}
+
+/**
+ * Least-squares slope of log|c_n| against |n| over the last half of the
+ * coefficients above the noise floor (null if fewer than two remain)
+ */
+function decaySlope(coefficients: SeriesCoefficient[]): number | null {
+  if (coefficients.length < 2) {
+    return null;
+  }
+  const tail = coefficients.slice(Math.floor(coefficients.length / 2));
+  const points = tail.map((c) => ({ n: Math.abs(c.n), y: Math.log(Math.hypot(c.value.re, c.value.im)) }));
+  const meanN = points.reduce((sum, p) => sum + p.n, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.n - meanN) * (p.y - meanY);
+    variance += (p.n - meanN) ** 2;
+  }
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Whether |c_n| falls off faster than any geometric sequence, as it does for
+ * entire functions (1/n! for exp). The ratios |c_n+1 / c_n| then keep
+ * falling and tend to 0, where for a singularity at distance R they tend to
+ * 1/R: a pole of order k gives (1/R)(1 + (k − 1)/n) exactly, which a line in
+ * 1/n extrapolates to 1/R (the Domb–Sykes plot). A straight fit of log|c_n|
+ * would instead report the finite R at which the last few terms happen to
+ * decay. Series in a power of z, such as exp(z²), are read as series in that
+ * power, whose ratios have the same form.
+ * @param coefficients - Coefficients above the noise floor, in increasing |n| (n ≠ 0)
+ */
+function decaysFasterThanGeometric(coefficients: SeriesCoefficient[]): boolean {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const orders = coefficients.map((c) => Math.abs(c.n));
+  const period = orders.slice(1).reduce((g, n, k) => gcd(g, n - orders[k]), 0);
+
+  // Ratio per step of the period between consecutive coefficients (skipping the vanishing ones)
+  const all: { inverseN: number; ratio: number }[] = [];
+  for (let k = 1; k < coefficients.length; k++) {
+    const from = coefficients[k - 1].value;
+    const to = coefficients[k].value;
+    const steps = (orders[k] - orders[k - 1]) / period;
+    all.push({
+      inverseN: period / orders[k],
+      ratio: (Math.hypot(to.re, to.im) / Math.hypot(from.re, from.im)) ** (1 / steps),
+    });
+  }
+  const ratios = all.slice(Math.floor(all.length / 2));
+  if (ratios.length < 2 || ratios.some((r, k) => k > 0 && !(r.ratio < ratios[k - 1].ratio))) {
+    return false;
+  }
+
+  const meanX = ratios.reduce((sum, r) => sum + r.inverseN, 0) / ratios.length;
+  const meanY = ratios.reduce((sum, r) => sum + r.ratio, 0) / ratios.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const r of ratios) {
+    covariance += (r.inverseN - meanX) * (r.ratio - meanY);
+    variance += (r.inverseN - meanX) ** 2;
+  }
+  const intercept = meanY - (covariance / variance) * meanX;
+  return intercept < SUPER_GEOMETRIC_SHARE * ratios[ratios.length - 1].ratio;
+}
+
+/**
+ * Complex constant as an exact math.js literal
+ */
+function complexLiteral(p: ComplexPoint): string {
+  return `(${p.re} + ${p.im} * i)`;
+}
+
+/**
+ * S_N(z) = Σ c_n (z − z₀)^n over the coefficients above the noise floor
+ */
+function partialSumExpression(center: ComplexPoint, terms: SeriesCoefficient[]): string {
+  if (terms.length === 0) {
+    return '0';
+  }
+  const shifted = center.re === 0 && center.im === 0 ? 'z' : `(z - ${complexLiteral(center)})`;
+  return terms
+    .map(({ n, value }) => {
+      if (n === 0) return complexLiteral(value);
+      if (n === 1) return `${complexLiteral(value)} * ${shifted}`;
+      return `${complexLiteral(value)} * ${shifted}^${n < 0 ? `(${n})` : n}`;
+    })
+    .join(' + ');
+}
+
+/**
+ * Expand f about z₀
+ * @param config - f, center, Cauchy circle (or annulus) and order N
+ * @returns The coefficients, the estimated annulus of convergence and S_N,
+ *   or null if f does not compile or is undefined somewhere on the circle
+ */
+export function computeSeries(config: SeriesConfig): SeriesData | null {
+  const { expression, kind, center, order, parameters = {} } = config;
+  const rho = seriesCircleRadius(config);
+
+  const f = expression.trim() !== '' ? compileExpression(expression, { constants: parameters }) : null;
+  if (!f || !(rho > 0)) {
+    return null;
+  }
+
+  // f on the circle, evaluated once per node and reused by every coefficient
+  const onCircle = new Map<number, ComplexPoint>();
+  const fAt = (t: number): ComplexPoint => {
+    let value = onCircle.get(t);
+    if (!value) {
+      value = evaluateKernelAt(f, { re: center.re + rho * Math.cos(t), im: center.im + rho * Math.sin(t) });
+      onCircle.set(t, value);
+    }
+    return value;
+  };
+
+  // With ζ = z₀ + ρe^{it}: c_n = (1/2π) ∫ f(ζ) ρ^−n e^{−int} dt
+  const coefficients: SeriesCoefficient[] = [];
+  for (let n = kind === 'taylor' ? 0 : -order; n <= order; n++) {
+    const scale = rho ** -n / (2 * Math.PI);
+    const result = integrateComplex(
+      (t) => {
+        const value = fAt(t);
+        const c = Math.cos(n * t);
+        const s = Math.sin(n * t);
+        return { re: scale * (value.re * c + value.im * s), im: scale * (value.im * c - value.re * s) };
+      },
+      0,
+      2 * Math.PI,
+      'trapezoid',
+      CAUCHY_STEPS
+    );
+    if (!isFinite(result.error)) {
+      return null;
+    }
+    coefficients.push({ n, value: result.value, error: result.error });
+  }
+
+  // Roundoff in c_n is about ε · max|f| · ρ^−n, so compare the terms c_n ρ^n
+  const maxF = Math.max(...Array.from(onCircle.values(), (v) => Math.hypot(v.re, v.im)));
+  const significant = coefficients.filter(
+    (c) => Math.hypot(c.value.re, c.value.im) * rho ** c.n > NOISE_FLOOR * maxF
+  );
+
+  // |c_n| ~ R^−n above the circle, |c_−n| ~ r^n below it; faster decay
+  // means no singularity outside (inside) the circle
+  const positive = significant.filter((c) => c.n > 0);
+  const negative = significant.filter((c) => c.n < 0).reverse();
+  const outerSlope = decaysFasterThanGeometric(positive) ? null : decaySlope(positive);
+  const innerSlope = decaysFasterThanGeometric(negative) ? null : decaySlope(negative);
+
+  return {
+    coefficients,
+    circleRadius: rho,
+    convergence: {
+      inner: innerSlope === null ? 0 : Math.exp(innerSlope),
+      outer: outerSlope === null ? Infinity : Math.exp(-outerSlope),
+    },
+    partialSum: partialSumExpression(center, significant),
+  };
+}
+
+/**
+ * The expression plotted for a series view: f, S_N or f − S_N
+ */
+export function seriesViewExpression(config: SeriesConfig, series: SeriesData): string {
+  switch (config.view) {
+    case 'function':
+      return config.expression;
+    case 'partialSum':
+      return series.partialSum;
+    case 'difference':
+      return `(${config.expression}) - (${series.partialSum})`;
+  }
+}
+
+/**
+ * Map grid samples of f − S_N to log₁₀|f − S_N|
+ * @param samples - Row-major samples of f − S_N (y.length × x.length)
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @returns Heatmap data with the error in both z and colors (NaN where f is undefined)
+ */
+export function seriesErrorFromSamples(
+  samples: { re: Float64Array; im: Float64Array },
+  x: number[],
+  y: number[]
+): GridPlotData {
+  const z: number[][] = [];
+  for (let j = 0; j < y.length; j++) {
+    const row: number[] = [];
+    for (let i = 0; i < x.length; i++) {
+      const k = j * x.length + i;
+      const error = Math.hypot(samples.re[k], samples.im[k]);
+      row.push(isFinite(error) ? Math.max(MIN_LOG_ERROR, Math.log10(error)) : NaN);
+    }
+    z.push(row);
+  }
+  return { x, y, z, colors: z.map((row) => [...row]) };
+}
@@ -0,0 +1,159 @@
+/**
+ * Texture mapping
+ * Each z takes the color the reference texture has at w = f(z), so f pulls
+ * the texture back onto the z-plane. Where f is conformal the squares of a
+ * checkerboard come back as small curvilinear squares, turned by arg f′ and
+ * shrunk by |f′|; at a critical point they meet at reduced angles, and a pole
+ * gathers the texture's far tiles into a small neighbourhood.
+ */
+
+import type { TextureImage, TextureMapConfig, TextureMapping, TextureWrap } from '../types';
+import type { GridSamples } from './workerPool';
+
+// Colors of the checkerboard's quadrants (so the orientation of the pulled-back
+// tiles shows): upper right, upper left, lower left, lower right
+const QUADRANT_COLORS: [number, number, number][] = [
+  [242, 142, 43],
+  [78, 121, 167],
+  [89, 161, 79],
+  [225, 87, 89],
+];
+
+// Brightness of the dark squares, sectors and rings
+const DARK_SHADE = 0.45;
+
+// Color of the polar target outside its disk
+const TARGET_BACKGROUND: [number, number, number] = [208, 208, 208];
+
+type Texel = [number, number, number, number];
+
+/**
+ * Texture coordinates of w, in tiles (one tile spans [0, 1) on each axis)
+ */
+function textureCoordinates(re: number, im: number, mapping: TextureMapping, scale: number): [number, number] {
+  if (mapping === 'cartesian') {
+    // The tile at 0 is centered there
+    return [re / scale + 0.5, im / scale + 0.5];
+  }
+  const turn = Math.atan2(im, re) / (2 * Math.PI);
+  const u = turn < 0 ? turn + 1 : turn;
+  const modulus = Math.hypot(re, im);
+  // Radial steps of 2π per tile keep the log-polar tiles as square as the angular ones
+  return [u, mapping === 'polar' ? modulus / scale : Math.log(modulus / scale) / (2 * Math.PI)];
+}
+
+/**
+ * A texture coordinate folded into [0, 1] (null where the texture is left blank)
+ */
+function wrapCoordinate(u: number, wrap: TextureWrap): number | null {
+  if (!isFinite(u)) return null;
+  switch (wrap) {
+    case 'repeat':
+      return u - Math.floor(u);
+    case 'mirror': {
+      const m = u - 2 * Math.floor(u / 2);
+      return m <= 1 ? m : 2 - m;
+    }
+    case 'clamp':
+      return Math.min(1, Math.max(0, u));
+    case 'none':
+      return u >= 0 && u < 1 ? u : null;
+  }
+}
+
+/**
+ * Index of the cell of [0, 1] containing s (the last for s = 1)
+ */
+function cellIndex(s: number, cells: number): number {
+  return Math.min(cells - 1, Math.floor(s * cells));
+}
+
+function checkerboardTexel(s: number, t: number, cells: number): Texel {
+  const right = s >= 0.5;
+  const quadrant = t >= 0.5 ? (right ? 0 : 1) : (right ? 3 : 2);
+  const shade = (cellIndex(s, cells) + cellIndex(t, cells)) % 2 === 0 ? 1 : DARK_SHADE;
+  const [r, g, b] = QUADRANT_COLORS[quadrant];
+  return [r * shade, g * shade, b * shade, 1];
+}
+
+/**
+ * A disk of rings and sectors, each sector in the hue of its direction
+ */
+function polarTargetTexel(s: number, t: number, cells: number): Texel {
+  const dx = 2 * s - 1;
+  const dy = 2 * t - 1;
+  const radius = Math.hypot(dx, dy);
+  if (radius >= 1) {
+    return [...TARGET_BACKGROUND, 1];
+  }
+  const rings = Math.max(1, Math.round(cells / 2));
+  const turn = Math.atan2(dy, dx) / (2 * Math.PI);
+  const sector = cellIndex(turn < 0 ? turn + 1 : turn, cells);
+  const ring = cellIndex(radius, rings);
+  const shade = (ring + sector) % 2 === 0 ? 1 : DARK_SHADE;
+
+  // Hue of the middle of the sector, at full saturation
+  const hue = (sector + 0.5) / cells;
+  const channel = (n: number) => {
+    const k = (n + hue * 6) % 6;
+    return 255 * shade * (1 - Math.max(0, Math.min(k, 4 - k, 1)));
+  };
+  return [channel(5), channel(3), channel(1), 1];
+}
+
+function imageTexel(image: TextureImage, s: number, t: number): Texel {
+  const column = cellIndex(s, image.width);
+  // Image rows run from the top, texture coordinates from the bottom
+  const row = cellIndex(1 - t, image.height);
+  const k = 4 * (row * image.width + column);
+  const { pixels } = image;
+  return [pixels[k], pixels[k + 1], pixels[k + 2], pixels[k + 3] / 255];
+}
+
+/**
+ * Color grid samples of f by the texture at f(z)
+ * @param samples - Row-major samples of f (y.length × x.length)
+ * @param x - Real parts of the grid columns
+ * @param y - Imaginary parts of the grid rows
+ * @param config - Texture, mapping, scale, cells and wrap mode
+ * @returns RGBA pixel rows (transparent where f is undefined or infinite, where
+ *   the wrap mode leaves the texture blank, or everywhere if an image texture
+ *   has no image yet)
+ */
+export function textureMapFromSamples(
+  samples: GridSamples,
+  x: number[],
+  y: number[],
+  config: TextureMapConfig
+): number[][][] {
+  const { texture, image, mapping, scale, cells, wrap } = config;
+  const { re, im } = samples;
+
+  const texelAt = (s: number, t: number): Texel | null => {
+    switch (texture) {
+      case 'checkerboard':
+        return checkerboardTexel(s, t, cells);
+      case 'polarTarget':
+        return polarTargetTexel(s, t, cells);
+      case 'image':
+        return image ? imageTexel(image, s, t) : null;
+    }
+  };
+
+  const rows: number[][][] = [];
+  for (let j = 0; j < y.length; j++) {
+    const row: number[][] = [];
+    for (let i = 0; i < x.length; i++) {
+      const k = j * x.length + i;
+      const [u, v] = isFinite(re[k]) && isFinite(im[k])
+        ? textureCoordinates(re[k], im[k], mapping, scale)
+        : [NaN, NaN];
+      const s = wrapCoordinate(u, wrap);
+      const t = wrapCoordinate(v, wrap);
+      const texel = s !== null && t !== null ? texelAt(s, t) : null;
+      row.push(texel ? [Math.round(texel[0]), Math.round(texel[1]), Math.round(texel[2]), texel[3]] : [0, 0, 0, 0]);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
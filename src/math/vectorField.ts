@@ -0,0 +1,233 @@
+/**
+ * Pólya vector fields
+ * A holomorphic f is drawn as the planar flow V = conj(f) = (Re f, −Im f): it
+ * is divergence- and curl-free, and for a complex potential Φ with Φ′ = f the
+ * equipotentials are Re Φ = const and the streamlines Im Φ = const.
+ */
+
+import type {
+  ComplexPoint,
+  VectorFieldConfig,
+  VectorFieldData,
+} from '../types';
+import { compileExpression, evaluateKernelAt } from './compiler';
+import type { ComplexKernel } from './compiler';
+import { linspace, sampleGrid } from './generators';
+import { differentiateMap } from './newton';
+
+// Arrow length relative to the arrow grid cell, and head length / half-angle
+const ARROW_LENGTH = 0.8;
+const HEAD_LENGTH = 0.3;
+const HEAD_ANGLE = Math.PI / 7;
+
+// Streamline steps per window extent, and the most steps each way from a seed
+const STREAMLINE_RESOLUTION = 400;
+const MAX_STREAMLINE_STEPS = 4000;
+
+// Streamlines stop this far (relative to the window) outside it
+const STREAMLINE_MARGIN = 0.05;
+
+// Points where Φ′ is compared with f, and the relative error still counted as a match
+const POTENTIAL_PROBES: ComplexPoint[] = [
+  { re: 0.31, im: 0.47 },
+  { re: -0.73, im: 0.29 },
+  { re: 0.58, im: -0.66 },
+  { re: -0.42, im: -0.91 },
+];
+const POTENTIAL_TOLERANCE = 1e-6;
+
+/**
+ * Unit vector of the Pólya field at z, or null at a zero or singularity of f
+ */
+function fieldDirection(f: ComplexKernel, z: ComplexPoint): ComplexPoint | null {
+  const value = evaluateKernelAt(f, z);
+  const speed = Math.hypot(value.re, value.im);
+  if (!(speed > 0) || !isFinite(speed)) {
+    return null;
+  }
+  return { re: value.re / speed, im: -value.im / speed };
+}
+
+/**
+ * Shaft and head of an arrow centered at p pointing along the unit vector u,
+ * as a polyline ending in a null separator
+ */
+function appendArrow(
+  xs: (number | null)[],
+  ys: (number | null)[],
+  p: ComplexPoint,
+  u: ComplexPoint,
+  length: number
+) {
+  const tail = { re: p.re - (u.re * length) / 2, im: p.im - (u.im * length) / 2 };
+  const tip = { re: p.re + (u.re * length) / 2, im: p.im + (u.im * length) / 2 };
+  const head = HEAD_LENGTH * length;
+  const barb = (angle: number) => ({
+    re: tip.re - head * (u.re * Math.cos(angle) - u.im * Math.sin(angle)),
+    im: tip.im - head * (u.re * Math.sin(angle) + u.im * Math.cos(angle)),
+  });
+  const left = barb(HEAD_ANGLE);
+  const right = barb(-HEAD_ANGLE);
+
+  xs.push(tail.re, tip.re, null, left.re, tip.re, right.re, null);
+  ys.push(tail.im, tip.im, null, left.im, tip.im, right.im, null);
+}
+
+/**
+ * Follow the unit field from a seed with RK4 in one direction
+ * @returns Points after the seed, until the line leaves the window, reaches a
+ *   zero or singularity, closes up or runs out of steps
+ */
+function traceDirection(
+  f: ComplexKernel,
+  seed: ComplexPoint,
+  direction: 1 | -1,
+  step: number,
+  inside: (z: ComplexPoint) => boolean
+): { points: ComplexPoint[]; closed: boolean } {
+  const points: ComplexPoint[] = [];
+  let z = seed;
+  let travelled = 0;
+
+  const velocity = (p: ComplexPoint): ComplexPoint | null => {
+    const u = fieldDirection(f, p);
+    return u && { re: direction * u.re, im: direction * u.im };
+  };
+  const offset = (p: ComplexPoint, v: ComplexPoint, h: number) => ({ re: p.re + h * v.re, im: p.im + h * v.im });
+
+  for (let n = 0; n < MAX_STREAMLINE_STEPS; n++) {
+    const k1 = velocity(z);
+    const k2 = k1 && velocity(offset(z, k1, step / 2));
+    const k3 = k2 && velocity(offset(z, k2, step / 2));
+    const k4 = k3 && velocity(offset(z, k3, step));
+    if (!k1 || !k2 || !k3 || !k4) break;
+
+    // Past a pole or into a stagnation point the direction flips within a step
+    if (k1.re * k4.re + k1.im * k4.im < 0) break;
+
+    z = {
+      re: z.re + (step / 6) * (k1.re + 2 * k2.re + 2 * k3.re + k4.re),
+      im: z.im + (step / 6) * (k1.im + 2 * k2.im + 2 * k3.im + k4.im),
+    };
+    travelled += step;
+    if (!inside(z)) break;
+    points.push(z);
+
+    // Periodic orbits (e.g. around a center) close up on the seed
+    if (travelled > 4 * step && Math.hypot(z.re - seed.re, z.im - seed.im) < step) {
+      points.push(seed);
+      return { points, closed: true };
+    }
+  }
+
+  return { points, closed: false };
+}
+
+/**
+ * Streamline through a seed, traced both ways
+ */
+function traceStreamline(
+  f: ComplexKernel,
+  seed: ComplexPoint,
+  step: number,
+  inside: (z: ComplexPoint) => boolean
+): ComplexPoint[] {
+  const forward = traceDirection(f, seed, 1, step, inside);
+  if (forward.closed) {
+    return [seed, ...forward.points];
+  }
+  const backward = traceDirection(f, seed, -1, step, inside);
+  return [...backward.points.reverse(), seed, ...forward.points];
+}
+
+/**
+ * Whether Φ′ = f, comparing the symbolic derivative of Φ with f at a few points
+ * (null if Φ cannot be differentiated symbolically)
+ */
+function potentialMatches(potential: string, f: ComplexKernel, constants: VectorFieldConfig['parameters']): boolean | null {
+  const derivative = differentiateMap(potential, constants);
+  const dPhi = derivative.expression ? compileExpression(derivative.expression, { constants }) : null;
+  if (!dPhi) {
+    return null;
+  }
+  return POTENTIAL_PROBES.every((z) => {
+    const a = evaluateKernelAt(dPhi, z);
+    const b = evaluateKernelAt(f, z);
+    const scale = Math.max(1, Math.hypot(b.re, b.im));
+    return !isFinite(b.re) || Math.hypot(a.re - b.re, a.im - b.im) <= POTENTIAL_TOLERANCE * scale;
+  });
+}
+
+/**
+ * Generate the Pólya field of f: arrows, a speed map, streamlines from the
+ * seeds and the level curves of the complex potential
+ * @param config - f, window, arrow count, seeds and potential Φ
+ * @returns Plot data (empty if f does not compile)
+ */
+export function generateVectorField(config: VectorFieldConfig): VectorFieldData {
+  const { expression, xMin, xMax, yMin, yMax, resolution, arrows, seeds, potential, parameters = {} } = config;
+  const empty: VectorFieldData = {
+    arrows: { x: [], y: [] },
+    speed: { x: [], y: [], z: [] },
+    streamlines: [],
+    potential: null,
+    potentialMatches: null,
+  };
+
+  const f = expression.trim() !== '' ? compileExpression(expression, { constants: parameters }) : null;
+  if (!f) {
+    return empty;
+  }
+
+  // Speed |f| on the background grid, log-scaled so poles do not swamp it
+  const x = linspace(xMin, xMax, resolution);
+  const y = linspace(yMin, yMax, resolution);
+  const samples = sampleGrid(f, x, y);
+  const speed = y.map((_, j) =>
+    x.map((_, i) => Math.log1p(Math.hypot(samples.re[j * x.length + i], samples.im[j * x.length + i])))
+  );
+
+  // Normalized arrows at the centers of an arrows × arrows grid
+  const cellWidth = (xMax - xMin) / arrows;
+  const cellHeight = (yMax - yMin) / arrows;
+  const arrowLength = ARROW_LENGTH * Math.min(cellWidth, cellHeight);
+  const arrowX: (number | null)[] = [];
+  const arrowY: (number | null)[] = [];
+  for (let j = 0; j < arrows; j++) {
+    for (let i = 0; i < arrows; i++) {
+      const p = { re: xMin + (i + 0.5) * cellWidth, im: yMin + (j + 0.5) * cellHeight };
+      const u = fieldDirection(f, p);
+      if (u) {
+        appendArrow(arrowX, arrowY, p, u, arrowLength);
+      }
+    }
+  }
+
+  const marginX = STREAMLINE_MARGIN * (xMax - xMin);
+  const marginY = STREAMLINE_MARGIN * (yMax - yMin);
+  const inside = (z: ComplexPoint) =>
+    z.re >= xMin - marginX && z.re <= xMax + marginX && z.im >= yMin - marginY && z.im <= yMax + marginY;
+  const step = Math.max(xMax - xMin, yMax - yMin) / STREAMLINE_RESOLUTION;
+  const streamlines = seeds.map((seed) => traceStreamline(f, seed, step, inside));
+
+  // Level curves of Φ on the same grid
+  const phi = potential.trim() !== '' ? compileExpression(potential, { constants: parameters }) : null;
+  let potentialGrid: VectorFieldData['potential'] = null;
+  if (phi) {
+    const values = sampleGrid(phi, x, y);
+    potentialGrid = {
+      x,
+      y,
+      re: y.map((_, j) => Array.from(values.re.subarray(j * x.length, (j + 1) * x.length))),
+      im: y.map((_, j) => Array.from(values.im.subarray(j * x.length, (j + 1) * x.length))),
+    };
+  }
+
+  return {
+    arrows: { x: arrowX, y: arrowY },
+    speed: { x, y, z: speed },
+    streamlines,
+    potential: potentialGrid,
+    potentialMatches: phi ? potentialMatches(potential, f, parameters) : null,
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Web Worker pool for grid sampling
+ * Splits a grid into row bands, runs them across a pool of workers and
+ * reassembles the transferred Float64Array results. The analysis of a
+ * finished grid runs on the pool too, as a job of a single task. Starting a
+ * job on a channel cancels any older job still running on that channel.
+ */
+
+import type { ComplexPoint } from '../types';
+import { compileExpression } from './compiler';
+import { sampleGrid } from './generators';
+import { ESCAPE_VARIABLES, sampleEscapeTime } from './escapeTime';
+import type { EscapeIteration } from './escapeTime';
+import { sampleNewton } from './newton';
+import type { NewtonIteration } from './newton';
+import { analyzeGrid } from './gridAnalysis';
+import type { GridAnalysis, GridAnalysisRequest } from './gridAnalysis';
+
+/** A grid to sample: f evaluated at every (xs[i], ys[j]) */
+export interface GridRequest {
+  expression: string;
+  xs: Float64Array;
+  ys: Float64Array;
+  constants?: Record<string, ComplexPoint>;
+  /** Iterate f (or Newton's method for f) from every point instead of evaluating it once */
+  iteration?: EscapeIteration | NewtonIteration;
+}
+
+/** Row-major samples of f over a grid (ys.length rows × xs.length columns) */
+export interface GridSamples {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+/** A row band of a job, as posted to a worker */
+export interface GridTask extends GridRequest {
+  kind: 'sample';
+  jobId: number;
+  taskId: number;
+}
+
+/** A finished row band, as posted back by a worker */
+export interface GridTaskResult {
+  kind: 'sample';
+  jobId: number;
+  taskId: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+/** The analysis of a full grid, as posted to a worker */
+export interface AnalysisTask extends GridAnalysisRequest {
+  kind: 'analysis';
+  jobId: number;
+}
+
+/** A finished analysis, as posted back by a worker */
+export interface AnalysisTaskResult {
+  kind: 'analysis';
+  jobId: number;
+  analysis: GridAnalysis;
+}
+
+export type PoolTask = GridTask | AnalysisTask;
+export type PoolTaskResult = GridTaskResult | AnalysisTaskResult;
+
+export interface GridJobOptions {
+  /** Jobs on the same channel supersede each other */
+  channel: string;
+  /** Called with the completed fraction (0 to 1) as bands come back */
+  onProgress?: (progress: number) => void;
+  /** Aborting cancels the job */
+  signal?: AbortSignal;
+}
+
+interface SampleJob {
+  kind: 'sample';
+  id: number;
+  channel: string;
+  width: number;
+  /** First row of each band, indexed by task id */
+  bandRows: number[];
+  re: Float64Array;
+  im: Float64Array;
+  remaining: number;
+  onProgress?: (progress: number) => void;
+  resolve: (samples: GridSamples | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface AnalysisJob {
+  kind: 'analysis';
+  id: number;
+  channel: string;
+  resolve: (analysis: GridAnalysis | null) => void;
+  reject: (error: Error) => void;
+}
+
+type Job = SampleJob | AnalysisJob;
+
+interface PoolWorker {
+  worker: Worker;
+  task: PoolTask | null;
+}
+
+// Bands per worker: more bands give finer progress and faster cancellation
+const BANDS_PER_WORKER = 4;
+
+const queue: PoolTask[] = [];
+const jobs = new Map<number, Job>();
+const activeJobByChannel = new Map<string, number>();
+let workers: PoolWorker[] | null = null;
+let nextJobId = 1;
+
+function getPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 4 : 4;
+  return Math.max(1, Math.min(8, cores - 1));
+}
+
+/**
+ * Forget a job and drop its queued bands.
+ * Bands already running finish in their worker but their results are ignored.
+ */
+function forgetJob(job: Job) {
+  jobs.delete(job.id);
+  if (activeJobByChannel.get(job.channel) === job.id) {
+    activeJobByChannel.delete(job.channel);
+  }
+  for (let k = queue.length - 1; k >= 0; k--) {
+    if (queue[k].jobId === job.id) {
+      queue.splice(k, 1);
+    }
+  }
+}
+
+/**
+ * Cancel a job: forget it and resolve it with null
+ */
+function cancelJob(jobId: number) {
+  const job = jobs.get(jobId);
+  if (!job) return;
+  forgetJob(job);
+  job.resolve(null);
+}
+
+function handleResult(poolWorker: PoolWorker, result: PoolTaskResult) {
+  poolWorker.task = null;
+
+  const job = jobs.get(result.jobId);
+  if (job?.kind === 'analysis' && result.kind === 'analysis') {
+    forgetJob(job);
+    job.resolve(result.analysis);
+  } else if (job?.kind === 'sample' && result.kind === 'sample') {
+    const offset = job.bandRows[result.taskId] * job.width;
+    job.re.set(result.re, offset);
+    job.im.set(result.im, offset);
+    job.remaining--;
+    job.onProgress?.(1 - job.remaining / job.bandRows.length);
+
+    if (job.remaining === 0) {
+      forgetJob(job);
+      job.resolve({ re: job.re, im: job.im });
+    }
+  }
+
+  dispatch();
+}
+
+function handleError(poolWorker: PoolWorker, event: ErrorEvent) {
+  const task = poolWorker.task;
+  poolWorker.task = null;
+  // A band that throws would throw again, so the whole job fails
+  const job = task ? jobs.get(task.jobId) : undefined;
+  if (job) {
+    forgetJob(job);
+    job.reject(new Error(event.message || 'Grid worker failed'));
+  }
+  dispatch();
+}
+
+function getWorkers(): PoolWorker[] {
+  if (!workers) {
+    workers = Array.from({ length: getPoolSize() }, () => {
+      const poolWorker: PoolWorker = {
+        worker: new Worker(new URL('./gridWorker.ts', import.meta.url), { type: 'module' }),
+        task: null,
+      };
+      poolWorker.worker.onmessage = (event: MessageEvent<PoolTaskResult>) =>
+        handleResult(poolWorker, event.data);
+      poolWorker.worker.onerror = (event) => handleError(poolWorker, event);
+      return poolWorker;
+    });
+  }
+  return workers;
+}
+
+/**
+ * Hand queued bands to idle workers
+ */
+function dispatch() {
+  for (const poolWorker of getWorkers()) {
+    if (queue.length === 0) return;
+    if (poolWorker.task) continue;
+
+    const task = queue.shift()!;
+    poolWorker.task = task;
+    poolWorker.worker.postMessage(task);
+  }
+}
+
+/**
+ * Sample f over a grid on the main thread (used where Web Workers are unavailable)
+ */
+function sampleGridSync(request: GridRequest): GridSamples {
+  const { expression, constants, xs, ys, iteration } = request;
+  const kernel = compileExpression(expression, {
+    constants,
+    variables: iteration?.kind === 'escape' ? ESCAPE_VARIABLES : undefined,
+  });
+  if (!kernel) {
+    const size = xs.length * ys.length;
+    return { re: new Float64Array(size).fill(NaN), im: new Float64Array(size).fill(NaN) };
+  }
+  switch (iteration?.kind) {
+    case 'escape':
+      return sampleEscapeTime(kernel, xs, ys, iteration);
+    case 'newton': {
+      const derivative = iteration.derivative ? compileExpression(iteration.derivative, { constants }) : null;
+      return sampleNewton(kernel, derivative, xs, ys, iteration);
+    }
+    default:
+      return sampleGrid(kernel, xs, ys);
+  }
+}
+
+/**
+ * Cancel the job running on a channel, if any
+ * @param channel - The channel name
+ */
+export function cancelGridJobs(channel: string) {
+  const jobId = activeJobByChannel.get(channel);
+  if (jobId !== undefined) {
+    cancelJob(jobId);
+  }
+}
+
+/**
+ * Sample f over a grid using the worker pool
+ * @param request - Expression and grid axes
+ * @param options - Channel, progress callback and abort signal
+ * @returns The samples, or null if the job was cancelled or superseded (rejects if a worker fails)
+ */
+export function sampleGridAsync(
+  request: GridRequest,
+  options: GridJobOptions
+): Promise<GridSamples | null> {
+  const { channel, onProgress, signal } = options;
+
+  // Starting a new job cancels the older one on this channel
+  cancelGridJobs(channel);
+
+  if (signal?.aborted) {
+    return Promise.resolve(null);
+  }
+
+  if (typeof Worker === 'undefined') {
+    const samples = sampleGridSync(request);
+    onProgress?.(1);
+    return Promise.resolve(samples);
+  }
+
+  const width = request.xs.length;
+  const height = request.ys.length;
+  if (width === 0 || height === 0) {
+    return Promise.resolve({ re: new Float64Array(0), im: new Float64Array(0) });
+  }
+
+  const bandCount = Math.min(height, getPoolSize() * BANDS_PER_WORKER);
+  const rowsPerBand = Math.ceil(height / bandCount);
+
+  return new Promise((resolve, reject) => {
+    const job: SampleJob = {
+      kind: 'sample',
+      id: nextJobId++,
+      channel,
+      width,
+      bandRows: [],
+      re: new Float64Array(width * height),
+      im: new Float64Array(width * height),
+      remaining: 0,
+      onProgress,
+      resolve,
+      reject,
+    };
+
+    for (let rowStart = 0; rowStart < height; rowStart += rowsPerBand) {
+      queue.push({
+        kind: 'sample',
+        jobId: job.id,
+        taskId: job.bandRows.length,
+        expression: request.expression,
+        constants: request.constants,
+        iteration: request.iteration,
+        xs: request.xs,
+        ys: request.ys.slice(rowStart, Math.min(rowStart + rowsPerBand, height)),
+      });
+      job.bandRows.push(rowStart);
+    }
+    job.remaining = job.bandRows.length;
+
+    jobs.set(job.id, job);
+    activeJobByChannel.set(channel, job.id);
+    signal?.addEventListener('abort', () => cancelJob(job.id), { once: true });
+
+    dispatch();
+  });
+}
+
+/**
+ * Analyze a full grid of samples using the worker pool
+ * @param request - f, its parameters and its samples (copied to the worker)
+ * @param options - Channel and abort signal (the analysis reports no progress)
+ * @returns The analysis, or null if the job was cancelled or superseded (rejects if the worker fails)
+ */
+export function analyzeGridAsync(
+  request: GridAnalysisRequest,
+  options: GridJobOptions
+): Promise<GridAnalysis | null> {
+  const { channel, signal } = options;
+
+  cancelGridJobs(channel);
+
+  if (signal?.aborted) {
+    return Promise.resolve(null);
+  }
+
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(analyzeGrid(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    const job: AnalysisJob = { kind: 'analysis', id: nextJobId++, channel, resolve, reject };
+    queue.push({ ...request, kind: 'analysis', jobId: job.id });
+
+    jobs.set(job.id, job);
+    activeJobByChannel.set(channel, job.id);
+    signal?.addEventListener('abort', () => cancelJob(job.id), { once: true });
+
+    dispatch();
+  });
+}
@@ -0,0 +1,304 @@
+/**
+ * Zero and pole finder for sampled grids
+ * Applies the argument principle to every grid cell (the winding of arg f
+ * around the cell's corners counts zeros minus poles inside), then refines
+ * each candidate with Newton's method on f (zeros) or 1/f (poles) and
+ * confirms its multiplicity on two small circles. Points where the two
+ * disagree are not isolated at the grid's resolution (zeros crowding towards
+ * an essential singularity, as those of sin(1/z) do) and are dropped.
+ */
+
+import type { ComplexPoint, ZeroPole } from '../types';
+import type { ComplexKernel } from './compiler';
+import { evaluateKernelAt } from './compiler';
+import type { GridSamples } from './workerPool';
+
+// Samples on the circle that confirms a refined point's multiplicity
+const CIRCLE_SAMPLES = 32;
+
+// Bisection depth when resolving large arg jumps along a cell edge
+const EDGE_SUBDIVISIONS = 6;
+
+// Newton iterations per candidate
+const MAX_ITERATIONS = 50;
+
+interface Candidate {
+  start: ComplexPoint;
+  type: 'zero' | 'pole';
+  multiplicity: number;
+}
+
+function isFinitePoint(p: ComplexPoint): boolean {
+  return isFinite(p.re) && isFinite(p.im);
+}
+
+function divide(a: ComplexPoint, b: ComplexPoint): ComplexPoint {
+  const denominator = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / denominator,
+    im: (a.im * b.re - a.re * b.im) / denominator,
+  };
+}
+
+/**
+ * Angle from a to b, wrapped to (-π, π]
+ */
+function wrappedDifference(a: number, b: number): number {
+  let d = b - a;
+  if (d > Math.PI) d -= 2 * Math.PI;
+  if (d <= -Math.PI) d += 2 * Math.PI;
+  return d;
+}
+
+/**
+ * Change of arg f along the segment from a to b. Jumps larger than π/3 are
+ * resolved by bisecting the segment, so fast-turning edges (near multiple
+ * zeros) are not wrapped away.
+ */
+function argChange(
+  kernel: ComplexKernel,
+  a: ComplexPoint,
+  b: ComplexPoint,
+  argA: number,
+  argB: number,
+  depth: number = EDGE_SUBDIVISIONS
+): number {
+  const d = wrappedDifference(argA, argB);
+  if (Math.abs(d) <= Math.PI / 3 || depth === 0) {
+    return d;
+  }
+  const mid = { re: (a.re + b.re) / 2, im: (a.im + b.im) / 2 };
+  const value = evaluateKernelAt(kernel, mid);
+  if (!isFinitePoint(value) || (value.re === 0 && value.im === 0)) {
+    return d;
+  }
+  const argMid = Math.atan2(value.im, value.re);
+  return argChange(kernel, a, mid, argA, argMid, depth - 1) + argChange(kernel, mid, b, argMid, argB, depth - 1);
+}
+
+/**
+ * Zeros minus poles of f inside the circle |z − c| = r (winding of f around 0)
+ */
+function circleIndex(kernel: ComplexKernel, center: ComplexPoint, radius: number): number | null {
+  let total = 0;
+  let firstArg = 0;
+  let previousArg = 0;
+  for (let k = 0; k < CIRCLE_SAMPLES; k++) {
+    const theta = (2 * Math.PI * k) / CIRCLE_SAMPLES;
+    const value = evaluateKernelAt(kernel, {
+      re: center.re + radius * Math.cos(theta),
+      im: center.im + radius * Math.sin(theta),
+    });
+    if (!isFinitePoint(value) || (value.re === 0 && value.im === 0)) {
+      return null;
+    }
+    const arg = Math.atan2(value.im, value.re);
+    if (k === 0) {
+      firstArg = arg;
+    } else {
+      total += wrappedDifference(previousArg, arg);
+    }
+    previousArg = arg;
+  }
+  total += wrappedDifference(previousArg, firstArg);
+  return Math.round(total / (2 * Math.PI));
+}
+
+/**
+ * Refine a candidate with (multiplicity-aware) Newton iteration on f or 1/f
+ * @returns The converged location, or null if Newton did not converge
+ */
+function refine(kernel: ComplexKernel, candidate: Candidate, h: number, tolerance: number): ComplexPoint | null {
+  const target = candidate.type === 'zero'
+    ? (z: ComplexPoint) => evaluateKernelAt(kernel, z)
+    : (z: ComplexPoint) => divide({ re: 1, im: 0 }, evaluateKernelAt(kernel, z));
+
+  let z = candidate.start;
+  let slope = 0; // |derivative| from the previous iteration
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const value = target(z);
+    if (!isFinitePoint(value)) {
+      // A pole sitting exactly on this point (1/f undefined where f is)
+      return candidate.type === 'pole' ? z : null;
+    }
+    const size = Math.hypot(value.re, value.im);
+    if (size === 0) {
+      return z;
+    }
+
+    // Predicted step from the previous slope: stop if tiny, and keep the
+    // difference step well inside it so it can't reach a nearby singularity
+    const predicted = slope > 0 ? (candidate.multiplicity * size) / slope : Infinity;
+    if (predicted < tolerance) {
+      return z;
+    }
+    const step = Math.max(Math.min(h, predicted / 10), Number.EPSILON * Math.max(1, Math.hypot(z.re, z.im)));
+
+    const plus = target({ re: z.re + step, im: z.im });
+    const minus = target({ re: z.re - step, im: z.im });
+    const derivative = { re: (plus.re - minus.re) / (2 * step), im: (plus.im - minus.im) / (2 * step) };
+    const delta = divide(value, derivative);
+    if (!isFinitePoint(delta)) {
+      return null;
+    }
+    slope = Math.hypot(derivative.re, derivative.im);
+
+    z = { re: z.re - candidate.multiplicity * delta.re, im: z.im - candidate.multiplicity * delta.im };
+    if (candidate.multiplicity * Math.hypot(delta.re, delta.im) < tolerance) {
+      return z;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the zeros and poles of f over a sampled grid
+ * @param kernel - Compiled f(z)
+ * @param x - Real parts of the grid columns (ascending)
+ * @param y - Imaginary parts of the grid rows (ascending)
+ * @param samples - Row-major samples of f (y.length × x.length)
+ * @returns Zeros and poles with multiplicity, labelled Z1, Z2, … and P1, P2, … by distance from 0
+ */
+export function findZerosAndPoles(
+  kernel: ComplexKernel,
+  x: number[],
+  y: number[],
+  samples: GridSamples
+): ZeroPole[] {
+  const width = x.length;
+  const height = y.length;
+  if (width < 2 || height < 2) {
+    return [];
+  }
+
+  const args = new Float64Array(width * height);
+  for (let k = 0; k < args.length; k++) {
+    args[k] = Math.atan2(samples.im[k], samples.re[k]);
+  }
+  const isSingular = (k: number) => !isFinite(samples.re[k]) || !isFinite(samples.im[k]);
+  const isZero = (k: number) => samples.re[k] === 0 && samples.im[k] === 0;
+
+  const candidates: Candidate[] = [];
+  const flaggedNodes = new Set<number>();
+
+  for (let j = 0; j < height - 1; j++) {
+    for (let i = 0; i < width - 1; i++) {
+      // Corners counter-clockwise: bottom-left, bottom-right, top-right, top-left
+      const corners = [j * width + i, j * width + i + 1, (j + 1) * width + i + 1, (j + 1) * width + i];
+
+      const special = corners.filter((k) => isSingular(k) || isZero(k));
+      if (special.length > 0) {
+        // f is undefined or exactly zero on a grid node: start from the node itself
+        for (const k of special) {
+          if (flaggedNodes.has(k)) continue;
+          flaggedNodes.add(k);
+          candidates.push({
+            start: { re: x[k % width], im: y[Math.floor(k / width)] },
+            type: isZero(k) ? 'zero' : 'pole',
+            multiplicity: 1,
+          });
+        }
+        continue;
+      }
+
+      const point = (k: number): ComplexPoint => ({ re: x[k % width], im: y[Math.floor(k / width)] });
+      let total = 0;
+      for (let c = 0; c < 4; c++) {
+        const from = corners[c];
+        const to = corners[(c + 1) % 4];
+        total += argChange(kernel, point(from), point(to), args[from], args[to]);
+      }
+      const index = Math.round(total / (2 * Math.PI));
+      if (index !== 0) {
+        candidates.push({
+          start: { re: (x[i] + x[i + 1]) / 2, im: (y[j] + y[j + 1]) / 2 },
+          type: index > 0 ? 'zero' : 'pole',
+          multiplicity: Math.abs(index),
+        });
+      }
+    }
+  }
+
+  const cellSize = Math.min(
+    Math.abs(x[width - 1] - x[0]) / (width - 1),
+    Math.abs(y[height - 1] - y[0]) / (height - 1)
+  );
+
+  // Zeros of high multiplicity can wind a full turn per cell edge and cancel out
+  // above, so also start from local extrema of |f| (interior minima of |f| are
+  // zeros and maxima are poles), with multiplicity read off a circle
+  const modulus = Float64Array.from(samples.re, (re, k) => Math.hypot(re, samples.im[k]));
+  for (let j = 1; j < height - 1; j++) {
+    for (let i = 1; i < width - 1; i++) {
+      const k = j * width + i;
+      const value = modulus[k];
+      if (!isFinite(value)) continue;
+
+      // Ties are allowed (symmetric grids), but not flat regions
+      let isMin = true;
+      let isMax = true;
+      let hasLarger = false;
+      let hasSmaller = false;
+      for (let dj = -1; dj <= 1; dj++) {
+        for (let di = -1; di <= 1; di++) {
+          if (!di && !dj) continue;
+          const neighbour = modulus[k + dj * width + di];
+          if (!(neighbour >= value)) isMin = false;
+          if (!(neighbour <= value)) isMax = false;
+          if (neighbour > value) hasLarger = true;
+          if (neighbour < value) hasSmaller = true;
+        }
+      }
+      isMin = isMin && hasLarger;
+      isMax = isMax && hasSmaller;
+      if (!isMin && !isMax) continue;
+
+      const start = { re: x[i], im: y[j] };
+      const index = circleIndex(kernel, start, cellSize);
+      if (index && (index > 0) === isMin) {
+        candidates.push({ start, type: isMin ? 'zero' : 'pole', multiplicity: Math.abs(index) });
+      }
+    }
+  }
+
+  const found: Omit<ZeroPole, 'label'>[] = [];
+
+  for (const candidate of candidates) {
+    const location = refine(kernel, candidate, cellSize * 1e-6, cellSize * 1e-12);
+    if (!location || Math.hypot(location.re - candidate.start.re, location.im - candidate.start.im) > 2 * cellSize) {
+      continue;
+    }
+    if (found.some((p) => p.type === candidate.type &&
+        Math.hypot(p.location.re - location.re, p.location.im - location.im) < cellSize / 2)) {
+      continue;
+    }
+
+    // Confirm type and multiplicity on a circle around the refined point, and
+    // that a smaller circle finds the same (nothing else crowds it)
+    const index = circleIndex(kernel, location, cellSize / 2);
+    if (index === null || index === 0 || (index > 0) !== (candidate.type === 'zero') ||
+        circleIndex(kernel, location, cellSize / 4) !== index) {
+      continue;
+    }
+    found.push({ location, type: candidate.type, multiplicity: Math.abs(index) });
+  }
+
+  return labelZerosAndPoles(found);
+}
+
+/**
+ * Label zeros Z1, Z2, … and poles P1, P2, … by distance from 0
+ * @param found - Zeros and poles in any order (labels, if any, are replaced)
+ * @returns The zeros, then the poles, each sorted by distance from 0
+ */
+export function labelZerosAndPoles(found: Omit<ZeroPole, 'label'>[]): ZeroPole[] {
+  const byDistance = (a: Omit<ZeroPole, 'label'>, b: Omit<ZeroPole, 'label'>) =>
+    Math.hypot(a.location.re, a.location.im) - Math.hypot(b.location.re, b.location.im);
+  const zeros = found.filter((p) => p.type === 'zero').sort(byDistance);
+  const poles = found.filter((p) => p.type === 'pole').sort(byDistance);
+
+  return [
+    ...zeros.map((p, n) => ({ ...p, label: `Z${n + 1}` })),
+    ...poles.map((p, n) => ({ ...p, label: `P${n + 1}` })),
+  ];
+}
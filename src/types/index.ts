@@ -1,13 +1,85 @@
 import type { MathNode } from 'mathjs';
 
-export type PlotMode = 'contour' | 'domainColoring' | 'surface3d';
-export type ColorMapping = 'modulus' | 'argument' | 'real' | 'imaginary';
+export type PlotMode = 'contour' | 'domainColoring' | 'surface3d' | 'riemannSurface' | 'escapeTime' | 'newton' | 'conformalGrid' | 'vectorField' | 'series' | 'riemannSphere' | 'textureMap';
+export type DerivedMapping = 'derivative' | 'areaScaling' | 'angleDistortion'; // arg f′, |f′|², bending of short segments by f
+export type ColorMapping = 'modulus' | 'argument' | 'real' | 'imaginary' | DerivedMapping;
+export type ContourSampling = 'uniform' | 'adaptive';
+export type DerivativeMethod = 'symbolic' | 'numeric';
+export type QuadratureRule = 'trapezoid' | 'simpson' | 'gaussLegendre' | 'gaussKronrod';
+export type ParameterKind = 'real' | 'complex';
+export type EscapePlane = 'dynamic' | 'parameter';
+export type ConformalGridKind = 'cartesian' | 'polar';
+export type GridFamily = 'real' | 'imaginary' | 'modulus' | 'argument'; // the coordinate a grid line holds constant
+export type SeriesKind = 'taylor' | 'laurent';
+export type SeriesView = 'difference' | 'partialSum' | 'function'; // f − S_N, S_N or f
+export type SphereFacing = 'zero' | 'one' | 'i' | 'infinity'; // point of the Riemann sphere turned toward the viewer
+export type MobiusInput = 'coefficients' | 'points'; // a Möbius map by its coefficients, or by three points and their images
+export type MobiusClass = 'identity' | 'elliptic' | 'parabolic' | 'hyperbolic' | 'loxodromic'; // from the normalized trace
+export type DomainOverlay = 'none' | 'cauchyRiemann'; // layer drawn in place of the domain coloring
+export type HolomorphyVerdict = 'analytic' | 'partial' | 'nonAnalytic'; // how much of the view satisfies Cauchy–Riemann
+export type DomainRendering = 'heatmap' | 'portrait'; // colorBy through a colorscale, or an RGB phase portrait of f
+export type PortraitLightness = 'flat' | 'sawtooth' | 'smooth'; // |f| as brightness: not at all, a ramp per step of log|f|, or black at zeros to white at poles
+export type PortraitPreset = 'phase' | 'modulus' | 'polar' | 'cartesian' | 'classic'; // standard (enhanced) phase portrait schemes
+export type TextureSource = 'checkerboard' | 'polarTarget' | 'image'; // reference picture sampled at f(z)
+export type TextureMapping = 'cartesian' | 'polar' | 'logPolar'; // texture coordinates of w = f(z): (Re w, Im w), (arg w, |w|) or (arg w, log|w|)
+export type TextureWrap = 'repeat' | 'mirror' | 'clamp' | 'none'; // outside one tile: repeat it, repeat it mirrored, extend its edge, or leave blank
 
 export interface ComplexPoint {
   re: number;
   im: number;
 }
 
+/** A named parameter in scope in every expression (e.g. c in z^2 + c) */
+export interface Parameter {
+  id: string;
+  name: string;
+  kind: ParameterKind;     // real: slider, complex: point picker
+  value: ComplexPoint;     // im stays 0 for real parameters
+  min: number;             // slider range (both axes of the picker for complex parameters)
+  max: number;
+}
+
+/** Parameter values by name, as passed to the evaluators */
+export type ParameterValues = Record<string, ComplexPoint>;
+
+/** Animation of one parameter along the segment from start to end */
+export interface ParameterSweep {
+  parameterId: string;
+  start: ComplexPoint;
+  end: ComplexPoint;
+  duration: number;        // seconds per pass
+  frames: number;          // frames precomputed along the segment
+}
+
+/** A straight piece of a composite contour, from one point to another */
+export interface SegmentPiece {
+  id: string;
+  kind: 'segment';
+  from: ComplexPoint;
+  to: ComplexPoint;
+}
+
+/** A circular arc of a composite contour; endAngle < startAngle runs clockwise */
+export interface ArcPiece {
+  id: string;
+  kind: 'arc';
+  center: ComplexPoint;
+  radius: number;
+  startAngle: number;      // radians
+  endAngle: number;        // radians
+}
+
+/** A free-form piece of a composite contour, γ(t) over its own t range */
+export interface CustomPiece {
+  id: string;
+  kind: 'custom';
+  expression: string;      // γ(t) = ...
+  tMin: number;
+  tMax: number;
+}
+
+export type ContourPiece = SegmentPiece | ArcPiece | CustomPiece;
+
 /** A single contour definition z_n(t_n) with its own parameter range */
 export interface ContourEntry {
   id: string;
@@ -20,17 +92,25 @@ export interface ContourEntry {
   tSteps: number;          // number of evaluation points
   animationSpeed: number;  // animation speed (1-10, higher = faster)
   showIntegral?: boolean;  // whether to show integral visualization for this contour
+  sampling?: ContourSampling; // how t is sampled (default 'uniform')
+  tolerance?: number;      // adaptive: max turning angle in radians (chord error: tolerance/100 of extent)
+  maxPoints?: number;      // adaptive: point budget
+  quadrature?: QuadratureRule; // rule for ∮f(z)dz (default 'trapezoid')
+  pieces?: ContourPiece[];  // composite contour: these pieces joined in order replace expression and [tMin, tMax]
 }
 
 /** Configuration for the contour plot mode */
 export interface ContourConfig {
   contours: ContourEntry[];
+  parameters?: ParameterValues; // values of PlotState.parameters, in scope in γ and f
 }
 
 /** Evaluated contour data for rendering */
 export interface ContourData {
   id: string;
   points: ComplexPoint[];
+  tValues: number[];       // parameter value of each point
+  breaks: number[];        // indices i where the line from points[i-1] to points[i] is not drawn
   color: string;
   expression: string;
   tMin: number;
@@ -38,6 +118,21 @@ export interface ContourData {
   animationSpeed: number;
 }
 
+/** A pole (or essential singularity) of f enclosed by a contour */
+export interface PoleInfo {
+  location: ComplexPoint;
+  order: number | null;           // null for an essential singularity
+  residue: ComplexPoint;
+  winding: number;                // winding number of the contour around the pole
+}
+
+/** Residue-theorem cross-check of a closed contour integral */
+export interface ResidueData {
+  poles: PoleInfo[];
+  method: 'symbolic' | 'numeric'; // poles from the denominator of a rational f, or found numerically
+  residueSum: ComplexPoint;       // 2πi·Σ n(γ, a)·Res(f, a)
+}
+
 /** Data for contour integral visualization */
 export interface ContourIntegralData {
   id: string;
@@ -49,8 +144,41 @@ export interface ContourIntegralData {
   finalValue: ComplexPoint;       // ∮f(z)dz - the total integral
   expression: string;             // display expression for the contour
   transformFunction: string;      // f(z) being integrated
+  derivativeMethod: DerivativeMethod; // how γ'(t) was computed
+  derivativeExpression?: string;  // symbolic γ'(t), when available
+  quadrature: QuadratureRule;     // rule used for the integral
+  errorEstimate: number;          // estimated absolute error of finalValue
+  evaluations: number;            // number of f(γ(t))·γ'(t) evaluations
+  residues?: ResidueData;         // residue theorem value (closed contours only)
+  pieces?: PieceIntegral[];       // breakdown by piece (composite contours only)
+}
+
+/** The part of a contour integral over one piece of a composite contour */
+export interface PieceIntegral {
+  label: string;                  // e.g. "segment -1 → 1"
+  tStart: number;                 // span of the piece along the joined path's t
+  tEnd: number;
+  value: ComplexPoint;            // ∫ over the piece
+  errorEstimate: number;
 }
 
+/** Argument-principle count for a closed contour */
+export interface ArgumentPrincipleData {
+  id: string;
+  color: string;
+  expression: string;             // γ(t)
+  transformFunction: string;      // f(z)
+  contourPoints: ComplexPoint[];  // γ(t), outlining the region inside γ
+  imagePoints: ComplexPoint[];    // f(γ(t)) at the same t values
+  winding: number | null;         // turns of f(γ) around 0, i.e. Z − P (null if γ is open or f(γ) meets 0 or ∞)
+  region: ComplexPoint[] | null;  // γ as a closed polygon (null if γ is open or has gaps between its pieces)
+  enclosed: ZeroPole[];           // zeros and poles found independently inside γ
+  enclosedCount: number | null;   // Σ n(γ, a)·(±multiplicity) of those (null until the grid search is done, or if it is skipped)
+}
+
+/** The independent count of an argument principle view, from a grid search on the worker pool */
+export type ArgumentPrincipleCount = Pick<ArgumentPrincipleData, 'enclosed' | 'enclosedCount'>;
+
 export interface DomainColoringConfig {
   expression: string;      // f(z) = ...
   xMin: number;
@@ -59,6 +187,18 @@ export interface DomainColoringConfig {
   yMax: number;
   resolution: number;
   colorBy: ColorMapping;
+  overlay?: DomainOverlay; // default 'none'
+  rendering?: DomainRendering; // default 'heatmap'
+  portrait?: PortraitOptions; // scheme of the 'portrait' rendering (default: the 'modulus' preset)
+  parameters?: ParameterValues; // values of PlotState.parameters, in scope in f
+}
+
+/** How a phase portrait shows |f|, and what it draws over the phase */
+export interface PortraitOptions {
+  lightness: PortraitLightness;
+  isochromatic: boolean;   // lines where arg f is a multiple of 30°
+  isoModulus: boolean;     // lines where log|f| is a multiple of π/6 (squaring up the cells between isochromatic lines)
+  checker: boolean;        // checkerboard of the half-unit squares of Re f and Im f
 }
 
 export interface Surface3DConfig {
@@ -72,6 +212,195 @@ export interface Surface3DConfig {
   colorBy: ColorMapping;
   zMin?: number;           // Optional z-axis clamp (min)
   zMax?: number;           // Optional z-axis clamp (max)
+  parameters?: ParameterValues; // values of PlotState.parameters, in scope in f
+}
+
+export interface RiemannSurfaceConfig {
+  expression: string;      // multivalued f(z) = ... (log, sqrt, fractional powers)
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  resolution: number;
+  sheets: number;          // branch count: how many sheets to build
+  heightBy: Extract<ColorMapping, 'real' | 'imaginary'>; // color is always arg f
+  parameters?: ParameterValues; // values of PlotState.parameters, in scope in f
+}
+
+/** Domain coloring of f painted on the Riemann sphere, with ∞ at the north pole */
+export interface RiemannSphereConfig {
+  expression: string;      // f(z) = ...
+  resolution: number;      // rows of latitude (with twice as many columns of longitude)
+  colorBy: Exclude<ColorMapping, DerivedMapping>; // unbounded mappings are squashed into (−1, 1) as t / (1 + |t|)
+  graticule: boolean;      // circles |z| = const and meridians arg z = const
+  showContours: boolean;   // draw the contour mode's curves on the sphere
+  facing: SphereFacing;
+  parameters?: ParameterValues; // values of PlotState.parameters, in scope in f
+}
+
+/** Escape-time plot of an iterated map z ↦ f(z, c), on the domain coloring grid */
+export interface EscapeTimeConfig extends Omit<DomainColoringConfig, 'colorBy'> {
+  plane: EscapePlane;      // dynamic: orbits of each z for the fixed c (Julia); parameter: orbit of `critical` for each c (Mandelbrot)
+  c: ComplexPoint;         // c of the dynamic plane (picked by clicking the parameter plane)
+  critical: ComplexPoint;  // z₀ iterated from in the parameter plane (0 for z^2 + c)
+  escapeRadius: number;    // an orbit has escaped once |z| exceeds this
+  maxIterations: number;   // orbits still bounded after this many steps count as inside
+}
+
+/** Basins of attraction of relaxed Newton z ↦ z − a·f(z)/f′(z), on the domain coloring grid */
+export interface NewtonConfig extends Omit<DomainColoringConfig, 'colorBy'> {
+  damping: number;         // relaxation factor a (1 is plain Newton)
+  maxIterations: number;   // orbits not converged after this many steps belong to no basin
+}
+
+/** A Cartesian or polar grid mapped through f */
+export interface ConformalGridConfig {
+  expression: string;      // f(z) = ...
+  kind: ConformalGridKind;
+  xMin: number;            // window of the Cartesian grid
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  rMin: number;            // radii of the polar grid (its rays cover every angle)
+  rMax: number;
+  lineCount: number;       // lines per family
+  tSteps: number;          // sample budget of each image line
+  parameters?: ParameterValues; // values of PlotState.parameters, in scope in f
+}
+
+/** Pólya vector field conj(f) of f, with streamlines and potential level curves */
+export interface VectorFieldConfig extends Omit<DomainColoringConfig, 'colorBy'> {
+  arrows: number;          // arrows per axis (resolution is the speed map and level curve grid)
+  seeds: ComplexPoint[];   // streamline start points, added by clicking the plot
+  potential: string;       // complex potential Φ(z) with Φ′ = f, or '' for no level curves
+  levels: number;          // level curves of Re Φ and of Im Φ
+}
+
+/** Taylor or Laurent expansion of f about a center, with coefficients from the Cauchy integral */
+export interface SeriesConfig extends Omit<DomainColoringConfig, 'colorBy'> {
+  kind: SeriesKind;
+  center: ComplexPoint;    // z₀
+  radius: number;          // Cauchy circle |z − z₀| = radius of a Taylor series
+  annulus: [number, number]; // inner and outer radius of a Laurent series (integrated on the middle circle)
+  order: number;           // N: powers up to (z − z₀)^N, and down to (z − z₀)^−N for a Laurent series
+  view: SeriesView;
+}
+
+/** A picture loaded as a texture, downscaled to at most a few hundred pixels a side */
+export interface TextureImage {
+  name: string;            // file name, for display
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA rows from the top, 4 bytes per pixel
+}
+
+/** Each z colored by a reference texture sampled at f(z), on the domain coloring grid */
+export interface TextureMapConfig extends Omit<DomainColoringConfig, 'colorBy' | 'overlay' | 'rendering' | 'portrait'> {
+  texture: TextureSource;
+  image: TextureImage | null; // the picture of the 'image' texture (null until one is loaded)
+  mapping: TextureMapping;
+  scale: number;           // side of a tile (cartesian), its radial depth (polar), or the |w| where tiles start (log-polar)
+  cells: number;           // squares per side of the checkerboard; the polar target has half as many rings and this many sectors
+  wrap: TextureWrap;
+}
+
+export interface VectorFieldData {
+  arrows: { x: (number | null)[]; y: (number | null)[] }; // shafts and heads, null-separated
+  speed: { x: number[]; y: number[]; z: number[][] };     // log(1 + |f|)
+  streamlines: ComplexPoint[][];                          // one polyline per seed
+  potential: { x: number[]; y: number[]; re: number[][]; im: number[][] } | null; // Φ on the grid
+  potentialMatches: boolean | null; // whether Φ′ = f (null if Φ has no symbolic derivative)
+}
+
+/** One series coefficient c_n of (z − z₀)^n */
+export interface SeriesCoefficient {
+  n: number;
+  value: ComplexPoint;
+  error: number;           // quadrature error estimate
+}
+
+export interface SeriesData {
+  coefficients: SeriesCoefficient[]; // in increasing n
+  circleRadius: number;    // radius of the circle the coefficients were integrated on
+  convergence: { inner: number; outer: number }; // estimated from the coefficients' decay (outer Infinity, inner 0, if they vanish or decay faster than geometrically)
+  partialSum: string;      // S_N(z) as an expression in z
+}
+
+/** How f behaves at ∞ (as g(w) = f(1/w) does at w = 0) */
+export interface PointAtInfinity {
+  kind: 'zero' | 'pole' | 'regular' | 'singular'; // singular: no limit (essential singularity or branch point)
+  multiplicity: number;    // order of a zero or pole at ∞ (0 otherwise)
+  value: ComplexPoint | null; // f(∞) where f is regular there
+}
+
+export interface RiemannSphereData {
+  x: number[][];           // points of the unit sphere, rows from ∞ (north pole) to 0 (south pole)
+  y: number[][];
+  z: number[][];
+  colors: number[][];      // f colored by colorBy at each point
+  zerosAndPoles: ZeroPole[]; // the finite ones
+  infinity: PointAtInfinity;
+}
+
+export type PointTriple = [ComplexPoint, ComplexPoint, ComplexPoint];
+
+/** Coefficients of f(z) = (az + b)/(cz + d) */
+export interface MobiusCoefficients {
+  a: ComplexPoint;
+  b: ComplexPoint;
+  c: ComplexPoint;
+  d: ComplexPoint;
+}
+
+export interface MobiusConfig extends MobiusCoefficients {
+  input: MobiusInput;
+  source: PointTriple;     // z₁, z₂, z₃ (points input)
+  target: PointTriple;     // their images w₁, w₂, w₃
+  linked: boolean;         // write f into the contour transforms and the domain coloring expression
+}
+
+export interface MobiusAnalysis {
+  matrix: [[ComplexPoint, ComplexPoint], [ComplexPoint, ComplexPoint]]; // scaled to determinant 1
+  trace: ComplexPoint;
+  fixedPoints: ComplexPoint[]; // one or two (∞ as re = im = Infinity), none for the identity
+  classification: MobiusClass;
+  multiplier: ComplexPoint | null; // f is conjugate to w ↦ k·w (null if parabolic or the identity)
+  expression: string;      // f in math.js syntax
+}
+
+/** Axis ranges of a plot pane */
+export interface PlotRange {
+  x: [number, number];
+  y: [number, number];
+}
+
+/** One line of a conformal grid and its image under f */
+export interface GridLineData {
+  id: string;              // shared by the line and its image
+  family: GridFamily;
+  value: number;           // the constant coordinate
+  label: string;           // e.g. "Re z = 0.5"
+  color: string;
+  preimage: { points: ComplexPoint[]; breaks: number[] };
+  image: { points: ComplexPoint[]; breaks: number[] };
+}
+
+export interface ConformalGridData {
+  lines: GridLineData[];
+  preimageRange: PlotRange;
+  imageRange: PlotRange;   // fitted to the bulk of the image (ignoring points thrown out near poles)
+}
+
+/** Stitched Riemann surface as a triangle mesh */
+export interface RiemannSurfaceData {
+  x: number[];             // Re(z) of each vertex
+  y: number[];             // Im(z) of each vertex
+  z: number[];             // height (Re or Im of f) of each vertex
+  colors: number[];        // arg f at each vertex
+  i: number[];             // triangle vertex indices
+  j: number[];
+  k: number[];
+  sheets: number;          // distinct sheets found (may be fewer than requested)
 }
 
 export interface PlotState {
@@ -79,13 +408,61 @@ export interface PlotState {
   contour: ContourConfig;
   domainColoring: DomainColoringConfig;
   surface3d: Surface3DConfig;
+  riemannSurface: RiemannSurfaceConfig;
+  escapeTime: EscapeTimeConfig;
+  newton: NewtonConfig;
+  conformalGrid: ConformalGridConfig;
+  vectorField: VectorFieldConfig;
+  series: SeriesConfig;
+  riemannSphere: RiemannSphereConfig;
+  textureMap: TextureMapConfig;
+  mobius: MobiusConfig;    // shared by the contour and domain coloring modes
+  parameters: Parameter[]; // shared by every mode
+  sweep: ParameterSweep | null; // animated parameter for domain coloring and surfaces
+}
+
+/** A zero or pole of f found over the plotted grid */
+export interface ZeroPole {
+  label: string;           // Z1, Z2, … / P1, P2, … (by distance from 0)
+  location: ComplexPoint;
+  type: 'zero' | 'pole';
+  multiplicity: number;
+}
+
+/** Sampled grid data for heatmap and surface rendering */
+export interface GridPlotData {
+  x: number[];             // Re(z) of each column
+  y: number[];             // Im(z) of each row
+  z: number[][];           // height / value per sample
+  colors: number[][];      // color value per sample
+  zerosAndPoles?: ZeroPole[]; // found on the full-resolution grid (not on coarse passes)
+  branchCuts?: ComplexPoint[][]; // polylines along jump discontinuities of f (full-resolution grid only)
+  holomorphy?: HolomorphyData; // Cauchy–Riemann check of f (full-resolution grid only)
+  image?: number[][][];    // RGBA pixel rows of a phase portrait or texture map (r, g, b from 0 to 255, alpha from 0 to 1)
+}
+
+/** Where f satisfies the Cauchy–Riemann equations over a grid */
+export interface HolomorphyData {
+  residual: number[][];    // log₁₀ |∂f/∂z̄| / (|∂f/∂z| + |∂f/∂z̄|) per sample (NaN where it was not estimated or not resolved)
+  threshold: number;       // log₁₀ residual above which a sample fails
+  failing: number;         // share of the estimated samples that fail, 0 to 1
+  verdict: HolomorphyVerdict;
+}
+
+/** Options for async (worker pool) evaluation */
+export interface AsyncEvaluationOptions {
+  onProgress?: (progress: number) => void;  // completed fraction, 0 to 1
+  onPartial?: (data: GridPlotData) => void; // coarse passes drawn before the final result
+  signal?: AbortSignal;                     // aborting cancels the job
 }
 
 // Math engine interface - what agents 2,3,4 can call
 export interface MathEngine {
   parseExpression(expr: string, variable: string): MathNode | null;
   evaluateContour(config: ContourConfig): ContourData[];
-  evaluateContourIntegral(contour: ContourEntry): ContourIntegralData | null;
+  evaluateContourIntegral(contour: ContourEntry, parameters?: ParameterValues): ContourIntegralData | null;
+  // The winding count only; the zeros and poles inside γ come from countArgumentPrincipleAsync
+  evaluateArgumentPrinciple(contour: ContourEntry, parameters?: ParameterValues): ArgumentPrincipleData | null;
   evaluateDomainColoring(config: DomainColoringConfig): {
     z: number[][];
     colors: number[][];
@@ -96,5 +473,61 @@ export interface MathEngine {
     z: number[][];
     colors: number[][];
   };
+  evaluateRiemannSurface(config: RiemannSurfaceConfig): RiemannSurfaceData;
+  evaluateConformalGrid(config: ConformalGridConfig): ConformalGridData;
+  evaluateVectorField(config: VectorFieldConfig): VectorFieldData;
+  evaluateSeries(config: SeriesConfig): SeriesData | null;
+  evaluateRiemannSphere(config: RiemannSphereConfig): RiemannSphereData;
+  // Async counterparts run on a Web Worker pool, refining coarse-to-fine; they
+  // resolve to null when superseded by a newer request of the same kind
+  evaluateDomainColoringAsync(
+    config: DomainColoringConfig,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData | null>;
+  evaluateSurface3DAsync(
+    config: Surface3DConfig,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData | null>;
+  // Sweeps precompute one frame per parameter value (cached); they resolve to
+  // null when superseded by a newer sweep
+  evaluateDomainColoringSweepAsync(
+    config: DomainColoringConfig,
+    parameter: string,
+    sweep: ParameterSweep,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData[] | null>;
+  evaluateSurface3DSweepAsync(
+    config: Surface3DConfig,
+    parameter: string,
+    sweep: ParameterSweep,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData[] | null>;
+  // Escape-time grids: one job per plane, so a parameter plane and its linked
+  // Julia set refine side by side
+  evaluateEscapeTimeAsync(
+    config: EscapeTimeConfig,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData | null>;
+  // Newton basins: colors hold root index + shade, zerosAndPoles the roots
+  evaluateNewtonAsync(
+    config: NewtonConfig,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData | null>;
+  // Series: f, S_N or log₁₀|f − S_N| over the window, as chosen by config.view
+  evaluateSeriesAsync(
+    config: SeriesConfig,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData | null>;
+  // Texture map: the texture's colors at f(z) in image, arg f in colors (for hovering)
+  evaluateTextureMapAsync(
+    config: TextureMapConfig,
+    options?: AsyncEvaluationOptions
+  ): Promise<GridPlotData | null>;
+  // Argument principle: the zeros and poles of f inside γ, searched for over a grid covering it
+  countArgumentPrincipleAsync(
+    data: ArgumentPrincipleData,
+    parameters?: ParameterValues,
+    options?: AsyncEvaluationOptions
+  ): Promise<ArgumentPrincipleCount | null>;
 }
 